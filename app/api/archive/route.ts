@@ -0,0 +1,75 @@
+/**
+ * Data Archive API
+ * GET  - Download every data source as one versioned JSON archive
+ * POST - Restore an archive: { archive, modes?: { [table]: 'merge' | 'replace' | 'skip' }, defaultMode? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  ARCHIVE_TABLES,
+  ArchiveTable,
+  RestoreMode,
+  exportArchive,
+  restoreArchive,
+  validateArchive,
+} from '@/lib/data-archive';
+
+export const maxDuration = 300;
+
+const RESTORE_MODES: RestoreMode[] = ['merge', 'replace', 'skip'];
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const archive = await exportArchive(supabase);
+    const filename = `baseline-export-${archive.exportedAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(archive), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting archive:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export data' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = validateArchive(body?.archive);
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const defaultMode: RestoreMode = body.defaultMode ?? 'merge';
+    const modes = (body.modes ?? {}) as Partial<Record<ArchiveTable, RestoreMode>>;
+    const invalid = [defaultMode, ...Object.values(modes)].find(m => !RESTORE_MODES.includes(m));
+    if (invalid) {
+      return NextResponse.json({ error: `Invalid restore mode "${invalid}"` }, { status: 400 });
+    }
+    const unknown = Object.keys(modes).find(t => !(t in ARCHIVE_TABLES));
+    if (unknown) {
+      return NextResponse.json({ error: `Unknown table "${unknown}"` }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const results = await restoreArchive(supabase, validation.archive, modes, defaultMode);
+    const failed = results.filter(r => r.error);
+
+    return NextResponse.json({ success: failed.length === 0, results }, { status: failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error('Error restoring archive:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to restore data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * GET /api/bodyspec/appointments
+ * Retrieves stored Bodyspec appointments (upcoming only unless ?all=true)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAppointments, getUpcomingAppointments } from '@/lib/supabase-bodyspec';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const connectionId = searchParams.get('connectionId') || undefined;
+    const includePast = searchParams.get('all') === 'true';
+
+    const appointments = includePast
+      ? await getAppointments({ connectionId })
+      : await getUpcomingAppointments(connectionId);
+
+    return NextResponse.json({
+      success: true,
+      appointments,
+      count: appointments.length,
+    });
+  } catch (error) {
+    console.error('Error fetching Bodyspec appointments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch appointments. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { getEntriesFromDb, getGoals } from "@/lib/supabase";
+import { getScans } from "@/lib/supabase-bodyspec";
+import { fitTrend, forecastTarget, getMetricSeries, predictAt } from "@/lib/forecast";
 import {
   getPracticeGoals,
   getBoldTakes,
@@ -10,6 +12,7 @@ import {
 } from "@/lib/practice/supabase-practice";
 import { buildContext } from "@/lib/practice/ai";
 import type { ChatMessage } from "@/lib/practice/types";
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, displayUnit, formatMeasurement, getGoalUnit, isUnitSystem, toDisplayValue } from "@/lib/units";
 
 const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
 const DEFAULT_MODELS = ["gemini-2.5-flash", "gemini-1.5-flash"];
@@ -27,7 +30,26 @@ function getModels(): string[] {
     .filter(Boolean);
 }
 
-function buildBaselineContext(entries: Awaited<ReturnType<typeof getEntriesFromDb>>, goals: Awaited<ReturnType<typeof getGoals>>): string {
+// Metrics summarized as fitted trends in the chat context
+const TREND_METRICS: Array<{ key: string; label: string; unit: string }> = [
+  { key: "weight", label: "Weight", unit: "lb" },
+  { key: "bodyFatPercentage", label: "Body Fat %", unit: "%" },
+  { key: "bodyFatMass", label: "Body Fat Mass", unit: "lb" },
+  { key: "skeletalMuscle", label: "Skeletal Muscle", unit: "lb" },
+];
+
+const FORECAST_HORIZON_DAYS = 30;
+
+function formatContextDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function buildBaselineContext(
+  entries: Awaited<ReturnType<typeof getEntriesFromDb>>,
+  goals: Awaited<ReturnType<typeof getGoals>>,
+  scans: Awaited<ReturnType<typeof getScans>>,
+  units: UnitSystem
+): string {
   const parts: string[] = [];
   const latest = entries[0];
   const previous = entries[1];
@@ -35,23 +57,61 @@ function buildBaselineContext(entries: Awaited<ReturnType<typeof getEntriesFromD
   if (latest) {
     parts.push("LATEST BIA ENTRY:");
     parts.push(`- Date: ${latest.date}`);
-    parts.push(`- Weight: ${latest.weight} lb`);
+    parts.push(`- Weight: ${formatMeasurement(latest.weight, "lb", units)}`);
     parts.push(`- Body Fat %: ${latest.bodyFatPercentage}%`);
-    parts.push(`- Skeletal Muscle: ${latest.skeletalMuscle} lb`);
+    parts.push(`- Skeletal Muscle: ${formatMeasurement(latest.skeletalMuscle, "lb", units)}`);
     parts.push(`- Visceral Fat: ${latest.visceralFat}`);
     parts.push(`- Fitness Score: ${latest.fitnessScore}`);
     if (previous) {
       parts.push("RECENT CHANGE:");
-      parts.push(`- Weight change: ${(latest.weight - previous.weight).toFixed(1)} lb`);
+      parts.push(`- Weight change: ${formatMeasurement(latest.weight - previous.weight, "lb", units)}`);
       parts.push(`- Body Fat change: ${(latest.bodyFatPercentage - previous.bodyFatPercentage).toFixed(1)}%`);
     }
     parts.push("");
   }
 
+  // Robust trend fits (BIA + DEXA, outliers dropped) rather than point-to-point changes
+  const trendLines: string[] = [];
+  const horizon = new Date(Date.now() + FORECAST_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  for (const metric of TREND_METRICS) {
+    const fit = fitTrend(getMetricSeries(entries, scans, metric.key));
+    if (!fit) continue;
+    const prediction = predictAt(fit, horizon);
+    const perWeek = fit.slopePerDay * 7;
+    trendLines.push(
+      `- ${metric.label}: ${perWeek >= 0 ? "+" : ""}${formatMeasurement(perWeek, metric.unit, units, 2)}/wk` +
+      ` (${fit.points.length} points${fit.outliers.length ? `, ${fit.outliers.length} outlier(s) ignored` : ""});` +
+      ` ${FORECAST_HORIZON_DAYS}-day forecast ${formatMeasurement(prediction.value, metric.unit, units)}` +
+      ` (80% range ${formatMeasurement(prediction.low, metric.unit, units)} to ${formatMeasurement(prediction.high, metric.unit, units)})`
+    );
+  }
+  if (trendLines.length > 0) {
+    parts.push("TRENDS (last 90 days, DEXA weighted above BIA):");
+    parts.push(...trendLines);
+    parts.push("");
+  }
+
   if (goals.length > 0) {
-    parts.push("GOALS:");
+    parts.push(`GOALS (${units} units):`);
     for (const goal of goals) {
-      parts.push(`- ${goal.metricKey}: ${goal.targetValue}`);
+      const unit = getGoalUnit(goal.metricKey);
+      const deadline = goal.targetDate ? ` by ${goal.targetDate}` : "";
+      let eta = "";
+      const fit = fitTrend(getMetricSeries(entries, scans, goal.metricKey));
+      const latestValue = fit?.points[fit.points.length - 1].value;
+      if (fit && latestValue !== undefined) {
+        const higherIsBetter = goal.startValue !== null ? goal.targetValue > goal.startValue : goal.targetValue > latestValue;
+        const forecast = forecastTarget(fit, goal.targetValue, higherIsBetter, latestValue);
+        eta = forecast.status === "met"
+          ? "; reached"
+          : forecast.status === "projected"
+            ? `; on current trend est. ${formatContextDate(forecast.date!)}` +
+              (forecast.earliest ? ` (80%: ${formatContextDate(forecast.earliest)} to ${forecast.latest ? formatContextDate(forecast.latest) : "open-ended"})` : "")
+            : "; not trending toward it";
+      }
+      parts.push(unit
+        ? `- ${goal.metricKey}: ${Number(toDisplayValue(goal.targetValue, unit, units).toFixed(1))} ${displayUnit(unit, units)}${deadline}${eta}`
+        : `- ${goal.metricKey}: ${goal.targetValue}${deadline}${eta}`);
     }
     parts.push("");
   }
@@ -64,7 +124,8 @@ async function chatWithAssistant(
   history: ChatMessage[],
   context: string,
   page: string,
-  memory?: string
+  memory?: string,
+  units: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): Promise<string> {
   const apiKey = getApiKey();
   if (!apiKey) {
@@ -75,6 +136,7 @@ async function chatWithAssistant(
 
   const systemPrompt = `You are Baseline, a concise assistant. Use the provided context to answer questions.
 If the user asks for changes, respond with specific, actionable guidance. Keep answers short and practical.
+Answer in ${units} units (${units === "metric" ? "kg, km, min/km" : "lb, miles, min/mile"}).
 
 PAGE: ${page}
 MEMORY: ${memory || "(none)"}
@@ -130,6 +192,7 @@ export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { message, history = [], page = "/", memory = "" } = body;
+    const units: UnitSystem = isUnitSystem(body.units) ? body.units : DEFAULT_UNIT_SYSTEM;
 
     if (!message) {
       return NextResponse.json({ error: "Message is required" }, { status: 400 });
@@ -156,9 +219,9 @@ export async function POST(request: Request) {
       return NextResponse.json({ response });
     }
 
-    const [entries, goals] = await Promise.all([getEntriesFromDb(), getGoals()]);
-    const context = buildBaselineContext(entries, goals);
-    const response = await chatWithAssistant(message, history, context, page, memory);
+    const [entries, goals, scans] = await Promise.all([getEntriesFromDb(), getGoals(), getScans()]);
+    const context = buildBaselineContext(entries, goals, scans, units);
+    const response = await chatWithAssistant(message, history, context, page, memory, units);
     return NextResponse.json({ response });
   } catch (error) {
     console.error("Error in AI chat:", error);
@@ -14,9 +14,27 @@ import {
     saveLiftingWorkouts,
     getLastWorkoutDate,
 } from '@/lib/supabase-hevy';
+import { getConnections, getScans, getAppointments } from '@/lib/supabase-bodyspec';
+import { shouldSyncConnection, SYNC_THRESHOLDS } from '@/lib/bodyspec-sync';
+import { syncBodyspecConnection } from '@/lib/bodyspec-worker';
+import { startSyncRun, finishSyncRun, countWrites } from '@/lib/supabase-sync-runs';
+import { processDuePendingImages } from '@/lib/ocr-worker';
+import { BodyspecScan } from '@/lib/types';
 
 export const maxDuration = 300; // Allow 5 minutes for sync
 
+interface BodyspecConnectionResult {
+    connectionId: string;
+    name: string;
+    status: 'synced' | 'skipped' | 'error';
+    reason: string;
+    scansSaved?: number;
+    appointmentsSaved?: number;
+    tokenRefreshed?: boolean;
+    nextSyncDate?: string;
+    error?: string;
+}
+
 export async function GET(request: NextRequest) {
     // Basic authorization check for Vercel Cron
     const authHeader = request.headers.get('authorization');
@@ -27,6 +45,8 @@ export async function GET(request: NextRequest) {
     const results = {
         strava: { total: 0, synced: 0, errors: 0 },
         hevy: { total: 0, synced: 0, errors: 0 },
+        bodyspec: { total: 0, synced: 0, skipped: 0, errors: 0, connections: [] as BodyspecConnectionResult[] },
+        ocr: { processed: 0, done: 0, failed: 0, retrying: 0 },
     };
 
     try {
@@ -37,6 +57,8 @@ export async function GET(request: NextRequest) {
         console.log(`[Cron] Found ${stravaConnections.length} Strava connections`);
 
         for (const connection of stravaConnections) {
+            const run = await startSyncRun('strava', 'cron', connection.id);
+            let fetched = 0;
             try {
                 // Update status to pending
                 await updateStravaSyncStatus(connection.id, 'pending');
@@ -61,18 +83,13 @@ export async function GET(request: NextRequest) {
 
                 console.log(`[Cron] Syncing Strava for ${connection.athleteId} since ${since?.toISOString() ?? 'beginning'}`);
 
-                const stravaActivities = await client.getAllRunningActivities(since);
+                const stravaActivities = await client.getAllActivities(since);
+                fetched = stravaActivities.length;
 
-                // Fetch details
+                // Fetch details and streams
                 const detailedActivities = [];
                 for (const activity of stravaActivities) {
-                    try {
-                        const detailed = await client.getActivity(activity.id);
-                        detailedActivities.push(detailed);
-                    } catch (err) {
-                        console.warn(`[Cron] Failed to fetch details for Strava activity ${activity.id}`, err);
-                        detailedActivities.push(activity);
-                    }
+                    detailedActivities.push(await client.getDetailedActivity(activity));
                     // Rate limit protection
                     if (stravaActivities.length > 10) {
                         await new Promise(resolve => setTimeout(resolve, 100));
@@ -80,15 +97,15 @@ export async function GET(request: NextRequest) {
                 }
 
                 // Convert and save
-                if (detailedActivities.length > 0) {
-                    const convertedActivities = detailedActivities.map(convertStravaActivity);
-                    await saveRunningActivities(connection.id, convertedActivities);
-                    results.strava.synced += convertedActivities.length;
-                }
+                const convertedActivities = detailedActivities.map(d => convertStravaActivity(d.activity, d.streams));
+                const savedActivities = await saveRunningActivities(connection.id, convertedActivities);
+                results.strava.synced += convertedActivities.length;
 
                 await updateStravaSyncStatus(connection.id, 'connected');
+                await finishSyncRun(run, { fetched, ...countWrites(savedActivities.map(a => a.createdAt), run) });
             } catch (err) {
                 console.error(`[Cron] Error syncing Strava connection ${connection.id}:`, err);
+                await finishSyncRun(run, { fetched }, err);
                 await updateStravaSyncStatus(connection.id, 'error');
                 results.strava.errors++;
             }
@@ -102,6 +119,8 @@ export async function GET(request: NextRequest) {
         console.log(`[Cron] Found ${hevyConnections.length} Hevy connections`);
 
         for (const connection of hevyConnections) {
+            const run = await startSyncRun('hevy', 'cron', connection.id);
+            let fetched = 0;
             try {
                 await updateHevySyncStatus(connection.id, 'pending');
 
@@ -122,27 +141,99 @@ export async function GET(request: NextRequest) {
 
                 // Fetch workouts
                 const hevyWorkouts = await client.getAllWorkouts(since);
+                fetched = hevyWorkouts.length;
 
-                if (hevyWorkouts.length > 0) {
-                    // Convert
-                    const convertedWorkouts = await Promise.all(
-                        hevyWorkouts.map(w => convertHevyWorkout(w, client))
-                    );
+                // Convert
+                const convertedWorkouts = await Promise.all(
+                    hevyWorkouts.map(w => convertHevyWorkout(w, client))
+                );
 
-                    // Save
-                    await saveLiftingWorkouts(connection.id, convertedWorkouts);
-                    results.hevy.synced += convertedWorkouts.length;
-                }
+                // Save
+                const savedWorkouts = await saveLiftingWorkouts(connection.id, convertedWorkouts);
+                results.hevy.synced += convertedWorkouts.length;
 
                 await updateHevySyncStatus(connection.id, 'connected');
+                await finishSyncRun(run, { fetched, ...countWrites(savedWorkouts.map(w => w.createdAt), run) });
             } catch (err) {
                 console.error(`[Cron] Error syncing Hevy connection ${connection.id}:`, err);
+                await finishSyncRun(run, { fetched }, err);
                 await updateHevySyncStatus(connection.id, 'error');
                 results.hevy.errors++;
             }
             results.hevy.total++;
         }
 
+        // ========================================
+        // BODYSPEC SYNC (smart cadence, see lib/bodyspec-sync.ts)
+        // ========================================
+        const bodyspecConnections = await getConnections();
+        console.log(`[Cron] Found ${bodyspecConnections.length} Bodyspec connections`);
+
+        if (bodyspecConnections.length > 0) {
+            // Latest scan per connection (scans come newest first)
+            const latestScans = new Map<string, BodyspecScan>();
+            for (const scan of await getScans()) {
+                if (!latestScans.has(scan.connectionId)) latestScans.set(scan.connectionId, scan);
+            }
+
+            // Recent and upcoming appointments drive post-appointment syncs
+            const appointmentsSince = new Date();
+            appointmentsSince.setDate(appointmentsSince.getDate() - SYNC_THRESHOLDS.POST_APPOINTMENT_WINDOW_DAYS - 1);
+            const appointments = await getAppointments({ since: appointmentsSince.toISOString() });
+
+            for (const connection of bodyspecConnections) {
+                results.bodyspec.total++;
+                const check = shouldSyncConnection(connection, latestScans.get(connection.id) ?? null, appointments);
+
+                if (!check.shouldSync) {
+                    results.bodyspec.skipped++;
+                    results.bodyspec.connections.push({
+                        connectionId: connection.id,
+                        name: connection.tokenName,
+                        status: 'skipped',
+                        reason: check.reason,
+                        nextSyncDate: check.nextSyncDate?.toISOString(),
+                    });
+                    continue;
+                }
+
+                try {
+                    console.log(`[Cron] Syncing Bodyspec for ${connection.tokenName}: ${check.reason}`);
+                    const synced = await syncBodyspecConnection(connection, { trigger: 'cron' });
+                    results.bodyspec.synced += synced.scans.length;
+                    results.bodyspec.connections.push({
+                        connectionId: connection.id,
+                        name: connection.tokenName,
+                        status: 'synced',
+                        reason: check.reason,
+                        scansSaved: synced.scans.length,
+                        appointmentsSaved: synced.appointments.length,
+                        tokenRefreshed: synced.tokenRefreshed,
+                    });
+                } catch (err) {
+                    console.error(`[Cron] Error syncing Bodyspec connection ${connection.id}:`, err);
+                    results.bodyspec.errors++;
+                    results.bodyspec.connections.push({
+                        connectionId: connection.id,
+                        name: connection.tokenName,
+                        status: 'error',
+                        reason: check.reason,
+                        error: err instanceof Error ? err.message : (err as { message?: string }).message ?? String(err),
+                    });
+                }
+            }
+        }
+
+        // ========================================
+        // PENDING IMAGE OCR (retries and anything missed)
+        // ========================================
+        try {
+            results.ocr = await processDuePendingImages();
+            console.log(`[Cron] Processed ${results.ocr.processed} pending images`);
+        } catch (err) {
+            console.error('[Cron] Error processing pending images:', err);
+        }
+
         return NextResponse.json({
             success: true,
             results,
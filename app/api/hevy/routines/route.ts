@@ -1,21 +1,134 @@
 /**
  * Hevy Routines API
- * POST - Create a new routine from a generated workout
+ * POST - Create a new routine from a generated workout, or a routine folder
+ *        holding every session of a lifting program (pushing the program
+ *        again updates its routines in place)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getHevyConnections } from '@/lib/supabase-hevy';
 import { HevyClient } from '@/lib/hevy-client';
-import { GeneratedLiftingWorkout } from '@/lib/workout-generator';
+import { GeneratedExercise, GeneratedLiftingWorkout } from '@/lib/workout-generator';
+import { LiftingProgram } from '@/lib/lifting-program';
 
 const LBS_TO_KG = 0.453592;
 
+type HevyRoutineExercise = {
+    exercise_template_id: string;
+    superset_id: null;
+    rest_seconds: number;
+    notes: string;
+    sets: Array<{
+        type: 'normal';
+        weight_kg: number | null;
+        reps: number;
+    }>;
+};
+
+/**
+ * Map generated exercises to Hevy format, skipping any without a template
+ */
+async function mapExercises(client: HevyClient, generated: GeneratedExercise[]): Promise<HevyRoutineExercise[]> {
+    const exercises: HevyRoutineExercise[] = [];
+
+    for (const ex of generated) {
+        const templateId = await client.getTemplateIdByName(ex.name);
+
+        if (templateId) {
+            // Routine sets have no RPE field, so program targets go in the notes
+            const rpe = ex.sets[0]?.rpe;
+            exercises.push({
+                exercise_template_id: templateId,
+                superset_id: null,
+                rest_seconds: 90,
+                notes: rpe !== undefined ? `Target RPE ${rpe}` : '',
+                sets: ex.sets.map(set => ({
+                    type: 'normal' as const,
+                    weight_kg: set.weightLbs ? Math.round(set.weightLbs * LBS_TO_KG * 10) / 10 : null,
+                    reps: set.targetReps,
+                })),
+            });
+        } else {
+            console.warn(`Could not find Hevy template for exercise: ${ex.name}`);
+        }
+    }
+
+    return exercises;
+}
+
+/**
+ * Find a routine folder by title, creating it if missing
+ * Returns undefined if folders can't be read or created, so routines still get made.
+ */
+async function findOrCreateFolder(client: HevyClient, title: string): Promise<string | undefined> {
+    try {
+        const folders = await client.getRoutineFolders();
+        const existing = folders.find(f => f.title.toLowerCase() === title.toLowerCase());
+        if (existing) {
+            return existing.id;
+        }
+        const newFolder = await client.createRoutineFolder(title);
+        return newFolder.id;
+    } catch (folderError) {
+        console.warn('Could not get/create folder, creating routine without folder:', folderError);
+        return undefined;
+    }
+}
+
+/**
+ * Push every session of a program into its own routine folder
+ * Sessions already in the folder (matched by title) are updated rather than duplicated.
+ */
+async function createProgramRoutines(client: HevyClient, program: LiftingProgram) {
+    const folderId = await findOrCreateFolder(client, program.folderName);
+    const existing = new Map<string, string>();
+    if (folderId !== undefined) {
+        (await client.getRoutines())
+            .filter(r => String(r.folder_id) === String(folderId))
+            .forEach(r => existing.set(r.title.toLowerCase(), r.id));
+    }
+
+    const routines = [];
+    let routinesUpdated = 0;
+    let exercisesMapped = 0;
+    let exercisesSkipped = 0;
+
+    for (const session of program.sessions) {
+        const exercises = await mapExercises(client, session.exercises);
+        exercisesMapped += exercises.length;
+        exercisesSkipped += session.exercises.length - exercises.length;
+        if (exercises.length === 0) continue;
+
+        const routine = {
+            title: session.name,
+            notes: `${program.name} starting ${program.startDate}: week ${session.week}, day ${session.day}${session.isDeload ? ' (deload)' : ''}, RPE ${session.rpe}`,
+            exercises,
+        };
+        const existingId = existing.get(session.name.toLowerCase());
+        if (existingId) {
+            routines.push(await client.updateRoutine(existingId, routine));
+            routinesUpdated++;
+        } else {
+            routines.push(await client.createRoutine({ ...routine, folder_id: folderId }));
+        }
+    }
+
+    return { routines, routinesUpdated, exercisesMapped, exercisesSkipped };
+}
+
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { workout } = body as { workout: GeneratedLiftingWorkout };
+        const { workout, program } = body as { workout?: GeneratedLiftingWorkout; program?: LiftingProgram };
 
-        if (!workout || !workout.exercises || workout.exercises.length === 0) {
+        if (program) {
+            if (!program.sessions || program.sessions.length === 0) {
+                return NextResponse.json(
+                    { error: 'Invalid program data' },
+                    { status: 400 }
+                );
+            }
+        } else if (!workout || !workout.exercises || workout.exercises.length === 0) {
             return NextResponse.json(
                 { error: 'Invalid workout data' },
                 { status: 400 }
@@ -34,39 +147,28 @@ export async function POST(request: NextRequest) {
         const connection = connections[0];
         const client = new HevyClient(connection.apiKey);
 
-        // Map exercises to Hevy format
-        const exercises: Array<{
-            exercise_template_id: string;
-            superset_id: null;
-            rest_seconds: number;
-            notes: string;
-            sets: Array<{
-                type: 'normal';
-                weight_kg: number | null;
-                reps: number;
-            }>;
-        }> = [];
-
-        for (const ex of workout.exercises) {
-            const templateId = await client.getTemplateIdByName(ex.name);
-
-            if (templateId) {
-                exercises.push({
-                    exercise_template_id: templateId,
-                    superset_id: null,
-                    rest_seconds: 90,
-                    notes: '',
-                    sets: ex.sets.map(set => ({
-                        type: 'normal' as const,
-                        weight_kg: set.weightLbs ? Math.round(set.weightLbs * LBS_TO_KG * 10) / 10 : null,
-                        reps: set.targetReps,
-                    })),
-                });
-            } else {
-                console.warn(`Could not find Hevy template for exercise: ${ex.name}`);
+        if (program) {
+            const result = await createProgramRoutines(client, program);
+            if (result.routines.length === 0) {
+                return NextResponse.json(
+                    { error: 'Could not map any exercises to Hevy templates' },
+                    { status: 400 }
+                );
             }
+
+            return NextResponse.json({
+                success: true,
+                folder: program.folderName,
+                routinesCreated: result.routines.length - result.routinesUpdated,
+                routinesUpdated: result.routinesUpdated,
+                exercisesMapped: result.exercisesMapped,
+                exercisesSkipped: result.exercisesSkipped,
+            });
         }
 
+        const generated = workout as GeneratedLiftingWorkout;
+        const exercises = await mapExercises(client, generated.exercises);
+
         if (exercises.length === 0) {
             return NextResponse.json(
                 { error: 'Could not map any exercises to Hevy templates' },
@@ -76,23 +178,9 @@ export async function POST(request: NextRequest) {
 
         // Add date to routine name
         const today = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-        const routineTitle = `${workout.name} - ${today}`;
-
-        // Try to find or create the "Custom Routines" folder
-        let folderId: string | undefined;
-        try {
-            const folders = await client.getRoutineFolders();
-            const customFolder = folders.find(f => f.title.toLowerCase() === 'custom routines');
-            if (customFolder) {
-                folderId = customFolder.id;
-            } else {
-                // Create the folder
-                const newFolder = await client.createRoutineFolder('Custom Routines');
-                folderId = newFolder.id;
-            }
-        } catch (folderError) {
-            console.warn('Could not get/create folder, creating routine without folder:', folderError);
-        }
+        const routineTitle = `${generated.name} - ${today}`;
+
+        const folderId = await findOrCreateFolder(client, 'Custom Routines');
 
         // Create the routine
         const result = await client.createRoutine({
@@ -106,7 +194,7 @@ export async function POST(request: NextRequest) {
             success: true,
             routine: result,
             exercisesMapped: exercises.length,
-            exercisesSkipped: workout.exercises.length - exercises.length,
+            exercisesSkipped: generated.exercises.length - exercises.length,
         });
 
     } catch (error: unknown) {
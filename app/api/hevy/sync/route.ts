@@ -10,6 +10,7 @@ import {
     updateHevySyncStatus,
     saveLiftingWorkouts,
 } from '@/lib/supabase-hevy';
+import { startSyncRun, finishSyncRun, countWrites } from '@/lib/supabase-sync-runs';
 
 export async function POST(request: NextRequest) {
     try {
@@ -34,6 +35,8 @@ export async function POST(request: NextRequest) {
 
         // Update status to pending
         await updateHevySyncStatus(connectionId, 'pending');
+        const run = await startSyncRun('hevy', 'manual', connectionId);
+        let fetched = 0;
 
         try {
             // Create Hevy client
@@ -42,6 +45,7 @@ export async function POST(request: NextRequest) {
             // Always fetch ALL workouts - the upsert will update existing records
             // This ensures we always have the latest data including sets/reps/bodyparts
             const hevyWorkouts = await client.getAllWorkouts();
+            fetched = hevyWorkouts.length;
             console.log(`[Hevy Sync] Fetched ${hevyWorkouts.length} workouts from API`);
 
             // Pre-fetch exercise templates to populate cache and avoid rate limiting
@@ -65,6 +69,7 @@ export async function POST(request: NextRequest) {
 
             // Update sync status
             await updateHevySyncStatus(connectionId, 'connected');
+            await finishSyncRun(run, { fetched, ...countWrites(savedWorkouts.map(w => w.createdAt), run) });
 
             return NextResponse.json({
                 success: true,
@@ -73,6 +78,7 @@ export async function POST(request: NextRequest) {
             });
         } catch (syncError) {
             console.error('Error during Hevy sync:', syncError);
+            await finishSyncRun(run, { fetched }, syncError);
             await updateHevySyncStatus(connectionId, 'error');
             throw syncError;
         }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { calculateSleepScore } from '@/lib/sleep-scoring';
 import { saveSleepEntry, getSleepPreferences } from '@/lib/supabase-sleep';
+import { startSyncRun, finishSyncRun, countWrites } from '@/lib/supabase-sync-runs';
 import { SleepStages } from '@/lib/types';
 
 // Type definitions for Health Auto Export payload
@@ -17,6 +18,9 @@ interface WebhookPayload {
 }
 
 export async function POST(req: NextRequest) {
+    const run = await startSyncRun('sleep', 'webhook');
+    let fetched = 0;
+
     try {
         const payload: WebhookPayload = await req.json();
 
@@ -24,9 +28,11 @@ export async function POST(req: NextRequest) {
         const sleepMetric = payload.data.metrics.find(m => m.name === 'sleep_analysis');
 
         if (!sleepMetric || !sleepMetric.data || sleepMetric.data.length === 0) {
+            await finishSyncRun(run, { fetched });
             return NextResponse.json({ message: 'No sleep data found in payload' }, { status: 200 });
         }
 
+        fetched = sleepMetric.data.length;
         const preferences = await getSleepPreferences();
         const results = [];
         const invalidSamples: any[] = [];
@@ -194,6 +200,8 @@ export async function POST(req: NextRequest) {
             }
         }
 
+        await finishSyncRun(run, { fetched, ...countWrites(results.map(r => r.created_at), run) });
+
         if (results.length === 0) {
             return NextResponse.json({
                 message: 'No sleep entries created',
@@ -205,6 +213,7 @@ export async function POST(req: NextRequest) {
 
     } catch (error: any) {
         console.error('Error processing webhook:', error);
+        await finishSyncRun(run, { fetched }, error);
         return NextResponse.json({
             error: 'Internal Server Error',
             details: error.message || JSON.stringify(error, Object.getOwnPropertyNames(error))
@@ -1,6 +1,6 @@
 /**
  * Strava Activities API
- * GET - Retrieve stored running activities
+ * GET - Retrieve stored activities: runs as `activities`, rides/swims/other sports as `otherActivities`
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,9 +11,12 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const connectionId = searchParams.get('connectionId') || undefined;
 
-        const activities = await getRunningActivities(connectionId);
+        const allActivities = await getRunningActivities(connectionId, 'all');
 
-        return NextResponse.json({ activities });
+        return NextResponse.json({
+            activities: allActivities.filter(a => a.sport === 'run'),
+            otherActivities: allActivities.filter(a => a.sport !== 'run'),
+        });
     } catch (error) {
         console.error('Error fetching running activities:', error);
         return NextResponse.json(
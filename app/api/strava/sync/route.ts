@@ -1,6 +1,7 @@
 /**
  * Strava Sync API
  * POST - Fetch new activities from Strava and save to database
+ *        ({ full: true } re-fetches the whole history)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,11 +13,12 @@ import {
     saveRunningActivities,
     getLastActivityDate,
 } from '@/lib/supabase-strava';
+import { startSyncRun, finishSyncRun, countWrites } from '@/lib/supabase-sync-runs';
 
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { connectionId } = body;
+        const { connectionId, full } = body;
 
         if (!connectionId) {
             return NextResponse.json(
@@ -36,6 +38,8 @@ export async function POST(request: NextRequest) {
 
         // Update status to pending
         await updateStravaSyncStatus(connectionId, 'pending');
+        const run = await startSyncRun('strava', 'manual', connectionId);
+        let fetched = 0;
 
         try {
             // Create Strava client with token refresh callback
@@ -49,28 +53,23 @@ export async function POST(request: NextRequest) {
             );
 
             // Get the last activity date to fetch only new activities
-            const lastActivityDate = await getLastActivityDate(connectionId);
+            const lastActivityDate = full ? null : await getLastActivityDate(connectionId);
 
-            // Fetch activities since last sync (or all if first sync)
+            // Fetch activities since last sync (or all if first or full sync)
             // Subtract a day to account for timezone issues and ensure we don't miss any
             const since = lastActivityDate
                 ? new Date(lastActivityDate.getTime() - 24 * 60 * 60 * 1000)
                 : undefined;
 
-            const stravaActivities = await client.getAllRunningActivities(since);
+            const stravaActivities = await client.getAllActivities(since);
+            fetched = stravaActivities.length;
 
-            // Fetch detailed data for each activity (includes HR, cadence, elev_high/low)
+            // Fetch detailed data and streams for each activity (includes HR, cadence, elev_high/low)
             // The list endpoint doesn't include these fields
             // Process sequentially to avoid rate limiting (Strava: 100 req/15min)
             const detailedActivities = [];
             for (const activity of stravaActivities) {
-                try {
-                    const detailed = await client.getActivity(activity.id);
-                    detailedActivities.push(detailed);
-                } catch (error) {
-                    console.warn(`Failed to fetch details for activity ${activity.id}:`, error);
-                    detailedActivities.push(activity); // Fall back to basic data
-                }
+                detailedActivities.push(await client.getDetailedActivity(activity));
                 // Small delay between requests to be kind to API
                 if (stravaActivities.length > 10) {
                     await new Promise(resolve => setTimeout(resolve, 100));
@@ -78,19 +77,21 @@ export async function POST(request: NextRequest) {
             }
 
             // Convert and save activities
-            const convertedActivities = detailedActivities.map(convertStravaActivity);
+            const convertedActivities = detailedActivities.map(d => convertStravaActivity(d.activity, d.streams));
             const savedActivities = await saveRunningActivities(connectionId, convertedActivities);
 
             // Update sync status
             await updateStravaSyncStatus(connectionId, 'connected');
+            await finishSyncRun(run, { fetched, ...countWrites(savedActivities.map(a => a.createdAt), run) });
 
             return NextResponse.json({
                 success: true,
                 activitiesCount: savedActivities.length,
-                message: `Synced ${savedActivities.length} running activities`,
+                message: `Synced ${savedActivities.length} activities`,
             });
         } catch (syncError) {
             console.error('Error during Strava sync:', syncError);
+            await finishSyncRun(run, { fetched }, syncError);
             await updateStravaSyncStatus(connectionId, 'error');
             throw syncError;
         }
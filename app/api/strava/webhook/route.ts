@@ -0,0 +1,107 @@
+/**
+ * Strava Webhook API
+ * GET  - Subscription verification handshake
+ * POST - Activity create/update/delete events, ingested without waiting for the next sync
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { STRAVA_WEBHOOK, StravaWebhookEvent } from '@/lib/strava-config';
+import { StravaClient, convertStravaActivity } from '@/lib/strava-client';
+import {
+    getStravaConnectionByAthleteId,
+    updateStravaTokens,
+    updateStravaSyncStatus,
+    saveRunningActivities,
+    deleteRunningActivity,
+} from '@/lib/supabase-strava';
+import { startSyncRun, finishSyncRun, countWrites } from '@/lib/supabase-sync-runs';
+
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const mode = searchParams.get('hub.mode');
+    const verifyToken = searchParams.get('hub.verify_token');
+    const challenge = searchParams.get('hub.challenge');
+
+    if (mode !== 'subscribe' || !challenge || !STRAVA_WEBHOOK.verifyToken || verifyToken !== STRAVA_WEBHOOK.verifyToken) {
+        return NextResponse.json({ error: 'Verification failed' }, { status: 403 });
+    }
+
+    return NextResponse.json({ 'hub.challenge': challenge });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const event: StravaWebhookEvent = await request.json();
+
+        if (STRAVA_WEBHOOK.subscriptionId && String(event.subscription_id) !== STRAVA_WEBHOOK.subscriptionId) {
+            console.warn(`[Strava webhook] Ignoring event from subscription ${event.subscription_id}`);
+            return NextResponse.json({ success: true, ignored: true });
+        }
+
+        // Strava expects a 200 within 2 seconds, so fetch the activity after responding
+        after(async () => {
+            await processStravaEvent(event);
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error receiving Strava webhook:', error);
+        return NextResponse.json(
+            { error: 'Invalid webhook payload' },
+            { status: 400 }
+        );
+    }
+}
+
+async function processStravaEvent(event: StravaWebhookEvent): Promise<void> {
+    const connection = await getStravaConnectionByAthleteId(String(event.owner_id));
+    if (!connection) {
+        console.warn(`[Strava webhook] No connection for athlete ${event.owner_id}`);
+        return;
+    }
+
+    // The athlete revoked access; syncs will fail until they reconnect
+    if (event.object_type === 'athlete') {
+        if (event.updates?.authorized === 'false') {
+            await updateStravaSyncStatus(connection.id, 'error');
+        }
+        return;
+    }
+
+    const stravaId = String(event.object_id);
+    const run = await startSyncRun('strava', 'webhook', connection.id);
+    let fetched = 0;
+
+    try {
+        // Deleted, or made private (unreadable with the activity:read scope)
+        if (event.aspect_type === 'delete' || event.updates?.private === 'true') {
+            const removed = await deleteRunningActivity(connection.id, stravaId);
+            console.log(`[Strava webhook] Removed ${removed} activity ${stravaId}`);
+            await finishSyncRun(run, { fetched });
+            return;
+        }
+
+        const client = new StravaClient(
+            connection.accessToken,
+            connection.refreshToken,
+            new Date(connection.tokenExpiresAt).getTime() / 1000,
+            async (tokens) => {
+                await updateStravaTokens(connection.id, tokens);
+            }
+        );
+
+        const activity = await client.getActivity(event.object_id);
+        fetched = 1;
+
+        // Missing streams only cost the best efforts
+        const streams = await client.getActivityStreams(event.object_id).catch(error => {
+            console.warn(`[Strava webhook] Failed to fetch streams for activity ${stravaId}:`, error);
+            return null;
+        });
+        const saved = await saveRunningActivities(connection.id, [convertStravaActivity(activity, streams)]);
+        await finishSyncRun(run, { fetched, ...countWrites(saved.map(a => a.createdAt), run) });
+    } catch (error) {
+        console.error(`[Strava webhook] Error processing ${event.aspect_type} for activity ${stravaId}:`, error);
+        await finishSyncRun(run, { fetched }, error);
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * GET /api/sync-runs
+ * Retrieves the most recent integration sync runs (?limit=, default 100)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyncRuns } from '@/lib/supabase-sync-runs';
+
+const MAX_LIMIT = 500;
+
+export async function GET(request: NextRequest) {
+  try {
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : 100;
+
+    const runs = await getSyncRuns(limit);
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      count: runs.length,
+    });
+  } catch (error) {
+    console.error('Error fetching sync runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync runs. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
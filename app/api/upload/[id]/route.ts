@@ -0,0 +1,43 @@
+import { NextResponse, after } from 'next/server';
+import { getPendingImage } from '@/lib/supabase';
+import { processPendingImage } from '@/lib/ocr-worker';
+
+export const maxDuration = 300; // Retries run after the response is sent
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const image = await getPendingImage(id);
+
+    if (!image) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    // Polling doubles as the retry trigger once backoff has elapsed
+    const isDue = (image.status === 'pending' || image.status === 'processing') &&
+      (!image.nextAttemptAt || new Date(image.nextAttemptAt) <= new Date());
+    if (isDue) {
+      after(async () => {
+        await processPendingImage(id);
+      });
+    }
+
+    return NextResponse.json({
+      id: image.id,
+      status: image.status,
+      attempts: image.attempts,
+      nextAttemptAt: image.nextAttemptAt,
+      lastError: image.lastError,
+      entryId: image.entryId,
+      validationIssues: image.validationIssues,
+      createdAt: image.createdAt,
+      processedAt: image.processedAt,
+    });
+  } catch (error) {
+    console.error('Error fetching upload status:', error);
+    return NextResponse.json({ error: 'Failed to fetch upload status' }, { status: 500 });
+  }
+}
@@ -1,9 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { processPendingImage } from '@/lib/ocr-worker';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
+export const maxDuration = 300; // OCR runs after the response is sent
+
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
@@ -98,6 +101,8 @@ export async function POST(request: NextRequest) {
     const ext = contentType.split('/')[1] || 'png';
     const filename = `pending/${timestamp}.${ext}`;
 
+    const id = timestamp.toString();
+
     // Upload to Supabase storage
     const { error: uploadError } = await supabase.storage
       .from('bia-images')
@@ -106,46 +111,52 @@ export async function POST(request: NextRequest) {
         upsert: false
       });
 
+    let method: 'storage' | 'database' = 'storage';
     if (uploadError) {
-      // If bucket doesn't exist, create a pending entry in DB instead
-      if (uploadError.message.includes('not found') || uploadError.message.includes('Bucket')) {
-        // Store base64 in database as fallback
-        const base64 = buffer.toString('base64');
-        const { error: dbError } = await supabase
-          .from('pending_images')
-          .insert({
-            id: timestamp.toString(),
-            data: base64,
-            content_type: contentType,
-            created_at: new Date().toISOString()
-          });
-
-        if (dbError) {
-          console.error('DB insert error:', dbError);
-          return NextResponse.json({
-            success: false,
-            error: 'Storage not configured. Please upload manually.'
-          }, { status: 500 });
-        }
-
+      // Bucket missing: store base64 in the queue row instead
+      if (!uploadError.message.includes('not found') && !uploadError.message.includes('Bucket')) {
+        console.error('Storage upload error:', uploadError);
         return NextResponse.json({
-          success: true,
-          message: 'Image queued! Open Baseline to process.',
-          method: 'database'
-        });
+          success: false,
+          error: 'Failed to store image: ' + uploadError.message
+        }, { status: 500 });
       }
+      method = 'database';
+    }
 
-      console.error('Storage upload error:', uploadError);
+    // Queue the image by reference, or inline when there is no bucket
+    const { error: dbError } = await supabase
+      .from('pending_images')
+      .insert({
+        id,
+        ...(method === 'storage' ? { storage_path: filename } : { data: buffer.toString('base64') }),
+        content_type: contentType,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      });
+
+    if (dbError) {
+      console.error('DB insert error:', dbError);
       return NextResponse.json({
         success: false,
-        error: 'Failed to store image: ' + uploadError.message
+        error: method === 'storage'
+          ? 'Image stored but could not be queued for processing.'
+          : 'Storage not configured. Please upload manually.'
       }, { status: 500 });
     }
 
+    // Run OCR on the server once the response is sent
+    after(async () => {
+      await processPendingImage(id);
+    });
+
     return NextResponse.json({
       success: true,
-      message: 'Image uploaded! Open Baseline to process.',
-      filename
+      message: 'Image queued for processing.',
+      method,
+      id,
+      status: 'pending',
+      statusUrl: `/api/upload/${id}`
     });
   } catch (error) {
     console.error('Upload error:', error);
@@ -160,6 +171,6 @@ export async function GET() {
   return NextResponse.json({
     status: 'ok',
     endpoint: 'Baseline Upload API',
-    usage: 'POST with multipart/form-data, field name: image'
+    usage: 'POST with multipart/form-data, field name: image. Poll GET /api/upload/{id} for processing status.'
   });
 }
@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { CalendarPageClient } from '@/components/calendar/calendar-page-client';
 import { DesktopGuard } from '@/components/calendar/desktop-guard';
+import { getUpcomingAppointments } from '@/lib/supabase-bodyspec';
 
 export default async function CalendarPage() {
     // Server-side fetch without Auth check (Public Access)
@@ -12,10 +13,13 @@ export default async function CalendarPage() {
         .select('*')
         .order('start_date', { ascending: true });
 
+    // Booked DEXA scans, stored by the Bodyspec sync
+    const bodyspecAppointments = await getUpcomingAppointments();
+
     return (
         <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-950 transition-colors">
             <DesktopGuard>
-                <CalendarPageClient initialEvents={events || []} />
+                <CalendarPageClient initialEvents={events || []} bodyspecAppointments={bodyspecAppointments} />
             </DesktopGuard>
         </div>
     );
@@ -5,20 +5,28 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 // FileUpload import removed as it is now used inside IntegrationTabs
 import DataTable from '@/components/DataTable';
+import DexaSchedule from '@/components/DexaSchedule';
+import InsightsBar from '@/components/InsightsBar';
 import IntegrationTabs from '@/components/IntegrationTabs';
 import WorkoutTable from '@/components/WorkoutTable';
+import TrainingPlan from '@/components/TrainingPlan';
+import LiftingProgram from '@/components/LiftingProgram';
 import { SleepTable } from '@/components/SleepTable';
 import ValidationWarning from '@/components/ValidationWarning';
-import { BIAEntry, BodyspecScan, RunningActivity, LiftingWorkout, SleepEntry, CorrelationResult, Insight } from '@/lib/types';
+import { BIAEntry, BodyspecAppointment, BodyspecScan, RunningActivity, LiftingWorkout, SleepEntry, CorrelationResult, Insight } from '@/lib/types';
 import { parsePDFFile } from '@/lib/client-pdf-parser';
-import { ValidationIssue } from '@/lib/pdf-parser';
+import { ValidationIssue, getLowConfidenceFields } from '@/lib/pdf-parser';
 import ThemeToggle from '@/components/ThemeToggle';
+import DataBackup from '@/components/DataBackup';
+import UnitToggle from '@/components/UnitToggle';
 import ChatToggleButton from '@/components/ChatToggleButton';
-import { getEntriesFromDb, saveEntryToDb, deleteEntryFromDb, migrateFromLocalStorage, getPendingImages, deletePendingImage, saveOcrDebug, getGoals, saveGoal, deleteGoal, Goal } from '@/lib/supabase';
+import { getEntriesFromDb, saveEntryToDb, deleteEntryFromDb, migrateFromLocalStorage, getGoals, getGoalHistory, saveGoal, archiveGoal, deleteGoal, Goal, GoalDetails, GoalStatus, getRangeOverrides, saveRangeOverride, deleteRangeOverride, RangeOverride } from '@/lib/supabase';
 import { correlateMeasurements } from '@/lib/correlation-utils';
 import { generateVolumeEfficiencyInsights, generateBalanceInsights, generatePeriodizationInsights } from '@/lib/correlation-insights';
 import { analyzeBodyPartBalance } from '@/lib/correlation-utils';
+import { generateProgressionInsights, getExerciseProgressions } from '@/lib/exercise-progression';
 import { useBaselineData } from '@/lib/use-baseline-data';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
 import ViewToggle, { ViewMode } from '@/components/ViewToggle';
 
 export default function Home() {
@@ -29,17 +37,22 @@ export default function Home() {
   const [entries, setEntries] = useState<BIAEntry[]>([]);
   const [bodyspecScans, setBodyspecScans] = useState<BodyspecScan[]>([]);
   const [bodyspecConnections, setBodyspecConnections] = useState<any[]>([]);
+  const [bodyspecAppointments, setBodyspecAppointments] = useState<BodyspecAppointment[]>([]);
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [goalHistory, setGoalHistory] = useState<Goal[]>([]);
+  const [rangeOverrides, setRangeOverrides] = useState<RangeOverride[]>([]);
   // Workout tracking state
   const [stravaConnections, setStravaConnections] = useState<any[]>([]);
   const [hevyConnections, setHevyConnections] = useState<any[]>([]);
   const [runningActivities, setRunningActivities] = useState<RunningActivity[]>([]);
+  const [otherActivities, setOtherActivities] = useState<RunningActivity[]>([]);
   const [liftingWorkouts, setLiftingWorkouts] = useState<LiftingWorkout[]>([]);
   // Sleep tracking state
   const [sleepEntries, setSleepEntries] = useState<SleepEntry[]>([]);
   // Correlation tracking state
   const [correlations, setCorrelations] = useState<CorrelationResult[]>([]);
   const [insights, setInsights] = useState<Insight[]>([]);
+  const [units] = useUnitSystem();
 
   // Sync local state from SWR cache when it updates
   useEffect(() => {
@@ -47,10 +60,14 @@ export default function Home() {
       setEntries(cachedData.entries);
       setBodyspecScans(cachedData.bodyspecScans);
       setBodyspecConnections(cachedData.bodyspecConnections);
+      setBodyspecAppointments(cachedData.bodyspecAppointments);
       setGoals(cachedData.goals);
+      setGoalHistory(cachedData.goalHistory);
+      setRangeOverrides(cachedData.rangeOverrides);
       setStravaConnections(cachedData.stravaConnections);
       setHevyConnections(cachedData.hevyConnections);
       setRunningActivities(cachedData.runningActivities);
+      setOtherActivities(cachedData.otherActivities);
       setLiftingWorkouts(cachedData.liftingWorkouts);
       setSleepEntries(cachedData.sleepEntries);
     }
@@ -80,6 +97,7 @@ export default function Home() {
     issues: ValidationIssue[];
     entry: BIAEntry;
     rawText: string;
+    imageUrl: string;
     fileIndex: number;
     totalFiles: number;
   } | null>(null);
@@ -205,12 +223,19 @@ export default function Home() {
         }
       }
 
-      // Load scans
-      const scansRes = await fetch('/api/bodyspec/scans');
+      // Load scans and upcoming appointments
+      const [scansRes, apptsRes] = await Promise.all([
+        fetch('/api/bodyspec/scans'),
+        fetch('/api/bodyspec/appointments'),
+      ]);
       if (scansRes.ok) {
         const scansData = await scansRes.json();
         setBodyspecScans(scansData.scans || []);
       }
+      if (apptsRes.ok) {
+        const apptsData = await apptsRes.json();
+        setBodyspecAppointments(apptsData.appointments || []);
+      }
     } catch (err) {
       console.error('Failed to load Bodyspec data:', err);
     }
@@ -231,6 +256,7 @@ export default function Home() {
       if (stravaActivitiesRes.ok) {
         const data = await stravaActivitiesRes.json();
         setRunningActivities(data.activities || []);
+        setOtherActivities(data.otherActivities || []);
       }
 
       // Load Hevy connections and workouts
@@ -273,66 +299,19 @@ export default function Home() {
           console.log(`Migrated ${migrated} entries from localStorage`);
         }
 
-        // Pull latest entry for OCR validation before processing pending images
-        const existingEntries = await getEntriesFromDb();
-        let latestEntryForOcr = existingEntries[0];
-
-        // Check for pending images from iOS Shortcut
-        const pendingImages = await getPendingImages();
-        if (pendingImages.length > 0) {
-          setIsLoading(true);
-          setProgress(`Processing ${pendingImages.length} pending image(s)...`);
-
-          for (let i = 0; i < pendingImages.length; i++) {
-            const pending = pendingImages[i];
-            try {
-              setProgress(`Processing ${i + 1}/${pendingImages.length}...`);
-
-              // Convert base64 to File
-              const byteString = atob(pending.data);
-              const ab = new ArrayBuffer(byteString.length);
-              const ia = new Uint8Array(ab);
-              for (let j = 0; j < byteString.length; j++) {
-                ia[j] = byteString.charCodeAt(j);
-              }
-              const blob = new Blob([ab], { type: pending.content_type });
-              const file = new File([blob], 'pending-image.png', { type: pending.content_type });
-
-              // Process with OCR
-              const { entry, rawText } = await parsePDFFile(file, (msg) => {
-                setProgress(`(${i + 1}/${pendingImages.length}) ${msg}`);
-              }, latestEntryForOcr);
-
-              // Save raw OCR text for debugging
-              await saveOcrDebug(pending.id, rawText);
-
-              const hasData = entry.weight > 0 || entry.bodyFatPercentage > 0 || entry.fitnessScore > 0;
-
-              if (hasData) {
-                await saveEntryToDb(entry);
-                latestEntryForOcr = entry;
-              }
-
-              // Delete processed image
-              await deletePendingImage(pending.id);
-            } catch (err) {
-              console.error('Error processing pending image:', err);
-              // Still delete to avoid re-processing bad images
-              await deletePendingImage(pending.id);
-            }
-          }
-
-          setProgress('');
-          setIsLoading(false);
-        }
+        // Images uploaded via iOS Shortcut are processed server-side (see lib/ocr-worker.ts)
 
-        // Fetch entries and goals from cloud
-        const [cloudEntries, cloudGoals] = await Promise.all([
+        // Fetch entries, goals and range overrides from cloud
+        const [cloudEntries, cloudGoals, cloudGoalHistory, cloudOverrides] = await Promise.all([
           getEntriesFromDb(),
           getGoals(),
+          getGoalHistory(),
+          getRangeOverrides(),
         ]);
         setEntries(cloudEntries);
         setGoals(cloudGoals);
+        setGoalHistory(cloudGoalHistory);
+        setRangeOverrides(cloudOverrides);
 
         // Load Bodyspec data
         await loadBodyspecData();
@@ -364,10 +343,13 @@ export default function Home() {
     }
   }, [entries, bodyspecScans, liftingWorkouts]);
 
-  // Generate insights when correlations change
+  // Generate insights when correlations or workouts change
   useEffect(() => {
+    // Exercise plateaus only need Hevy history, not body composition
+    const progressionInsights = generateProgressionInsights(getExerciseProgressions(liftingWorkouts), units);
+
     if (correlations.length === 0) {
-      setInsights([]);
+      setInsights(progressionInsights);
       return;
     }
 
@@ -376,10 +358,18 @@ export default function Home() {
       ...generateVolumeEfficiencyInsights(latest),
       ...generateBalanceInsights(analyzeBodyPartBalance(latest)),
       ...generatePeriodizationInsights(correlations),
+      ...progressionInsights,
     ];
 
     setInsights(generatedInsights);
-  }, [correlations]);
+  }, [correlations, liftingWorkouts, units]);
+
+  // Free the review preview once it is confirmed, skipped, replaced or the page unmounts
+  const reviewImageUrl = validationState?.imageUrl;
+  useEffect(() => {
+    if (!reviewImageUrl) return;
+    return () => URL.revokeObjectURL(reviewImageUrl);
+  }, [reviewImageUrl]);
 
   const processNextFile = useCallback(
     async (filesToProcess: File[], startIndex: number, skipped: Set<number>, failed: number) => {
@@ -407,10 +397,9 @@ export default function Home() {
       setCurrentFileIndex(startIndex);
 
       try {
-        const previousEntry = entries.length > 0 ? entries[0] : undefined;
         const { entry, validationIssues, rawText } = await parsePDFFile(file, (msg) => {
           setProgress(`(${processed}/${total}) ${msg}`);
-        }, previousEntry);
+        }, entries);
 
         const hasData = entry.weight > 0 || entry.bodyFatPercentage > 0 || entry.fitnessScore > 0;
 
@@ -419,12 +408,13 @@ export default function Home() {
           return;
         }
 
-        // If validation issues found, show warning
-        if (validationIssues && validationIssues.length > 0) {
+        // If validation issues or hard-to-read values found, show warning
+        if ((validationIssues && validationIssues.length > 0) || getLowConfidenceFields(entry).length > 0) {
           setValidationState({
-            issues: validationIssues,
+            issues: validationIssues || [],
             entry,
             rawText,
+            imageUrl: URL.createObjectURL(file),
             fileIndex: startIndex,
             totalFiles: total,
           });
@@ -443,14 +433,14 @@ export default function Home() {
     [entries]
   );
 
-  const handleValidationConfirm = useCallback(async () => {
+  const handleValidationConfirm = useCallback(async (correctedEntry: BIAEntry) => {
     if (!validationState) return;
 
     try {
       setProgress(
         `(${validationState.fileIndex + 1}/${validationState.totalFiles}) Saving to cloud...`
       );
-      await saveEntryToDb(validationState.entry);
+      await saveEntryToDb(correctedEntry);
 
       // Process next file
       await processNextFile(
@@ -504,14 +494,17 @@ export default function Home() {
     }
   }, []);
 
-  const handleSaveGoal = useCallback(async (metricKey: string, targetValue: number) => {
+  // Resolves false on failure so callers chaining goal writes can stop
+  const handleSaveGoal = useCallback(async (metricKey: string, targetValue: number, details?: GoalDetails) => {
     try {
-      await saveGoal(metricKey, targetValue);
+      await saveGoal(metricKey, targetValue, details);
       const cloudGoals = await getGoals();
       setGoals(cloudGoals);
+      return true;
     } catch (err) {
       console.error('Save goal error:', err);
       setError('Failed to save goal');
+      return false;
     }
   }, []);
 
@@ -520,9 +513,43 @@ export default function Home() {
       await deleteGoal(metricKey);
       const cloudGoals = await getGoals();
       setGoals(cloudGoals);
+      return true;
     } catch (err) {
       console.error('Delete goal error:', err);
       setError('Failed to delete goal');
+      return false;
+    }
+  }, []);
+
+  const handleArchiveGoal = useCallback(async (metricKey: string, status: Exclude<GoalStatus, 'active'>) => {
+    try {
+      await archiveGoal(metricKey, status);
+      const [cloudGoals, cloudGoalHistory] = await Promise.all([getGoals(), getGoalHistory()]);
+      setGoals(cloudGoals);
+      setGoalHistory(cloudGoalHistory);
+    } catch (err) {
+      console.error('Archive goal error:', err);
+      setError('Failed to archive goal');
+    }
+  }, []);
+
+  const handleSaveRangeOverride = useCallback(async (metricKey: string, min: number, max: number) => {
+    try {
+      await saveRangeOverride(metricKey, min, max);
+      setRangeOverrides(await getRangeOverrides());
+    } catch (err) {
+      console.error('Save range override error:', err);
+      setError('Failed to save normal range');
+    }
+  }, []);
+
+  const handleDeleteRangeOverride = useCallback(async (metricKey: string) => {
+    try {
+      await deleteRangeOverride(metricKey);
+      setRangeOverrides(await getRangeOverrides());
+    } catch (err) {
+      console.error('Delete range override error:', err);
+      setError('Failed to reset normal range');
     }
   }, []);
 
@@ -576,6 +603,8 @@ export default function Home() {
           <div className="flex items-center gap-2">
             <ChatToggleButton />
             <ThemeToggle />
+            <UnitToggle />
+            <DataBackup />
             <span className="h-5 w-px bg-gray-200 dark:bg-gray-700/60" aria-hidden="true" />
             <Link
               href="/actions"
@@ -607,7 +636,7 @@ export default function Home() {
 
 
         {/* Workouts Section */}
-        {shouldShowSection('workouts') && (runningActivities.length > 0 || liftingWorkouts.length > 0) && (
+        {shouldShowSection('workouts') && (runningActivities.length > 0 || otherActivities.length > 0 || liftingWorkouts.length > 0) && (
           <section className="mb-6 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
             <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800 flex justify-between items-center min-h-[50px]">
               <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">
@@ -619,6 +648,19 @@ export default function Home() {
             </div>
             <WorkoutTable
               runningActivities={runningActivities}
+              otherActivities={otherActivities}
+              liftingWorkouts={liftingWorkouts}
+              goals={goals}
+              onSaveGoal={handleSaveGoal}
+              onDeleteGoal={handleDeleteGoal}
+            />
+            <TrainingPlan
+              runningActivities={runningActivities}
+              goals={goals}
+              onSaveGoal={handleSaveGoal}
+              onDeleteGoal={handleDeleteGoal}
+            />
+            <LiftingProgram
               liftingWorkouts={liftingWorkouts}
               goals={goals}
               onSaveGoal={handleSaveGoal}
@@ -660,15 +702,27 @@ export default function Home() {
                 <ViewToggle viewMode={viewMode} onViewChange={handleViewChange} />
               )}
             </div>
+            {(bodyspecConnections.length > 0 || bodyspecScans.length > 0) && (
+              <DexaSchedule
+                entries={entries}
+                scans={bodyspecScans}
+                appointments={bodyspecAppointments}
+              />
+            )}
+            <InsightsBar insights={insights} />
             <DataTable
               entries={entries}
               goals={goals}
+              goalHistory={goalHistory}
               bodyspecScans={visibleScans}
               correlations={correlations}
-              insights={insights}
               onDelete={handleDelete}
               onSaveGoal={handleSaveGoal}
               onDeleteGoal={handleDeleteGoal}
+              onArchiveGoal={handleArchiveGoal}
+              rangeOverrides={rangeOverrides}
+              onSaveRangeOverride={handleSaveRangeOverride}
+              onDeleteRangeOverride={handleDeleteRangeOverride}
             />
           </section>
         )}
@@ -683,6 +737,8 @@ export default function Home() {
             isUploading={isLoading}
             uploadProgress={progress}
             uploadError={error}
+            entries={entries}
+            onImportComplete={async () => setEntries(await getEntriesFromDb())}
             bodyspecConnections={bodyspecConnections}
             bodyspecScans={bodyspecScans}
             hiddenScans={hiddenScans}
@@ -704,8 +760,10 @@ export default function Home() {
         {/* Validation Warning Modal */}
         {validationState && (
           <ValidationWarning
+            key={validationState.entry.id}
             issues={validationState.issues}
             entry={validationState.entry}
+            imageUrl={validationState.imageUrl}
             onConfirm={handleValidationConfirm}
             onReview={handleValidationReview}
             onSkip={handleValidationSkip}
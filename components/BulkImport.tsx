@@ -0,0 +1,270 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ColumnMapping,
+  DateOrder,
+  IMPORT_VENDORS,
+  IMPORTABLE_FIELDS,
+  ImportField,
+  ImportUnit,
+  ParsedCsv,
+  buildImportPreview,
+  detectColumnMapping,
+  detectImportVendor,
+  parseCsv,
+} from '@/lib/bia-import';
+import { saveEntryToDb } from '@/lib/supabase';
+import { BIAEntry, METRIC_DEFINITIONS } from '@/lib/types';
+
+interface BulkImportProps {
+  entries: BIAEntry[];
+  onImported: () => void;
+}
+
+const UNITS: ImportUnit[] = ['lb', 'kg', 'L', '%', 'none'];
+
+function fieldLabel(field: ImportField): string {
+  if (field === 'date') return 'Date';
+  return METRIC_DEFINITIONS.find(d => d.key === field)?.label ?? String(field);
+}
+
+export default function BulkImport({ entries, onImported }: BulkImportProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [vendorId, setVendorId] = useState('generic');
+  const [mapping, setMapping] = useState<ColumnMapping[]>([]);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('auto');
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () => (csv ? buildImportPreview(csv, mapping, entries, dateOrder) : null),
+    [csv, mapping, entries, dateOrder]
+  );
+
+  const selectedRows = preview?.rows.filter(r => r.entry && !excluded.has(r.rowNumber)) ?? [];
+
+  // Rows with error-level issues start unchecked; re-applied whenever the mapping changes
+  const uncheckErrorRows = (parsed: ParsedCsv, nextMapping: ColumnMapping[], order: DateOrder) => {
+    const nextPreview = buildImportPreview(parsed, nextMapping, entries, order);
+    setExcluded(new Set(
+      nextPreview.rows.filter(r => r.issues.some(i => i.status === 'error')).map(r => r.rowNumber)
+    ));
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setCsv(null);
+    setMapping([]);
+    setExcluded(new Set());
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      setStatus('No rows found in file');
+      return;
+    }
+
+    const vendor = detectImportVendor(parsed.headers);
+    const initialMapping = detectColumnMapping(parsed.headers, vendor);
+
+    setFileName(file.name);
+    setCsv(parsed);
+    setVendorId(vendor.id);
+    setMapping(initialMapping);
+    setStatus(null);
+    uncheckErrorRows(parsed, initialMapping, dateOrder);
+  };
+
+  const changeVendor = (id: string) => {
+    if (!csv) return;
+    const vendor = IMPORT_VENDORS.find(v => v.id === id) ?? detectImportVendor(csv.headers);
+    const nextMapping = detectColumnMapping(csv.headers, vendor);
+    setVendorId(vendor.id);
+    setMapping(nextMapping);
+    uncheckErrorRows(csv, nextMapping, dateOrder);
+  };
+
+  const updateMapping = (index: number, changes: Partial<ColumnMapping>) => {
+    if (!csv) return;
+    const nextMapping = mapping.map((m, i) => (i === index ? { ...m, ...changes } : m));
+    setMapping(nextMapping);
+    uncheckErrorRows(csv, nextMapping, dateOrder);
+  };
+
+  const changeDateOrder = (order: DateOrder) => {
+    setDateOrder(order);
+    if (csv) uncheckErrorRows(csv, mapping, order);
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    let saved = 0;
+    try {
+      for (const row of selectedRows) {
+        setStatus(`Saving ${saved + 1}/${selectedRows.length}...`);
+        await saveEntryToDb(row.entry!);
+        saved++;
+      }
+      setStatus(`Imported ${saved} entries`);
+      reset();
+      onImported();
+    } catch (err) {
+      console.error('Bulk import error:', err);
+      setStatus(`Import stopped after ${saved} entries: ${err instanceof Error ? err.message : 'save failed'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!csv || !preview) {
+    return (
+      <div className="flex items-center justify-between gap-3">
+        <label className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md cursor-pointer transition-colors">
+          Import CSV
+          <input type="file" accept=".csv,.txt,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+        {status && <span className="text-xs text-gray-500 dark:text-gray-400">{status}</span>}
+      </div>
+    );
+  }
+
+  const mappedFields = new Set(mapping.map(m => m.field).filter(Boolean));
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-gray-900 dark:text-gray-100">{fileName}</span>
+        <select
+          value={vendorId}
+          onChange={(e) => changeVendor(e.target.value)}
+          className="px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+        >
+          {IMPORT_VENDORS.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+        </select>
+        <select
+          value={dateOrder}
+          onChange={(e) => changeDateOrder(e.target.value as DateOrder)}
+          className="px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+        >
+          <option value="auto">Dates: auto</option>
+          <option value="mdy">Dates: MM/DD/YYYY</option>
+          <option value="dmy">Dates: DD/MM/YYYY</option>
+        </select>
+      </div>
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {mapping.map((m, index) => (
+          <div key={m.column} className="flex items-center gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-gray-900 dark:text-gray-100 truncate">{m.column}</div>
+              <div className="text-xs font-mono text-gray-400 truncate">{csv.rows[0]?.[index] ?? ''}</div>
+            </div>
+            <select
+              value={m.field ?? ''}
+              onChange={(e) => updateMapping(index, { field: (e.target.value || null) as ImportField | null })}
+              className="w-36 px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+            >
+              <option value="">Ignore</option>
+              {(['date', ...IMPORTABLE_FIELDS] as ImportField[]).map(field => (
+                <option key={field} value={field} disabled={field !== m.field && mappedFields.has(field)}>
+                  {fieldLabel(field)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={m.unit}
+              onChange={(e) => updateMapping(index, { unit: e.target.value as ImportUnit })}
+              disabled={!m.field || m.field === 'date'}
+              className="w-16 px-1 py-1 text-xs rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 disabled:opacity-40"
+            >
+              {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {/* Dry-run preview */}
+      <div>
+        <div className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+          Preview: {preview.creates} new · {preview.updates} update existing days · {preview.skipped} skipped
+        </div>
+        <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-gray-800 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+          {preview.rows.map(row => (
+              <label key={row.rowNumber} className="flex items-start gap-3 p-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={!!row.entry && !excluded.has(row.rowNumber)}
+                  disabled={!row.entry}
+                  onChange={() => toggleRow(row.rowNumber)}
+                  className="mt-0.5"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-gray-400">#{row.rowNumber}</span>
+                    {row.entry && (
+                      <>
+                        <span className="text-gray-900 dark:text-gray-100">
+                          {new Date(row.entry.date).toLocaleDateString()}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {row.entry.weight > 0 && `${row.entry.weight} lb`}
+                          {row.entry.bodyFatPercentage > 0 && ` · ${row.entry.bodyFatPercentage}%`}
+                        </span>
+                      </>
+                    )}
+                    <span className={`ml-auto ${row.action === 'update' ? 'text-blue-600 dark:text-blue-400' : row.action === 'skip' ? 'text-gray-400' : 'text-green-600 dark:text-green-400'}`}>
+                      {row.action === 'create' ? 'New' : row.action === 'update' ? 'Update' : 'Skip'}
+                    </span>
+                  </div>
+                  {row.errors.map((error, i) => (
+                    <div key={i} className="text-red-600 dark:text-red-400">{error}</div>
+                  ))}
+                  {row.issues.map((issue, i) => (
+                    <div key={i} className={issue.status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}>
+                      {fieldLabel(issue.metric as ImportField)}: {issue.explanation ?? `${issue.percentChange.toFixed(0)}% change`}
+                    </div>
+                  ))}
+                </div>
+              </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {status && <span className="mr-auto text-xs text-gray-500 dark:text-gray-400">{status}</span>}
+        <button
+          onClick={reset}
+          disabled={isImporting}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={isImporting || selectedRows.length === 0}
+          className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md transition-colors"
+        >
+          {isImporting ? 'Importing...' : `Import ${selectedRows.length} entries`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { CALIBRATION_MAX_GAP_DAYS, CalibrationModel, MetricCalibration } from '@/lib/calibration';
+import { UnitSystem, displayUnit, toDisplayValue } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface CalibrationPanelProps {
+  model: CalibrationModel;
+  units: UnitSystem;
+}
+
+const QUALITY_STYLES: Record<MetricCalibration['quality'], { label: string; className: string }> = {
+  single: { label: '1 pair', className: 'text-gray-400' },
+  fair: { label: 'Fair', className: 'text-amber-600 dark:text-amber-400' },
+  good: { label: 'Good', className: 'text-emerald-600 dark:text-emerald-400' },
+};
+
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function CalibrationPanel({ model, units }: CalibrationPanelProps) {
+  const calibrations = Object.values(model.metrics).filter((c): c is MetricCalibration => !!c);
+
+  if (calibrations.length === 0) {
+    return (
+      <div className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-800">
+        No BIA entry within {CALIBRATION_MAX_GAP_DAYS} days of a DEXA scan yet, so values are shown uncalibrated.
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-800">
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-xs font-medium text-gray-900 dark:text-gray-100">DEXA Calibration</h3>
+        <span className="text-[10px] text-gray-500 dark:text-gray-400">
+          {model.pairs.length} BIA/DEXA pair{model.pairs.length !== 1 ? 's' : ''} within {CALIBRATION_MAX_GAP_DAYS} days
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-3 text-left font-medium">Metric</th>
+              <th className="py-1 px-2 text-left font-medium">Model</th>
+              <th className="py-1 px-2 text-right font-medium">Error (raw → cal.)</th>
+              <th className="py-1 px-2 text-right font-medium">R²</th>
+              <th className="py-1 px-2 text-center font-medium">Quality</th>
+              <th className="py-1 pl-2 text-left font-medium">Residuals</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800/50">
+            {calibrations.map(c => {
+              const unitLabel = displayUnit(c.unit, units);
+              const convert = (value: number) => toDisplayValue(value, c.unit, units);
+              const offset = convert(c.offset);
+              const quality = QUALITY_STYLES[c.quality];
+
+              return (
+                <tr key={c.key}>
+                  <td className="py-1.5 pr-3 text-gray-700 dark:text-gray-300">{c.label}</td>
+                  <td className="py-1.5 px-2 font-mono text-gray-600 dark:text-gray-400">
+                    {c.method === 'linear' ? `${c.slope.toFixed(2)} × BIA ` : 'BIA '}
+                    {offset >= 0 ? '+' : '−'} {Math.abs(offset).toFixed(1)}
+                  </td>
+                  <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-400">
+                    ±{convert(c.rawRmse).toFixed(1)} → ±{convert(c.rmse).toFixed(1)} {unitLabel}
+                  </td>
+                  <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-400">
+                    {c.r2 !== null ? c.r2.toFixed(2) : '—'}
+                  </td>
+                  <td className={`py-1.5 px-2 text-center font-medium ${quality.className}`}>
+                    {quality.label}
+                  </td>
+                  <td className="py-1.5 pl-2">
+                    <div className="flex flex-wrap gap-1">
+                      {c.residuals.map(r => (
+                        <Tooltip
+                          key={r.scanDate}
+                          content={`${formatDate(r.scanDate)}: BIA ${convert(r.bia).toFixed(1)}, DEXA ${convert(r.dexa).toFixed(1)} ${unitLabel}`}
+                        >
+                          <span className={`px-1 rounded tabular-nums cursor-help ${Math.abs(r.residual) > c.rmse * 2 && c.pairs >= 3 ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}>
+                            {r.residual >= 0 ? '+' : ''}{convert(r.residual).toFixed(1)}
+                          </span>
+                        </Tooltip>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-[10px] text-gray-500 dark:text-gray-400">
+        Fitted as DEXA ≈ slope × BIA + offset (offset only until 3+ pairs). Error is the RMS gap to DEXA, leave-one-out once there are 3+ pairs.
+      </p>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import { usePathname } from "next/navigation";
+import { useUnitSystem } from "@/lib/hooks/useUnitSystem";
 
 type ChatMessage = { role: "user" | "assistant"; content: string };
 
@@ -31,6 +32,7 @@ export default function ChatProvider({ children }: { children: React.ReactNode }
   const [showMemory, setShowMemory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const pathname = usePathname();
+  const [units] = useUnitSystem();
 
   useEffect(() => {
     try {
@@ -104,6 +106,7 @@ export default function ChatProvider({ children }: { children: React.ReactNode }
           history: messages,
           page: pathname,
           memory,
+          units,
         }),
       });
 
@@ -125,7 +128,7 @@ export default function ChatProvider({ children }: { children: React.ReactNode }
       setIsLoading(false);
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
-  }, [input, isLoading, messages, pathname, memory]);
+  }, [input, isLoading, messages, pathname, memory, units]);
 
   const handleClear = useCallback(() => setMessages([]), []);
 
@@ -1,14 +1,17 @@
 'use client';
 
 import { BIAEntry, BodyspecScan, BODYSPEC_BIA_MAPPINGS } from '@/lib/types';
+import { CalibrationModel } from '@/lib/calibration';
 import Tooltip from './Tooltip';
 
 interface ComparisonViewProps {
   biaEntry: BIAEntry;
   bodyspecScan: BodyspecScan;
+  // Learned BIA -> DEXA calibration; replaces the fixed expected variance where available
+  calibration?: CalibrationModel;
 }
 
-export default function ComparisonView({ biaEntry, bodyspecScan }: ComparisonViewProps) {
+export default function ComparisonView({ biaEntry, bodyspecScan, calibration }: ComparisonViewProps) {
   const calculateDifference = (biaValue: number, dexaValue: number, expectedVariance?: number) => {
     const diff = biaValue - dexaValue;
     const diffPercent = Math.abs((diff / dexaValue) * 100);
@@ -79,21 +82,36 @@ export default function ComparisonView({ biaEntry, bodyspecScan }: ComparisonVie
                   return null;
                 }
 
-                const { diff, diffPercent, isWithinExpected } = calculateDifference(
+                const metricCalibration = calibration?.metrics[mapping.biaKey];
+                const calibratedValue = metricCalibration
+                  ? metricCalibration.offset + metricCalibration.slope * biaValue
+                  : null;
+                const { diff, diffPercent, isWithinExpected: isWithinVariance } = calculateDifference(
                   biaValue,
                   dexaValue,
                   mapping.expectedVariance
                 );
+                // With a calibration, "expected" means the calibrated reading lands within twice its typical error
+                const isWithinExpected = metricCalibration && calibratedValue !== null
+                  ? Math.abs(dexaValue - calibratedValue) <= 2 * Math.max(metricCalibration.rmse, 0.1)
+                  : isWithinVariance;
 
                 return (
                   <tr key={idx} className="hover:bg-gray-50 dark:hover:bg-gray-750">
                     <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">
-                      <Tooltip content={`Expected variance: ±${mapping.expectedVariance}%`}>
+                      <Tooltip content={metricCalibration
+                        ? `Calibrated from ${metricCalibration.pairs} pair(s): typical error ±${metricCalibration.rmse.toFixed(1)} ${mapping.unit}`
+                        : `Expected variance: ±${mapping.expectedVariance}%`}>
                         <span>{mapping.label}</span>
                       </Tooltip>
                     </td>
                     <td className="px-4 py-3 text-sm text-center text-blue-600 dark:text-blue-400 font-mono">
                       {biaValue.toFixed(1)} {mapping.unit}
+                      {calibratedValue !== null && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          cal. {calibratedValue.toFixed(1)} {mapping.unit}
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-center text-amber-600 dark:text-amber-400 font-mono font-medium">
                       {dexaValue.toFixed(1)} {mapping.unit}
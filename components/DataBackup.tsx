@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ARCHIVE_TABLES,
+  ArchiveTable,
+  DataArchive,
+  RestoreMode,
+  TableRestoreResult,
+  validateArchive,
+} from '@/lib/data-archive';
+
+export default function DataBackup() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [archive, setArchive] = useState<DataArchive | null>(null);
+  const [modes, setModes] = useState<Partial<Record<ArchiveTable, RestoreMode>>>({});
+  const [results, setResults] = useState<TableRestoreResult[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const archivedTables = archive
+    ? (Object.keys(ARCHIVE_TABLES) as ArchiveTable[]).filter(t => archive.tables[t] !== undefined)
+    : [];
+
+  const close = () => {
+    setIsOpen(false);
+    setArchive(null);
+    setModes({});
+    setResults(null);
+    setError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setResults(null);
+    try {
+      const validation = validateArchive(JSON.parse(await file.text()));
+      if ('error' in validation) {
+        setError(validation.error);
+        setArchive(null);
+        return;
+      }
+      setArchive(validation.archive);
+      setModes({});
+      setError(null);
+    } catch {
+      setError('File is not valid JSON');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    const replacing = archivedTables.filter(t => modes[t] === 'replace');
+    if (replacing.length > 0 && !confirm(`Delete all existing rows in ${replacing.length} table(s) before restoring?`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/archive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archive, modes }),
+      });
+      const data = await res.json();
+      if (!data.results) throw new Error(data.error || 'Restore failed');
+      setResults(data.results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        title="Export / restore data"
+        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <ellipse cx="12" cy="5" rx="9" ry="3" />
+          <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5" />
+          <path d="M3 12c0 1.66 4 3 9 3s9-1.34 9-3" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-40 mt-2 w-80 p-4 space-y-3 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg shadow-lg">
+          <div className="flex gap-2">
+            <a
+              href="/api/archive"
+              download
+              className="flex-1 px-3 py-1.5 text-xs font-medium text-center text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+            >
+              Export all data
+            </a>
+            <label className="flex-1 px-3 py-1.5 text-xs font-medium text-center text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md cursor-pointer transition-colors">
+              Restore…
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          {archive && !results && (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Exported {new Date(archive.exportedAt).toLocaleString()} · schema v{archive.schemaVersion}
+              </p>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {archivedTables.map(table => (
+                  <div key={table} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {ARCHIVE_TABLES[table].label}
+                      <span className="ml-1 text-gray-400">({archive.tables[table]!.length})</span>
+                    </span>
+                    <select
+                      value={modes[table] ?? 'merge'}
+                      onChange={(e) => setModes(prev => ({ ...prev, [table]: e.target.value as RestoreMode }))}
+                      className="px-1 py-0.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+                    >
+                      <option value="merge">Merge</option>
+                      <option value="replace">Replace</option>
+                      <option value="skip">Skip</option>
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className="w-full px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md transition-colors"
+              >
+                {isRestoring ? 'Restoring...' : 'Restore'}
+              </button>
+            </>
+          )}
+
+          {results && (
+            <>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {results.map(r => (
+                  <div key={r.table} className="text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-gray-700 dark:text-gray-300">{ARCHIVE_TABLES[r.table].label}</span>
+                      <span className={r.error ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+                        {r.mode === 'skip' ? 'skipped' : `${r.restored}/${r.rows}`}
+                      </span>
+                    </div>
+                    {r.error && <div className="text-red-600 dark:text-red-400">{r.error}</div>}
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => window.location.reload()}
+                className="w-full px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                Reload dashboard
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
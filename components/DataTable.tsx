@@ -1,39 +1,58 @@
 'use client';
 
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
-import { BIAEntry, BodyspecScan, BodyspecScanData, METRIC_DEFINITIONS, CATEGORY_LABELS, MetricDefinition, GOAL_ELIGIBLE_METRICS, CorrelationResult, Insight } from '@/lib/types';
+import { BIAEntry, BodyspecScan, BodyspecScanData, METRIC_DEFINITIONS, CATEGORY_LABELS, MetricDefinition, GOAL_ELIGIBLE_METRICS, CorrelationResult, NormalRange } from '@/lib/types';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
-import { Goal } from '@/lib/supabase';
+import { Goal, GoalDetails, GoalStatus, RangeOverride } from '@/lib/supabase';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import Tooltip from './Tooltip';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import GoalEditor from './GoalEditor';
+import RangeEditor from './RangeEditor';
+import CalibrationPanel from './CalibrationPanel';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import { TimeSeriesTable, TimeSeriesRow, SectionHeaderRow } from './TimeSeriesTable';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { UnitSystem, displayUnit, formatMeasurement, toDisplayValue } from '@/lib/units';
+import { PersonalRange, PersonalRanges, getPersonalRanges, getRangeProfile, getRangeTarget } from '@/lib/normal-ranges';
+import { GoalPace, getGoalPace, parseTargetDate } from '@/lib/goal-pace';
+import { applyCalibration, buildCalibrationModel, calibrateValue, uncalibrateValue } from '@/lib/calibration';
+import { TargetForecast, TrendOptions, fitTrend, forecastTarget, getDexaMetricValue, getMetricSeries, projectWeightAtBodyFat } from '@/lib/forecast';
 
 interface DataTableProps {
   entries: BIAEntry[];
   goals: Goal[];
+  goalHistory?: Goal[];
   bodyspecScans?: BodyspecScan[];
   correlations?: CorrelationResult[];
-  insights?: Insight[];
   onDelete: (id: string) => void;
-  onSaveGoal: (metricKey: string, targetValue: number) => void;
+  onSaveGoal: (metricKey: string, targetValue: number, details?: GoalDetails) => void;
   onDeleteGoal: (metricKey: string) => void;
+  onArchiveGoal: (metricKey: string, status: Exclude<GoalStatus, 'active'>) => void;
+  rangeOverrides?: RangeOverride[];
+  onSaveRangeOverride: (metricKey: string, min: number, max: number) => void;
+  onDeleteRangeOverride: (metricKey: string) => void;
 }
 
-function formatValue(value: unknown): string {
+interface EditingGoal {
+  metricKey: string;
+  label: string;
+  unit: string;
+  latestValue: number | null;    // Becomes the start value of a new goal
+}
+
+function formatValue(value: unknown, unit: string, units: UnitSystem): string {
   if (value === null || value === undefined) return '—';
   if (typeof value === 'object' && 'lb' in value && 'percent' in value) {
     const seg = value as { lb: number; percent: number };
     if (seg.lb === 0) return '—';
-    return seg.lb.toFixed(1);
+    return toDisplayValue(seg.lb, 'lb', units).toFixed(1);
   }
   if (typeof value === 'number') {
     if (value === 0) return '—';
-    return value.toFixed(1);
+    return toDisplayValue(value, unit, units).toFixed(1);
   }
   return String(value);
 }
@@ -124,17 +143,28 @@ function calculateFatShare(
 
 type RangeStatus = 'below' | 'within' | 'above' | null;
 
-function getRangeStatus(value: number, metric: MetricDefinition): RangeStatus {
-  if (!metric.normalRange || value === 0) return null;
-  const { min, max } = metric.normalRange;
+function getRangeStatus(value: number, range: NormalRange | undefined): RangeStatus {
+  if (!range || value === 0) return null;
+  const { min, max } = range;
   if (value < min) return 'below';
   if (value > max) return 'above';
   return 'within';
 }
 
-function getRangeIndicator(status: RangeStatus, metric: MetricDefinition): { dotColor: string; label: string } {
-  const range = metric.normalRange;
-  const rangeStr = range ? ` (${range.min}–${range.max}${metric.unit})` : '';
+function formatRange(range: NormalRange | undefined, unit: string, units: UnitSystem): string {
+  if (!range) return '';
+  const convert = (v: number) => Number(toDisplayValue(v, unit, units).toFixed(1));
+  return `${convert(range.min)}–${convert(range.max)}${displayUnit(unit, units)}`;
+}
+
+function formatRangeSource(range: PersonalRange): string {
+  if (range.source === 'override') return 'Manual override';
+  if (range.source === 'reference') return range.basis ? `Personalized · ${range.basis}` : 'Personalized';
+  return 'Default';
+}
+
+function getRangeIndicator(status: RangeStatus, range: NormalRange | undefined, unit: string, units: UnitSystem): { dotColor: string; label: string } {
+  const rangeStr = range ? ` (${formatRange(range, unit, units)})` : '';
 
   switch (status) {
     case 'below':
@@ -237,43 +267,17 @@ interface ForecastResult {
   isMet: boolean;
 }
 
-function calculateForecast(
-  currentValue: number,
-  goalValue: number | undefined,
-  comparisonValue: number,
-  daysBetween: number,
-  higherIsBetter: boolean
-): ForecastResult | null {
-  if (!goalValue || !currentValue || !comparisonValue || daysBetween <= 0) {
-    return null;
-  }
-
-  // Already at goal
-  const goalMet = higherIsBetter ? currentValue >= goalValue : currentValue <= goalValue;
-  if (goalMet) {
-    return { timeText: '✓', dateText: 'Goal reached!', isMet: true };
-  }
-
-  // Calculate daily rate of change
-  const totalChange = currentValue - comparisonValue;
-  const dailyRate = totalChange / daysBetween;
-
-  // Check if trending in wrong direction or no progress
-  const trendingRight = higherIsBetter ? dailyRate > 0 : dailyRate < 0;
-  if (!trendingRight || Math.abs(dailyRate) < 0.001) {
-    return null; // Can't forecast - wrong direction or no change
-  }
-
-  // Calculate days to goal
-  const remaining = Math.abs(goalValue - currentValue);
-  const daysToGoal = remaining / Math.abs(dailyRate);
+/**
+ * ETA cell text for a target forecast (see lib/forecast.ts)
+ */
+function formatForecast(result: TargetForecast | null, target: 'goal' | 'range' = 'goal'): ForecastResult | null {
+  if (!result || result.status === 'stalled') return null;
 
-  // Cap at reasonable forecast (2 years)
-  if (daysToGoal > 730) {
-    return null;
+  if (result.status === 'met') {
+    return { timeText: '✓', dateText: target === 'goal' ? 'Goal reached!' : 'Within normal range', isMet: true };
   }
 
-  // Format output
+  const daysToGoal = result.days!;
   const weeks = Math.round(daysToGoal / 7);
   const months = Math.round(daysToGoal / 30);
 
@@ -286,86 +290,17 @@ function calculateForecast(
     timeText = `~${weeks} wk${weeks !== 1 ? 's' : ''}`;
   }
 
-  const targetDate = new Date(Date.now() + daysToGoal * 24 * 60 * 60 * 1000);
-  const dateText = `Est. ${targetDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  const interval = result.earliest
+    ? result.latest
+      ? ` (80%: ${format(result.earliest)} – ${format(result.latest)})`
+      : ` (80%: ${format(result.earliest)} or later)`
+    : '';
+  const dateText = `${target === 'goal' ? 'Est.' : 'Normal range est.'} ${format(result.date!)}${interval}`;
 
   return { timeText, dateText, isMet: false };
 }
 
-/**
- * Calculate estimated body weight when target body fat % is reached
- * Based on current rate of fat loss and lean mass changes
- */
-function calculateWeightAtGoalBF(
-  latestEntry: BIAEntry,
-  comparisonEntry: BIAEntry | null,
-  goalBFPercent: number
-): {
-  idealWeight: number;
-  projectedWeight: number;
-  leanMassChangeProjected: number;
-  currentLeanMass: number;
-  fatLossPct: number;
-} | null {
-  const currentWeight = latestEntry.weight;
-  const currentBF = latestEntry.bodyFatPercentage;
-
-  if (!currentWeight || !currentBF || currentBF <= goalBFPercent) return null;
-
-  const currentFatMass = latestEntry.bodyFatMass || (currentWeight * currentBF / 100);
-  const currentLeanMass = currentWeight - currentFatMass;
-
-  // 1. Calculate Ideal Weight (Assuming Constant Lean Mass)
-  // Target: LeanMass / (1 - GoalBF%)
-  const idealWeight = currentLeanMass / (1 - (goalBFPercent / 100));
-
-  // 2. Calculate Trend-based Projection
-  let projectedWeight = idealWeight;
-  let leanMassChangeProjected = 0;
-  let fatLossPct = 100; // Default to 100% (ideal case of no lean mass loss)
-
-  if (comparisonEntry) {
-    const prevWeight = comparisonEntry.weight;
-    const prevBF = comparisonEntry.bodyFatPercentage;
-    const prevFatMass = comparisonEntry.bodyFatMass || (prevWeight * prevBF / 100);
-    const prevLeanMass = prevWeight - prevFatMass;
-
-    const leanMassChange = currentLeanMass - prevLeanMass;
-    const bfChange = currentBF - prevBF;
-
-    // Only project if we have a valid decreasing trend in BF
-    if (bfChange < 0) {
-      const bfToLose = currentBF - goalBFPercent;
-      const bfLostSoFar = prevBF - currentBF;
-      const progressRatio = bfToLose / bfLostSoFar;
-
-      leanMassChangeProjected = leanMassChange * progressRatio;
-      const leanMassAtGoal = currentLeanMass + leanMassChangeProjected;
-      const fatMassAtGoal = leanMassAtGoal * goalBFPercent / (100 - goalBFPercent);
-      projectedWeight = leanMassAtGoal + fatMassAtGoal;
-
-      // Calculate composition of the trend-based loss
-      const totalWeightLoss = currentWeight - projectedWeight;
-      const totalFatLoss = currentFatMass - fatMassAtGoal;
-
-      if (totalWeightLoss > 0.1) {
-        fatLossPct = Math.min(100, Math.max(0, (totalFatLoss / totalWeightLoss) * 100));
-      }
-    }
-  }
-
-  // Sanity check
-  if (idealWeight < 80 || idealWeight > 400) return null;
-
-  return {
-    idealWeight,
-    projectedWeight,
-    leanMassChangeProjected,
-    currentLeanMass,
-    fatLossPct
-  };
-}
-
 function formatGapTooltip(currentValue: number, goalValue: number, higherIsBetter: boolean, unit: string): React.ReactNode {
   const gap = goalValue - currentValue;
 
@@ -376,68 +311,65 @@ function formatGapTooltip(currentValue: number, goalValue: number, higherIsBette
   }
 }
 
-function getDaysBetweenEntries(latest: BIAEntry, comparison: BIAEntry | null): number {
-  if (!comparison) return 0;
-  const latestDate = new Date(latest.date);
-  const comparisonDate = new Date(comparison.date);
-  return Math.round((latestDate.getTime() - comparisonDate.getTime()) / (24 * 60 * 60 * 1000));
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
-/**
- * Map BIA metric keys to DEXA scan data values
- */
-function getDexaValueForMetric(scan: BodyspecScan, metricKey: string): number | null {
-  const data = scan.data;
-
-  // Direct mappings
-  switch (metricKey) {
-    case 'bodyFatPercentage':
-      return data.bodyFatPercentage;
-    case 'weight':
-      return data.weight;
-    case 'lbm':
-    case 'fatFreeMass':
-    case 'softLeanMass':
-      return data.leanBodyMass;
-    case 'bodyFatMass':
-      return data.totalBodyFat;
-    case 'boneMass':
-      return data.boneMineralContent ? data.boneMineralContent / 453.592 : null; // grams to lb
-    // Note: visceralFat is intentionally not mapped - DEXA reports VAT in cm² while BIA uses a score (1-59)
-    default:
-      return null;
-  }
+const PACE_LABELS: Record<GoalPace['status'], { label: string; color: string } | null> = {
+  'reached': null,
+  'no-deadline': null,
+  'on-pace': { label: 'On pace', color: 'text-emerald-400' },
+  'behind': { label: 'Behind pace', color: 'text-amber-400' },
+  'off-track': { label: 'Not trending toward goal', color: 'text-red-400' },
+  'overdue': { label: 'Target date passed', color: 'text-red-400' },
+};
+
+function getPaceColor(pace: GoalPace | null): string | null {
+  if (pace?.status === 'behind') return 'text-amber-500 dark:text-amber-400';
+  if (pace?.status === 'off-track' || pace?.status === 'overdue') return 'text-red-500 dark:text-red-400';
+  return null;
 }
 
 /**
- * Get DEXA regional value for segmental muscle metrics
+ * Required vs actual weekly rate and projected completion for a goal with history
  */
-function getDexaSegmentalValue(scan: BodyspecScan, metricKey: string): number | null {
-  const regional = scan.data.regional;
-
-  const keyMapping: Record<string, { region: keyof typeof regional; type: 'lean' | 'fat' }> = {
-    muscleLeftArm: { region: 'leftArm', type: 'lean' },
-    muscleRightArm: { region: 'rightArm', type: 'lean' },
-    muscleTrunk: { region: 'trunk', type: 'lean' },
-    muscleLeftLeg: { region: 'leftLeg', type: 'lean' },
-    muscleRightLeg: { region: 'rightLeg', type: 'lean' },
-    fatLeftArm: { region: 'leftArm', type: 'fat' },
-    fatRightArm: { region: 'rightArm', type: 'fat' },
-    fatTrunk: { region: 'trunk', type: 'fat' },
-    fatLeftLeg: { region: 'leftLeg', type: 'fat' },
-    fatRightLeg: { region: 'rightLeg', type: 'fat' },
+function GoalPaceDetails({ goal, pace, unit, units }: { goal: Goal; pace: GoalPace; unit: string; units: UnitSystem }) {
+  const unitLabel = displayUnit(unit, units);
+  const formatRate = (perWeek: number) => {
+    const value = toDisplayValue(perWeek, unit, units);
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}${unitLabel ? ` ${unitLabel}` : ''}/wk`;
   };
+  const status = PACE_LABELS[pace.status];
 
-  const mapping = keyMapping[metricKey];
-  if (!mapping) return null;
-
-  const regionData = regional[mapping.region];
-  if (!regionData) return null;
+  return (
+    <div className="border-t border-gray-600 mt-1 pt-1 text-left">
+      {goal.targetDate && (
+        <div>
+          Target: {formatShortDate(parseTargetDate(goal.targetDate))}
+          {pace.daysRemaining !== null && pace.daysRemaining > 0 && <span className="opacity-70"> ({pace.daysRemaining}d left)</span>}
+        </div>
+      )}
+      {pace.requiredPerWeek !== null && <div>Needed: {formatRate(pace.requiredPerWeek)}</div>}
+      {pace.actualPerWeek !== null && <div>Actual: {formatRate(pace.actualPerWeek)}</div>}
+      {pace.projectedDate && <div>Projected: {formatShortDate(pace.projectedDate)}</div>}
+      {pace.progress !== null && (
+        <div className="text-[10px] opacity-70">
+          {Math.round(pace.progress * 100)}% of the way since {formatShortDate(new Date(goal.startDate))}
+        </div>
+      )}
+      {status && <div className={`font-medium ${status.color}`}>{status.label}</div>}
+    </div>
+  );
+}
 
-  return mapping.type === 'lean' ? regionData.lean : regionData.fat;
+function getDaysBetweenEntries(latest: BIAEntry, comparison: BIAEntry | null): number {
+  if (!comparison) return 0;
+  const latestDate = new Date(latest.date);
+  const comparisonDate = new Date(comparison.date);
+  return Math.round((latestDate.getTime() - comparisonDate.getTime()) / (24 * 60 * 60 * 1000));
 }
 
-export default function DataTable({ entries, goals, bodyspecScans = [], correlations = [], insights = [], onDelete, onSaveGoal, onDeleteGoal }: DataTableProps) {
+export default function DataTable({ entries: rawEntries, goals, goalHistory = [], bodyspecScans = [], correlations = [], onDelete, onSaveGoal, onDeleteGoal, onArchiveGoal, rangeOverrides = [], onSaveRangeOverride, onDeleteRangeOverride }: DataTableProps) {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(['header', 'core', 'segmental-muscle', 'segmental-fat'])
   );
@@ -445,7 +377,26 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
     new Set()
   );
   const [trendPeriod, setTrendPeriod] = useState<TrendPeriod>('30');
-  const [editingGoal, setEditingGoal] = useState<{ metricKey: string; label: string } | null>(null);
+  const [editingGoal, setEditingGoal] = useState<EditingGoal | null>(null);
+  const [editingRange, setEditingRange] = useState<MetricDefinition | null>(null);
+  const [units] = useUnitSystem();
+  const [calibrated, setCalibrated] = useState(false);
+
+  // Calibration is learned from the raw readings; the calibrated view swaps every BIA entry onto the DEXA scale
+  const calibration = useMemo(() => buildCalibrationModel(rawEntries, bodyspecScans), [rawEntries, bodyspecScans]);
+  const entries = useMemo(
+    () => calibrated ? rawEntries.map(entry => applyCalibration(entry, calibration)) : rawEntries,
+    [calibrated, rawEntries, calibration]
+  );
+
+  // Goals are stored on the BIA scale; the calibrated view compares them on the DEXA scale too
+  const toViewScale = (goal: Goal): Goal => calibrated
+    ? {
+      ...goal,
+      targetValue: calibrateValue(calibration, goal.metricKey, goal.targetValue),
+      startValue: goal.startValue !== null ? calibrateValue(calibration, goal.metricKey, goal.startValue) : null,
+    }
+    : goal;
 
   const toggleCategory = (category: string) => {
     const newExpanded = new Set(expandedCategories);
@@ -478,9 +429,13 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
   ].sort((a, b) => b.date.getTime() - a.date.getTime());
 
   const comparisonEntry = getComparisonEntry(entries, trendPeriod);
-  const goalsMap = new Map(goals.map(g => [g.metricKey, g.targetValue]));
+  const goalsMap = new Map(goals.map(g => [g.metricKey, toViewScale(g)]));
+  // Ranges follow the latest scan's profile (age, sex, height)
+  const ranges = getPersonalRanges(getRangeProfile(entries[0]), rangeOverrides);
 
   const daysBetween = entries.length > 0 ? getDaysBetweenEntries(entries[0], comparisonEntry) : 0;
+  // Forecasts fit the same window the trend column compares against
+  const trendOptions: TrendOptions = { since: comparisonEntry ? new Date(comparisonEntry.date) : undefined };
 
   if (entries.length === 0) {
     return (
@@ -493,7 +448,24 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
   return (
     <>
       <TimeSeriesTable
-        headerLabel="Metric"
+        headerLabel={
+          <div className="flex items-center justify-between gap-2">
+            Metric
+            {calibration.pairs.length > 0 && (
+              <Tooltip content={calibrated ? 'Showing BIA values on the DEXA scale' : 'Show BIA values calibrated to your DEXA scans'}>
+                <button
+                  onClick={() => setCalibrated(!calibrated)}
+                  className={`px-1.5 py-0.5 text-[9px] rounded normal-case tracking-normal transition-colors ${calibrated
+                    ? 'bg-amber-500 text-white font-medium'
+                    : 'text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/30'
+                    }`}
+                >
+                  DEXA-calibrated
+                </button>
+              </Tooltip>
+            )}
+          </div>
+        }
         columns={dataColumns}
         stickyColumnWidth="min-w-[180px]"
         headerFixedContent={
@@ -579,7 +551,11 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
               onToggle={() => toggleCategory(category)}
               goalsMap={goalsMap}
               onEditGoal={setEditingGoal}
+              ranges={ranges}
+              onEditRange={setEditingRange}
               daysBetween={daysBetween}
+              trendOptions={trendOptions}
+              units={units}
             />
           );
         })}
@@ -602,7 +578,8 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
           higherIsBetter={true}
           goalsMap={goalsMap}
           onEditGoal={setEditingGoal}
-          daysBetween={daysBetween}
+          trendOptions={trendOptions}
+          units={units}
         />
 
         <SegmentalSection
@@ -622,16 +599,26 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
           higherIsBetter={false}
           goalsMap={goalsMap}
           onEditGoal={setEditingGoal}
-          daysBetween={daysBetween}
+          trendOptions={trendOptions}
+          units={units}
+        />
+
+        {/* DEXA-only measurements; BIA columns stay empty */}
+        <DexaDetailSection
+          isExpanded={expandedCategories.has('dexa-detail')}
+          onToggle={() => toggleCategory('dexa-detail')}
+          entries={entries}
+          bodyspecScans={bodyspecScans}
+          units={units}
         />
 
         {/* Muscle Growth Analysis Section - above Body Composition */}
         {correlations && correlations.length > 0 && (
           <MuscleGrowthAnalysisSection
             correlations={correlations}
-            insights={insights}
             isExpanded={expandedSections.has('growth-analysis')}
             onToggle={() => toggleSection('growth-analysis')}
+            units={units}
           />
         )}
 
@@ -653,22 +640,50 @@ export default function DataTable({ entries, goals, bodyspecScans = [], correlat
               onToggle={() => toggleCategory(category)}
               goalsMap={goalsMap}
               onEditGoal={setEditingGoal}
+              ranges={ranges}
+              onEditRange={setEditingRange}
               daysBetween={daysBetween}
+              trendOptions={trendOptions}
+              units={units}
             />
           );
         })}
       </TimeSeriesTable>
 
+      {calibrated && <CalibrationPanel model={calibration} units={units} />}
+
       {editingGoal && (
         <GoalEditor
           metricKey={editingGoal.metricKey}
           metricLabel={editingGoal.label}
-          currentValue={goalsMap.get(editingGoal.metricKey) || null}
-          onSave={onSaveGoal}
+          currentValue={goalsMap.get(editingGoal.metricKey)?.targetValue ?? null}
+          unit={editingGoal.unit}
+          targetDate={goalsMap.get(editingGoal.metricKey)?.targetDate ?? null}
+          history={goalHistory.filter(g => g.metricKey === editingGoal.metricKey).map(toViewScale)}
+          onSave={(metricKey, value, targetDate) => onSaveGoal(metricKey, calibrated ? uncalibrateValue(calibration, metricKey, value) : value, {
+            // Goals live on the BIA scale, so a calibrated view still starts from the raw reading
+            startValue: calibrated
+              ? getMetricSeries(rawEntries, [], metricKey).slice(-1)[0]?.value ?? null
+              : editingGoal.latestValue,
+            targetDate,
+          })}
           onDelete={onDeleteGoal}
+          onArchive={onArchiveGoal}
           onClose={() => setEditingGoal(null)}
         />
       )}
+
+      {editingRange && (
+        <RangeEditor
+          metricKey={editingRange.key}
+          metricLabel={editingRange.label}
+          unit={editingRange.unit}
+          range={ranges[editingRange.key] ?? null}
+          onSave={onSaveRangeOverride}
+          onDelete={onDeleteRangeOverride}
+          onClose={() => setEditingRange(null)}
+        />
+      )}
     </>
   );
 }
@@ -682,9 +697,13 @@ interface CategorySectionProps {
   comparisonEntry: BIAEntry | null;
   isExpanded: boolean;
   onToggle: () => void;
-  goalsMap: Map<string, number>;
-  onEditGoal: (goal: { metricKey: string; label: string }) => void;
+  goalsMap: Map<string, Goal>;
+  onEditGoal: (goal: EditingGoal) => void;
+  ranges: PersonalRanges;
+  onEditRange: (metric: MetricDefinition) => void;
   daysBetween: number;
+  trendOptions: TrendOptions;
+  units: UnitSystem;
 }
 
 function CategorySection({
@@ -698,7 +717,11 @@ function CategorySection({
   onToggle,
   goalsMap,
   onEditGoal,
+  ranges,
+  onEditRange,
   daysBetween,
+  trendOptions,
+  units,
 }: CategorySectionProps) {
   const latestEntry = entries[0];
 
@@ -733,24 +756,31 @@ function CategorySection({
           const trendImproved = metric.higherIsBetter !== undefined && trendDiff !== 0
             ? (metric.higherIsBetter ? trendDiff > 0 : trendDiff < 0)
             : null;
-          const { text: trendText, color: trendColor } = formatTrendValue(trendDiff, trendImproved);
+          const { text: trendText, color: trendColor } = formatTrendValue(toDisplayValue(trendDiff, metric.unit, units), trendImproved);
+          const unitLabel = displayUnit(metric.unit, units);
 
           // Goal data
           const isGoalEligible = GOAL_ELIGIBLE_METRICS.includes(metric.key);
-          const goalValue = goalsMap.get(metric.key as string);
+          const goal = goalsMap.get(metric.key as string);
+          const goalValue = goal?.targetValue;
           const goalProgress = goalValue && latestValue
             ? getGoalProgress(latestValue, goalValue, metric.higherIsBetter ?? true)
             : null;
           const goalColor = getGoalProgressColor(goalProgress);
-
-          // Forecast data
-          const forecast = calculateForecast(
-            latestValue,
-            goalValue,
-            comparisonValue,
-            daysBetween,
-            metric.higherIsBetter ?? true
-          );
+          const range = ranges[metric.key];
+
+          // Forecast data: time to goal, or back into the normal range when no goal is set
+          const fit = fitTrend(getMetricSeries(entries, bodyspecScans, metric.key), trendOptions);
+          const rangeTarget = goalValue ? null : getRangeTarget(latestValue, range);
+          const forecast = !fit || !latestValue
+            ? null
+            : rangeTarget !== null
+              ? formatForecast(forecastTarget(fit, rangeTarget, rangeTarget > latestValue, latestValue), 'range')
+              : goalValue
+                ? formatForecast(forecastTarget(fit, goalValue, metric.higherIsBetter ?? true, latestValue))
+                : null;
+          const pace = goal && latestValue ? getGoalPace(goal, latestValue, fit?.slopePerDay ?? null, metric.higherIsBetter ?? true) : null;
+          const paceDetails = goal && pace ? <GoalPaceDetails goal={goal} pace={pace} unit={metric.unit} units={units} /> : null;
 
           const metricRow = (
             <TimeSeriesRow
@@ -758,15 +788,22 @@ function CategorySection({
               label={
                 <span className="text-xs inline-flex items-center gap-1">
                   {metric.label}
-                  {(metric.description || metric.normalRange) && (
+                  {(metric.description || range) && (
                     <Tooltip content={
                       <>
                         {metric.description && <div>{metric.description}</div>}
-                        {metric.description && metric.normalRange && <div className="mt-1 pt-1 border-t border-gray-600" />}
-                        {metric.normalRange && <div>Normal: {metric.normalRange.min}–{metric.normalRange.max}{metric.unit}</div>}
+                        {metric.description && range && <div className="mt-1 pt-1 border-t border-gray-600" />}
+                        {range && <div>Normal: {formatRange(range, metric.unit, units)}</div>}
+                        {range && <div className="text-[10px] opacity-70">{formatRangeSource(range)} · click to edit</div>}
                       </>
                     }>
-                      <svg className="w-3 h-3 text-gray-400 cursor-help" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <svg
+                        className={`w-3 h-3 text-gray-400 ${range ? 'cursor-pointer hover:text-gray-600 dark:hover:text-gray-300' : 'cursor-help'}`}
+                        onClick={range ? () => onEditRange(metric) : undefined}
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                     </Tooltip>
@@ -777,17 +814,17 @@ function CategorySection({
                 <>
                   <td
                     className={`px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 hover:bg-gray-50 dark:hover:bg-gray-800/50 ${isGoalEligible ? 'cursor-pointer' : ''}`}
-                    onClick={isGoalEligible ? () => onEditGoal({ metricKey: metric.key as string, label: metric.label }) : undefined}
+                    onClick={isGoalEligible ? () => onEditGoal({ metricKey: metric.key as string, label: metric.label, unit: metric.unit, latestValue: latestValue || null }) : undefined}
                   >
                     {goalValue && latestValue ? (
-                      <Tooltip content={formatGapTooltip(latestValue, goalValue, metric.higherIsBetter ?? true, metric.unit)}>
+                      <Tooltip content={formatGapTooltip(toDisplayValue(latestValue, metric.unit, units), toDisplayValue(goalValue, metric.unit, units), metric.higherIsBetter ?? true, unitLabel)}>
                         <span className={`text-xs tabular-nums font-medium cursor-help ${goalColor}`}>
-                          {goalValue.toFixed(1)}
+                          {toDisplayValue(goalValue, metric.unit, units).toFixed(1)}
                         </span>
                       </Tooltip>
                     ) : goalValue ? (
                       <span className={`text-xs tabular-nums font-medium ${goalColor}`}>
-                        {goalValue.toFixed(1)}
+                        {toDisplayValue(goalValue, metric.unit, units).toFixed(1)}
                       </span>
                     ) : isGoalEligible ? (
                       <span className="text-xs text-gray-300 dark:text-gray-600 group-hover:text-gray-500 transition-colors">+</span>
@@ -800,29 +837,35 @@ function CategorySection({
                       <Tooltip content={
                         metric.key === 'bodyFatPercentage' && goalValue ? (
                           (() => {
-                            const projection = calculateWeightAtGoalBF(latestEntry, comparisonEntry, goalValue);
+                            const projection = projectWeightAtBodyFat(
+                              latestEntry,
+                              goalValue,
+                              fitTrend(getMetricSeries(entries, bodyspecScans, 'bodyFatMass'), trendOptions),
+                              fitTrend(getMetricSeries(entries, bodyspecScans, 'lbm'), trendOptions)
+                            );
                             return (
                               <div className="text-left">
                                 <div className="font-medium">{forecast.dateText}</div>
+                                {paceDetails}
                                 {projection && (
                                   <>
                                     <div className="border-t border-gray-600 mt-1 pt-1">
                                       <div className="font-medium">At {goalValue}% Body Fat:</div>
-                                      <div>Est. Weight: {projection.idealWeight.toFixed(1)} lb</div>
+                                      <div>Est. Weight: {formatMeasurement(projection.idealWeight, 'lb', units)}</div>
                                       <div className="text-[10px] opacity-80 mt-0.5">
-                                        (Assumes {projection.currentLeanMass.toFixed(1)} lb lean mass modeled)
+                                        (Assumes {formatMeasurement(projection.currentLeanMass, 'lb', units)} lean mass modeled)
                                       </div>
 
                                       {/* Only show trend if it implies significant lean mass change (>0.5lb) */}
                                       {Math.abs(projection.leanMassChangeProjected) > 0.5 && (
                                         <div className="text-[10px] text-amber-500/90 mt-1 pt-1 border-t border-gray-600/50">
-                                          Current trend: {projection.leanMassChangeProjected > 0 ? '+' : ''}{projection.leanMassChangeProjected.toFixed(1)} lb lean mass
+                                          Current trend: {projection.leanMassChangeProjected > 0 ? '+' : ''}{formatMeasurement(projection.leanMassChangeProjected, 'lb', units)} lean mass
                                           <br />
                                           <span className="opacity-75">
                                             (Loss is {projection.fatLossPct.toFixed(0)}% Fat / {(100 - projection.fatLossPct).toFixed(0)}% Lean)
                                           </span>
                                           <br />
-                                          Trend weight: {projection.projectedWeight.toFixed(1)} lb
+                                          Trend weight: {formatMeasurement(projection.projectedWeight, 'lb', units)}
                                         </div>
                                       )}
                                     </div>
@@ -831,12 +874,21 @@ function CategorySection({
                               </div>
                             );
                           })()
-                        ) : forecast.dateText
+                        ) : (
+                          <div className="text-left">
+                            <div className="font-medium">{forecast.dateText}</div>
+                            {paceDetails}
+                          </div>
+                        )
                       }>
-                        <span className={`text-xs tabular-nums font-medium cursor-help ${forecast.isMet ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-600 dark:text-gray-300'}`}>
+                        <span className={`text-xs tabular-nums font-medium cursor-help ${forecast.isMet ? 'text-emerald-600 dark:text-emerald-400' : getPaceColor(pace) ?? 'text-gray-600 dark:text-gray-300'}`}>
                           {forecast.timeText}
                         </span>
                       </Tooltip>
+                    ) : paceDetails ? (
+                      <Tooltip content={paceDetails}>
+                        <span className={`text-xs cursor-help ${getPaceColor(pace) ?? 'text-gray-400'}`}>—</span>
+                      </Tooltip>
                     ) : goalValue ? (
                       <span className="text-xs text-gray-400">—</span>
                     ) : (
@@ -907,7 +959,7 @@ function CategorySection({
                                   <div className="flex items-center gap-1">
                                     <span>Weight:</span>
                                     <span className={rateColor}>
-                                      {weightPerWeek >= 0 ? '+' : ''}{weightPerWeek.toFixed(2)} lb/wk
+                                      {weightPerWeek >= 0 ? '+' : ''}{formatMeasurement(weightPerWeek, 'lb/wk', units, 2)}
                                     </span>
                                     {rateLabel && <span className={`text-[10px] ${rateColor}`}>{rateLabel}</span>}
                                   </div>
@@ -919,7 +971,7 @@ function CategorySection({
                                   {weightChange < 0 ? (
                                     <>Ideal loss: 0.5–1% body weight/wk</>
                                   ) : (
-                                    <>Ideal gain: 0.25–0.5 lb/wk (lean)</>
+                                    <>Ideal gain: {units === 'metric' ? '0.1–0.25 kg/wk' : '0.25–0.5 lb/wk'} (lean)</>
                                   )}
                                 </div>
                               </div>
@@ -940,7 +992,7 @@ function CategorySection({
             >
               {dataColumns.map((col) => {
                 if (col.type === 'dexa') {
-                  const dexaValue = getDexaValueForMetric(col.data, metric.key as string);
+                  const dexaValue = getDexaMetricValue(col.data, metric.key as string);
                   const displayDexaValue = metric.key === 'bodyFatPercentage' && typeof dexaValue === 'number'
                     ? Math.floor(dexaValue * 10) / 10
                     : dexaValue;
@@ -951,7 +1003,7 @@ function CategorySection({
                     >
                       {displayDexaValue !== null ? (
                         <span className="text-xs tabular-nums font-medium text-amber-700 dark:text-amber-300">
-                          {displayDexaValue.toFixed(1)}
+                          {toDisplayValue(displayDexaValue, metric.unit, units).toFixed(1)}
                         </span>
                       ) : (
                         <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -969,11 +1021,11 @@ function CategorySection({
 
                   const numValue = typeof value === 'number' ? value : 0;
                   const { color, arrow } = getTrendIndicator(numValue, previousValue, metric);
-                  const rangeStatus = getRangeStatus(numValue, metric);
-                  const { dotColor, label: rangeLabel } = getRangeIndicator(rangeStatus, metric);
+                  const rangeStatus = getRangeStatus(numValue, range);
+                  const { dotColor, label: rangeLabel } = getRangeIndicator(rangeStatus, range, metric.unit, units);
                   const displayValue = metric.key === 'bodyFatPercentage' && typeof value === 'number'
                     ? (Math.floor(value * 10) / 10).toFixed(1)
-                    : formatValue(value);
+                    : formatValue(value, metric.unit, units);
 
                   return (
                     <td
@@ -1034,10 +1086,10 @@ function CategorySection({
                         <Tooltip content={
                           <div className="text-left">
                             <div className="font-medium mb-1">Trend Period Breakdown</div>
-                            <div>Fat: {trendFatShare.fatChange >= 0 ? '+' : ''}{trendFatShare.fatChange.toFixed(1)} lb</div>
-                            <div>Lean: {trendFatShare.leanChange >= 0 ? '+' : ''}{trendFatShare.leanChange.toFixed(1)} lb</div>
+                            <div>Fat: {trendFatShare.fatChange >= 0 ? '+' : ''}{formatMeasurement(trendFatShare.fatChange, 'lb', units)}</div>
+                            <div>Lean: {trendFatShare.leanChange >= 0 ? '+' : ''}{formatMeasurement(trendFatShare.leanChange, 'lb', units)}</div>
                             <div className="border-t border-gray-600 mt-1 pt-1">
-                              Total: {trendFatShare.weightChange >= 0 ? '+' : ''}{trendFatShare.weightChange.toFixed(1)} lb
+                              Total: {trendFatShare.weightChange >= 0 ? '+' : ''}{formatMeasurement(trendFatShare.weightChange, 'lb', units)}
                             </div>
                           </div>
                         }>
@@ -1110,10 +1162,10 @@ function CategorySection({
                     const tooltipContent = (
                       <div className="text-left">
                         <div className="font-medium mb-1">Weight Change Breakdown</div>
-                        <div>Fat: {fatShareData.fatChange >= 0 ? '+' : ''}{fatShareData.fatChange.toFixed(1)} lb</div>
-                        <div>Lean: {fatShareData.leanChange >= 0 ? '+' : ''}{fatShareData.leanChange.toFixed(1)} lb</div>
+                        <div>Fat: {fatShareData.fatChange >= 0 ? '+' : ''}{formatMeasurement(fatShareData.fatChange, 'lb', units)}</div>
+                        <div>Lean: {fatShareData.leanChange >= 0 ? '+' : ''}{formatMeasurement(fatShareData.leanChange, 'lb', units)}</div>
                         <div className="border-t border-gray-600 mt-1 pt-1">
-                          Total: {fatShareData.weightChange >= 0 ? '+' : ''}{fatShareData.weightChange.toFixed(1)} lb
+                          Total: {fatShareData.weightChange >= 0 ? '+' : ''}{formatMeasurement(fatShareData.weightChange, 'lb', units)}
                         </div>
                         <div className="border-t border-gray-600 mt-1 pt-1 text-[10px] opacity-80">
                           Ideal: {fatShareData.weightChange < 0 ? '50-100%' : '0-50%'}
@@ -1163,9 +1215,10 @@ interface SegmentalSectionProps {
   comparisonEntry: BIAEntry | null;
   fields: Array<{ key: keyof BIAEntry; label: string }>;
   higherIsBetter: boolean;
-  goalsMap: Map<string, number>;
-  onEditGoal: (goal: { metricKey: string; label: string }) => void;
-  daysBetween: number;
+  goalsMap: Map<string, Goal>;
+  onEditGoal: (goal: EditingGoal) => void;
+  trendOptions: TrendOptions;
+  units: UnitSystem;
 }
 
 function getSegmentalTrendIndicator(
@@ -1200,7 +1253,8 @@ function SegmentalSection({
   higherIsBetter,
   goalsMap,
   onEditGoal,
-  daysBetween,
+  trendOptions,
+  units,
 }: SegmentalSectionProps) {
   const latestEntry = entries[0];
 
@@ -1233,24 +1287,24 @@ function SegmentalSection({
           const comparisonLb = comparisonValue?.lb || 0;
           const trendDiff = latestLb && comparisonLb ? latestLb - comparisonLb : 0;
           const trendImproved = trendDiff !== 0 ? (higherIsBetter ? trendDiff > 0 : trendDiff < 0) : null;
-          const { text: trendText, color: trendColor } = formatTrendValue(trendDiff, trendImproved);
+          const { text: trendText, color: trendColor } = formatTrendValue(toDisplayValue(trendDiff, 'lb', units), trendImproved);
 
           // Goal data for segmental muscle (lb values)
           const isGoalEligible = GOAL_ELIGIBLE_METRICS.includes(field.key);
-          const goalValue = goalsMap.get(field.key as string);
+          const goal = goalsMap.get(field.key as string);
+          const goalValue = goal?.targetValue;
           const goalProgress = goalValue && latestLb
             ? getGoalProgress(latestLb, goalValue, higherIsBetter)
             : null;
           const goalColor = getGoalProgressColor(goalProgress);
 
           // Forecast data
-          const forecast = calculateForecast(
-            latestLb,
-            goalValue,
-            comparisonLb,
-            daysBetween,
-            higherIsBetter
-          );
+          const fit = fitTrend(getMetricSeries(entries, bodyspecScans, field.key), trendOptions);
+          const forecast = fit && goalValue && latestLb
+            ? formatForecast(forecastTarget(fit, goalValue, higherIsBetter, latestLb))
+            : null;
+          const pace = goal && latestLb ? getGoalPace(goal, latestLb, fit?.slopePerDay ?? null, higherIsBetter) : null;
+          const paceDetails = goal && pace ? <GoalPaceDetails goal={goal} pace={pace} unit="lb" units={units} /> : null;
 
           return (
             <TimeSeriesRow
@@ -1260,17 +1314,17 @@ function SegmentalSection({
                 <>
                   <td
                     className={`px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 hover:bg-gray-50 dark:hover:bg-gray-800/50 ${isGoalEligible ? 'cursor-pointer' : ''}`}
-                    onClick={isGoalEligible ? () => onEditGoal({ metricKey: field.key as string, label: field.label }) : undefined}
+                    onClick={isGoalEligible ? () => onEditGoal({ metricKey: field.key as string, label: field.label, unit: 'lb', latestValue: latestLb || null }) : undefined}
                   >
                     {goalValue && latestLb ? (
-                      <Tooltip content={formatGapTooltip(latestLb, goalValue, higherIsBetter, 'lb')}>
+                      <Tooltip content={formatGapTooltip(toDisplayValue(latestLb, 'lb', units), toDisplayValue(goalValue, 'lb', units), higherIsBetter, displayUnit('lb', units))}>
                         <span className={`text-xs tabular-nums font-medium cursor-help ${goalColor}`}>
-                          {goalValue.toFixed(1)}
+                          {toDisplayValue(goalValue, 'lb', units).toFixed(1)}
                         </span>
                       </Tooltip>
                     ) : goalValue ? (
                       <span className={`text-xs tabular-nums font-medium ${goalColor}`}>
-                        {goalValue.toFixed(1)}
+                        {toDisplayValue(goalValue, 'lb', units).toFixed(1)}
                       </span>
                     ) : isGoalEligible ? (
                       <span className="text-xs text-gray-300 dark:text-gray-600">+</span>
@@ -1280,11 +1334,20 @@ function SegmentalSection({
                   </td>
                   <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/20 dark:bg-blue-900/5">
                     {forecast ? (
-                      <Tooltip content={forecast.dateText}>
-                        <span className={`text-xs tabular-nums font-medium cursor-help ${forecast.isMet ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-600 dark:text-gray-300'}`}>
+                      <Tooltip content={
+                        <div className="text-left">
+                          <div className="font-medium">{forecast.dateText}</div>
+                          {paceDetails}
+                        </div>
+                      }>
+                        <span className={`text-xs tabular-nums font-medium cursor-help ${forecast.isMet ? 'text-emerald-600 dark:text-emerald-400' : getPaceColor(pace) ?? 'text-gray-600 dark:text-gray-300'}`}>
                           {forecast.timeText}
                         </span>
                       </Tooltip>
+                    ) : paceDetails ? (
+                      <Tooltip content={paceDetails}>
+                        <span className={`text-xs cursor-help ${getPaceColor(pace) ?? 'text-gray-400'}`}>—</span>
+                      </Tooltip>
                     ) : goalValue ? (
                       <span className="text-xs text-gray-400">—</span>
                     ) : (
@@ -1303,7 +1366,7 @@ function SegmentalSection({
             >
               {dataColumns.map((col) => {
                 if (col.type === 'dexa') {
-                  const dexaValue = getDexaSegmentalValue(col.data, field.key as string);
+                  const dexaValue = getDexaMetricValue(col.data, field.key as string);
                   return (
                     <td
                       key={col.data.id}
@@ -1311,7 +1374,7 @@ function SegmentalSection({
                     >
                       {dexaValue !== null ? (
                         <span className="text-xs tabular-nums font-medium text-amber-700 dark:text-amber-300">
-                          {dexaValue.toFixed(1)}
+                          {toDisplayValue(dexaValue, 'lb', units).toFixed(1)}
                         </span>
                       ) : (
                         <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -1337,7 +1400,7 @@ function SegmentalSection({
                     >
                       <span className={`text-xs inline-flex items-center justify-center gap-1.5 ${color || 'text-gray-900 dark:text-gray-100'}`}>
                         <span className="w-1.5" />
-                        <span className="tabular-nums w-14 text-right">{formatValue(value)}</span>
+                        <span className="tabular-nums w-14 text-right">{formatValue(value, 'lb', units)}</span>
                         {arrow ? (
                           <span className="text-[10px] w-3">{arrow}</span>
                         ) : (
@@ -1355,22 +1418,220 @@ function SegmentalSection({
   );
 }
 
+// ========================================
+// DEXA Detail Section
+// ========================================
+
+interface DexaDetailRow {
+  key: string;
+  label: string;
+  unit: string;                  // Storage unit; only 'lb' is converted for display
+  decimals: number;
+  higherIsBetter: boolean | null;
+  getValue: (scan: BodyspecScanData) => number | undefined;
+}
+
+const BONE_REGION_LABELS: Record<string, string> = {
+  head: 'Head',
+  left_arm: 'Left Arm',
+  right_arm: 'Right Arm',
+  left_ribs: 'Left Ribs',
+  right_ribs: 'Right Ribs',
+  thoracic_spine: 'Thoracic Spine',
+  lumbar_spine: 'Lumbar Spine',
+  spine: 'Spine',
+  pelvis: 'Pelvis',
+  trunk: 'Trunk',
+  left_leg: 'Left Leg',
+  right_leg: 'Right Leg',
+};
+
+function formatRegionLabel(region: string): string {
+  return BONE_REGION_LABELS[region] ?? region.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+// Zero means "not measured" in the flat fields of older scans
+function nonZero(value: number | undefined): number | undefined {
+  return value ? value : undefined;
+}
+
+function getDexaDetailRows(scans: BodyspecScan[]): DexaDetailRow[] {
+  const regionKeys = new Set<string>();
+  for (const scan of scans) {
+    Object.keys(scan.data.boneDensity?.regions ?? {}).forEach(key => regionKeys.add(key));
+  }
+  const knownOrder = Object.keys(BONE_REGION_LABELS);
+  const regions = Array.from(regionKeys).sort((a, b) => {
+    const ai = knownOrder.indexOf(a);
+    const bi = knownOrder.indexOf(b);
+    return (ai === -1 ? knownOrder.length : ai) - (bi === -1 ? knownOrder.length : bi) || a.localeCompare(b);
+  });
+
+  return [
+    { key: 'bmd-total', label: 'Total BMD', unit: 'g/cm²', decimals: 3, higherIsBetter: true, getValue: d => d.boneDensity?.total.bmd ?? nonZero(d.boneMineralDensity) },
+    { key: 't-score', label: 'T-score', unit: '', decimals: 1, higherIsBetter: true, getValue: d => d.boneDensity?.total.tScore ?? d.tScore },
+    { key: 'z-score', label: 'Z-score', unit: '', decimals: 1, higherIsBetter: true, getValue: d => d.boneDensity?.total.zScore ?? d.zScore },
+    ...regions.map((region): DexaDetailRow => ({
+      key: `bmd-${region}`,
+      label: `${formatRegionLabel(region)} BMD`,
+      unit: 'g/cm²',
+      decimals: 3,
+      higherIsBetter: true,
+      getValue: d => d.boneDensity?.regions[region]?.bmd,
+    })),
+    { key: 'vat-mass', label: 'VAT Mass', unit: 'lb', decimals: 2, higherIsBetter: false, getValue: d => d.visceralFat?.massLb },
+    { key: 'vat-volume', label: 'VAT Volume', unit: 'cm³', decimals: 0, higherIsBetter: false, getValue: d => d.visceralFat?.volumeCm3 ?? nonZero(d.visceralAdiposeTissue) },
+    { key: 'android-fat', label: 'Android Fat %', unit: '%', decimals: 1, higherIsBetter: false, getValue: d => d.androidGynoid?.androidFatPercentage },
+    { key: 'gynoid-fat', label: 'Gynoid Fat %', unit: '%', decimals: 1, higherIsBetter: null, getValue: d => d.androidGynoid?.gynoidFatPercentage },
+    { key: 'ag-ratio', label: 'A/G Ratio', unit: '', decimals: 2, higherIsBetter: false, getValue: d => d.androidGynoidRatio },
+  ];
+}
+
+interface DexaDetailSectionProps {
+  isExpanded: boolean;
+  onToggle: () => void;
+  entries: BIAEntry[];
+  bodyspecScans: BodyspecScan[];
+  units: UnitSystem;
+}
+
+function DexaDetailSection({
+  isExpanded,
+  onToggle,
+  entries,
+  bodyspecScans,
+  units,
+}: DexaDetailSectionProps) {
+  // Newest first, matching the column order
+  const scans = [...bodyspecScans].sort((a, b) => new Date(b.scanDate).getTime() - new Date(a.scanDate).getTime());
+  const rows = getDexaDetailRows(scans).filter(row => scans.some(scan => row.getValue(scan.data) !== undefined));
+  if (rows.length === 0) return null;
+
+  // Scans synced before the full detail was stored only carry the flat totals
+  const missingDetail = scans.filter(scan => !scan.data.boneDensity && !scan.data.visceralFat).length;
+
+  type DataColumn =
+    | { type: 'bia'; data: BIAEntry; date: Date }
+    | { type: 'dexa'; data: BodyspecScan; date: Date };
+
+  const dataColumns: DataColumn[] = [
+    ...entries.map(entry => ({ type: 'bia' as const, data: entry, date: new Date(entry.date) })),
+    ...scans.map(scan => ({ type: 'dexa' as const, data: scan, date: new Date(scan.scanDate) })),
+  ].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  return (
+    <>
+      <SectionHeaderRow
+        label={
+          <span className="inline-flex items-center gap-2">
+            DEXA Detail
+            {missingDetail > 0 && (
+              <span className="text-[10px] font-normal text-gray-400">
+                {missingDetail} older scan{missingDetail !== 1 ? 's' : ''} need a re-sync for regional data
+              </span>
+            )}
+          </span>
+        }
+        color="gray"
+        isExpanded={isExpanded}
+        onToggle={onToggle}
+        columnCount={dataColumns.length}
+        fixedCellsCount={3}
+      />
+      {isExpanded &&
+        rows.map((row) => {
+          const unitLabel = row.unit === 'lb' ? displayUnit('lb', units) : row.unit;
+          const format = (value: number) => (row.unit === 'lb' ? toDisplayValue(value, 'lb', units) : value).toFixed(row.decimals);
+
+          // Trend is scan over scan: the latest two scans that measured this row
+          const measured = scans
+            .map(scan => ({ scan, value: row.getValue(scan.data) }))
+            .filter((m): m is { scan: BodyspecScan; value: number } => m.value !== undefined);
+          const [latest, previous] = measured;
+          const diff = latest && previous ? latest.value - previous.value : 0;
+          const significant = Math.abs(diff) >= 0.5 * 10 ** -row.decimals;
+          const improved = significant && row.higherIsBetter !== null ? (row.higherIsBetter ? diff > 0 : diff < 0) : null;
+          const trendText = significant ? `${diff > 0 ? '+' : '−'}${Math.abs(row.unit === 'lb' ? toDisplayValue(diff, 'lb', units) : diff).toFixed(row.decimals)}` : '—';
+          const trendColor = !significant
+            ? 'text-gray-300 dark:text-gray-600'
+            : improved === null
+              ? 'text-gray-600 dark:text-gray-300'
+              : improved ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400';
+
+          return (
+            <TimeSeriesRow
+              key={row.key}
+              label={
+                <span className="text-xs">
+                  {row.label}
+                  {unitLabel && <span className="ml-1 text-gray-400">({unitLabel})</span>}
+                </span>
+              }
+              fixedContent={
+                <>
+                  <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                    <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                  </td>
+                  <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/20 dark:bg-blue-900/5">
+                    <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                  </td>
+                  <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/50 dark:bg-gray-800/30">
+                    <Tooltip content={previous ? `Change since the ${formatDate(previous.scan.scanDate)} scan` : 'Needs two scans'}>
+                      <span className={`text-xs tabular-nums font-medium cursor-help ${trendColor}`}>
+                        {trendText}
+                      </span>
+                    </Tooltip>
+                  </td>
+                </>
+              }
+            >
+              {dataColumns.map((col) => {
+                if (col.type === 'bia') {
+                  return (
+                    <td key={col.data.id} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                      <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                    </td>
+                  );
+                }
+                const value = row.getValue(col.data.data);
+                return (
+                  <td
+                    key={col.data.id}
+                    className="px-3 py-1.5 text-center border-l border-amber-200 dark:border-amber-800/50 bg-amber-50/30 dark:bg-amber-900/10"
+                  >
+                    {value !== undefined ? (
+                      <span className="text-xs tabular-nums font-medium text-amber-700 dark:text-amber-300">
+                        {format(value)}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                    )}
+                  </td>
+                );
+              })}
+            </TimeSeriesRow>
+          );
+        })}
+    </>
+  );
+}
+
 // ========================================
 // Muscle Growth Analysis Section
 // ========================================
 
 interface MuscleGrowthAnalysisSectionProps {
   correlations: CorrelationResult[];
-  insights: Insight[];
   isExpanded: boolean;
   onToggle: () => void;
+  units: UnitSystem;
 }
 
 function MuscleGrowthAnalysisSection({
   correlations,
-  insights,
   isExpanded,
   onToggle,
+  units,
 }: MuscleGrowthAnalysisSectionProps) {
   const latest = correlations[0];
   if (!latest) return null;
@@ -1388,9 +1649,6 @@ function MuscleGrowthAnalysisSection({
     return names[segment] || segment;
   };
 
-  // Get the most important insight
-  const primaryInsight = insights && insights.length > 0 ? insights[0] : null;
-
   return (
     <>
       <SectionHeaderRow
@@ -1403,46 +1661,6 @@ function MuscleGrowthAnalysisSection({
 
       {isExpanded && (
         <>
-          {/* Primary Insight as visible row */}
-          {primaryInsight && (
-            <TimeSeriesRow
-              label="Insight"
-              columns={[latest.period]}
-              renderCell={() => {
-                const bgColor = primaryInsight.severity === 'warning'
-                  ? 'bg-amber-50/60 dark:bg-amber-900/15'
-                  : primaryInsight.severity === 'tip'
-                    ? 'bg-blue-50/60 dark:bg-blue-900/15'
-                    : 'bg-emerald-50/60 dark:bg-emerald-900/15';
-
-                const icon = primaryInsight.severity === 'warning' ? '⚠️' :
-                  primaryInsight.severity === 'tip' ? '💡' : '✓';
-
-                return (
-                  <td className={`px-2 py-1.5 text-center text-xs ${bgColor}`}>
-                    <Tooltip
-                      content={
-                        <>
-                          <div className="font-medium">{primaryInsight.title}</div>
-                          <div className="text-xs mt-1">{primaryInsight.description}</div>
-                          {primaryInsight.recommendation && (
-                            <div className="text-xs italic mt-1 opacity-90">
-                              {primaryInsight.recommendation}
-                            </div>
-                          )}
-                        </>
-                      }
-                    >
-                      <span className="cursor-help font-medium text-gray-700 dark:text-gray-300">
-                        {icon} {primaryInsight.title}
-                      </span>
-                    </Tooltip>
-                  </td>
-                );
-              }}
-            />
-          )}
-
           {/* Total Muscle Gain */}
           <TimeSeriesRow
             label="Total Muscle Gain"
@@ -1450,7 +1668,7 @@ function MuscleGrowthAnalysisSection({
             renderCell={() => (
               <td className="px-2 py-1.5 text-center text-xs">
                 <span className="text-emerald-600 dark:text-emerald-400">
-                  +{latest.totalMuscleGain.toFixed(1)} lb
+                  +{formatMeasurement(latest.totalMuscleGain, 'lb', units)}
                 </span>
               </td>
             )}
@@ -1462,7 +1680,7 @@ function MuscleGrowthAnalysisSection({
             columns={[latest.period]}
             renderCell={() => (
               <td className="px-2 py-1.5 text-center text-xs text-gray-900 dark:text-gray-100">
-                {(latest.totalVolume / 1000).toFixed(0)}k lbs
+                {(toDisplayValue(latest.totalVolume, 'lbs', units) / 1000).toFixed(0)}k {displayUnit('lbs', units)}
               </td>
             )}
           />
@@ -1480,7 +1698,7 @@ function MuscleGrowthAnalysisSection({
 
               return (
                 <td className="px-2 py-1.5 text-center text-xs">
-                  <Tooltip content={`${(eff / 1000).toFixed(0)}k lbs per lb gained`}>
+                  <Tooltip content={`${(eff / 1000).toFixed(0)}k ${displayUnit('lbs', units)} per ${displayUnit('lb', units)} gained`}>
                     <span className={color}>{score}</span>
                   </Tooltip>
                 </td>
@@ -1502,10 +1720,10 @@ function MuscleGrowthAnalysisSection({
                   <td className="px-2 py-1.5 text-center text-xs">
                     {change ? (
                       <Tooltip
-                        content={`Volume: ${volumeData.totalVolumeLbs.toFixed(0)} lbs | Sets: ${volumeData.totalSets}`}
+                        content={`Volume: ${formatMeasurement(volumeData.totalVolumeLbs, 'lbs', units, 0)} | Sets: ${volumeData.totalSets}`}
                       >
                         <span className={change.changeLbs > 0 ? 'text-emerald-600' : 'text-gray-400'}>
-                          {change.changeLbs > 0 ? '+' : ''}{change.changeLbs.toFixed(1)}
+                          {change.changeLbs > 0 ? '+' : ''}{toDisplayValue(change.changeLbs, 'lb', units).toFixed(1)}
                         </span>
                       </Tooltip>
                     ) : (
@@ -0,0 +1,79 @@
+import { BIAEntry, BodyspecAppointment, BodyspecScan } from '@/lib/types';
+import { recommendNextDexa } from '@/lib/dexa-schedule';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { formatClockTime, formatMeasurement } from '@/lib/units';
+import Tooltip from './Tooltip';
+
+interface DexaScheduleProps {
+  entries: BIAEntry[];
+  scans: BodyspecScan[];
+  appointments: BodyspecAppointment[];    // Upcoming, soonest first
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Booked this much earlier than recommended and the scan may not resolve the change yet
+const EARLY_BOOKING_DAYS = 14;
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export default function DexaSchedule({ entries, scans, appointments }: DexaScheduleProps) {
+  const [units] = useUnitSystem();
+  const recommendation = recommendNextDexa(entries, scans);
+  const nextAppointment = appointments[0];
+  const bookedDate = nextAppointment ? new Date(nextAppointment.startTime) : null;
+  const daysEarly = bookedDate ? Math.round((recommendation.date.getTime() - bookedDate.getTime()) / MS_PER_DAY) : 0;
+
+  const { driver } = recommendation;
+
+  return (
+    <div className="px-4 py-2 flex flex-wrap items-center gap-x-6 gap-y-1 border-b border-gray-200 dark:border-gray-800 text-xs">
+      <span className="font-medium text-gray-900 dark:text-gray-100">Next DEXA</span>
+
+      {appointments.length > 0 ? (
+        appointments.slice(0, 2).map(appt => {
+          const start = new Date(appt.startTime);
+          return (
+            <span key={appt.id} className="inline-flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+              <span className="w-1.5 h-1.5 rounded-full bg-amber-500" />
+              Booked {formatDay(start)}, {formatClockTime(start, units)}
+              {appt.location && <span className="text-gray-500 dark:text-gray-400">· {appt.location}</span>}
+            </span>
+          );
+        })
+      ) : (
+        <span className="text-gray-500 dark:text-gray-400">No appointment booked</span>
+      )}
+
+      <Tooltip
+        content={
+          <div className="text-left">
+            <div>{recommendation.reason}</div>
+            {driver && (
+              <div className="mt-1 text-gray-300">
+                {driver.label}: {driver.perWeek >= 0 ? '+' : '−'}{formatMeasurement(Math.abs(driver.perWeek), driver.unit, units)}/wk
+                {' '}· DEXA resolves ±{formatMeasurement(driver.detectableChange, driver.unit, units)}
+              </div>
+            )}
+          </div>
+        }
+      >
+        <span className={`cursor-help ${recommendation.overdue ? 'text-amber-600 dark:text-amber-400 font-medium' : 'text-gray-600 dark:text-gray-400'}`}>
+          {recommendation.lastScanDate === null
+            ? 'Recommended: baseline scan now'
+            : recommendation.overdue
+              ? `Recommended: due now (${Math.round(recommendation.intervalDays / 7)} wk interval)`
+              : `Recommended: ~${formatDay(recommendation.date)} (${Math.round(recommendation.intervalDays / 7)} wk after last scan)`}
+        </span>
+      </Tooltip>
+
+      {bookedDate && daysEarly > EARLY_BOOKING_DAYS && (
+        <span className="text-gray-500 dark:text-gray-400">
+          Booked {Math.round(daysEarly / 7)} wk early; changes may be within DEXA&apos;s error
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { displayUnit, fromDisplayValue, toDisplayValue } from '@/lib/units';
+import type { Goal, GoalStatus } from '@/lib/supabase';
 
 // Helper to format seconds/minutes to time string
 const formatTimeInput = (value: number, type: 'duration' | 'pace' | 'time'): string => {
@@ -59,8 +62,15 @@ interface GoalEditorProps {
   metricLabel: string;
   currentValue: number | null;
   inputType?: 'number' | 'duration' | 'pace' | 'time';
-  onSave: (metricKey: string, value: number) => void;
+  // Storage unit of the goal (e.g. 'lb', 'mi', '/mi'); edited in the user's unit system
+  unit?: string;
+  // Deadline of the active goal; the date input is only shown when onArchive is set
+  targetDate?: string | null;
+  // Achieved/abandoned goals for this metric
+  history?: Goal[];
+  onSave: (metricKey: string, value: number, targetDate?: string | null) => void;
   onDelete: (metricKey: string) => void;
+  onArchive?: (metricKey: string, status: Exclude<GoalStatus, 'active'>) => void;
   onClose: () => void;
 }
 
@@ -68,16 +78,26 @@ export default function GoalEditor({
   metricLabel,
   currentValue,
   inputType = 'number',
+  unit,
+  targetDate = null,
+  history = [],
   onSave,
   onDelete,
+  onArchive,
   onClose,
   metricKey,
 }: GoalEditorProps) {
-  const [value, setValue] = useState(() => {
+  const [units] = useUnitSystem();
+  const converts = !!unit && displayUnit(unit, units) !== unit;
+
+  const [initialValue] = useState(() => {
     if (currentValue === null) return '';
-    if (inputType === 'number') return currentValue.toString();
-    return formatTimeInput(currentValue, inputType);
+    const shown = unit ? toDisplayValue(currentValue, unit, units) : currentValue;
+    if (inputType === 'number') return converts ? shown.toFixed(1) : shown.toString();
+    return formatTimeInput(shown, inputType);
   });
+  const [value, setValue] = useState(initialValue);
+  const [deadline, setDeadline] = useState(targetDate ?? '');
 
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -98,11 +118,22 @@ export default function GoalEditor({
       numValue = parseTimeInput(value, inputType);
     }
 
+    if (currentValue !== null && value === initialValue) {
+      // Unchanged: keep the stored value rather than round-tripping a rounded conversion
+      numValue = currentValue;
+    } else if (numValue !== null && unit) {
+      numValue = fromDisplayValue(numValue, unit, units);
+    }
+
     // Allow 0 for time (midnight), but enforce positive for others?
     // Actually 0 goal might be valid for some things (e.g. 0 interruptions), but usually strict > 0 check was there.
     // For time, 0 is midnight.
     if (numValue !== null && (inputType === 'time' || numValue >= 0)) {
-      onSave(metricKey, numValue);
+      if (onArchive) {
+        onSave(metricKey, numValue, deadline || null);
+      } else {
+        onSave(metricKey, numValue);
+      }
       onClose();
     }
   };
@@ -112,6 +143,15 @@ export default function GoalEditor({
     onClose();
   };
 
+  const handleArchive = (status: Exclude<GoalStatus, 'active'>) => {
+    onArchive?.(metricKey, status);
+    onClose();
+  };
+
+  const formatGoalValue = (goalValue: number) => unit
+    ? `${toDisplayValue(goalValue, unit, units).toFixed(1)} ${displayUnit(unit, units)}`
+    : goalValue.toString();
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSave();
@@ -131,6 +171,7 @@ export default function GoalEditor({
       >
         <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
           Set Goal: {metricLabel}
+          {unit && <span className="ml-1 text-gray-500 dark:text-gray-400">({displayUnit(unit, units)})</span>}
         </h3>
         <input
           ref={inputRef}
@@ -147,6 +188,18 @@ export default function GoalEditor({
             Format: {placeholder}
           </p>
         )}
+        {onArchive && (
+          <label className="mt-3 flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+            Target date
+            <input
+              type="date"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        )}
         <div className="flex gap-2 mt-3">
           <button
             onClick={handleSave}
@@ -170,6 +223,40 @@ export default function GoalEditor({
             Cancel
           </button>
         </div>
+        {onArchive && currentValue !== null && (
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={() => handleArchive('achieved')}
+              className="flex-1 px-3 py-1.5 text-xs font-medium text-emerald-600 dark:text-emerald-400 border border-emerald-300 dark:border-emerald-700 rounded hover:bg-emerald-50 dark:hover:bg-emerald-900/30"
+            >
+              Mark achieved
+            </button>
+            <button
+              onClick={() => handleArchive('abandoned')}
+              className="flex-1 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Abandon
+            </button>
+          </div>
+        )}
+        {history.length > 0 && (
+          <div className="mt-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <p className="mb-1 text-[10px] font-medium uppercase text-gray-500 dark:text-gray-400">Past goals</p>
+            <ul className="max-h-32 overflow-y-auto space-y-0.5">
+              {history.map(goal => (
+                <li key={goal.id} className="flex justify-between gap-3 text-xs text-gray-600 dark:text-gray-300">
+                  <span className="tabular-nums">
+                    {goal.startValue !== null && `${formatGoalValue(goal.startValue)} → `}{formatGoalValue(goal.targetValue)}
+                  </span>
+                  <span className={goal.status === 'achieved' ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-400'}>
+                    {goal.status === 'achieved' ? 'Achieved' : 'Abandoned'}
+                    {goal.completedAt && ` ${new Date(goal.completedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+import { Insight, InsightSeverity } from '@/lib/types';
+import Tooltip from './Tooltip';
+
+interface InsightsBarProps {
+  insights: Insight[];
+}
+
+const SEVERITY_STYLES: Record<InsightSeverity, { icon: string; text: string }> = {
+  warning: { icon: '⚠️', text: 'text-amber-700 dark:text-amber-300' },
+  tip: { icon: '💡', text: 'text-blue-700 dark:text-blue-300' },
+  info: { icon: '✓', text: 'text-emerald-700 dark:text-emerald-300' },
+};
+
+/**
+ * Every current insight, details on hover
+ * Lives outside the measurements table so lifting insights show without any BIA entries.
+ */
+export default function InsightsBar({ insights }: InsightsBarProps) {
+  if (insights.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 flex flex-wrap items-center gap-x-6 gap-y-1 border-b border-gray-200 dark:border-gray-800 text-xs">
+      <span className="font-medium text-gray-900 dark:text-gray-100">Insights</span>
+
+      {insights.map((insight, i) => {
+        const style = SEVERITY_STYLES[insight.severity];
+        return (
+          <Tooltip
+            key={i}
+            content={
+              <div className="text-left">
+                <div>{insight.description}</div>
+                {insight.recommendation && (
+                  <div className="mt-1 italic text-gray-300">{insight.recommendation}</div>
+                )}
+              </div>
+            }
+          >
+            <span className={`cursor-help font-medium ${style.text}`}>
+              {style.icon} {insight.title}
+            </span>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
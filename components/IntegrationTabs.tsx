@@ -1,11 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { BodyspecConnection, BodyspecScan, RunningActivity, LiftingWorkout } from '@/lib/types';
+import { BIAEntry, BodyspecConnection, BodyspecScan, RunningActivity, LiftingWorkout } from '@/lib/types';
 
+import BulkImport from './BulkImport';
 import FileUpload from './FileUpload';
+import SyncHealthPanel from './SyncHealthPanel';
 
-type IntegrationType = 'bia-scale' | 'bodyspec' | 'strava' | 'hevy';
+type IntegrationType = 'bia-scale' | 'bodyspec' | 'strava' | 'hevy' | 'health';
 
 interface IntegrationTabsProps {
     // BIA Scale (Upload)
@@ -13,6 +15,8 @@ interface IntegrationTabsProps {
     isUploading: boolean;
     uploadProgress: string;
     uploadError: string | null;
+    entries: BIAEntry[];
+    onImportComplete: () => void;
     // Bodyspec
     bodyspecConnections: Omit<BodyspecConnection, 'accessToken' | 'refreshToken'>[];
     bodyspecScans: BodyspecScan[];
@@ -39,6 +43,8 @@ export default function IntegrationTabs({
     isUploading,
     uploadProgress,
     uploadError,
+    entries,
+    onImportComplete,
     bodyspecConnections,
     bodyspecScans,
     hiddenScans,
@@ -63,6 +69,7 @@ export default function IntegrationTabs({
         { id: 'bodyspec', label: 'Bodyspec', isConnected: bodyspecConnections.length > 0 },
         { id: 'strava', label: 'Strava', isConnected: stravaConnections.length > 0 },
         { id: 'hevy', label: 'Hevy', isConnected: hevyConnections.length > 0 },
+        { id: 'health', label: 'Health' },
     ];
 
     const visibleScans = bodyspecScans.filter(scan => !hiddenScans.has(scan.id));
@@ -126,6 +133,9 @@ export default function IntegrationTabs({
                                         {uploadError}
                                     </div>
                                 )}
+                                <div className="pt-4 border-t border-gray-100 dark:border-gray-800">
+                                    <BulkImport entries={entries} onImported={onImportComplete} />
+                                </div>
                             </div>
                         )}
                         {activeTab === 'bodyspec' && (
@@ -157,6 +167,7 @@ export default function IntegrationTabs({
                                 onSync={onWorkoutSync}
                             />
                         )}
+                        {activeTab === 'health' && <SyncHealthPanel />}
                     </div>
                 </div>
             )}
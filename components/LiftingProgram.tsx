@@ -0,0 +1,249 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { LiftingWorkout } from '@/lib/types';
+import type { Goal, GoalDetails } from '@/lib/supabase';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { displayUnit, toDisplayValue } from '@/lib/units';
+import {
+    adjustSessionFromPerformance,
+    DEFAULT_PROGRAM_WEEKS,
+    generateLiftingProgram,
+    getNextSessionIndex,
+    getProgramEndDate,
+    getProgramGoal,
+    LiftingProgram as LiftingProgramData,
+    MAX_PROGRAM_WEEKS,
+    MIN_PROGRAM_WEEKS,
+    PROGRAM_GOAL_KEY,
+    ProgramSession,
+} from '@/lib/lifting-program';
+import Tooltip from './Tooltip';
+
+interface LiftingProgramProps {
+    liftingWorkouts: LiftingWorkout[];
+    goals: Goal[];
+    onSaveGoal: (metricKey: string, value: number, details?: GoalDetails) => void;
+    onDeleteGoal: (metricKey: string) => void;
+}
+
+type PushStatus = 'idle' | 'pushing' | 'success' | 'error';
+
+const SESSION_STYLES = {
+    done: 'border-emerald-300 bg-emerald-50 dark:border-emerald-800 dark:bg-emerald-900/20',
+    next: 'border-blue-300 bg-blue-50 dark:border-blue-800 dark:bg-blue-900/20',
+    upcoming: 'border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900',
+};
+
+const WEEK_OPTIONS = Array.from(
+    { length: MAX_PROGRAM_WEEKS - MIN_PROGRAM_WEEKS + 1 },
+    (_, i) => MIN_PROGRAM_WEEKS + i
+);
+
+function formatDay(dateKey: string): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export default function LiftingProgram({ liftingWorkouts, goals, onSaveGoal, onDeleteGoal }: LiftingProgramProps) {
+    const [units] = useUnitSystem();
+    const [formWeeks, setFormWeeks] = useState(DEFAULT_PROGRAM_WEEKS);
+    const [pushStatus, setPushStatus] = useState<PushStatus>('idle');
+
+    const programGoal = useMemo(() => getProgramGoal(goals), [goals]);
+
+    // The active block, or a preview of one starting this week
+    const program = useMemo(
+        () => generateLiftingProgram(liftingWorkouts, programGoal ?? { weeks: formWeeks }),
+        [liftingWorkouts, programGoal, formWeeks]
+    );
+
+    const nextIndex = useMemo(
+        () => program && programGoal ? getNextSessionIndex(program, liftingWorkouts) : null,
+        [program, programGoal, liftingWorkouts]
+    );
+
+    // Next session re-based on what has been lifted so far in the block
+    const nextSession = useMemo(() => {
+        if (!program || !programGoal || nextIndex === null) return null;
+        return adjustSessionFromPerformance(program, nextIndex, liftingWorkouts);
+    }, [program, programGoal, nextIndex, liftingWorkouts]);
+
+    const weight = (lbs: number) => `${Math.round(toDisplayValue(lbs, 'lbs', units))} ${displayUnit('lbs', units)}`;
+
+    const handleStart = () => {
+        if (!program) return;
+        onSaveGoal(PROGRAM_GOAL_KEY, program.weeks, { targetDate: getProgramEndDate(program) });
+    };
+
+    const handleEnd = () => {
+        onDeleteGoal(PROGRAM_GOAL_KEY);
+    };
+
+    const handlePushToHevy = async (data: LiftingProgramData) => {
+        setPushStatus('pushing');
+        try {
+            const response = await fetch('/api/hevy/routines', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ program: data }),
+            });
+
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to create routines');
+            }
+
+            setPushStatus('success');
+            setTimeout(() => setPushStatus('idle'), 3000);
+        } catch (e) {
+            console.error('Error pushing program to Hevy:', e);
+            setPushStatus('error');
+            setTimeout(() => setPushStatus('idle'), 3000);
+        }
+    };
+
+    // Push the next session with its adjusted loads
+    const pushProgram = program && nextSession && nextIndex !== null
+        ? { ...program, sessions: program.sessions.map((s, i) => i === nextIndex ? nextSession : s) }
+        : program;
+
+    const renderSessionDetail = (session: ProgramSession) => (
+        <div className="text-left space-y-0.5">
+            <div className="font-medium">{session.name} · RPE {session.rpe}</div>
+            {session.exercises.map(exercise => (
+                <div key={exercise.name} className="text-gray-300">
+                    {exercise.name}: {exercise.sets.length} × {exercise.sets[0].targetReps} @ {weight(exercise.sets[0].weightLbs)}
+                    {exercise.sets[0].notes && <span className="text-gray-400"> ({exercise.sets[0].notes})</span>}
+                </div>
+            ))}
+        </div>
+    );
+
+    if (!program) return null;
+
+    const weeks = Array.from({ length: program.weeks }, (_, w) =>
+        program.sessions
+            .map((session, index) => ({ session, index }))
+            .filter(({ session }) => session.week === w + 1)
+    );
+
+    return (
+        <div className="border-t border-gray-200 dark:border-gray-800 px-4 py-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                <span className="font-medium text-gray-900 dark:text-gray-100">Lifting Program</span>
+
+                {programGoal ? (
+                    <>
+                        <span className="text-gray-700 dark:text-gray-300">
+                            {program.name} · started {formatDay(program.startDate)}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                            {nextIndex === null
+                                ? 'Block complete'
+                                : `Session ${nextIndex + 1} of ${program.sessions.length}`}
+                        </span>
+                    </>
+                ) : (
+                    <label className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+                        No active block
+                        <select
+                            value={formWeeks}
+                            onChange={e => setFormWeeks(Number(e.target.value))}
+                            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                        >
+                            {WEEK_OPTIONS.map(weeks => (
+                                <option key={weeks} value={weeks}>{weeks} weeks</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+
+                <div className="ml-auto flex items-center gap-2">
+                    {pushProgram && (
+                        <button
+                            onClick={() => handlePushToHevy(pushProgram)}
+                            disabled={pushStatus !== 'idle'}
+                            className={`px-2 py-1 rounded-md border font-medium transition-colors disabled:opacity-80 ${pushStatus === 'success'
+                                ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800'
+                                : pushStatus === 'error'
+                                    ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800'
+                                    : 'bg-green-100 hover:bg-green-200 dark:bg-green-900/40 dark:hover:bg-green-900/60 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800'
+                                }`}
+                        >
+                            {pushStatus === 'pushing' ? 'Pushing...' : pushStatus === 'success' ? 'Pushed!' : pushStatus === 'error' ? 'Failed' : 'Push to Hevy'}
+                        </button>
+                    )}
+                    <button
+                        onClick={programGoal ? handleEnd : handleStart}
+                        className="px-2 py-1 rounded-md font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                    >
+                        {programGoal ? 'End block' : 'Start block'}
+                    </button>
+                </div>
+            </div>
+
+            {nextSession && (
+                <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-xs space-y-1">
+                    <div className="font-medium text-gray-900 dark:text-gray-100">
+                        Next: {nextSession.name} · RPE {nextSession.rpe}
+                    </div>
+                    {nextSession.exercises.map(exercise => (
+                        <div key={exercise.name} className="flex flex-wrap gap-x-2 tabular-nums text-gray-700 dark:text-gray-300">
+                            <span>{exercise.name}</span>
+                            <span className="text-gray-500 dark:text-gray-400">
+                                {exercise.sets.length} × {exercise.sets[0].targetReps} @ {weight(exercise.sets[0].weightLbs)}
+                            </span>
+                            <span className="text-gray-400 dark:text-gray-500">e1RM {weight(exercise.e1rmLbs)}</span>
+                            {exercise.sets[0].notes && (
+                                <span className="text-blue-600 dark:text-blue-400">{exercise.sets[0].notes}</span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {weeks.map((sessions, w) => (
+                    <div key={w} className="flex flex-wrap items-start gap-2 text-xs">
+                        <div className="w-40 shrink-0 space-y-0.5">
+                            <div className="flex items-center gap-1.5">
+                                <span className="font-medium text-gray-900 dark:text-gray-100">Wk {w + 1}</span>
+                                {sessions[0]?.session.isDeload && (
+                                    <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300">
+                                        Deload
+                                    </span>
+                                )}
+                            </div>
+                            <div className="text-gray-500 dark:text-gray-400 tabular-nums">
+                                {sessions.reduce((sum, { session }) => sum + session.totalSets, 0)} sets · RPE {sessions[0]?.session.rpe}
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1.5">
+                            {sessions.map(({ session, index }) => {
+                                const status = !programGoal || (nextIndex !== null && index > nextIndex)
+                                    ? 'upcoming'
+                                    : index === nextIndex ? 'next' : 'done';
+                                const shown = index === nextIndex && nextSession ? nextSession : session;
+                                return (
+                                    <Tooltip key={index} content={renderSessionDetail(shown)}>
+                                        <div className={`px-2 py-1 rounded border cursor-help ${SESSION_STYLES[status]}`}>
+                                            <div className="text-gray-500 dark:text-gray-400">Day {session.day}</div>
+                                            <div className="font-medium text-gray-900 dark:text-gray-100">
+                                                {session.muscleGroups.map(g => g.charAt(0).toUpperCase() + g.slice(1)).join(', ')}
+                                            </div>
+                                            <div className="tabular-nums text-gray-600 dark:text-gray-400">
+                                                {session.exercises.length} exercises · {session.totalSets} sets
+                                            </div>
+                                        </div>
+                                    </Tooltip>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { ExerciseProgression } from '@/lib/exercise-progression';
+import { UnitSystem, displayUnit, toDisplayValue } from '@/lib/units';
+
+interface ProgressionChartProps {
+    progression: ExerciseProgression;
+    units: UnitSystem;
+}
+
+const WIDTH = 360;
+const E1RM_HEIGHT = 80;
+const VOLUME_HEIGHT = 36;
+const GAP = 10;
+const PAD_X = 6;
+const PAD_Y = 6;
+
+function formatDay(dateKey: string): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function dayNumber(dateKey: string): number {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Session e1RM and volume for one exercise over time
+ * Dots and bars are each session's raw value; lines are the smoothed trend.
+ */
+export default function ProgressionChart({ progression, units }: ProgressionChartProps) {
+    const { sessions } = progression;
+    if (sessions.length === 0) return null;
+
+    const weight = (lbs: number) => `${Math.round(toDisplayValue(lbs, 'lbs', units))} ${displayUnit('lbs', units)}`;
+    const volume = (lbs: number) => `${(toDisplayValue(lbs, 'lbs', units) / 1000).toFixed(1)}k ${displayUnit('lbs', units)}`;
+
+    const firstDay = dayNumber(sessions[0].date);
+    const span = Math.max(1, dayNumber(sessions[sessions.length - 1].date) - firstDay);
+    const x = (dateKey: string) => PAD_X + ((dayNumber(dateKey) - firstDay) / span) * (WIDTH - 2 * PAD_X);
+
+    const e1rms = sessions.flatMap(s => [s.e1rmLbs, s.smoothedE1rmLbs]);
+    const minE1rm = Math.min(...e1rms);
+    const maxE1rm = Math.max(...e1rms);
+    const e1rmRange = Math.max(1, maxE1rm - minE1rm);
+    const yE1rm = (lbs: number) => PAD_Y + (1 - (lbs - minE1rm) / e1rmRange) * (E1RM_HEIGHT - 2 * PAD_Y);
+
+    const maxVolume = Math.max(1, ...sessions.flatMap(s => [s.volumeLbs, s.smoothedVolumeLbs]));
+    const volumeTop = E1RM_HEIGHT + GAP;
+    const yVolume = (lbs: number) => volumeTop + (1 - lbs / maxVolume) * VOLUME_HEIGHT;
+
+    const e1rmLine = sessions.map(s => `${x(s.date).toFixed(1)},${yE1rm(s.smoothedE1rmLbs).toFixed(1)}`).join(' ');
+    const volumeLine = sessions.map(s => `${x(s.date).toFixed(1)},${yVolume(s.smoothedVolumeLbs).toFixed(1)}`).join(' ');
+    const latest = sessions[sessions.length - 1];
+
+    return (
+        <div className="flex items-start gap-4 text-[10px] text-gray-500 dark:text-gray-400">
+            <svg
+                width={WIDTH}
+                height={volumeTop + VOLUME_HEIGHT}
+                viewBox={`0 0 ${WIDTH} ${volumeTop + VOLUME_HEIGHT}`}
+                className="shrink-0 overflow-visible"
+            >
+                {sessions.map(s => (
+                    <rect
+                        key={`v-${s.workoutId}`}
+                        x={x(s.date) - 1.5}
+                        y={yVolume(s.volumeLbs)}
+                        width={3}
+                        height={volumeTop + VOLUME_HEIGHT - yVolume(s.volumeLbs)}
+                        className="fill-emerald-200 dark:fill-emerald-900"
+                    >
+                        <title>{`${formatDay(s.date)}: ${volume(s.volumeLbs)} (trend ${volume(s.smoothedVolumeLbs)})`}</title>
+                    </rect>
+                ))}
+                <polyline points={volumeLine} fill="none" strokeWidth={1.5} className="stroke-emerald-500" />
+
+                {sessions.map(s => (
+                    <circle
+                        key={`e-${s.workoutId}`}
+                        cx={x(s.date)}
+                        cy={yE1rm(s.e1rmLbs)}
+                        r={2}
+                        className="fill-gray-300 dark:fill-gray-600"
+                    >
+                        <title>{`${formatDay(s.date)}: e1RM ${weight(s.e1rmLbs)} (trend ${weight(s.smoothedE1rmLbs)})`}</title>
+                    </circle>
+                ))}
+                <polyline points={e1rmLine} fill="none" strokeWidth={1.5} className="stroke-blue-500" />
+            </svg>
+
+            <div className="space-y-1 tabular-nums">
+                <div>
+                    <span className="inline-block w-2 h-0.5 mr-1 align-middle bg-blue-500" />
+                    e1RM {weight(latest.smoothedE1rmLbs)}
+                    <span className="text-gray-400 dark:text-gray-500"> · range {weight(minE1rm)}–{weight(maxE1rm)}</span>
+                </div>
+                <div>
+                    <span className="inline-block w-2 h-0.5 mr-1 align-middle bg-emerald-500" />
+                    Volume {volume(latest.smoothedVolumeLbs)}
+                    <span className="text-gray-400 dark:text-gray-500"> · last {volume(latest.volumeLbs)}</span>
+                </div>
+                <div className="text-gray-400 dark:text-gray-500">
+                    {sessions.length} sessions · {formatDay(sessions[0].date)}–{formatDay(latest.date)}
+                </div>
+            </div>
+        </div>
+    );
+}
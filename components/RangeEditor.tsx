@@ -0,0 +1,134 @@
+import { useState, useRef, useEffect } from 'react';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { displayUnit, fromDisplayValue, toDisplayValue } from '@/lib/units';
+import { PersonalRange } from '@/lib/normal-ranges';
+
+interface RangeEditorProps {
+  metricKey: string;
+  metricLabel: string;
+  // Storage unit of the metric; bounds are edited in the user's unit system
+  unit: string;
+  range: PersonalRange | null;
+  onSave: (metricKey: string, min: number, max: number) => void;
+  onDelete: (metricKey: string) => void;
+  onClose: () => void;
+}
+
+export default function RangeEditor({
+  metricKey,
+  metricLabel,
+  unit,
+  range,
+  onSave,
+  onDelete,
+  onClose,
+}: RangeEditorProps) {
+  const [units] = useUnitSystem();
+  const unitLabel = displayUnit(unit, units);
+
+  const [initialMin] = useState(() => range ? Number(toDisplayValue(range.min, unit, units).toFixed(1)).toString() : '');
+  const [initialMax] = useState(() => range ? Number(toDisplayValue(range.max, unit, units).toFixed(1)).toString() : '');
+  const [min, setMin] = useState(initialMin);
+  const [max, setMax] = useState(initialMax);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const parsedMin = parseFloat(min);
+  const parsedMax = parseFloat(max);
+  const isValid = !isNaN(parsedMin) && !isNaN(parsedMax) && parsedMin <= parsedMax;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    // Unchanged bounds keep the stored value rather than round-tripping a rounded conversion
+    const minValue = range && min === initialMin ? range.min : fromDisplayValue(parsedMin, unit, units);
+    const maxValue = range && max === initialMax ? range.max : fromDisplayValue(parsedMax, unit, units);
+    onSave(metricKey, minValue, maxValue);
+    onClose();
+  };
+
+  const handleReset = () => {
+    onDelete(metricKey);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-4 min-w-[280px]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">
+          Normal Range: {metricLabel}
+          {unitLabel && <span className="ml-1 text-gray-500 dark:text-gray-400">({unitLabel})</span>}
+        </h3>
+        <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+          {range?.source === 'override'
+            ? 'Manual override'
+            : range?.source === 'reference'
+              ? `From your profile${range.basis ? ` · ${range.basis}` : ''}`
+              : 'Default range'}
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            ref={inputRef}
+            type="number"
+            step="0.1"
+            value={min}
+            onChange={(e) => setMin(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Min"
+            className={inputClass}
+          />
+          <span className="text-xs text-gray-400">–</span>
+          <input
+            type="number"
+            step="0.1"
+            value={max}
+            onChange={(e) => setMax(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Max"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="flex-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+          {range?.source === 'override' && (
+            <button
+              onClick={handleReset}
+              className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded hover:bg-red-50 dark:hover:bg-red-900/30"
+            >
+              Reset
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import Tooltip from './Tooltip';
 import { TrendPeriod, getTrendPeriodLabel, getComparisonEntry, formatTrendValue } from '@/lib/trend-utils';
 import { Goal } from '@/lib/supabase';
 import GoalEditor from './GoalEditor';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { UnitSystem, formatClockTime } from '@/lib/units';
 
 interface SleepTableProps {
     entries: SleepEntry[];
@@ -69,10 +71,10 @@ function timeToMinutes(isoString: string, isBedtime: boolean = false): number |
     }
 }
 
-function formatTime(isoString: string): string {
+function formatTime(isoString: string, units: UnitSystem): string {
     if (!isoString) return '—';
     try {
-        return new Date(isoString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+        return formatClockTime(new Date(isoString), units);
     } catch {
         return '—';
     }
@@ -183,6 +185,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
     const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['overview', 'timing', 'stages', 'interruptions']));
     const [trendPeriod, setTrendPeriod] = useState<TrendPeriod>('7');
     const [editingGoal, setEditingGoal] = useState<{ metricKey: string; label: string; type?: 'number' | 'duration' | 'time' } | null>(null);
+    const [units] = useUnitSystem();
 
     // Build goals map
     const goalsMap = useMemo(() => {
@@ -307,7 +310,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
             );
         }
 
-        const displayValue = formatTime(avgTime);
+        const displayValue = formatTime(avgTime, units);
         const periodLabel = getTrendPeriodLabel(trendPeriod);
 
         return (
@@ -357,7 +360,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
         const periodLabel = getTrendPeriodLabel(trendPeriod);
 
         // Format comparison time for tooltip
-        const comparisonTimeStr = new Date(getTime(comparisonEntry)).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+        const comparisonTimeStr = formatClockTime(new Date(getTime(comparisonEntry)), units);
 
         return (
             <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/50 dark:bg-gray-800/20">
@@ -408,7 +411,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
                         const m = Math.round(v % 60);
                         const d = new Date();
                         d.setHours(h, m, 0, 0);
-                        return d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+                        return formatClockTime(d, units);
                     }
                     return type === 'number' ? v.toFixed(1) : v.toString();
                 };
@@ -432,7 +435,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
                 const m = Math.round(goalValue % 60);
                 const d = new Date();
                 d.setHours(h, m, 0, 0);
-                displayValue = d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+                displayValue = formatClockTime(d, units);
             } else {
                 displayValue = type === 'duration' ? formatDuration(goalValue) : goalValue.toString();
             }
@@ -453,7 +456,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
                     while (displayMin < 0) displayMin += 1440;
                     const d = new Date();
                     d.setHours(Math.floor(displayMin / 60) % 24, Math.round(displayMin % 60), 0, 0);
-                    idealTimeStr = d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+                    idealTimeStr = formatClockTime(d, units);
                     idealLabel = 'Ideal based on Wake Up goal';
                 }
             } else {
@@ -462,7 +465,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
                     const idealParams = bedGoal + durationGoal;
                     const d = new Date();
                     d.setHours(Math.floor(idealParams / 60) % 24, Math.round(idealParams % 60), 0, 0);
-                    idealTimeStr = d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+                    idealTimeStr = formatClockTime(d, units);
                     idealLabel = 'Ideal based on Bedtime goal';
                 }
             }
@@ -687,7 +690,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
                                     <span className="text-xs inline-flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
                                         <span className="w-1.5 h-1.5 rounded-full bg-teal-500 shrink-0"></span>
                                         <span className="tabular-nums font-medium w-16 text-right whitespace-nowrap">
-                                            {formatTime(entry.data.sleepStart)}
+                                            {formatTime(entry.data.sleepStart, units)}
                                         </span>
                                         <span className="w-3"></span>
                                     </span>
@@ -718,7 +721,7 @@ export function SleepTable({ entries, goals, onSaveGoal, onDeleteGoal }: SleepTa
                                     <span className="text-xs inline-flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
                                         <span className="w-1.5"></span>
                                         <span className="tabular-nums font-medium w-16 text-right whitespace-nowrap">
-                                            {formatTime(entry.data.sleepEnd)}
+                                            {formatTime(entry.data.sleepEnd, units)}
                                         </span>
                                         <span className="w-3"></span>
                                     </span>
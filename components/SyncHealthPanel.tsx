@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { SyncProvider, SyncRun } from '@/lib/types';
+import { getRunStatus, getSyncHealth } from '@/lib/supabase-sync-runs';
+
+const PROVIDER_LABELS: Record<SyncProvider, string> = {
+    strava: 'Strava',
+    hevy: 'Hevy',
+    bodyspec: 'Bodyspec',
+    sleep: 'Sleep (Health Auto Export)',
+};
+
+// Recent runs listed under each connection
+const RECENT_RUNS_SHOWN = 5;
+
+function formatRelative(iso: string, now: Date): string {
+    const minutes = Math.round((now.getTime() - new Date(iso).getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 48) return `${hours}h ago`;
+    return `${Math.round(hours / 24)}d ago`;
+}
+
+function formatRunDuration(run: SyncRun): string {
+    if (!run.finishedAt) return '—';
+    const seconds = Math.max(0, (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+    return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+const STATUS_STYLES = {
+    success: 'bg-green-500',
+    error: 'bg-red-500',
+    running: 'bg-blue-500 animate-pulse',
+};
+
+export default function SyncHealthPanel() {
+    const [runs, setRuns] = useState<SyncRun[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadRuns = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/sync-runs');
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to load sync runs');
+            }
+            setRuns(data.runs);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load sync runs');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadRuns();
+    }, [loadRuns]);
+
+    const now = new Date();
+    const health = getSyncHealth(runs, now);
+    const providerCounts = health.reduce<Record<string, number>>((counts, h) => {
+        counts[h.provider] = (counts[h.provider] || 0) + 1;
+        return counts;
+    }, {});
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Recent syncs from the daily cron, sync buttons and webhooks.
+                </p>
+                <button
+                    onClick={loadRuns}
+                    disabled={isLoading}
+                    className="px-2 py-1 text-xs rounded-md font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 disabled:opacity-50"
+                >
+                    {isLoading ? 'Loading...' : 'Refresh'}
+                </button>
+            </div>
+
+            {error && (
+                <div className="p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {!isLoading && !error && health.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+                    No sync runs recorded yet.
+                </p>
+            )}
+
+            {health.map(h => {
+                const lastStatus = getRunStatus(h.lastRun, now);
+                const label = providerCounts[h.provider] > 1 && h.connectionId
+                    ? `${PROVIDER_LABELS[h.provider]} · ${h.connectionId.slice(0, 8)}`
+                    : PROVIDER_LABELS[h.provider];
+
+                return (
+                    <div
+                        key={`${h.provider}:${h.connectionId ?? ''}`}
+                        className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2"
+                    >
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                                <span className={`w-2 h-2 rounded-full ${STATUS_STYLES[lastStatus]}`} />
+                                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{label}</span>
+                                {h.failureStreak > 0 && (
+                                    <span className="px-1.5 py-0.5 text-xs rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+                                        {h.failureStreak} failed in a row
+                                    </span>
+                                )}
+                            </div>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                                {h.lastSuccessAt ? `Last success ${formatRelative(h.lastSuccessAt, now)}` : 'No successful sync'}
+                            </span>
+                        </div>
+
+                        <ul className="space-y-1">
+                            {h.runs.slice(0, RECENT_RUNS_SHOWN).map(run => {
+                                const status = getRunStatus(run, now);
+                                return (
+                                    <li key={run.id} className="text-xs text-gray-600 dark:text-gray-400">
+                                        <div className="flex items-center gap-2">
+                                            <span className={`w-1.5 h-1.5 rounded-full ${STATUS_STYLES[status]}`} />
+                                            <span className="w-16">{formatRelative(run.startedAt, now)}</span>
+                                            <span className="w-16 capitalize">{run.trigger}</span>
+                                            <span className="w-12 text-right">{formatRunDuration(run)}</span>
+                                            <span>
+                                                {run.itemsFetched} fetched · {run.itemsInserted} new · {run.itemsUpdated} updated
+                                            </span>
+                                        </div>
+                                        {status === 'error' && (
+                                            <div className="ml-3.5 mt-0.5 text-red-600 dark:text-red-400 break-words">
+                                                {run.error || 'Did not finish'}
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
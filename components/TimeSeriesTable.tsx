@@ -1,6 +1,6 @@
 import { ReactNode } from 'react';
 
-export type SectionColor = 'gray' | 'purple' | 'orange' | 'blue';
+export type SectionColor = 'gray' | 'purple' | 'orange' | 'blue' | 'cyan' | 'teal';
 
 interface TimeSeriesTableProps<T> {
     /** The content to display in the top-left sticky header cell */
@@ -121,6 +121,18 @@ const COLOR_STYLES: Record<SectionColor, {
         rowBg: 'bg-orange-50/50 dark:bg-orange-900/20',
         border: 'border-gray-100 dark:border-gray-800',
     },
+    cyan: {
+        labelBg: 'bg-cyan-50 dark:bg-cyan-900/40',
+        labelText: 'text-cyan-700 dark:text-cyan-300',
+        rowBg: 'bg-cyan-50/50 dark:bg-cyan-900/20',
+        border: 'border-gray-100 dark:border-gray-800',
+    },
+    teal: {
+        labelBg: 'bg-teal-50 dark:bg-teal-900/40',
+        labelText: 'text-teal-700 dark:text-teal-300',
+        rowBg: 'bg-teal-50/50 dark:bg-teal-900/20',
+        border: 'border-gray-100 dark:border-gray-800',
+    },
     blue: { // For standard content if needed, or filter rows
         labelBg: 'bg-blue-50/50 dark:bg-blue-900/20',
         labelText: 'text-blue-700 dark:text-blue-300',
@@ -0,0 +1,325 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { RunningActivity } from '@/lib/types';
+import type { Goal, GoalDetails } from '@/lib/supabase';
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+import { displayUnit, formatPaceForUnits, toDisplayValue } from '@/lib/units';
+import { PREDICTED_RACES } from '@/lib/race-predictor';
+import {
+    generateTrainingPlan,
+    getPlanCompliance,
+    getRaceGoal,
+    PlanPhase,
+    RACE_GOAL_PREFIX,
+    SessionStatus,
+} from '@/lib/training-plan';
+import Tooltip from './Tooltip';
+
+interface TrainingPlanProps {
+    runningActivities: RunningActivity[];
+    goals: Goal[];
+    // Resolve false when the write failed
+    onSaveGoal: (metricKey: string, value: number, details?: GoalDetails) => Promise<boolean>;
+    onDeleteGoal: (metricKey: string) => Promise<boolean>;
+}
+
+const PHASE_LABELS: Record<PlanPhase, string> = {
+    base: 'Base',
+    build: 'Build',
+    peak: 'Peak',
+    taper: 'Taper',
+};
+
+const PHASE_STYLES: Record<PlanPhase, string> = {
+    base: 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    build: 'bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+    peak: 'bg-orange-50 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+    taper: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+};
+
+const STATUS_STYLES: Record<SessionStatus, string> = {
+    completed: 'border-emerald-300 bg-emerald-50 dark:border-emerald-800 dark:bg-emerald-900/20',
+    partial: 'border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20',
+    missed: 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-900/20',
+    upcoming: 'border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900',
+};
+
+// Weeks shown around the current one until expanded
+const WEEKS_BEFORE = 1;
+const WEEKS_AFTER = 2;
+
+function formatRaceTime(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.round(seconds % 60);
+    return h > 0
+        ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+        : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+// h:mm:ss or mm:ss
+function parseRaceTime(value: string): number | null {
+    const parts = value.trim().split(':').map(Number);
+    if (parts.length < 2 || parts.length > 3 || parts.some(isNaN)) return null;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatDay(dateKey: string, options: Intl.DateTimeFormatOptions): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', options);
+}
+
+export default function TrainingPlan({ runningActivities, goals, onSaveGoal, onDeleteGoal }: TrainingPlanProps) {
+    const [units] = useUnitSystem();
+    const [isEditing, setIsEditing] = useState(false);
+    const [showAllWeeks, setShowAllWeeks] = useState(false);
+    const [formDistance, setFormDistance] = useState<string>('half');
+    const [formDate, setFormDate] = useState('');
+    const [formTime, setFormTime] = useState('');
+    const [formError, setFormError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const raceGoal = useMemo(() => getRaceGoal(goals), [goals]);
+    const plan = useMemo(
+        () => raceGoal ? generateTrainingPlan(raceGoal, runningActivities) : null,
+        [raceGoal, runningActivities]
+    );
+    const compliance = useMemo(
+        () => plan ? getPlanCompliance(plan, runningActivities) : null,
+        [plan, runningActivities]
+    );
+
+    const distance = (miles: number) => toDisplayValue(miles, 'mi', units).toFixed(1);
+    const distanceUnit = displayUnit('mi', units);
+    const paceUnit = displayUnit('/mi', units);
+
+    const openEditor = () => {
+        setFormDistance(raceGoal?.distanceKey ?? 'half');
+        setFormDate(raceGoal?.raceDate ?? '');
+        setFormTime(raceGoal?.targetSeconds ? formatRaceTime(raceGoal.targetSeconds) : '');
+        setFormError(null);
+        setIsEditing(true);
+    };
+
+    const handleSave = async () => {
+        if (!formDate) {
+            setFormError('Pick a race date');
+            return;
+        }
+        const targetSeconds = formTime ? parseRaceTime(formTime) : 0;
+        if (targetSeconds === null) {
+            setFormError('Target time should look like 1:45:00');
+            return;
+        }
+
+        // One goal race at a time: the old race is gone before the new one is written,
+        // so the goals refetched after the save are the final state
+        const metricKey = `${RACE_GOAL_PREFIX}${formDistance}`;
+        setFormError(null);
+        setIsSaving(true);
+        try {
+            for (const goal of goals) {
+                if (!goal.metricKey.startsWith(RACE_GOAL_PREFIX) || goal.metricKey === metricKey) continue;
+                if (!(await onDeleteGoal(goal.metricKey))) {
+                    setFormError('Could not replace the current race, try again');
+                    return;
+                }
+            }
+            if (!(await onSaveGoal(metricKey, targetSeconds, { targetDate: formDate }))) {
+                setFormError('Could not save the race, try again');
+                return;
+            }
+            setIsEditing(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!raceGoal) return;
+        setFormError(null);
+        setIsSaving(true);
+        try {
+            if (await onDeleteGoal(`${RACE_GOAL_PREFIX}${raceGoal.distanceKey}`)) {
+                setIsEditing(false);
+            } else {
+                setFormError('Could not remove the race, try again');
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const todayKey = new Date().toLocaleDateString('en-CA');
+    const currentWeekIndex = compliance
+        ? Math.max(0, compliance.weeks.findIndex(w => w.sessions.some(s => s.session.date >= todayKey)))
+        : 0;
+    const visibleWeeks = compliance
+        ? showAllWeeks
+            ? compliance.weeks
+            : compliance.weeks.slice(Math.max(0, currentWeekIndex - WEEKS_BEFORE), currentWeekIndex + WEEKS_AFTER + 1)
+        : [];
+
+    return (
+        <div className="border-t border-gray-200 dark:border-gray-800 px-4 py-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                <span className="font-medium text-gray-900 dark:text-gray-100">Training Plan</span>
+
+                {raceGoal ? (
+                    <>
+                        <span className="text-gray-700 dark:text-gray-300">
+                            {raceGoal.label} · {formatDay(raceGoal.raceDate, { weekday: 'short', month: 'short', day: 'numeric' })}
+                            {raceGoal.targetSeconds && <> · target {formatRaceTime(raceGoal.targetSeconds)}</>}
+                        </span>
+                        {plan?.vdot && (
+                            <Tooltip content={raceGoal.targetSeconds ? 'Paces for the target time' : 'Paces for fitness when the plan started'}>
+                                <span className="text-gray-500 dark:text-gray-400 cursor-help">VDOT {plan.vdot.toFixed(1)}</span>
+                            </Tooltip>
+                        )}
+                        {compliance && compliance.rate !== null && (
+                            <span className={compliance.rate >= 0.8 ? 'text-emerald-600 dark:text-emerald-400' : compliance.rate >= 0.5 ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400'}>
+                                {compliance.completedSessions}/{compliance.dueSessions} sessions done ({Math.round(compliance.rate * 100)}%)
+                            </span>
+                        )}
+                        {(!plan || raceGoal.raceDate < todayKey) && (
+                            <span className="text-gray-500 dark:text-gray-400">Race date has passed</span>
+                        )}
+                    </>
+                ) : (
+                    <span className="text-gray-500 dark:text-gray-400">No goal race set</span>
+                )}
+
+                <button
+                    onClick={isEditing ? () => setIsEditing(false) : openEditor}
+                    className="ml-auto px-2 py-1 rounded-md font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                >
+                    {isEditing ? 'Cancel' : raceGoal ? 'Edit race' : 'Set goal race'}
+                </button>
+            </div>
+
+            {isEditing && (
+                <div className="flex flex-wrap items-end gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-xs">
+                    <label className="flex flex-col gap-1 text-gray-600 dark:text-gray-400">
+                        Distance
+                        <select
+                            value={formDistance}
+                            onChange={e => setFormDistance(e.target.value)}
+                            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                        >
+                            {PREDICTED_RACES.map(race => (
+                                <option key={race.key} value={race.key}>{race.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-600 dark:text-gray-400">
+                        Race date
+                        <input
+                            type="date"
+                            value={formDate}
+                            min={todayKey}
+                            onChange={e => setFormDate(e.target.value)}
+                            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-600 dark:text-gray-400">
+                        Target time (optional)
+                        <input
+                            type="text"
+                            value={formTime}
+                            placeholder="1:45:00"
+                            onChange={e => setFormTime(e.target.value)}
+                            className="w-24 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                        />
+                    </label>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 rounded-md font-medium bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900 hover:opacity-90 disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                    {raceGoal && (
+                        <button
+                            onClick={handleRemove}
+                            disabled={isSaving}
+                            className="px-3 py-1.5 rounded-md font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                        >
+                            Remove
+                        </button>
+                    )}
+                    {formError && <span className="text-red-600 dark:text-red-400">{formError}</span>}
+                </div>
+            )}
+
+            {compliance && visibleWeeks.length > 0 && (
+                <div className="space-y-2">
+                    {visibleWeeks.map(({ week, sessions, completedMiles, dueMiles }) => (
+                        <div
+                            key={week.weekStart}
+                            className={`flex flex-wrap items-start gap-2 text-xs ${week.index === currentWeekIndex ? '' : 'opacity-80'}`}
+                        >
+                            <div className="w-40 shrink-0 space-y-0.5">
+                                <div className="flex items-center gap-1.5">
+                                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                                        Wk {week.index + 1} · {formatDay(week.weekStart, { month: 'short', day: 'numeric' })}
+                                    </span>
+                                    <span className={`px-1.5 py-0.5 rounded ${PHASE_STYLES[week.phase]}`}>
+                                        {PHASE_LABELS[week.phase]}{week.isCutback ? ' ↓' : ''}
+                                    </span>
+                                </div>
+                                <div className="text-gray-500 dark:text-gray-400 tabular-nums">
+                                    {distance(week.plannedMiles)} {distanceUnit} planned
+                                    {dueMiles > 0 && <> · {distance(completedMiles)} run</>}
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-1.5">
+                                {sessions.map(({ session, status, activity }) => (
+                                    <Tooltip
+                                        key={session.date}
+                                        content={
+                                            <div className="text-left">
+                                                <div className="font-medium">{session.type}</div>
+                                                <div className="text-gray-300">
+                                                    {distance(session.distanceMiles)} {distanceUnit} at {formatPaceForUnits(session.targetPaceSeconds, units)}{paceUnit}
+                                                </div>
+                                                {activity && (
+                                                    <div className="mt-1 pt-1 border-t border-gray-700 text-gray-300">
+                                                        Ran {distance(activity.distanceMiles)} {distanceUnit}
+                                                        {activity.averagePaceSeconds && <> at {formatPaceForUnits(activity.averagePaceSeconds, units)}{paceUnit}</>}
+                                                        {activity.name && <div className="text-gray-400">{activity.name}</div>}
+                                                    </div>
+                                                )}
+                                                {status === 'missed' && <div className="mt-1 text-red-300">Missed</div>}
+                                            </div>
+                                        }
+                                    >
+                                        <div className={`px-2 py-1 rounded border cursor-help ${STATUS_STYLES[status]}`}>
+                                            <div className="text-gray-500 dark:text-gray-400">
+                                                {formatDay(session.date, { weekday: 'short' })}
+                                            </div>
+                                            <div className={`font-medium ${session.type === 'Race' ? 'text-orange-600 dark:text-orange-400' : 'text-gray-900 dark:text-gray-100'}`}>
+                                                {session.type}
+                                            </div>
+                                            <div className="tabular-nums text-gray-600 dark:text-gray-400">
+                                                {distance(session.distanceMiles)} {distanceUnit}
+                                            </div>
+                                        </div>
+                                    </Tooltip>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                    {compliance.weeks.length > visibleWeeks.length || showAllWeeks ? (
+                        <button
+                            onClick={() => setShowAllWeeks(!showAllWeeks)}
+                            className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                        >
+                            {showAllWeeks ? 'Show current weeks' : `Show all ${compliance.weeks.length} weeks`}
+                        </button>
+                    ) : null}
+                </div>
+            )}
+        </div>
+    );
+}
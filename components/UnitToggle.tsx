@@ -0,0 +1,19 @@
+'use client';
+
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+
+export default function UnitToggle() {
+  const [units, setUnits] = useUnitSystem();
+  const next = units === 'imperial' ? 'metric' : 'imperial';
+
+  return (
+    <button
+      onClick={() => setUnits(next)}
+      title={`Switch to ${next} units`}
+      aria-label="Toggle unit system"
+      className="px-2 py-1.5 rounded-md text-xs font-medium tabular-nums text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors cursor-pointer"
+    >
+      {units === 'imperial' ? 'lb/mi' : 'kg/km'}
+    </button>
+  );
+}
@@ -1,25 +1,72 @@
 'use client';
 
-import { ValidationIssue } from '@/lib/pdf-parser';
-import { BIAEntry } from '@/lib/types';
+import { useMemo, useState } from 'react';
+import { ValidationIssue, getLowConfidenceFields } from '@/lib/pdf-parser';
+import { BIAEntry, METRIC_DEFINITIONS, SegmentalData } from '@/lib/types';
 
 interface ValidationWarningProps {
   issues: ValidationIssue[];
   entry: BIAEntry;
-  onConfirm: () => void;
+  imageUrl?: string;
+  onConfirm: (entry: BIAEntry) => void;
   onReview: () => void;
   onSkip: () => void;
 }
 
+function fieldLabel(key: keyof BIAEntry): string {
+  const def = METRIC_DEFINITIONS.find(d => d.key === key);
+  if (def) return def.label;
+  // Segmental keys: "muscleLeftArm" -> "Muscle Left Arm"
+  const spaced = String(key).replace(/([A-Z])/g, ' $1');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function readValue(entry: BIAEntry, key: keyof BIAEntry): number {
+  const value = entry[key];
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && 'lb' in value) return (value as SegmentalData).lb;
+  return 0;
+}
+
 export default function ValidationWarning({
   issues,
   entry,
+  imageUrl,
   onConfirm,
   onReview,
   onSkip,
 }: ValidationWarningProps) {
-  const errorCount = issues.filter(i => i.status === 'error').length;
-  const warningCount = issues.filter(i => i.status === 'warning').length;
+  const [edited, setEdited] = useState<BIAEntry>(entry);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [activeField, setActiveField] = useState<keyof BIAEntry | null>(null);
+
+  const lowConfidence = useMemo(() => getLowConfidenceFields(entry), [entry]);
+  const hasIssues = issues.length > 0;
+
+  // Fields the user can correct in place: low OCR confidence plus any flagged metric key
+  const editableKeys = useMemo(() => {
+    const keys = new Set<keyof BIAEntry>(lowConfidence.map(f => f.key));
+    for (const issue of issues) {
+      if (issue.metric in entry) keys.add(issue.metric as keyof BIAEntry);
+    }
+    return [...keys];
+  }, [lowConfidence, issues, entry]);
+
+  const updateValue = (key: keyof BIAEntry, raw: string) => {
+    const value = parseFloat(raw);
+    if (isNaN(value)) return;
+    setEdited(prev => {
+      const current = prev[key];
+      if (current && typeof current === 'object' && 'lb' in current) {
+        return { ...prev, [key]: { ...(current as SegmentalData), lb: value } };
+      }
+      return { ...prev, [key]: value };
+    });
+  };
+
+  const highlightBoxes = lowConfidence
+    .map(f => ({ key: f.key, bbox: f.provenance.bbox, confidence: f.provenance.confidence }))
+    .filter((f): f is { key: keyof BIAEntry; bbox: NonNullable<typeof f.bbox>; confidence: number | null } => f.bbox !== null);
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
@@ -44,7 +91,9 @@ export default function ValidationWarning({
                 Data Quality Check
               </h2>
               <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                Some metrics differ significantly from your previous scan
+                {hasIssues
+                  ? 'Some metrics differ significantly from your previous scan'
+                  : 'Some values were hard to read in the screenshot'}
               </p>
             </div>
           </div>
@@ -57,10 +106,77 @@ export default function ValidationWarning({
             </p>
           </div>
 
+          {imageUrl && highlightBoxes.length > 0 && (
+            <div className="mb-4 relative rounded-lg overflow-hidden border border-gray-200 dark:border-gray-800">
+              {/* eslint-disable-next-line @next/next/no-img-element -- local blob URL of the uploaded screenshot */}
+              <img
+                src={imageUrl}
+                alt="Uploaded scan"
+                className="w-full h-auto block"
+                onLoad={(e) => setImageSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })}
+              />
+              {imageSize && highlightBoxes.map(({ key, bbox }) => (
+                <div
+                  key={key}
+                  title={fieldLabel(key)}
+                  className={`absolute border-2 rounded-sm pointer-events-none ${
+                    activeField === key ? 'border-red-500 bg-red-500/20' : 'border-amber-500 bg-amber-400/10'
+                  }`}
+                  style={{
+                    left: `${(bbox.x0 / imageSize.width) * 100}%`,
+                    top: `${(bbox.y0 / imageSize.height) * 100}%`,
+                    width: `${((bbox.x1 - bbox.x0) / imageSize.width) * 100}%`,
+                    height: `${((bbox.y1 - bbox.y0) / imageSize.height) * 100}%`,
+                  }}
+                />
+              ))}
+            </div>
+          )}
+
+          {editableKeys.length > 0 && (
+            <div className="mb-4">
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+                Correct values
+              </h3>
+              <div className="grid grid-cols-2 gap-2">
+                {editableKeys.map(key => {
+                  const confidence = entry.provenance?.[key]?.confidence;
+                  return (
+                    <label
+                      key={key}
+                      className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50"
+                      onMouseEnter={() => setActiveField(key)}
+                      onMouseLeave={() => setActiveField(null)}
+                    >
+                      <span className="text-xs text-gray-700 dark:text-gray-300">
+                        {fieldLabel(key)}
+                        {confidence !== null && confidence !== undefined && (
+                          <span className="ml-1 text-amber-600 dark:text-amber-400">
+                            ({Math.round(confidence * 100)}%)
+                          </span>
+                        )}
+                      </span>
+                      <input
+                        type="number"
+                        step="0.1"
+                        defaultValue={readValue(entry, key)}
+                        onFocus={() => setActiveField(key)}
+                        onChange={(e) => updateValue(key, e.target.value)}
+                        className="w-20 px-2 py-1 text-xs font-mono text-right rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                      />
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2 mb-6">
             {issues.map((issue, idx) => {
               const isError = issue.status === 'error';
-              const change = Math.abs(issue.percentChange);
               const pctDisplay = issue.percentChange > 0 ? '+' : '';
 
               return (
@@ -81,12 +197,20 @@ export default function ValidationWarning({
                             : 'text-amber-900 dark:text-amber-300'
                         }`}
                       >
-                        {issue.metric}
+                        {issue.metric in entry ? fieldLabel(issue.metric as keyof BIAEntry) : issue.metric}
                       </div>
                       <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                         Parsed: <span className="font-mono">{issue.parsed.toFixed(1)}</span> &nbsp;|&nbsp;
                         Previous: <span className="font-mono">{issue.previous.toFixed(1)}</span>
+                        {issue.expected !== undefined && (
+                          <>
+                            &nbsp;|&nbsp; Expected: <span className="font-mono">{issue.expected.toFixed(1)}</span>
+                          </>
+                        )}
                       </div>
+                      {issue.explanation && (
+                        <div className="text-xs text-gray-500 dark:text-gray-500 mt-1">{issue.explanation}</div>
+                      )}
                     </div>
                     <div
                       className={`text-right font-mono text-sm font-semibold ${
@@ -105,10 +229,16 @@ export default function ValidationWarning({
           </div>
 
           <div className="mb-4 text-sm text-gray-600 dark:text-gray-400">
-            <p className="mb-2">
-              <strong>What this means:</strong> These metrics changed by more than 10% from your previous
-              scan, which is unusual for typical body composition changes.
-            </p>
+            {lowConfidence.length > 0 && (
+              <p className="mb-2">
+                <strong>Low OCR confidence:</strong> {lowConfidence.length} value(s) were read with low confidence
+                and are highlighted on the screenshot.
+              </p>
+            )}
+            {hasIssues && <p className="mb-2">
+              <strong>What this means:</strong> These values are far outside what your recent scans and the
+              time since your last scan predict, or don&apos;t add up with each other (e.g. fat + lean mass vs weight).
+            </p>}
             <p>
               This could indicate OCR scanning errors. Review the flagged values or check your image quality.
             </p>
@@ -128,10 +258,10 @@ export default function ValidationWarning({
               Review OCR Text
             </button>
             <button
-              onClick={onConfirm}
+              onClick={() => onConfirm(edited)}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
             >
-              Save Anyway
+              {edited === entry ? 'Save Anyway' : 'Save Corrected'}
             </button>
           </div>
         </div>
@@ -3,7 +3,7 @@
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import React, { useState, useMemo, useEffect } from 'react';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
-import { RunningActivity, LiftingWorkout, WorkoutType, VolumePeriod, BODY_PARTS, RUNNING_MILESTONES } from '@/lib/types';
+import { RunningActivity, LiftingWorkout, WorkoutType, VolumePeriod, ActivitySport, BODY_PARTS, RUNNING_MILESTONES } from '@/lib/types';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import { TimeSeriesTable, TimeSeriesRow, SectionHeaderRow } from './TimeSeriesTable';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
@@ -11,16 +11,29 @@ import { Goal } from '@/lib/supabase';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import GoalEditor from './GoalEditor';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
+import { useUnitSystem } from '@/lib/hooks/useUnitSystem';
+// KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
+import { displayUnit, formatPaceForUnits, toDisplayValue } from '@/lib/units';
+// KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import Tooltip from './Tooltip';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import { MilestoneBadge } from './MilestoneBadge';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
+import ProgressionChart from './ProgressionChart';
+// KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import { calculateLiftingMilestones, calculateRunningMilestones, ExerciseMilestones, RunningMilestone, calculate1RM } from '@/lib/milestones';
 // KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
 import { generateLiftingWorkout, generateRunningWorkout, GeneratedLiftingWorkout, GeneratedRunningWorkout, getWeeklySetsPerMuscleGroup } from '@/lib/workout-generator';
+// KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
+import { calculateDailyLoads, calculateSessionLoads, getLoadSpikes, ACUTE_DAYS, CHRONIC_DAYS, LoadRisk, LoadSource } from '@/lib/training-load';
+// KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
+import { estimateRaceFitness, getRaceEfforts, getRaceFitnessHistory, PREDICTED_RACES, DEFAULT_VDOT_WINDOW_DAYS } from '@/lib/race-predictor';
+// KEEP CONSISTENT: Use 'text-gray-300 dark:text-gray-600' for all empty state dashes to ensure subtle but visible styling.
+import { getExerciseProgressions, ExerciseSession, ProgressionStatus } from '@/lib/exercise-progression';
 
 interface WorkoutTableProps {
     runningActivities: RunningActivity[];
+    otherActivities: RunningActivity[];     // Rides, swims and other Strava sports
     liftingWorkouts: LiftingWorkout[];
     goals: Goal[];
     onSaveGoal: (metricKey: string, value: number) => void;
@@ -29,6 +42,78 @@ interface WorkoutTableProps {
 
 type VolumeDisplayMode = 'sets' | 'volume';
 type TrendPeriod = 'WTD' | 'MTD' | 'QTD' | 'YTD';
+type OtherSport = Exclude<ActivitySport, 'run'>;
+
+const WORKOUT_TYPES: WorkoutType[] = ['all', 'lifting', 'run', 'ride', 'swim', 'other'];
+const WORKOUT_TYPE_LABELS: Record<WorkoutType, string> = {
+    all: 'All',
+    lifting: 'Lift',
+    run: 'Run',
+    ride: 'Ride',
+    swim: 'Swim',
+    other: 'Other',
+};
+
+// Non-running Strava sports, each with its own section
+const OTHER_SPORTS: { sport: OtherSport; label: string; color: 'cyan' | 'teal' | 'gray' }[] = [
+    { sport: 'ride', label: 'Cycling', color: 'cyan' },
+    { sport: 'swim', label: 'Swimming', color: 'teal' },
+    { sport: 'other', label: 'Other Sports', color: 'gray' },
+];
+
+const YARDS_PER_MILE = 1760;
+
+// Acute:chronic load styling: spikes in red, the sweet spot in green
+const LOAD_RISK_STYLES: Record<LoadRisk, { bar: string; text: string; label: string }> = {
+    low: { bar: 'bg-gray-300 dark:bg-gray-600', text: 'text-gray-500 dark:text-gray-400', label: 'Detraining' },
+    optimal: { bar: 'bg-emerald-400 dark:bg-emerald-500', text: 'text-emerald-600 dark:text-emerald-400', label: 'Optimal' },
+    elevated: { bar: 'bg-amber-400 dark:bg-amber-500', text: 'text-amber-600 dark:text-amber-400', label: 'Elevated' },
+    high: { bar: 'bg-red-500 dark:bg-red-500', text: 'text-red-600 dark:text-red-400', label: 'Injury risk' },
+};
+
+const PROGRESSION_STYLES: Record<ProgressionStatus, { text: string; label: string }> = {
+    progressing: { text: 'text-emerald-600 dark:text-emerald-400', label: 'Progressing' },
+    plateau: { text: 'text-amber-600 dark:text-amber-400', label: 'Plateau' },
+    regressing: { text: 'text-red-600 dark:text-red-400', label: 'Regressing' },
+    insufficient: { text: 'text-gray-400 dark:text-gray-500', label: 'Too few sessions' },
+};
+
+const LOAD_SOURCE_LABELS: Record<LoadSource, string> = {
+    hr: 'HR (TRIMP)',
+    rpe: 'Session RPE',
+    estimate: 'Estimated',
+};
+
+// Combine same-day activities of one sport; averages are weighted by duration
+function summarizeActivities(activities: RunningActivity[]) {
+    let distanceMiles = 0;
+    let durationSeconds = 0;
+    let hrSum = 0, hrSeconds = 0;
+    let wattsSum = 0, wattsSeconds = 0;
+
+    activities.forEach(a => {
+        distanceMiles += a.distanceMiles;
+        durationSeconds += a.durationSeconds;
+        if (a.averageHeartrate) {
+            hrSum += a.averageHeartrate * a.durationSeconds;
+            hrSeconds += a.durationSeconds;
+        }
+        if (a.averageWatts) {
+            wattsSum += a.averageWatts * a.durationSeconds;
+            wattsSeconds += a.durationSeconds;
+        }
+    });
+
+    return {
+        count: activities.length,
+        distanceMiles,
+        durationSeconds,
+        speedMph: durationSeconds > 0 ? distanceMiles / (durationSeconds / 3600) : 0,
+        swimPacePer100Yd: distanceMiles > 0 ? durationSeconds / (distanceMiles * YARDS_PER_MILE / 100) : 0,
+        averageHeartrate: hrSeconds > 0 ? Math.round(hrSum / hrSeconds) : 0,
+        averageWatts: wattsSeconds > 0 ? Math.round(wattsSum / wattsSeconds) : 0,
+    };
+}
 
 // Format seconds as mm:ss or h:mm:ss
 function formatDuration(seconds: number): string {
@@ -43,10 +128,10 @@ function formatDuration(seconds: number): string {
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
-// Format pace (seconds per mile) as m:ss
-function formatPace(secondsPerMile: number): string {
-    const minutes = Math.floor(secondsPerMile / 60);
-    const secs = Math.round(secondsPerMile % 60);
+// Format pace (seconds per mile or km) as m:ss
+function formatPace(secondsPerUnit: number): string {
+    const minutes = Math.floor(secondsPerUnit / 60);
+    const secs = Math.round(secondsPerUnit % 60);
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
@@ -138,12 +223,12 @@ const COMPOUND_EXERCISES = [
     'leg press', 't-bar row', 'clean and jerk', 'snatch'
 ] as const;
 
-export default function WorkoutTable({ runningActivities, liftingWorkouts, goals, onSaveGoal, onDeleteGoal }: WorkoutTableProps) {
+export default function WorkoutTable({ runningActivities, otherActivities, liftingWorkouts, goals, onSaveGoal, onDeleteGoal }: WorkoutTableProps) {
     // Load workoutType from localStorage with default fallback
     const [workoutType, setWorkoutType] = useState<WorkoutType>(() => {
         if (typeof window !== 'undefined') {
             const saved = localStorage.getItem('baselineWorkoutType');
-            if (saved && ['all', 'lifting', 'run'].includes(saved)) {
+            if (saved && (WORKOUT_TYPES as string[]).includes(saved)) {
                 return saved as WorkoutType;
             }
         }
@@ -153,12 +238,29 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
     const [volumeDisplayMode, setVolumeDisplayMode] = useState<VolumeDisplayMode>('sets');
     const [trendPeriod, setTrendPeriod] = useState<TrendPeriod>('WTD');
     const [expandedBodyParts, setExpandedBodyParts] = useState<Set<string>>(new Set());
+    const [expandedProgressions, setExpandedProgressions] = useState<Set<string>>(new Set());
 
     type HighlightSentiment = 'good' | 'bad' | 'neutral';
     const [highlightedRanges, setHighlightedRanges] = useState<{ metricKey: string; current: { start: Date; end: Date }; previous: { start: Date; end: Date }; sentiment: HighlightSentiment } | null>(null);
-    const [editingGoal, setEditingGoal] = useState<{ metricKey: string; label: string; type?: 'number' | 'duration' | 'pace' } | null>(null);
+    const [editingGoal, setEditingGoal] = useState<{ metricKey: string; label: string; type?: 'number' | 'duration' | 'pace'; unit?: string } | null>(null);
+    const [units] = useUnitSystem();
     const [pushStatus, setPushStatus] = useState<'idle' | 'pushing' | 'success' | 'error'>('idle');
 
+    const showLifting = workoutType === 'all' || workoutType === 'lifting';
+    const showRunning = workoutType === 'all' || workoutType === 'run';
+
+    // Other-sport activities in the current view
+    const visibleOtherActivities = useMemo(
+        () => otherActivities.filter(a => workoutType === 'all' || a.sport === workoutType),
+        [otherActivities, workoutType]
+    );
+
+    // Only offer sport views that have data
+    const availableWorkoutTypes = useMemo(() => {
+        const sports = new Set<string>(otherActivities.map(a => a.sport));
+        return WORKOUT_TYPES.filter(type => ['all', 'lifting', 'run'].includes(type) || sports.has(type) || type === workoutType);
+    }, [otherActivities, workoutType]);
+
     // Persist workoutType to localStorage whenever it changes
     useEffect(() => {
         localStorage.setItem('baselineWorkoutType', workoutType);
@@ -193,19 +295,31 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
 
     const goalsMap = useMemo(() => new Map(goals.map(g => [g.metricKey, g.targetValue])), [goals]);
 
+    // Stored values are lbs / miles / feet; convert only for display
+    const liftVolume = (lbs: number) => formatVolume(toDisplayValue(lbs, 'lbs', units));
+    const liftWeight = (lbs: number) => `${Math.round(toDisplayValue(lbs, 'lbs', units))} ${displayUnit('lbs', units)}`;
+    const distance = (miles: number) => toDisplayValue(miles, 'mi', units).toFixed(1);
+    const swimDistance = (miles: number) => Math.round(toDisplayValue(miles * YARDS_PER_MILE, 'yd', units)).toLocaleString();
+    const elevation = (feet: number) => Math.round(toDisplayValue(feet, 'ft', units));
+    const massUnit = displayUnit('lbs', units);
+    const distanceUnit = displayUnit('mi', units);
+    const paceUnit = displayUnit('/mi', units);
+    const elevationUnit = displayUnit('ft', units);
+
     // Get unique dates from all workouts, sorted newest first
     const allDates = useMemo(() => {
         const dateSet = new Set<string>();
 
-        if (workoutType !== 'lifting') {
+        if (showRunning) {
             runningActivities.forEach(a => dateSet.add(toDateKey(a.activityDate)));
         }
-        if (workoutType !== 'run') {
+        if (showLifting) {
             liftingWorkouts.forEach(w => dateSet.add(toDateKey(w.workoutDate)));
         }
+        visibleOtherActivities.forEach(a => dateSet.add(toDateKey(a.activityDate)));
 
         return Array.from(dateSet).sort((a, b) => b.localeCompare(a));
-    }, [runningActivities, liftingWorkouts, workoutType]);
+    }, [runningActivities, liftingWorkouts, visibleOtherActivities, showRunning, showLifting]);
 
     // Index workouts by date
     const runningByDate = useMemo(() => {
@@ -214,13 +328,55 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
         return map;
     }, [runningActivities]);
 
+    // Other sports by sport, then date (a day can hold several rides or swims)
+    const otherBySportAndDate = useMemo(() => {
+        const map = new Map<string, Map<string, RunningActivity[]>>();
+        visibleOtherActivities.forEach(a => {
+            const byDate = map.get(a.sport) ?? new Map<string, RunningActivity[]>();
+            const key = toDateKey(a.activityDate);
+            byDate.set(key, [...(byDate.get(key) ?? []), a]);
+            map.set(a.sport, byDate);
+        });
+        return map;
+    }, [visibleOtherActivities]);
+
+    // One workout per sport per day, matching how lifts and runs are counted
+    const getOtherWorkoutKeys = (activities: RunningActivity[], start: Date, end: Date) => new Set(
+        activities
+            .filter(a => {
+                const date = new Date(a.activityDate);
+                return date >= start && date <= end;
+            })
+            .map(a => `${a.sport}:${toDateKey(a.activityDate)}`)
+    );
+
     // Calculate milestones
     const liftingMilestones = useMemo(() => calculateLiftingMilestones(liftingWorkouts), [liftingWorkouts]);
+
+    // Session e1RM / volume series per exercise, with a date lookup for the cells
+    const exerciseProgressions = useMemo(() => new Map(getExerciseProgressions(liftingWorkouts).map(p => [
+        p.name,
+        { progression: p, byDate: new Map<string, ExerciseSession>(p.sessions.map(session => [session.date, session])) },
+    ])), [liftingWorkouts]);
     const runningMilestones = useMemo(() => calculateRunningMilestones(runningActivities), [runningActivities]);
 
     // Generate next workouts
     const nextLiftingWorkout = useMemo<GeneratedLiftingWorkout | null>(() => generateLiftingWorkout(liftingWorkouts), [liftingWorkouts]);
     const nextRunningWorkout = useMemo<GeneratedRunningWorkout | null>(() => generateRunningWorkout(runningActivities), [runningActivities]);
+
+    // Training load covers every session regardless of the workout type filter
+    const trainingLoad = useMemo(() => {
+        const sessions = calculateSessionLoads([...runningActivities, ...otherActivities], liftingWorkouts);
+        const daily = calculateDailyLoads(sessions);
+        const sessionsByDate = new Map<string, typeof sessions>();
+        sessions.forEach(s => sessionsByDate.set(s.date, [...(sessionsByDate.get(s.date) ?? []), s]));
+        return {
+            sessionsByDate,
+            byDate: new Map(daily.map(day => [day.date, day])),
+            latest: daily.length > 0 ? daily[daily.length - 1] : null,
+            spikes: getLoadSpikes(daily),
+        };
+    }, [runningActivities, otherActivities, liftingWorkouts]);
     const weeklySetsPerMuscleGroup = useMemo(() => getWeeklySetsPerMuscleGroup(liftingWorkouts), [liftingWorkouts]);
 
     const liftingByDate = useMemo(() => {
@@ -369,30 +525,61 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                 .map(a => toDateKey(a.activityDate))
         );
 
+        const otherWorkoutsInRange = getOtherWorkoutKeys(visibleOtherActivities, volumeStartDate, volumeEndDate);
+
         // Total count based on workoutType toggle
         let totalWorkouts = 0;
         if (workoutType === 'all') {
-            // Count all unique workout days (lift + run, with overlap counting as 2)
+            // Count all unique workout days (lift + run + other sports, with overlap counting once per sport)
             const allDates = new Set([...liftingDatesInRange, ...runningDatesInRange]);
             allDates.forEach(date => {
                 if (liftingDatesInRange.has(date)) totalWorkouts++;
                 if (runningDatesInRange.has(date)) totalWorkouts++;
             });
+            totalWorkouts += otherWorkoutsInRange.size;
         } else if (workoutType === 'lifting') {
             totalWorkouts = liftingDatesInRange.size;
-        } else {
+        } else if (workoutType === 'run') {
             totalWorkouts = runningDatesInRange.size;
+        } else {
+            totalWorkouts = otherWorkoutsInRange.size;
         }
 
         return { totalWorkouts, liftingDatesInRange, runningDatesInRange };
-    }, [liftingWorkouts, runningActivities, volumeStartDate, volumeEndDate, workoutType]);
+    }, [liftingWorkouts, runningActivities, visibleOtherActivities, volumeStartDate, volumeEndDate, workoutType]);
 
     const getWorkoutCountForDate = (date: string): number => {
         const hasLift = liftingByDate.has(date);
         const hasRun = runningByDate.has(date);
-        return (hasLift ? 1 : 0) + (hasRun ? 1 : 0);
+        const otherSports = Array.from(otherBySportAndDate.values()).filter(byDate => byDate.has(date)).length;
+        return (hasLift ? 1 : 0) + (hasRun ? 1 : 0) + otherSports;
     };
 
+    // Training time across every sport in view (the weekly training total)
+    const trainingTime = useMemo(() => {
+        const byDate = new Map<string, number>();
+        const add = (dateString: string, seconds: number) => {
+            const key = toDateKey(dateString);
+            byDate.set(key, (byDate.get(key) || 0) + seconds);
+        };
+
+        if (showLifting) liftingWorkouts.forEach(w => add(w.workoutDate, w.durationSeconds));
+        if (showRunning) runningActivities.forEach(a => add(a.activityDate, a.durationSeconds));
+        visibleOtherActivities.forEach(a => add(a.activityDate, a.durationSeconds));
+
+        const inRange = (dateString: string) => {
+            const date = new Date(dateString);
+            return date >= volumeStartDate && date <= volumeEndDate;
+        };
+        const totalSeconds =
+            (showLifting ? liftingWorkouts.filter(w => inRange(w.workoutDate)).reduce((sum, w) => sum + w.durationSeconds, 0) : 0) +
+            (showRunning ? runningActivities.filter(a => inRange(a.activityDate)).reduce((sum, a) => sum + a.durationSeconds, 0) : 0) +
+            visibleOtherActivities.filter(a => inRange(a.activityDate)).reduce((sum, a) => sum + a.durationSeconds, 0);
+
+        const days = (volumeEndDate.getTime() - volumeStartDate.getTime()) / (1000 * 60 * 60 * 24) + 1;
+        return { byDate, totalSeconds, perWeekSeconds: totalSeconds / Math.max(1, days / 7) };
+    }, [liftingWorkouts, runningActivities, visibleOtherActivities, showLifting, showRunning, volumeStartDate, volumeEndDate]);
+
     // Calculate streaks
     const streakData = useMemo(() => {
         // We need to look back far enough to calculate streaks
@@ -400,12 +587,13 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
 
         // 1. Gather all activity dates based on filter
         const datesSet = new Set<string>();
-        if (workoutType !== 'lifting') {
+        if (showRunning) {
             runningActivities.forEach(a => datesSet.add(toDateKey(a.activityDate)));
         }
-        if (workoutType !== 'run') {
+        if (showLifting) {
             liftingWorkouts.forEach(w => datesSet.add(toDateKey(w.workoutDate)));
         }
+        visibleOtherActivities.forEach(a => datesSet.add(toDateKey(a.activityDate)));
 
         // Convert to sorted array (oldest to newest for correct streak calculation)
         const sortedDates = Array.from(datesSet).sort((a, b) => a.localeCompare(b));
@@ -500,7 +688,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
             maxStreakDiff: currentMaxStreak - previousMaxStreak
         };
 
-    }, [liftingWorkouts, runningActivities, workoutType, trendPeriod]);
+    }, [liftingWorkouts, runningActivities, visibleOtherActivities, showRunning, showLifting, trendPeriod]);
 
     // Calculate trend data (compare current period vs previous period)
     const trendData = useMemo(() => {
@@ -620,6 +808,9 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
         const currentRunDates = new Set(currentRuns.map(a => toDateKey(a.activityDate)));
         const previousRunDates = new Set(previousRuns.map(a => toDateKey(a.activityDate)));
 
+        const currentOtherWorkouts = getOtherWorkoutKeys(visibleOtherActivities, currentStart, now);
+        const previousOtherWorkouts = getOtherWorkoutKeys(visibleOtherActivities, previousStart, previousEnd);
+
         let currentWorkoutCount = 0;
         let previousWorkoutCount = 0;
 
@@ -635,12 +826,17 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                 if (previousLiftDates.has(date)) previousWorkoutCount++;
                 if (previousRunDates.has(date)) previousWorkoutCount++;
             });
+            currentWorkoutCount += currentOtherWorkouts.size;
+            previousWorkoutCount += previousOtherWorkouts.size;
         } else if (workoutType === 'lifting') {
             currentWorkoutCount = currentLiftDates.size;
             previousWorkoutCount = previousLiftDates.size;
-        } else {
+        } else if (workoutType === 'run') {
             currentWorkoutCount = currentRunDates.size;
             previousWorkoutCount = previousRunDates.size;
+        } else {
+            currentWorkoutCount = currentOtherWorkouts.size;
+            previousWorkoutCount = previousOtherWorkouts.size;
         }
 
         const workoutCountDiff = currentWorkoutCount - previousWorkoutCount;
@@ -709,7 +905,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                 previous: { start: previousStart, end: previousEnd }
             }
         };
-    }, [liftingWorkouts, runningActivities, trendPeriod, workoutType]);
+    }, [liftingWorkouts, runningActivities, visibleOtherActivities, trendPeriod, workoutType]);
 
     // Trend label mapping
     const periodLabels: Record<TrendPeriod, string> = {
@@ -747,7 +943,17 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
     }, [runningActivities]);
 
     // Limit to recent dates for display
-    const displayDates = allDates.slice(0, 10);
+    const displayDates = useMemo(() => allDates.slice(0, 10), [allDates]);
+
+    // Race predictions now, at the end of the previous trend period, and as of each date shown
+    const raceFitness = useMemo(() => {
+        const efforts = getRaceEfforts(runningActivities);
+        return {
+            current: estimateRaceFitness(efforts),
+            previous: estimateRaceFitness(efforts, trendData.ranges.previous.end),
+            history: getRaceFitnessHistory(runningActivities, displayDates),
+        };
+    }, [runningActivities, trendData, displayDates]);
 
     // Collect unique exercises per body part from visible workouts
     const exercisesByBodyPart = useMemo(() => {
@@ -802,6 +1008,19 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
         return formatted;
     }, [displayDates, liftingByDate]);
 
+    // Toggle an exercise's progression chart
+    const toggleProgression = (exerciseKey: string) => {
+        setExpandedProgressions(prev => {
+            const next = new Set(prev);
+            if (next.has(exerciseKey)) {
+                next.delete(exerciseKey);
+            } else {
+                next.add(exerciseKey);
+            }
+            return next;
+        });
+    };
+
     // Toggle body part expansion
     const toggleBodyPart = (part: string) => {
         setExpandedBodyParts(prev => {
@@ -828,8 +1047,13 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
     const colCount = displayDates.length;
     const stickyWidth = "min-w-[170px]";
 
-    const renderGoalCell = (metricKey: string, label: string, currentValue: number | undefined, type: 'number' | 'duration' | 'pace' = 'number', unit?: string, explicitGoalValue?: number) => {
-        const goalValue = explicitGoalValue !== undefined ? explicitGoalValue : goalsMap.get(metricKey);
+    const renderGoalCell = (metricKey: string, label: string, rawCurrentValue: number | undefined, type: 'number' | 'duration' | 'pace' = 'number', storedUnit?: string, explicitGoalValue?: number) => {
+        const storedGoal = explicitGoalValue !== undefined ? explicitGoalValue : goalsMap.get(metricKey);
+        // Goals are stored in the metric's storage unit; show both sides in the user's units
+        const convert = (v: number) => storedUnit ? toDisplayValue(v, storedUnit, units) : v;
+        const goalValue = storedGoal !== undefined ? convert(storedGoal) : undefined;
+        const currentValue = rawCurrentValue !== undefined && rawCurrentValue !== null ? convert(rawCurrentValue) : rawCurrentValue;
+        const unit = storedUnit && displayUnit(storedUnit, units);
 
         let displayValue = '—';
         // Minimalist: Standard gray text
@@ -862,7 +1086,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
 
                 tooltipContent = (
                     <div className="flex flex-col gap-0.5 text-xs">
-                        <span><span className="font-bold">Goal:</span> {type === 'duration' ? formatDuration(goalValue) : type === 'pace' ? formatPace(goalValue) : goalValue.toLocaleString()} {unit}</span>
+                        <span><span className="font-bold">Goal:</span> {type === 'duration' ? formatDuration(goalValue) : type === 'pace' ? formatPace(goalValue) : goalValue.toLocaleString(undefined, { maximumFractionDigits: 1 })} {unit}</span>
                         <span><span className="font-bold">Current:</span> {type === 'duration' ? formatDuration(currentValue) : type === 'pace' ? formatPace(currentValue) : currentValue.toLocaleString(undefined, { maximumFractionDigits: 1 })} {unit}</span>
                         <span className={statusColor}><span className="font-bold">{gapLabel}:</span> {gapStr} {unit}</span>
                     </div>
@@ -873,7 +1097,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
             } else {
                 colorClass = 'text-gray-500 dark:text-gray-400 font-medium';
                 tooltipContent = (
-                    <span><span className="font-bold">Goal:</span> {type === 'duration' ? formatDuration(goalValue) : type === 'pace' ? formatPace(goalValue) : goalValue.toLocaleString()}</span>
+                    <span><span className="font-bold">Goal:</span> {type === 'duration' ? formatDuration(goalValue) : type === 'pace' ? formatPace(goalValue) : goalValue.toLocaleString(undefined, { maximumFractionDigits: 1 })}</span>
                 );
             }
 
@@ -882,7 +1106,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
             } else if (type === 'pace') {
                 displayValue = formatPace(goalValue);
             } else {
-                displayValue = goalValue.toLocaleString();
+                displayValue = goalValue.toLocaleString(undefined, { maximumFractionDigits: 1 });
             }
         } else {
             displayValue = explicitGoalValue !== undefined ? '—' : '+';
@@ -893,7 +1117,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
         return (
             <td
                 className={`group px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 hover:bg-gray-50 dark:hover:bg-gray-800/50 ${explicitGoalValue !== undefined ? '' : 'cursor-pointer'}`}
-                onClick={() => explicitGoalValue === undefined && setEditingGoal({ metricKey, label, type })}
+                onClick={() => explicitGoalValue === undefined && setEditingGoal({ metricKey, label, type, unit: storedUnit })}
             >
                 {goalValue ? (
                     <Tooltip content={tooltipContent}>
@@ -910,6 +1134,161 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
         );
     };
 
+    // Ride, swim and other-sport sections: same-day activities are combined per cell
+    const renderSportSection = (sport: OtherSport, label: string, color: 'cyan' | 'teal' | 'gray') => {
+        const byDate = otherBySportAndDate.get(sport);
+        if (!byDate) return null;
+
+        const inRange = visibleOtherActivities.filter(a => {
+            const date = new Date(a.activityDate);
+            return a.sport === sport && date >= volumeStartDate && date <= volumeEndDate;
+        });
+        const period = summarizeActivities(inRange);
+        const daily = new Map(Array.from(byDate.entries()).map(([date, activities]) => [date, summarizeActivities(activities)]));
+        const isSwim = sport === 'swim';
+
+        const formatDistance = (miles: number) => isSwim ? swimDistance(miles) : distance(miles);
+        const formatSpeed = (mph: number) => toDisplayValue(mph, 'mph', units).toFixed(1);
+        const formatSwimPace = (secondsPer100Yd: number) => formatPace(toDisplayValue(secondsPer100Yd, '/100yd', units));
+        const emptyCell = <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
+
+        const rows: {
+            key: string;
+            label: React.ReactNode;
+            goal: React.ReactNode;
+            total: string | null;
+            average: string | null;
+            cell: (summary: ReturnType<typeof summarizeActivities>) => string | null;
+        }[] = [
+            {
+                key: 'duration',
+                label: 'Duration',
+                goal: renderGoalCell(`${sport}_duration`, 'Target Duration', period.durationSeconds, 'duration'),
+                total: formatDuration(period.durationSeconds),
+                average: period.count > 0 ? formatDuration(period.durationSeconds / period.count) : null,
+                cell: summary => formatDuration(summary.durationSeconds),
+            },
+            {
+                key: 'distance',
+                label: `Distance (${isSwim ? displayUnit('yd', units) : distanceUnit})`,
+                goal: isSwim
+                    ? renderGoalCell('swim_distance', 'Target Distance', period.distanceMiles * YARDS_PER_MILE, 'number', 'yd')
+                    : renderGoalCell(`${sport}_distance`, 'Target Distance', period.distanceMiles, 'number', 'mi'),
+                total: formatDistance(period.distanceMiles),
+                average: period.count > 0 ? formatDistance(period.distanceMiles / period.count) : null,
+                cell: summary => summary.distanceMiles > 0 ? formatDistance(summary.distanceMiles) : null,
+            },
+        ];
+
+        if (sport === 'ride') {
+            rows.push(
+                {
+                    key: 'speed',
+                    label: `Speed (${displayUnit('mph', units)})`,
+                    goal: emptyCell,
+                    total: null,
+                    average: period.speedMph > 0 ? formatSpeed(period.speedMph) : null,
+                    cell: summary => summary.speedMph > 0 ? formatSpeed(summary.speedMph) : null,
+                },
+                {
+                    key: 'power',
+                    label: 'Power (W)',
+                    goal: emptyCell,
+                    total: null,
+                    average: period.averageWatts > 0 ? String(period.averageWatts) : null,
+                    cell: summary => summary.averageWatts > 0 ? String(summary.averageWatts) : null,
+                }
+            );
+        }
+
+        if (isSwim) {
+            rows.push({
+                key: 'pace',
+                label: `Pace (${displayUnit('/100yd', units)})`,
+                goal: emptyCell,
+                total: null,
+                average: period.swimPacePer100Yd > 0 ? formatSwimPace(period.swimPacePer100Yd) : null,
+                cell: summary => summary.swimPacePer100Yd > 0 ? formatSwimPace(summary.swimPacePer100Yd) : null,
+            });
+        }
+
+        rows.push({
+            key: 'hr',
+            label: 'Avg HR',
+            goal: emptyCell,
+            total: null,
+            average: period.averageHeartrate > 0 ? String(period.averageHeartrate) : null,
+            cell: summary => summary.averageHeartrate > 0 ? String(summary.averageHeartrate) : null,
+        });
+
+        return (
+            <>
+                <SectionHeaderRow
+                    label={label}
+                    color={color}
+                    columnCount={colCount}
+                    fixedCellsCount={5}
+                />
+                {rows.map(row => (
+                    <TimeSeriesRow
+                        key={`${sport}-${row.key}`}
+                        label={row.label}
+                        fixedContent={
+                            <>
+                                {row.goal}
+                                <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
+                                    {row.total ? (
+                                        <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">{row.total}</span>
+                                    ) : emptyCell}
+                                </td>
+                                <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                    {row.average ? (
+                                        <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">{row.average}</span>
+                                    ) : emptyCell}
+                                </td>
+                                <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                    {emptyCell}
+                                </td>
+                                <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
+                                    {emptyCell}
+                                </td>
+                            </>
+                        }
+                        stickyColumnWidth={stickyWidth}
+                    >
+                        {displayDates.map(date => {
+                            const summary = daily.get(date);
+                            const value = summary ? row.cell(summary) : null;
+                            const activities = byDate.get(date) ?? [];
+                            return (
+                                <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                    {value ? (
+                                        row.key === 'duration' ? (
+                                            <Tooltip content={
+                                                <div className="text-left text-xs space-y-1">
+                                                    {activities.map(a => (
+                                                        <div key={a.id}>
+                                                            {a.name}
+                                                            {sport === 'other' && a.sportType && <span className="text-gray-400"> · {a.sportType}</span>}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            }>
+                                                <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100 cursor-help">{value}</span>
+                                            </Tooltip>
+                                        ) : (
+                                            <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">{value}</span>
+                                        )
+                                    ) : emptyCell}
+                                </td>
+                            );
+                        })}
+                    </TimeSeriesRow>
+                ))}
+            </>
+        );
+    };
+
     return (
         <TimeSeriesTable
             headerLabel={
@@ -922,9 +1301,9 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                     </th>
 
                     <th className="px-2 py-2 text-center min-w-[80px] border-l border-gray-100 dark:border-gray-800 bg-blue-50 dark:bg-blue-900/40">
-                        <div className={`flex flex-col items-center ${workoutType === 'run' ? 'justify-center' : 'gap-1'}`}>
+                        <div className={`flex flex-col items-center ${!showLifting ? 'justify-center' : 'gap-1'}`}>
                             <span className="text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase">Workload</span>
-                            {workoutType !== 'run' && (
+                            {showLifting && (
                                 <div className="flex gap-0.5">
                                     {(['sets', 'volume'] as VolumeDisplayMode[]).map(mode => (
                                         <button
@@ -979,7 +1358,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
             <SectionHeaderRow
                 label={
                     <div className="flex gap-0.5">
-                        {(['all', 'lifting', 'run'] as WorkoutType[]).map(type => (
+                        {availableWorkoutTypes.map(type => (
                             <button
                                 key={type}
                                 onClick={(e) => {
@@ -991,7 +1370,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     : 'text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
                                     }`}
                             >
-                                {type === 'run' ? 'Run' : type === 'lifting' ? 'Lift' : 'All'}
+                                {WORKOUT_TYPE_LABELS[type]}
                             </button>
                         ))}
                     </div>
@@ -1203,7 +1582,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                             <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
                                 {volumeDisplayMode === 'sets'
                                     ? liftingVolume.totalSets
-                                    : formatVolume(liftingVolume.totalVolumeLbs)}
+                                    : liftVolume(liftingVolume.totalVolumeLbs)}
                             </span>
                         </td>
                         <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
@@ -1290,9 +1669,225 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                 })}
             </TimeSeriesRow>
 
+            {/* Training Time row - duration across every sport in view */}
+            <TimeSeriesRow
+                label="Training Time"
+                fixedContent={
+                    <>
+                        {renderGoalCell('training_duration', 'Target Training Time', trainingTime.totalSeconds, 'duration')}
+                        <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
+                            <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
+                                {formatDuration(trainingTime.totalSeconds)}
+                            </span>
+                        </td>
+                        <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                            <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">
+                                {trainingTime.totalSeconds > 0 ? `${formatDuration(trainingTime.perWeekSeconds)}/wk` : '—'}
+                            </span>
+                        </td>
+                        <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                        </td>
+                        <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
+                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                        </td>
+                    </>
+                }
+                stickyColumnWidth={stickyWidth}
+            >
+                {displayDates.map(date => {
+                    const seconds = trainingTime.byDate.get(date) || 0;
+                    return (
+                        <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                            {seconds > 0 ? (
+                                <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
+                                    {formatDuration(seconds)}
+                                </span>
+                            ) : (
+                                <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                            )}
+                        </td>
+                    );
+                })}
+            </TimeSeriesRow>
+
+            {/* Training Load Section */}
+            {
+                trainingLoad.latest && (
+                    <>
+                        <SectionHeaderRow
+                            label="Training Load"
+                            color="blue"
+                            columnCount={colCount}
+                            fixedCellsCount={5}
+                        />
+                        {/* Daily load chart */}
+                        <TimeSeriesRow
+                            label={
+                                <Tooltip content={
+                                    <div className="text-left text-xs space-y-1">
+                                        <p><strong>Daily training load</strong></p>
+                                        <p className="text-gray-300">TRIMP from heart rate; session RPE x minutes for lifts and activities without HR</p>
+                                        <p className="text-gray-300">Workload: last {ACUTE_DAYS} days · Avg: weekly average over {CHRONIC_DAYS} days</p>
+                                    </div>
+                                }>
+                                    <span className="cursor-help">Load</span>
+                                </Tooltip>
+                            }
+                            fixedContent={
+                                <>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
+                                        <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
+                                            {Math.round(trainingLoad.latest.acute * ACUTE_DAYS)}
+                                        </span>
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                        <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">
+                                            {Math.round(trainingLoad.latest.chronic * 7)}/wk
+                                        </span>
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
+                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                    </td>
+                                </>
+                            }
+                            stickyColumnWidth={stickyWidth}
+                        >
+                            {(() => {
+                                const maxLoad = Math.max(1, ...displayDates.map(date => trainingLoad.byDate.get(date)?.load ?? 0));
+                                return displayDates.map(date => {
+                                    const day = trainingLoad.byDate.get(date);
+                                    const sessions = trainingLoad.sessionsByDate.get(date) ?? [];
+                                    if (!day || day.load === 0) {
+                                        return (
+                                            <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                                <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                            </td>
+                                        );
+                                    }
+                                    const barClass = day.risk ? LOAD_RISK_STYLES[day.risk].bar : 'bg-blue-300 dark:bg-blue-600';
+                                    return (
+                                        <td key={date} className="px-3 py-1 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                            <Tooltip content={
+                                                <div className="text-left text-xs">
+                                                    <div className="font-medium mb-1">Load {Math.round(day.load)}</div>
+                                                    <div className="space-y-0.5 mb-2">
+                                                        {sessions.map((session, i) => (
+                                                            <div key={i} className="text-gray-300">
+                                                                {session.name || session.kind}: {Math.round(session.load)}
+                                                                <span className="text-gray-500"> · {LOAD_SOURCE_LABELS[session.source]}</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                    <div className="pt-2 border-t border-gray-700 grid grid-cols-2 gap-x-4 gap-y-1">
+                                                        <span className="text-gray-400">Acute ({ACUTE_DAYS}d):</span>
+                                                        <span className="text-right font-medium">{Math.round(day.acute * ACUTE_DAYS)}</span>
+                                                        <span className="text-gray-400">Chronic ({CHRONIC_DAYS}d):</span>
+                                                        <span className="text-right font-medium">{Math.round(day.chronic * 7)}/wk</span>
+                                                    </div>
+                                                </div>
+                                            }>
+                                                <div className="flex flex-col items-center justify-end h-6 cursor-help">
+                                                    <div
+                                                        className={`w-3 rounded-sm ${barClass}`}
+                                                        style={{ height: `${Math.max(8, (day.load / maxLoad) * 100)}%` }}
+                                                    />
+                                                </div>
+                                            </Tooltip>
+                                        </td>
+                                    );
+                                });
+                            })()}
+                        </TimeSeriesRow>
+                        {/* Acute:chronic ratio */}
+                        <TimeSeriesRow
+                            label={
+                                <Tooltip content={
+                                    <div className="text-left text-xs space-y-1">
+                                        <p><strong>Acute:chronic workload ratio</strong></p>
+                                        <p className="text-gray-300">{ACUTE_DAYS}-day average load over the {CHRONIC_DAYS}-day average</p>
+                                        <p className="text-gray-300">0.8–1.3 is the sweet spot; above 1.5 is a spike linked to injury risk</p>
+                                    </div>
+                                }>
+                                    <span className="cursor-help">Acute:Chronic</span>
+                                </Tooltip>
+                            }
+                            fixedContent={
+                                <>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
+                                        {trainingLoad.latest.ratio !== null && trainingLoad.latest.risk ? (
+                                            <span className={`text-xs tabular-nums font-medium ${LOAD_RISK_STYLES[trainingLoad.latest.risk].text}`}>
+                                                {trainingLoad.latest.ratio.toFixed(2)}
+                                            </span>
+                                        ) : (
+                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                        )}
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                        {(() => {
+                                            const spikeDays = trainingLoad.spikes.filter(day => {
+                                                const d = parseLocalDate(day.date);
+                                                return d >= volumeStartDate && d <= volumeEndDate;
+                                            });
+                                            const highDays = spikeDays.filter(day => day.risk === 'high').length;
+                                            return (
+                                                <Tooltip content={`${highDays} high-risk and ${spikeDays.length - highDays} elevated days in the selected period`}>
+                                                    <span className={`text-xs tabular-nums cursor-help ${highDays > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                                                        {spikeDays.length} {spikeDays.length === 1 ? 'spike' : 'spikes'}
+                                                    </span>
+                                                </Tooltip>
+                                            );
+                                        })()}
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                    </td>
+                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
+                                        {trainingLoad.latest.risk ? (
+                                            <span className={`text-xs font-medium ${LOAD_RISK_STYLES[trainingLoad.latest.risk].text}`}>
+                                                {LOAD_RISK_STYLES[trainingLoad.latest.risk].label}
+                                            </span>
+                                        ) : (
+                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                        )}
+                                    </td>
+                                </>
+                            }
+                            stickyColumnWidth={stickyWidth}
+                        >
+                            {displayDates.map(date => {
+                                const day = trainingLoad.byDate.get(date);
+                                return (
+                                    <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                        {day && day.ratio !== null && day.risk ? (
+                                            <Tooltip content={LOAD_RISK_STYLES[day.risk].label}>
+                                                <span className={`text-xs tabular-nums cursor-help ${LOAD_RISK_STYLES[day.risk].text} ${day.risk === 'high' ? 'font-semibold' : ''}`}>
+                                                    {day.risk === 'high' && '⚠ '}{day.ratio.toFixed(2)}
+                                                </span>
+                                            </Tooltip>
+                                        ) : (
+                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </TimeSeriesRow>
+                    </>
+                )
+            }
+
             {/* Lifting Section */}
             {
-                workoutType !== 'run' && liftingWorkouts.length > 0 && (
+                showLifting && liftingWorkouts.length > 0 && (
                     <>
                         <SectionHeaderRow
                             label="Lifting"
@@ -1321,7 +1916,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                         <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
                                             {volumeDisplayMode === 'sets'
                                                 ? liftingVolume.totalSets
-                                                : formatVolume(liftingVolume.totalVolumeLbs)}
+                                                : liftVolume(liftingVolume.totalVolumeLbs)}
                                         </span>
                                     </td>
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
@@ -1333,7 +1928,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                 if (volumeDisplayMode === 'sets') {
                                                     return (liftingVolume.totalSets / workoutCount).toFixed(1);
                                                 } else {
-                                                    return formatVolume(liftingVolume.totalVolumeLbs / workoutCount);
+                                                    return liftVolume(liftingVolume.totalVolumeLbs / workoutCount);
                                                 }
                                             })()}
                                         </span>
@@ -1341,10 +1936,10 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
                                         {(() => {
                                             const diff = volumeDisplayMode === 'sets' ? trendData.setsDiff : trendData.volumeDiff;
-                                            const { text, color } = formatTrendValue(diff, volumeDisplayMode === 'volume');
+                                            const { text, color } = formatTrendValue(volumeDisplayMode === 'volume' ? toDisplayValue(diff, 'lbs', units) : diff, volumeDisplayMode === 'volume');
                                             const currentVal = volumeDisplayMode === 'sets' ? trendData.lifting.current.totalSets : trendData.lifting.current.totalVolumeLbs;
                                             const prevVal = volumeDisplayMode === 'sets' ? trendData.lifting.previous.totalSets : trendData.lifting.previous.totalVolumeLbs;
-                                            const formatFn = (v: number) => volumeDisplayMode === 'volume' ? formatVolume(v) : v;
+                                            const formatFn = (v: number) => volumeDisplayMode === 'volume' ? liftVolume(v) : v;
 
 
 
@@ -1421,7 +2016,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                                                 )}
                                                                             </div>
                                                                             <div className="text-gray-400 text-[10px] pl-0.5">
-                                                                                {ex.sets.length} sets × {ex.sets[0]?.targetReps} reps @ {ex.sets[0]?.weightLbs}lb
+                                                                                {ex.sets.length} sets × {ex.sets[0]?.targetReps} reps @ {liftWeight(ex.sets[0]?.weightLbs || 0)}
                                                                             </div>
                                                                         </div>
                                                                         );
@@ -1648,7 +2243,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                             const trendDiff = volumeDisplayMode === 'sets'
                                 ? trendData.bodyPartSetsDiff[part] || 0
                                 : trendData.bodyPartVolumeDiff[part] || 0;
-                            const { text: trendText, color: trendColor } = formatTrendValue(trendDiff, volumeDisplayMode === 'volume');
+                            const { text: trendText, color: trendColor } = formatTrendValue(volumeDisplayMode === 'volume' ? toDisplayValue(trendDiff, 'lbs', units) : trendDiff, volumeDisplayMode === 'volume');
                             const exercises = exercisesByBodyPart[part] || [];
                             const isExpanded = expandedBodyParts.has(part);
                             const hasExercises = exercises.length > 0;
@@ -1678,7 +2273,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                 <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
                                                     <span className={`text-xs tabular-nums ${volumeValue ? 'text-gray-900 dark:text-gray-100' : 'text-gray-300 dark:text-gray-600'}`}>
                                                         {volumeValue
-                                                            ? (volumeDisplayMode === 'volume' ? formatVolume(volumeValue) : volumeValue)
+                                                            ? (volumeDisplayMode === 'volume' ? liftVolume(volumeValue) : volumeValue)
                                                             : '—'}
                                                     </span>
                                                 </td>
@@ -1696,7 +2291,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                             if (volumeDisplayMode === 'sets') {
                                                                 return (liftingVolume.bodyPartSets[part] / workoutsWithPart).toFixed(1);
                                                             } else {
-                                                                return formatVolume(liftingVolume.bodyPartVolume[part] / workoutsWithPart);
+                                                                return liftVolume(liftingVolume.bodyPartVolume[part] / workoutsWithPart);
                                                             }
                                                         })()}
                                                     </span>
@@ -1711,15 +2306,15 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                     >
                                                         <Tooltip content={
                                                             <div className="text-left text-xs">
-                                                                <div className="font-medium mb-1">Change: <span className={trendColor}>{trendText} {volumeDisplayMode === 'volume' ? 'lbs' : 'sets'}</span></div>
+                                                                <div className="font-medium mb-1">Change: <span className={trendColor}>{trendText} {volumeDisplayMode === 'volume' ? massUnit : 'sets'}</span></div>
                                                                 <div className="text-gray-400 mb-2">vs {periodLabels[trendPeriod]}</div>
                                                                 <div className="pt-2 border-t border-gray-700 grid grid-cols-2 gap-x-4 gap-y-1">
                                                                     <span className={`${trendColor.includes('emerald') ? 'text-emerald-500 dark:text-emerald-500' : trendColor.includes('red') ? 'text-red-500 dark:text-red-500' : 'text-gray-500 dark:text-gray-500'} font-bold`}>Current:</span>
-                                                                    <span className="text-right font-medium">{volumeDisplayMode === 'volume' ? formatVolume(volumeValue) : volumeValue}</span>
+                                                                    <span className="text-right font-medium">{volumeDisplayMode === 'volume' ? liftVolume(volumeValue) : volumeValue}</span>
                                                                     <span className={`${trendColor.includes('emerald') ? 'text-emerald-300 dark:text-emerald-300' : trendColor.includes('red') ? 'text-red-300 dark:text-red-300' : 'text-gray-300 dark:text-gray-300'} font-medium`}>Previous:</span>
                                                                     <span className="text-right font-medium">
                                                                         {volumeDisplayMode === 'volume'
-                                                                            ? formatVolume((trendData.lifting.previous.bodyPartVolume[part] || 0))
+                                                                            ? liftVolume((trendData.lifting.previous.bodyPartVolume[part] || 0))
                                                                             : (trendData.lifting.previous.bodyPartSets[part] || 0)}
                                                                     </span>
                                                                 </div>
@@ -1785,7 +2380,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                 <td key={date} className={`px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 ${bgClass}`}>
                                                     {displayValue ? (
                                                         <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                                            {volumeDisplayMode === 'volume' ? formatVolume(displayValue) : displayValue}
+                                                            {volumeDisplayMode === 'volume' ? liftVolume(displayValue) : displayValue}
                                                         </span>
                                                     ) : (
                                                         <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -1797,137 +2392,202 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     {/* Exercise sub-rows (expanded view) */}
                                     {isExpanded && exercises.map(exercise => {
                                         const exerciseKey = `${part}:${exercise.name}`;
+                                        const progress = exerciseProgressions.get(exercise.name);
+                                        const latestSession = progress?.progression.sessions[progress.progression.sessions.length - 1];
+                                        const showProgression = progress !== undefined && expandedProgressions.has(exerciseKey);
 
                                         return (
-                                            <TimeSeriesRow
-                                                key={exerciseKey}
-                                                label={
-                                                    <span className="pl-5 text-[11px] text-gray-600 dark:text-gray-400 inline-flex items-center gap-1.5">
-                                                        {exercise.name}
-                                                        {exercise.exerciseType && (
-                                                            <Tooltip content={exercise.exerciseType === 'compound' ? 'Compound Movement' : 'Accessory Movement'}>
-                                                                <span className={`px-1 rounded-[2px] text-[8px] font-bold uppercase tracking-wider ${exercise.exerciseType === 'compound'
-                                                                    ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300'
-                                                                    : 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400'
-                                                                    }`}>
-                                                                    {exercise.exerciseType === 'compound' ? 'C' : 'A'}
+                                            <React.Fragment key={exerciseKey}>
+                                                <TimeSeriesRow
+                                                    label={
+                                                        <span className="pl-5 text-[11px] text-gray-600 dark:text-gray-400 inline-flex items-center gap-1.5">
+                                                            {exercise.name}
+                                                            {progress && (
+                                                                <Tooltip content={showProgression ? 'Hide e1RM and volume trend' : 'Show e1RM and volume trend'}>
+                                                                    <button
+                                                                        onClick={() => toggleProgression(exerciseKey)}
+                                                                        className={`${showProgression ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'} hover:text-blue-600 dark:hover:text-blue-400`}
+                                                                    >
+                                                                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17l6-6 4 4 8-8" />
+                                                                        </svg>
+                                                                    </button>
+                                                                </Tooltip>
+                                                            )}
+                                                            {exercise.exerciseType && (
+                                                                <Tooltip content={exercise.exerciseType === 'compound' ? 'Compound Movement' : 'Accessory Movement'}>
+                                                                    <span className={`px-1 rounded-[2px] text-[8px] font-bold uppercase tracking-wider ${exercise.exerciseType === 'compound'
+                                                                        ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300'
+                                                                        : 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400'
+                                                                        }`}>
+                                                                        {exercise.exerciseType === 'compound' ? 'C' : 'A'}
+                                                                    </span>
+                                                                </Tooltip>
+                                                            )}
+                                                        </span>
+                                                    }
+                                                    fixedContent={
+                                                        <>
+                                                            <td className="px-2 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/20 dark:bg-blue-900/10">
+                                                                <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                            </td>
+                                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/20 dark:bg-blue-900/5">
+                                                                {progress && latestSession ? (
+                                                                    <Tooltip content={
+                                                                        <div className="text-xs text-left">
+                                                                            <div className="font-medium mb-1">Estimated 1RM (smoothed)</div>
+                                                                            <div>Last session: {liftWeight(latestSession.e1rmLbs)}</div>
+                                                                            <div>Recent best: {liftWeight(progress.progression.bestE1rmLbs)} on {parseLocalDate(progress.progression.bestE1rmDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</div>
+                                                                            <div className="text-gray-400 mt-1">{progress.progression.sessions.length} sessions</div>
+                                                                        </div>
+                                                                    }>
+                                                                        <span className="text-xs tabular-nums text-gray-700 dark:text-gray-300 cursor-help">
+                                                                            {liftWeight(latestSession.smoothedE1rmLbs)}
+                                                                        </span>
+                                                                    </Tooltip>
+                                                                ) : (
+                                                                    <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                                )}
+                                                            </td>
+                                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/20 dark:bg-gray-800/10">
+                                                                <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">
+                                                                    {(() => {
+                                                                        // For exercises, maybe show max weight?
+                                                                        // Let's calculate average weight across all occurrences
+                                                                        let totalWeight = 0;
+                                                                        let count = 0;
+                                                                        displayDates.forEach(date => {
+                                                                            const occ = exercise.occurrences.get(date);
+                                                                            if (occ && occ.weightLbs) {
+                                                                                totalWeight += occ.weightLbs;
+                                                                                count++;
+                                                                            }
+                                                                        });
+                                                                        if (count === 0) return '—';
+                                                                        return liftWeight(totalWeight / count);
+                                                                    })()}
                                                                 </span>
-                                                            </Tooltip>
-                                                        )}
-                                                    </span>
-                                                }
-                                                fixedContent={
-                                                    <>
-                                                        <td className="px-2 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/20 dark:bg-blue-900/10">
-                                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
-                                                        </td>
-                                                        <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/20 dark:bg-blue-900/5">
-                                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
-                                                        </td>
-                                                        <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/20 dark:bg-gray-800/10">
-                                                            <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">
-                                                                {(() => {
-                                                                    // For exercises, maybe show max weight?
-                                                                    // Let's calculate average weight across all occurrences
-                                                                    let totalWeight = 0;
-                                                                    let count = 0;
-                                                                    displayDates.forEach(date => {
-                                                                        const occ = exercise.occurrences.get(date);
-                                                                        if (occ && occ.weightLbs) {
-                                                                            totalWeight += occ.weightLbs;
-                                                                            count++;
-                                                                        }
-                                                                    });
-                                                                    if (count === 0) return '—';
-                                                                    return `${Math.round(totalWeight / count)} lbs`;
-                                                                })()}
-                                                            </span>
-                                                        </td>
-                                                        <td className="px-2 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/20 dark:bg-gray-800/10">
-                                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
-                                                        </td>
-                                                        <td className="px-2 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
-                                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
-                                                        </td>
-                                                    </>
-                                                }
-                                                stickyColumnWidth={stickyWidth}
-                                            >
-                                                {displayDates.map(date => {
-                                                    const occurrence = exercise.occurrences.get(date);
-                                                    if (!occurrence) {
-                                                        return (
-                                                            <td key={date} className="px-3 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/10">
+                                                            </td>
+                                                            <td className="px-2 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/20 dark:bg-gray-800/10">
+                                                                {progress ? (() => {
+                                                                    const { status, sessionsSinceBest, changePercent } = progress.progression;
+                                                                    const style = PROGRESSION_STYLES[status];
+                                                                    return (
+                                                                        <Tooltip content={
+                                                                            <div className="text-xs text-left">
+                                                                                <div className={`font-medium mb-1 ${style.text}`}>{style.label}</div>
+                                                                                <div>{sessionsSinceBest === 0 ? 'New best last session' : `${sessionsSinceBest} sessions since last best`}</div>
+                                                                                {changePercent !== null && <div className="text-gray-400 mt-1">{changePercent.toFixed(1)}% vs recent peak</div>}
+                                                                            </div>
+                                                                        }>
+                                                                            <span className={`text-[10px] font-medium cursor-help ${style.text}`}>
+                                                                                {status === 'regressing' && changePercent !== null
+                                                                                    ? `${changePercent.toFixed(0)}%`
+                                                                                    : status === 'insufficient' ? '—' : style.label}
+                                                                            </span>
+                                                                        </Tooltip>
+                                                                    );
+                                                                })() : (
+                                                                    <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                                )}
+                                                            </td>
+                                                            <td className="px-2 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
                                                                 <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
                                                             </td>
-                                                        );
+                                                        </>
                                                     }
+                                                    stickyColumnWidth={stickyWidth}
+                                                >
+                                                    {displayDates.map(date => {
+                                                        const occurrence = exercise.occurrences.get(date);
+                                                        if (!occurrence) {
+                                                            return (
+                                                                <td key={date} className="px-3 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/10">
+                                                                    <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                                </td>
+                                                            );
+                                                        }
 
-                                                    // Calculate volume for this exercise on this date
-                                                    const exerciseVolume = occurrence.sets * occurrence.reps * (occurrence.weightLbs || 0);
-                                                    const displayVal = volumeDisplayMode === 'sets'
-                                                        ? occurrence.sets
-                                                        : exerciseVolume;
-
-                                                    return (
-                                                        <td key={date} className="px-3 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/10">
-                                                            <Tooltip content={
-                                                                <div className="text-xs text-left">
-                                                                    <div className="font-medium mb-1">{exercise.name}</div>
-                                                                    <div>
-                                                                        {occurrence.sets} sets × {
-                                                                            occurrence.sets > 0 && occurrence.reps % occurrence.sets === 0
-                                                                                ? occurrence.reps / occurrence.sets
-                                                                                : occurrence.reps
-                                                                        } {
-                                                                            occurrence.sets > 0 && occurrence.reps % occurrence.sets === 0
-                                                                                ? 'reps'
-                                                                                : 'total reps'
-                                                                        }
-                                                                    </div>
-                                                                    {occurrence.weightLbs && <div>@ {occurrence.weightLbs} lbs</div>}
-                                                                    {exerciseVolume > 0 && <div className="text-gray-400 mt-1">Volume: {formatVolume(exerciseVolume)}</div>}
-                                                                </div>
-                                                            }>
-                                                                <span className="text-[11px] tabular-nums text-gray-700 dark:text-gray-300 cursor-help">
-                                                                    {volumeDisplayMode === 'volume' && exerciseVolume > 0
-                                                                        ? formatVolume(displayVal)
-                                                                        : occurrence.sets}
-                                                                </span>
-                                                            </Tooltip>
-                                                            {(() => {
-                                                                const m = liftingMilestones.get(exercise.name);
-                                                                if (!m) return null;
-
-                                                                const dateKey = date; // date is already YYYY-MM-DD from displayDates
-                                                                const records: string[] = [];
-
-                                                                if (m.heaviestWeight && toDateKey(m.heaviestWeight.date) === dateKey) records.push(`Heaviest: ${m.heaviestWeight.value} lbs`);
-                                                                if (m.bestSetVolume && toDateKey(m.bestSetVolume.date) === dateKey) records.push(`Best Set Vol: ${formatVolume(m.bestSetVolume.value)} lbs`);
-                                                                if (m.best1RM && toDateKey(m.best1RM.date) === dateKey) records.push(`Best 1RM: ${Math.round(m.best1RM.value)} lbs`);
-                                                                if (m.bestSessionVolume && toDateKey(m.bestSessionVolume.date) === dateKey) records.push(`Best Ses Vol: ${formatVolume(m.bestSessionVolume.value)} lbs`);
+                                                        // Calculate volume for this exercise on this date
+                                                        const exerciseVolume = occurrence.sets * occurrence.reps * (occurrence.weightLbs || 0);
+                                                        const displayVal = volumeDisplayMode === 'sets'
+                                                            ? occurrence.sets
+                                                            : exerciseVolume;
 
-                                                                if (records.length > 0) {
-                                                                    return (
-                                                                        <div className="ml-1 inline-flex">
-                                                                            <MilestoneBadge
-                                                                                type="pr"
-                                                                                date={m.heaviestWeight?.date || m.bestSetVolume?.date || m.best1RM?.date as string}
-                                                                                details={
-                                                                                    <ul className="list-disc list-inside">
-                                                                                        {records.map((r, i) => <li key={i}>{r}</li>)}
-                                                                                    </ul>
-                                                                                }
-                                                                            />
+                                                        return (
+                                                            <td key={date} className="px-3 py-1 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/10">
+                                                                <Tooltip content={
+                                                                    <div className="text-xs text-left">
+                                                                        <div className="font-medium mb-1">{exercise.name}</div>
+                                                                        <div>
+                                                                            {occurrence.sets} sets × {
+                                                                                occurrence.sets > 0 && occurrence.reps % occurrence.sets === 0
+                                                                                    ? occurrence.reps / occurrence.sets
+                                                                                    : occurrence.reps
+                                                                            } {
+                                                                                occurrence.sets > 0 && occurrence.reps % occurrence.sets === 0
+                                                                                    ? 'reps'
+                                                                                    : 'total reps'
+                                                                            }
                                                                         </div>
-                                                                    )
-                                                                }
-                                                                return null;
-                                                            })()}
+                                                                        {occurrence.weightLbs && <div>@ {liftWeight(occurrence.weightLbs)}</div>}
+                                                                        {exerciseVolume > 0 && <div className="text-gray-400 mt-1">Volume: {liftVolume(exerciseVolume)}</div>}
+                                                                        {progress?.byDate.get(date) && (
+                                                                            <div className="text-gray-400">
+                                                                                e1RM: {liftWeight(progress.byDate.get(date)!.e1rmLbs)} (trend {liftWeight(progress.byDate.get(date)!.smoothedE1rmLbs)})
+                                                                            </div>
+                                                                        )}
+                                                                    </div>
+                                                                }>
+                                                                    <span className="text-[11px] tabular-nums text-gray-700 dark:text-gray-300 cursor-help">
+                                                                        {volumeDisplayMode === 'volume' && exerciseVolume > 0
+                                                                            ? liftVolume(displayVal)
+                                                                            : occurrence.sets}
+                                                                    </span>
+                                                                </Tooltip>
+                                                                {(() => {
+                                                                    const m = liftingMilestones.get(exercise.name);
+                                                                    if (!m) return null;
+
+                                                                    const dateKey = date; // date is already YYYY-MM-DD from displayDates
+                                                                    const records: string[] = [];
+
+                                                                    if (m.heaviestWeight && toDateKey(m.heaviestWeight.date) === dateKey) records.push(`Heaviest: ${liftWeight(m.heaviestWeight.value)}`);
+                                                                    if (m.bestSetVolume && toDateKey(m.bestSetVolume.date) === dateKey) records.push(`Best Set Vol: ${liftVolume(m.bestSetVolume.value)} ${massUnit}`);
+                                                                    if (m.best1RM && toDateKey(m.best1RM.date) === dateKey) records.push(`Best 1RM: ${liftWeight(m.best1RM.value)}`);
+                                                                    if (m.bestSessionVolume && toDateKey(m.bestSessionVolume.date) === dateKey) records.push(`Best Ses Vol: ${liftVolume(m.bestSessionVolume.value)} ${massUnit}`);
+
+                                                                    if (records.length > 0) {
+                                                                        return (
+                                                                            <div className="ml-1 inline-flex">
+                                                                                <MilestoneBadge
+                                                                                    type="pr"
+                                                                                    date={m.heaviestWeight?.date || m.bestSetVolume?.date || m.best1RM?.date as string}
+                                                                                    details={
+                                                                                        <ul className="list-disc list-inside">
+                                                                                            {records.map((r, i) => <li key={i}>{r}</li>)}
+                                                                                        </ul>
+                                                                                    }
+                                                                                />
+                                                                            </div>
+                                                                        )
+                                                                    }
+                                                                    return null;
+                                                                })()}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </TimeSeriesRow>
+                                                {showProgression && (
+                                                    <tr>
+                                                        <td colSpan={6 + displayDates.length} className="px-4 py-2 bg-gray-50/30 dark:bg-gray-800/10">
+                                                            <div className="sticky left-4 w-fit pl-5">
+                                                                <ProgressionChart progression={progress.progression} units={units} />
+                                                            </div>
                                                         </td>
-                                                    );
-                                                })}
-                                            </TimeSeriesRow>
+                                                    </tr>
+                                                )}
+                                            </React.Fragment>
                                         );
                                     })}
                                 </React.Fragment>
@@ -1939,7 +2599,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
 
             {/* Running Section */}
             {
-                workoutType !== 'lifting' && runningActivities.length > 0 && (
+                showRunning && runningActivities.length > 0 && (
                     <>
                         <SectionHeaderRow
                             label="Running"
@@ -1949,29 +2609,29 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                         />
                         {/* Miles */}
                         <TimeSeriesRow
-                            label="Miles"
+                            label={units === 'metric' ? 'Distance' : 'Miles'}
                             fixedContent={
                                 <>
-                                    {renderGoalCell('run_miles', 'Target Miles', runningVolume.totalMiles, 'number', 'mi')}
+                                    {renderGoalCell('run_miles', units === 'metric' ? 'Target Distance' : 'Target Miles', runningVolume.totalMiles, 'number', 'mi')}
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
                                         <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                            {runningVolume.totalMiles.toFixed(1)}
+                                            {distance(runningVolume.totalMiles)}
                                         </span>
                                     </td>
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
-                                        <Tooltip content="Average miles per run for the selected period">
+                                        <Tooltip content={`Average ${units === 'metric' ? 'km' : 'miles'} per run for the selected period`}>
                                             <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400 cursor-help border-b border-dotted border-gray-300 dark:border-gray-600">
                                                 {(() => {
                                                     const runCount = workoutCounts.runningDatesInRange.size;
                                                     if (runCount === 0) return '—';
-                                                    return (runningVolume.totalMiles / runCount).toFixed(1);
+                                                    return distance(runningVolume.totalMiles / runCount);
                                                 })()}
                                             </span>
                                         </Tooltip>
                                     </td>
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
                                         {(() => {
-                                            const diff = trendData.milesDiff;
+                                            const diff = toDisplayValue(trendData.milesDiff, 'mi', units);
                                             if (Math.abs(diff) < 0.1) return <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
                                             const sign = diff > 0 ? '+' : '';
                                             const color = diff > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400';
@@ -1985,13 +2645,13 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                 >
                                                     <Tooltip content={
                                                         <div className="text-left text-xs">
-                                                            <div className="font-medium mb-1">Change: <span className={color}>{sign}{diff.toFixed(1)} miles</span></div>
+                                                            <div className="font-medium mb-1">Change: <span className={color}>{sign}{diff.toFixed(1)} {units === 'metric' ? 'km' : 'miles'}</span></div>
                                                             <div className="text-gray-400 mb-2">vs {periodLabels[trendPeriod]}</div>
                                                             <div className="pt-2 border-t border-gray-700 grid grid-cols-2 gap-x-4 gap-y-1">
                                                                 <span className={`${color.includes('emerald') ? 'text-emerald-500 dark:text-emerald-500' : color.includes('red') ? 'text-red-500 dark:text-red-500' : 'text-gray-500 dark:text-gray-500'} font-bold`}>Current:</span>
-                                                                <span className="text-right font-medium">{trendData.running.currentMiles.toFixed(1)}</span>
+                                                                <span className="text-right font-medium">{distance(trendData.running.currentMiles)}</span>
                                                                 <span className={`${color.includes('emerald') ? 'text-emerald-300 dark:text-emerald-300' : color.includes('red') ? 'text-red-300 dark:text-red-300' : 'text-gray-300 dark:text-gray-300'} font-medium`}>Previous:</span>
-                                                                <span className="text-right font-medium">{trendData.running.previousMiles.toFixed(1)}</span>
+                                                                <span className="text-right font-medium">{distance(trendData.running.previousMiles)}</span>
                                                             </div>
                                                         </div>
                                                     }>
@@ -2008,21 +2668,26 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                     <div className="font-medium mb-2 text-green-400">{nextRunningWorkout.name}</div>
                                                     <div className="space-y-1">
                                                         <div className="text-gray-300">
-                                                            <span className="text-gray-500">Distance:</span> {nextRunningWorkout.distanceMiles.toFixed(1)} mi
+                                                            <span className="text-gray-500">Distance:</span> {distance(nextRunningWorkout.distanceMiles)} {distanceUnit}
                                                         </div>
                                                         <div className="text-gray-300">
-                                                            <span className="text-gray-500">Target Pace:</span> {formatPace(nextRunningWorkout.targetPaceSeconds)}/mi
+                                                            <span className="text-gray-500">Target Pace:</span> {formatPaceForUnits(nextRunningWorkout.targetPaceSeconds, units)}{paceUnit}
                                                         </div>
                                                         <div className="text-gray-300">
                                                             <span className="text-gray-500">Est. Time:</span> {formatDuration(nextRunningWorkout.estimatedDurationSeconds)}
                                                         </div>
+                                                        {nextRunningWorkout.vdot !== null && (
+                                                            <div className="text-gray-300">
+                                                                <span className="text-gray-500">Paced for:</span> VDOT {nextRunningWorkout.vdot.toFixed(1)}
+                                                            </div>
+                                                        )}
                                                         {nextRunningWorkout.notes && (
                                                             <div className="text-gray-400 text-xs mt-2 pt-2 border-t border-gray-700">{nextRunningWorkout.notes}</div>
                                                         )}
                                                     </div>
                                                 </div>
                                             }>
-                                                <span className="text-xs tabular-nums font-medium cursor-help text-green-600 dark:text-green-400">{nextRunningWorkout.distanceMiles.toFixed(1)}</span>
+                                                <span className="text-xs tabular-nums font-medium cursor-help text-green-600 dark:text-green-400">{distance(nextRunningWorkout.distanceMiles)}</span>
                                             </Tooltip>
                                         ) : (
                                             <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -2054,7 +2719,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     <td key={date} className={`px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 ${bgClass}`}>
                                         {activity ? (
                                             <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                                {activity.distanceMiles.toFixed(1)}
+                                                {distance(activity.distanceMiles)}
                                             </span>
                                         ) : (
                                             <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -2132,7 +2797,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     {renderGoalCell('run_pace', 'Target Pace', runningVolume.averagePace, 'pace', '/mi')}
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
                                         <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                            {formatPace(runningVolume.averagePace)}
+                                            {formatPaceForUnits(runningVolume.averagePace, units)}
                                         </span>
                                     </td>
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
@@ -2144,7 +2809,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
                                         {nextRunningWorkout ? (
                                             <span className="text-xs tabular-nums font-medium text-green-600 dark:text-green-400">
-                                                {formatPace(nextRunningWorkout.targetPaceSeconds)}<span className="text-gray-400">/mi</span>
+                                                {formatPaceForUnits(nextRunningWorkout.targetPaceSeconds, units)}<span className="text-gray-400">{paceUnit}</span>
                                             </span>
                                         ) : (
                                             <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -2160,7 +2825,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
                                         {activity?.averagePaceSeconds ? (
                                             <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                                {formatPace(activity.averagePaceSeconds)}<span className="text-gray-400">/mi</span>
+                                                {formatPaceForUnits(activity.averagePaceSeconds, units)}<span className="text-gray-400">{paceUnit}</span>
                                             </span>
                                         ) : (
                                             <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
@@ -2393,7 +3058,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                     {renderGoalCell('run_elevation', 'Target Elevation', runningVolume.totalElevationGain, 'number', 'ft')}
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
                                         <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                            {runningVolume.totalElevationGain > 0 ? formatVolume(runningVolume.totalElevationGain) : '—'}
+                                            {runningVolume.totalElevationGain > 0 ? formatVolume(elevation(runningVolume.totalElevationGain)) : '—'}
                                         </span>
                                     </td>
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
@@ -2402,15 +3067,15 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                                 {(() => {
                                                     const runCount = workoutCounts.runningDatesInRange.size;
                                                     if (runCount === 0 || runningVolume.totalElevationGain === 0) return '—';
-                                                    return formatVolume(runningVolume.totalElevationGain / runCount);
+                                                    return formatVolume(elevation(runningVolume.totalElevationGain / runCount));
                                                 })()}
                                             </span>
                                         </Tooltip>
                                     </td>
                                     <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
                                         {(() => {
-                                            const current = trendData.running.currentElevationGain;
-                                            const previous = trendData.running.previousElevationGain;
+                                            const current = elevation(trendData.running.currentElevationGain);
+                                            const previous = elevation(trendData.running.previousElevationGain);
                                             if (current === 0 && previous === 0) return <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
 
                                             const diff = current - previous;
@@ -2419,9 +3084,9 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                             return (
                                                 <Tooltip content={
                                                     <div className="text-left text-xs">
-                                                        <div className="font-medium mb-1">Change: <span className={color}>{diff > 0 ? '+' : ''}{formatVolume(diff)} ft</span></div>
-                                                        <div className="text-gray-400">Current: {formatVolume(current)} ft</div>
-                                                        <div className="text-gray-400">Previous: {formatVolume(previous)} ft</div>
+                                                        <div className="font-medium mb-1">Change: <span className={color}>{diff > 0 ? '+' : ''}{formatVolume(diff)} {elevationUnit}</span></div>
+                                                        <div className="text-gray-400">Current: {formatVolume(current)} {elevationUnit}</div>
+                                                        <div className="text-gray-400">Previous: {formatVolume(previous)} {elevationUnit}</div>
                                                     </div>
                                                 }>
                                                     <span className={`text-xs tabular-nums font-medium cursor-help ${color}`}>{text}</span>
@@ -2451,7 +3116,7 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
 
                                 const elevContent = (
                                     <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
-                                        +{activity.elevationGainFeet} <span className="text-gray-400">ft</span>
+                                        +{elevation(activity.elevationGainFeet!)} <span className="text-gray-400">{elevationUnit}</span>
                                     </span>
                                 );
 
@@ -2461,11 +3126,11 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                             <Tooltip content={
                                                 <div className="text-xs tabular-nums grid grid-cols-[auto_1fr_auto] gap-x-1">
                                                     <span className="font-bold">High:</span>
-                                                    <span className="text-right">{activity.elevHighFeet?.toLocaleString()}</span>
-                                                    <span>ft</span>
+                                                    <span className="text-right">{activity.elevHighFeet != null ? elevation(activity.elevHighFeet).toLocaleString() : ''}</span>
+                                                    <span>{elevationUnit}</span>
                                                     <span className="font-bold">Low:</span>
-                                                    <span className="text-right">{activity.elevLowFeet?.toLocaleString()}</span>
-                                                    <span>ft</span>
+                                                    <span className="text-right">{activity.elevLowFeet != null ? elevation(activity.elevLowFeet).toLocaleString() : ''}</span>
+                                                    <span>{elevationUnit}</span>
                                                 </div>
                                             }>
                                                 <span className="cursor-help">{elevContent}</span>
@@ -2475,6 +3140,135 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                 );
                             })}
                         </TimeSeriesRow>
+                        {/* Fitness (VDOT) and race predictions as of each date */}
+                        {raceFitness.current && (
+                            <>
+                                <TimeSeriesRow
+                                    label={
+                                        <Tooltip content={
+                                            <div className="text-left text-xs space-y-1">
+                                                <p><strong>VDOT (Daniels)</strong></p>
+                                                <p className="text-gray-300">From the best effort in the last {DEFAULT_VDOT_WINDOW_DAYS} days</p>
+                                                <p className="text-gray-300">Current: {raceFitness.current.source.label} in {formatDuration(raceFitness.current.source.timeSeconds)} on {new Date(raceFitness.current.source.activityDate).toLocaleDateString()}</p>
+                                            </div>
+                                        }>
+                                            <span className="cursor-help">VDOT</span>
+                                        </Tooltip>
+                                    }
+                                    fixedContent={
+                                        <>
+                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                                <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                            </td>
+                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
+                                                <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
+                                                    {raceFitness.current.vdot.toFixed(1)}
+                                                </span>
+                                            </td>
+                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                                <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                            </td>
+                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                                {(() => {
+                                                    if (!raceFitness.previous) return <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
+                                                    const diff = raceFitness.current.vdot - raceFitness.previous.vdot;
+                                                    if (Math.abs(diff) < 0.1) return <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
+                                                    const color = diff > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400';
+                                                    return (
+                                                        <Tooltip content={`${raceFitness.previous.vdot.toFixed(1)} at the end of the ${periodLabels[trendPeriod]}`}>
+                                                            <span className={`text-xs tabular-nums font-medium cursor-help ${color}`}>{diff > 0 ? '+' : ''}{diff.toFixed(1)}</span>
+                                                        </Tooltip>
+                                                    );
+                                                })()}
+                                            </td>
+                                            <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
+                                                <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                            </td>
+                                        </>
+                                    }
+                                    stickyColumnWidth={stickyWidth}
+                                >
+                                    {displayDates.map(date => {
+                                        const estimate = raceFitness.history.get(date);
+                                        return (
+                                            <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                                {estimate ? (
+                                                    <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
+                                                        {estimate.vdot.toFixed(1)}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                )}
+                                            </td>
+                                        );
+                                    })}
+                                </TimeSeriesRow>
+                                {PREDICTED_RACES.map(race => {
+                                    const current = raceFitness.current!.predictions.find(p => p.key === race.key)!;
+                                    const previous = raceFitness.previous?.predictions.find(p => p.key === race.key);
+                                    return (
+                                        <TimeSeriesRow
+                                            key={`predict-${race.key}`}
+                                            label={`Predicted ${race.label}`}
+                                            fixedContent={
+                                                <>
+                                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-blue-50/30 dark:bg-blue-900/10">
+                                                        <Tooltip content={`${formatPaceForUnits(current.paceSeconds, units)}${paceUnit} (Daniels VDOT)`}>
+                                                            <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100 cursor-help">
+                                                                {formatDuration(current.seconds)}
+                                                            </span>
+                                                        </Tooltip>
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                                        <Tooltip content={`Riegel from ${raceFitness.current!.source.label} in ${formatDuration(raceFitness.current!.source.timeSeconds)}`}>
+                                                            <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400 cursor-help border-b border-dotted border-gray-300 dark:border-gray-600">
+                                                                {formatDuration(current.riegelSeconds)}
+                                                            </span>
+                                                        </Tooltip>
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-gray-50/30 dark:bg-gray-800/20">
+                                                        {(() => {
+                                                            if (!previous) return <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
+                                                            const diff = current.seconds - previous.seconds;
+                                                            if (Math.abs(diff) < 1) return <span className="text-xs text-gray-300 dark:text-gray-600">—</span>;
+                                                            // Faster is better
+                                                            const color = diff < 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400';
+                                                            return (
+                                                                <Tooltip content={`${formatDuration(previous.seconds)} at the end of the ${periodLabels[trendPeriod]}`}>
+                                                                    <span className={`text-xs tabular-nums font-medium cursor-help ${color}`}>{diff < 0 ? '-' : '+'}{formatDuration(Math.abs(diff))}</span>
+                                                                </Tooltip>
+                                                            );
+                                                        })()}
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50 bg-green-50/30 dark:bg-green-900/10">
+                                                        <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                    </td>
+                                                </>
+                                            }
+                                            stickyColumnWidth={stickyWidth}
+                                        >
+                                            {displayDates.map(date => {
+                                                const prediction = raceFitness.history.get(date)?.predictions.find(p => p.key === race.key);
+                                                return (
+                                                    <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
+                                                        {prediction ? (
+                                                            <span className="text-xs tabular-nums text-gray-900 dark:text-gray-100">
+                                                                {formatDuration(prediction.seconds)}
+                                                            </span>
+                                                        ) : (
+                                                            <span className="text-xs text-gray-300 dark:text-gray-600">—</span>
+                                                        )}
+                                                    </td>
+                                                );
+                                            })}
+                                        </TimeSeriesRow>
+                                    );
+                                })}
+                            </>
+                        )}
                         {/* Split times at milestones */}
                         {activeMilestones.map(milestone => (
                             <TimeSeriesRow
@@ -2508,7 +3302,8 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                                             </td>
                                         );
                                     }
-                                    const time = getTimeAtMile(activity.splits, milestone.miles);
+                                    // Best effort from streams when synced with them, else time at that point from splits
+                                    const time = activity.bestEfforts?.[milestone.key] ?? getTimeAtMile(activity.splits, milestone.miles);
                                     return (
                                         <td key={date} className="px-3 py-1.5 text-center border-l border-gray-100 dark:border-gray-800/50">
                                             {time ? (
@@ -2543,12 +3338,18 @@ export default function WorkoutTable({ runningActivities, liftingWorkouts, goals
                 )
             }
 
+            {/* Ride, Swim and Other Sections */}
+            {OTHER_SPORTS.map(({ sport, label, color }) => (
+                <React.Fragment key={sport}>{renderSportSection(sport, label, color)}</React.Fragment>
+            ))}
+
             {
                 editingGoal && (
                     <GoalEditor
                         metricKey={editingGoal.metricKey}
                         metricLabel={editingGoal.label}
                         inputType={editingGoal.type}
+                        unit={editingGoal.unit}
                         currentValue={goalsMap.get(editingGoal.metricKey) || null}
                         onSave={onSaveGoal}
                         onDelete={onDeleteGoal}
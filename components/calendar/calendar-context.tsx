@@ -2,6 +2,7 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { CalendarEvent } from '@/types/calendar';
+import { BodyspecAppointment } from '@/lib/types';
 import { createClient } from '@/lib/supabase/client';
 
 interface CalendarContextType {
@@ -28,6 +29,9 @@ interface CalendarContextType {
     events: CalendarEvent[];
     refreshEvents: () => Promise<void>;
 
+    // Upcoming Bodyspec appointments (read-only)
+    bodyspecAppointments: BodyspecAppointment[];
+
     // Wide Mode
     isWideMode: boolean;
     toggleWideMode: () => void;
@@ -35,7 +39,7 @@ interface CalendarContextType {
 
 const CalendarContext = createContext<CalendarContextType | undefined>(undefined);
 
-export function CalendarProvider({ children, initialEvents }: { children: ReactNode, initialEvents: CalendarEvent[] }) {
+export function CalendarProvider({ children, initialEvents, bodyspecAppointments = [] }: { children: ReactNode, initialEvents: CalendarEvent[], bodyspecAppointments?: BodyspecAppointment[] }) {
     // State
     const [events, setEvents] = useState<CalendarEvent[]>(initialEvents);
     const [isDragging, setIsDragging] = useState(false);
@@ -128,6 +132,7 @@ export function CalendarProvider({ children, initialEvents }: { children: ReactN
             selectedEvent,
             events,
             refreshEvents,
+            bodyspecAppointments,
             isWideMode,
             toggleWideMode
         }}>
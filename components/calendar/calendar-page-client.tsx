@@ -10,11 +10,13 @@ import { InboxPopover } from './inbox-popover';
 import ThemeToggle from '@/components/ThemeToggle';
 import ChatToggleButton from '@/components/ChatToggleButton';
 import { CalendarEvent } from '@/types/calendar';
+import { BodyspecAppointment } from '@/lib/types';
 import { Plus, Home, Maximize2, Minimize2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface CalendarPageClientProps {
     initialEvents: CalendarEvent[];
+    bodyspecAppointments?: BodyspecAppointment[];
 }
 
 interface CalendarPageContentProps {
@@ -102,7 +104,7 @@ function CalendarPageContent({ }: CalendarPageContentProps) {
     );
 }
 
-export function CalendarPageClient({ initialEvents }: CalendarPageClientProps) {
+export function CalendarPageClient({ initialEvents, bodyspecAppointments }: CalendarPageClientProps) {
     const router = useRouter();
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -124,7 +126,7 @@ export function CalendarPageClient({ initialEvents }: CalendarPageClientProps) {
     }, [router]);
 
     return (
-        <CalendarProvider initialEvents={initialEvents}>
+        <CalendarProvider initialEvents={initialEvents} bodyspecAppointments={bodyspecAppointments}>
             <CalendarPageContent />
         </CalendarProvider>
     );
@@ -37,8 +37,11 @@ export function DayCell({ date, month, events }: DayCellProps) {
         openModal,
         setModalDateRange,
         refreshEvents,
+        bodyspecAppointments,
     } = useCalendar();
 
+    const appointments = bodyspecAppointments.filter(appt => isSameDay(new Date(appt.startTime), date));
+
     // Selection Logic
     const isSelected =
         selectionStart &&
@@ -111,6 +114,14 @@ export function DayCell({ date, month, events }: DayCellProps) {
                     {!isMon && <span />}
 
                     <div className="flex items-center gap-0.5">
+                        {appointments.length > 0 && (
+                            <span
+                                title={appointments
+                                    .map(appt => `Bodyspec DEXA ${format(new Date(appt.startTime), 'h:mm a')}${appt.location ? ` · ${appt.location}` : ''}`)
+                                    .join('\n')}
+                                className="w-1.5 h-1.5 rounded-sm bg-amber-500 cursor-help"
+                            />
+                        )}
                         <span className={cn(
                             "text-[10px] font-medium text-gray-400 group-hover/day:text-foreground transition-colors pointer-events-none select-none",
                             isWeekendDay && "text-gray-700 dark:text-gray-400",
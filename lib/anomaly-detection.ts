@@ -0,0 +1,355 @@
+/**
+ * Statistical anomaly detection for parsed BIA entries
+ *
+ * Each metric is modelled as a slow trend plus measurement noise:
+ *   expected = last value + trend × days elapsed
+ *   sd       = √(2·noise² + drift²·days)
+ * so the allowed change grows with the gap since the last scan instead of a fixed ±10%.
+ * Noise and drift start from per-metric priors and widen to the person's own history.
+ * Cross-metric identities (fat + lean ≈ weight, BMI vs height) catch values that are
+ * individually plausible but inconsistent with each other.
+ */
+
+import type { ValidationIssue } from './pdf-parser';
+import { BIAEntry, SegmentalData } from './types';
+
+// ========================================
+// Configuration
+// ========================================
+
+export const ANOMALY_THRESHOLDS = {
+  WARNING_Z: 3,
+  ERROR_Z: 5,
+  HISTORY_DAYS: 180,        // Ignore scans older than this
+  HISTORY_POINTS: 10,       // Max scans used to fit the trend
+  MIN_POINTS_FOR_TREND: 3,  // Below this, only priors are used
+  MAX_TREND_DAYS: 30,       // Don't extrapolate a trend further than this
+} as const;
+
+interface MetricPrior {
+  noise: number;  // Single-scan measurement sd, as a fraction of the value
+  drift: number;  // True change sd per √day, as a fraction of the value
+}
+
+const DEFAULT_PRIOR: MetricPrior = { noise: 0.03, drift: 0.005 };
+
+const METRIC_PRIORS: Partial<Record<keyof BIAEntry, MetricPrior>> = {
+  weight: { noise: 0.006, drift: 0.004 },
+  bmi: { noise: 0.006, drift: 0.004 },
+  bodyFatPercentage: { noise: 0.04, drift: 0.01 },
+  bodyFatMass: { noise: 0.045, drift: 0.012 },
+  subcutaneousFatPercentage: { noise: 0.04, drift: 0.01 },
+  visceralFat: { noise: 0.08, drift: 0.01 },
+  skeletalMuscle: { noise: 0.015, drift: 0.003 },
+  softLeanMass: { noise: 0.015, drift: 0.003 },
+  fatFreeMass: { noise: 0.015, drift: 0.003 },
+  lbm: { noise: 0.015, drift: 0.003 },
+  protein: { noise: 0.015, drift: 0.003 },
+  muscleMassPercentage: { noise: 0.015, drift: 0.003 },
+  skeletalMusclePercentage: { noise: 0.015, drift: 0.003 },
+  proteinPercentage: { noise: 0.015, drift: 0.003 },
+  bodyWater: { noise: 0.02, drift: 0.003 },
+  bodyWaterPercentage: { noise: 0.02, drift: 0.003 },
+  boneMass: { noise: 0.02, drift: 0.002 },
+  boneMassPercentage: { noise: 0.02, drift: 0.002 },
+  bmr: { noise: 0.015, drift: 0.003 },
+  metabolicAge: { noise: 0.05, drift: 0.01 },
+  smi: { noise: 0.015, drift: 0.003 },
+  waistHipRatio: { noise: 0.02, drift: 0.002 },
+  fitnessScore: { noise: 0.02, drift: 0.004 },
+};
+
+const SEGMENTAL_PRIOR: MetricPrior = { noise: 0.04, drift: 0.006 };
+
+export const NUMERIC_METRICS: Array<keyof BIAEntry> = [
+  'weight', 'bmi', 'bodyFatPercentage', 'visceralFat', 'skeletalMuscle',
+  'bodyWater', 'protein', 'boneMass', 'bodyFatMass', 'softLeanMass', 'fatFreeMass', 'lbm', 'bmr',
+  'metabolicAge', 'subcutaneousFatPercentage', 'muscleMassPercentage', 'skeletalMusclePercentage',
+  'boneMassPercentage', 'proteinPercentage', 'bodyWaterPercentage', 'smi', 'waistHipRatio',
+  'fitnessScore',
+];
+
+export const SEGMENTAL_METRICS: Array<keyof BIAEntry> = [
+  'muscleLeftArm', 'muscleRightArm', 'muscleTrunk', 'muscleLeftLeg', 'muscleRightLeg',
+  'fatLeftArm', 'fatRightArm', 'fatTrunk', 'fatLeftLeg', 'fatRightLeg',
+];
+
+// ========================================
+// Helpers
+// ========================================
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function daysBetween(later: string, earlier: string): number {
+  return (new Date(later).getTime() - new Date(earlier).getTime()) / MS_PER_DAY;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Read a metric as a number (segmental metrics use their lb value)
+ */
+export function getMetricValue(entry: BIAEntry, key: keyof BIAEntry): number {
+  const value = entry[key];
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && 'lb' in value) return (value as SegmentalData).lb || 0;
+  return 0;
+}
+
+/**
+ * Parse a height string like 5'10" into inches
+ */
+export function parseHeightInches(height: string | undefined): number | null {
+  if (!height) return null;
+  const match = height.match(/(\d+)\s*'\s*(\d*)/);
+  if (!match) return null;
+  const inches = parseInt(match[1]) * 12 + (parseInt(match[2]) || 0);
+  return inches > 0 ? inches : null;
+}
+
+// ========================================
+// Trend model
+// ========================================
+
+export interface MetricExpectation {
+  expected: number;
+  sd: number;
+  lastValue: number;
+  daysElapsed: number;
+  dailyTrend: number;
+  points: number;
+}
+
+/**
+ * Expected value and spread for a metric on the parsed entry's date
+ * History may be in any order; only scans before the parsed date are used.
+ */
+export function getMetricExpectation(
+  key: keyof BIAEntry,
+  date: string,
+  history: BIAEntry[]
+): MetricExpectation | null {
+  const points = history
+    .filter(e => {
+      const age = daysBetween(date, e.date);
+      return age > 0 && age <= ANOMALY_THRESHOLDS.HISTORY_DAYS;
+    })
+    .map(e => ({ date: e.date, value: getMetricValue(e, key) }))
+    .filter(p => p.value > 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .slice(-ANOMALY_THRESHOLDS.HISTORY_POINTS);
+
+  if (points.length === 0) return null;
+
+  const last = points[points.length - 1];
+  const daysElapsed = Math.max(daysBetween(date, last.date), 0);
+  const prior = SEGMENTAL_METRICS.includes(key) ? SEGMENTAL_PRIOR : (METRIC_PRIORS[key] ?? DEFAULT_PRIOR);
+
+  let noise = prior.noise * last.value;
+  let dailyTrend = 0;
+
+  if (points.length >= ANOMALY_THRESHOLDS.MIN_POINTS_FOR_TREND) {
+    // Robust trend: median of per-day rates between consecutive scans
+    const steps = points.slice(1).map((p, i) => ({
+      change: p.value - points[i].value,
+      days: Math.max(daysBetween(p.date, points[i].date), 1),
+    }));
+    dailyTrend = median(steps.map(s => s.change / s.days));
+
+    // Empirical noise from how far each step strays from the trend (MAD → sd)
+    const residuals = steps.map(s => s.change - dailyTrend * s.days);
+    const mad = median(residuals.map(r => Math.abs(r - median(residuals))));
+    noise = Math.max(noise, (1.4826 * mad) / Math.SQRT2);
+  }
+
+  const drift = prior.drift * last.value;
+  const trendDays = Math.min(daysElapsed, ANOMALY_THRESHOLDS.MAX_TREND_DAYS);
+
+  return {
+    expected: last.value + dailyTrend * trendDays,
+    sd: Math.sqrt(2 * noise * noise + drift * drift * daysElapsed),
+    lastValue: last.value,
+    daysElapsed,
+    dailyTrend,
+    points: points.length,
+  };
+}
+
+// ========================================
+// Validation
+// ========================================
+
+function checkTrends(parsed: BIAEntry, history: BIAEntry[]): {
+  issues: ValidationIssue[];
+  zScores: Partial<Record<keyof BIAEntry, number>>;
+} {
+  const issues: ValidationIssue[] = [];
+  const zScores: Partial<Record<keyof BIAEntry, number>> = {};
+
+  for (const metric of [...NUMERIC_METRICS, ...SEGMENTAL_METRICS]) {
+    const expectation = getMetricExpectation(metric, parsed.date, history);
+    if (!expectation) continue;
+
+    const value = getMetricValue(parsed, metric);
+    const { expected, sd, lastValue, daysElapsed } = expectation;
+
+    // Value read on every recent scan is now missing
+    if (value === 0) {
+      issues.push({
+        metric,
+        parsed: 0,
+        previous: lastValue,
+        percentChange: -100,
+        status: 'error',
+        kind: 'missing',
+        expected: round(expected, 2),
+        explanation: `Not found in this scan, but was ${round(lastValue, 2)} ${round(daysElapsed)} days ago`,
+      });
+      continue;
+    }
+
+    const z = sd > 0 ? Math.abs(value - expected) / sd : 0;
+    zScores[metric] = z;
+
+    if (z > ANOMALY_THRESHOLDS.WARNING_Z) {
+      const trendNote = expectation.dailyTrend !== 0
+        ? `, trend ${expectation.dailyTrend > 0 ? '+' : ''}${round(expectation.dailyTrend, 3)}/day`
+        : '';
+      issues.push({
+        metric,
+        parsed: value,
+        previous: lastValue,
+        percentChange: ((value - lastValue) / lastValue) * 100,
+        status: z > ANOMALY_THRESHOLDS.ERROR_Z ? 'error' : 'warning',
+        kind: 'trend',
+        expected: round(expected, 2),
+        zScore: round(z, 1),
+        explanation: `${round(z, 1)}σ from the expected ${round(expected, 2)} ` +
+          `(±${round(sd, 2)} after ${round(daysElapsed)} days${trendNote})`,
+      });
+    }
+  }
+
+  return { issues, zScores };
+}
+
+/**
+ * Report an identity violation against whichever input looks least like its own history
+ */
+function identityIssue(
+  parsed: BIAEntry,
+  candidates: Array<{ metric: keyof BIAEntry; expected: number }>,
+  tolerance: number,
+  zScores: Partial<Record<keyof BIAEntry, number>>,
+  history: BIAEntry[],
+  explanation: string
+): ValidationIssue {
+  const blamed = candidates.reduce((worst, c) =>
+    (zScores[c.metric] ?? 0) > (zScores[worst.metric] ?? 0) ? c : worst
+  );
+  const value = getMetricValue(parsed, blamed.metric);
+  const error = Math.abs(value - blamed.expected);
+  const previous = getMetricExpectation(blamed.metric, parsed.date, history)?.lastValue ?? blamed.expected;
+
+  return {
+    metric: blamed.metric,
+    parsed: value,
+    previous,
+    percentChange: blamed.expected !== 0 ? ((value - blamed.expected) / blamed.expected) * 100 : 0,
+    status: error > tolerance * 3 ? 'error' : 'warning',
+    kind: 'identity',
+    expected: round(blamed.expected, 2),
+    explanation,
+  };
+}
+
+function checkIdentities(
+  parsed: BIAEntry,
+  history: BIAEntry[],
+  zScores: Partial<Record<keyof BIAEntry, number>>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { weight, bodyFatMass, bodyFatPercentage, bmi } = parsed;
+  const lean = parsed.fatFreeMass || parsed.lbm;
+  const leanKey: keyof BIAEntry = parsed.fatFreeMass ? 'fatFreeMass' : 'lbm';
+
+  // Fat mass + lean mass ≈ weight
+  if (weight > 0 && bodyFatMass > 0 && lean > 0) {
+    const tolerance = Math.max(1, weight * 0.02);
+    const gap = bodyFatMass + lean - weight;
+    if (Math.abs(gap) > tolerance) {
+      issues.push(identityIssue(parsed, [
+        { metric: leanKey, expected: weight - bodyFatMass },
+        { metric: 'bodyFatMass', expected: weight - lean },
+        { metric: 'weight', expected: bodyFatMass + lean },
+      ], tolerance, zScores, history,
+      `Fat mass ${bodyFatMass} + lean mass ${lean} = ${round(bodyFatMass + lean)}, but weight is ${weight}`));
+    }
+  }
+
+  // Fat mass ≈ weight × body fat %
+  if (weight > 0 && bodyFatMass > 0 && bodyFatPercentage > 0) {
+    const tolerance = Math.max(0.5, bodyFatMass * 0.03);
+    const implied = weight * bodyFatPercentage / 100;
+    if (Math.abs(implied - bodyFatMass) > tolerance) {
+      issues.push(identityIssue(parsed, [
+        { metric: 'bodyFatMass', expected: implied },
+        { metric: 'bodyFatPercentage', expected: (bodyFatMass / weight) * 100 },
+      ], tolerance, zScores, history,
+      `Body fat ${bodyFatPercentage}% of ${weight} lb is ${round(implied)} lb, but fat mass reads ${bodyFatMass} lb`));
+    }
+  }
+
+  // BMI = 703 × weight (lb) / height (in)². Prefer the height implied by past scans:
+  // scales compute BMI from their own configured height, not the one printed on the report
+  if (weight > 0 && bmi > 0) {
+    const implied = history
+      .filter(e => e.weight > 0 && e.bmi > 0)
+      .map(e => Math.sqrt((703 * e.weight) / e.bmi));
+    const heightInches = implied.length > 0 ? median(implied) : parseHeightInches(parsed.height);
+
+    if (heightInches) {
+      const expectedBmi = (703 * weight) / (heightInches * heightInches);
+      const tolerance = Math.max(0.4, expectedBmi * 0.02);
+      if (Math.abs(bmi - expectedBmi) > tolerance) {
+        issues.push(identityIssue(parsed, [
+          { metric: 'bmi', expected: expectedBmi },
+          { metric: 'weight', expected: (bmi * heightInches * heightInches) / 703 },
+        ], tolerance, zScores, history,
+        `BMI ${bmi} doesn't match ${weight} lb at ${Math.floor(heightInches / 12)}'${Math.round(heightInches % 12)}" ` +
+        `(expected ${round(expectedBmi)})`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a parsed entry against the person's measurement history
+ * Returns one issue per metric; identity issues are skipped for metrics
+ * already flagged by the trend check.
+ */
+export function validateAgainstHistory(parsed: BIAEntry, history: BIAEntry[]): ValidationIssue[] {
+  const { issues, zScores } = checkTrends(parsed, history);
+  const flagged = new Set(issues.map(i => i.metric));
+
+  for (const issue of checkIdentities(parsed, history, zScores)) {
+    if (!flagged.has(issue.metric)) {
+      issues.push(issue);
+      flagged.add(issue.metric);
+    }
+  }
+
+  return issues;
+}
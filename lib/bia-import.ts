@@ -0,0 +1,505 @@
+/**
+ * Bulk BIA import from CSV files and scale-app exports
+ * CSV → column mapping → entries (lb / L) → dry-run preview with validation → upsert by date
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { validateAgainstHistory } from './anomaly-detection';
+import type { ValidationIssue } from './pdf-parser';
+import { reconcileEntry } from './reconciliation';
+import { BIAEntry } from './types';
+
+// ========================================
+// Types
+// ========================================
+
+export type ImportField = 'date' | keyof BIAEntry;
+
+// Unit a column's values are in; converted to the entry's unit (lb, L, %) on import
+export type ImportUnit = 'lb' | 'kg' | 'L' | '%' | 'none';
+
+export type DateOrder = 'auto' | 'mdy' | 'dmy';
+
+export interface ColumnMapping {
+  column: string;
+  field: ImportField | null;  // null = ignored
+  unit: ImportUnit;
+}
+
+export interface ImportVendor {
+  id: string;
+  label: string;
+  // Header aliases per field, compared case-insensitively with units stripped
+  columns: Partial<Record<ImportField, string[]>>;
+  defaultMassUnit?: 'lb' | 'kg';
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number;            // 1-based data row, for error messages
+  entry: BIAEntry | null;
+  action: 'create' | 'update' | 'skip';
+  existing?: BIAEntry;          // Entry on the same day that will be updated
+  issues: ValidationIssue[];
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  creates: number;
+  updates: number;
+  skipped: number;
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const LB_PER_KG = 2.20462;
+
+// Fields stored in lb
+const MASS_FIELDS: Array<keyof BIAEntry> = [
+  'weight', 'skeletalMuscle', 'protein', 'boneMass', 'bodyFatMass', 'softLeanMass', 'fatFreeMass', 'lbm',
+];
+
+// Percentage counterpart of a field, for mass aliases in a "(%)" column
+const PERCENT_FIELDS: Partial<Record<keyof BIAEntry, keyof BIAEntry>> = {
+  bodyFatMass: 'bodyFatPercentage',
+  skeletalMuscle: 'skeletalMusclePercentage',
+  softLeanMass: 'muscleMassPercentage',
+  protein: 'proteinPercentage',
+  boneMass: 'boneMassPercentage',
+  bodyWater: 'bodyWaterPercentage',
+};
+
+// Numeric BIAEntry fields a column can map to
+export const IMPORTABLE_FIELDS: Array<keyof BIAEntry> = [
+  'weight', 'bmi', 'bodyFatPercentage', 'bodyFatMass', 'skeletalMuscle', 'skeletalMusclePercentage',
+  'muscleMassPercentage', 'softLeanMass', 'fatFreeMass', 'lbm', 'bodyWater', 'bodyWaterPercentage',
+  'protein', 'proteinPercentage', 'boneMass', 'boneMassPercentage', 'visceralFat',
+  'subcutaneousFatPercentage', 'bmr', 'metabolicAge', 'smi', 'waistHipRatio', 'fitnessScore',
+];
+
+// Field names used by our own exports and a generic spreadsheet
+const GENERIC_COLUMNS: Partial<Record<ImportField, string[]>> = {
+  date: ['date', 'time', 'datetime', 'timestamp', 'measured at', 'measurement time'],
+  weight: ['weight', 'body weight'],
+  bmi: ['bmi'],
+  bodyFatPercentage: ['body fat', 'body fat %', 'body fat percentage', 'fat %', 'fat percentage', 'pbf'],
+  bodyFatMass: ['body fat mass', 'fat mass'],
+  skeletalMuscle: ['skeletal muscle', 'skeletal muscle mass', 'smm'],
+  skeletalMusclePercentage: ['skeletal muscle %'],
+  muscleMassPercentage: ['muscle mass %', 'muscle rate'],
+  softLeanMass: ['soft lean mass', 'muscle mass'],
+  fatFreeMass: ['fat free mass', 'fat-free mass', 'fat-free body weight', 'fat free body weight'],
+  lbm: ['lbm', 'lean body mass', 'lean mass'],
+  bodyWater: ['body water', 'total body water', 'tbw', 'hydration'],
+  bodyWaterPercentage: ['body water %', 'water %'],
+  protein: ['protein', 'protein mass'],
+  proteinPercentage: ['protein %'],
+  boneMass: ['bone mass', 'bone'],
+  boneMassPercentage: ['bone mass %'],
+  visceralFat: ['visceral fat', 'visceral fat level', 'visceral fat rating'],
+  subcutaneousFatPercentage: ['subcutaneous fat', 'subcutaneous fat %'],
+  bmr: ['bmr', 'basal metabolic rate', 'basal metabolism'],
+  metabolicAge: ['metabolic age', 'body age'],
+  smi: ['smi'],
+  waistHipRatio: ['waist-hip ratio', 'waist hip ratio', 'whr'],
+  fitnessScore: ['fitness score', 'body score', 'score'],
+};
+
+export const IMPORT_VENDORS: ImportVendor[] = [
+  {
+    id: 'renpho',
+    label: 'Renpho',
+    columns: {
+      date: ['time of measurement'],
+      bodyFatPercentage: ['body fat'],
+      fatFreeMass: ['fat-free body weight'],
+      subcutaneousFatPercentage: ['subcutaneous fat'],
+      bodyWaterPercentage: ['body water'],
+      skeletalMusclePercentage: ['skeletal muscle'],
+      softLeanMass: ['muscle mass'],
+      proteinPercentage: ['protein'],
+    },
+  },
+  {
+    id: 'withings',
+    label: 'Withings',
+    columns: {
+      date: ['date'],
+      bodyFatMass: ['fat mass'],
+      softLeanMass: ['muscle mass'],
+      bodyWater: ['hydration'],
+    },
+    defaultMassUnit: 'kg',
+  },
+  {
+    id: 'garmin',
+    label: 'Garmin Connect',
+    columns: {
+      date: ['time'],
+      bodyFatPercentage: ['body fat'],
+      skeletalMuscle: ['skeletal muscle mass'],
+      bodyWaterPercentage: ['body water'],
+    },
+  },
+  {
+    id: 'generic',
+    label: 'Generic CSV',
+    columns: {},
+  },
+];
+
+// ========================================
+// CSV
+// ========================================
+
+/**
+ * Parse CSV text, handling quoted fields, escaped quotes and ; or tab delimiters
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  , ',');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field.trim());
+      if (record.some(v => v !== '')) records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  record.push(field.trim());
+  if (record.some(v => v !== '')) records.push(record);
+
+  const [headers = [], ...rows] = records;
+  return { headers: headers.map(h => h.replace(/^\uFEFF/, '')), rows };
+}
+
+// ========================================
+// Column mapping
+// ========================================
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\((?:lbs?|kg|l|%|kcal|years?)\)|\[(?:lbs?|kg|l|%|kcal)\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Unit declared in a header like "Weight (kg)" or "Body Fat(%)"
+ */
+function headerUnit(header: string): ImportUnit | null {
+  const match = header.toLowerCase().match(/[([]\s*(lbs?|kg|l|%)\s*[)\]]/);
+  if (!match) return null;
+  if (match[1].startsWith('lb')) return 'lb';
+  if (match[1] === 'kg') return 'kg';
+  if (match[1] === 'l') return 'L';
+  return '%';
+}
+
+function defaultUnit(field: ImportField | null, massUnit: 'lb' | 'kg'): ImportUnit {
+  if (!field || field === 'date') return 'none';
+  if (MASS_FIELDS.includes(field)) return massUnit;
+  if (field === 'bodyWater') return 'L';
+  if (/Percentage$/.test(field)) return '%';
+  return 'none';
+}
+
+/**
+ * Pick the vendor whose column names cover the most headers
+ */
+export function detectImportVendor(headers: string[]): ImportVendor {
+  const normalized = headers.map(normalizeHeader);
+  let best = IMPORT_VENDORS[IMPORT_VENDORS.length - 1];
+  let bestScore = 0;
+
+  for (const vendor of IMPORT_VENDORS) {
+    const aliases = Object.values(vendor.columns).flat();
+    const score = aliases.filter(alias => normalized.includes(alias)).length;
+    if (score > bestScore) {
+      best = vendor;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map each header to a BIAEntry field and unit: vendor aliases first, then generic names
+ * A percentage unit on a mass alias ("Body Fat(%)") moves the column to the percentage field.
+ */
+export function detectColumnMapping(headers: string[], vendor: ImportVendor = detectImportVendor(headers)): ColumnMapping[] {
+  const massUnit = vendor.defaultMassUnit ?? 'lb';
+  const used = new Set<ImportField>();
+
+  const lookup = (normalized: string): ImportField | null => {
+    for (const aliases of [vendor.columns, GENERIC_COLUMNS]) {
+      for (const [field, names] of Object.entries(aliases) as Array<[ImportField, string[]]>) {
+        if (!used.has(field) && names.includes(normalized)) return field;
+      }
+    }
+    return null;
+  };
+
+  return headers.map(column => {
+    const unit = headerUnit(column);
+    let field = lookup(normalizeHeader(column));
+
+    if (field && field !== 'date' && unit === '%' && PERCENT_FIELDS[field]) {
+      const percentField = PERCENT_FIELDS[field]!;
+      field = used.has(percentField) ? null : percentField;
+    }
+    if (field) used.add(field);
+
+    return { column, field, unit: unit ?? defaultUnit(field, massUnit) };
+  });
+}
+
+// ========================================
+// Values
+// ========================================
+
+function parseNumber(raw: string): number | null {
+  // "172.4 lbs", "78,2" (decimal comma), "1,790" (thousands)
+  const cleaned = raw.replace(/[^\d.,-]/g, '');
+  if (!cleaned) return null;
+  const normalized = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned)
+    ? cleaned.replace(/,/g, '')
+    : cleaned.replace(',', '.');
+  const value = parseFloat(normalized);
+  return isFinite(value) ? value : null;
+}
+
+/**
+ * Parse a date cell to an ISO string
+ * Handles ISO dates, YYYY/MM/DD, MM/DD/YYYY or DD/MM/YYYY (per order), DD.MM.YYYY, with optional time
+ */
+export function parseImportDate(raw: string, order: DateOrder = 'auto'): string | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  const time = value.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  let hours = time ? parseInt(time[1]) : 12;
+  const minutes = time ? parseInt(time[2]) : 0;
+  if (time?.[4]) {
+    const pm = time[4].toLowerCase() === 'pm';
+    hours = (hours % 12) + (pm ? 12 : 0);
+  }
+
+  let year: number, month: number, day: number;
+  const ymd = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const other = value.match(/^(\d{1,2})([-/.])(\d{1,2})\2(\d{2,4})/);
+
+  if (ymd) {
+    [year, month, day] = [parseInt(ymd[1]), parseInt(ymd[2]), parseInt(ymd[3])];
+  } else if (other) {
+    const a = parseInt(other[1]);
+    const b = parseInt(other[3]);
+    year = parseInt(other[4]);
+    if (year < 100) year += 2000;
+    // Dotted dates are day-first; otherwise use the order, or whichever reading is valid
+    const dayFirst = order === 'dmy' || (order === 'auto' && (other[2] === '.' || a > 12));
+    [month, day] = dayFirst ? [b, a] : [a, b];
+  } else {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function convertValue(field: keyof BIAEntry, value: number, unit: ImportUnit): number {
+  if (MASS_FIELDS.includes(field) && unit === 'kg') return value * LB_PER_KG;
+  // Body water is tracked in liters (1 kg of water ≈ 1 L)
+  if (field === 'bodyWater' && unit === 'lb') return value / LB_PER_KG;
+  return value;
+}
+
+function emptyEntry(date: string): BIAEntry {
+  const segment = () => ({ lb: 0, percent: 0 });
+  return {
+    id: uuidv4(),
+    date,
+    name: 'Imported',
+    age: 0,
+    gender: '',
+    height: '',
+    fitnessScore: 0,
+    weight: 0,
+    bmi: 0,
+    bodyFatPercentage: 0,
+    visceralFat: 0,
+    skeletalMuscle: 0,
+    bodyWater: 0,
+    protein: 0,
+    boneMass: 0,
+    bodyFatMass: 0,
+    softLeanMass: 0,
+    fatFreeMass: 0,
+    lbm: 0,
+    bmr: 0,
+    metabolicAge: 0,
+    subcutaneousFatPercentage: 0,
+    muscleMassPercentage: 0,
+    skeletalMusclePercentage: 0,
+    boneMassPercentage: 0,
+    proteinPercentage: 0,
+    bodyWaterPercentage: 0,
+    smi: 0,
+    waistHipRatio: 0,
+    muscleLeftArm: segment(),
+    muscleRightArm: segment(),
+    muscleTrunk: segment(),
+    muscleLeftLeg: segment(),
+    muscleRightLeg: segment(),
+    fatLeftArm: segment(),
+    fatRightArm: segment(),
+    fatTrunk: segment(),
+    fatLeftLeg: segment(),
+    fatRightLeg: segment(),
+    bodyShape: '',
+    bmiCategory: '',
+    pbfCategory: '',
+  };
+}
+
+// ========================================
+// Preview
+// ========================================
+
+// Calendar day in local time, matching how parsed scans are dated
+function dayKey(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Dry run: build entries from CSV rows and validate each against the history before it
+ * (existing entries plus earlier imported rows). Nothing is saved.
+ * A row on the same calendar day as an existing entry updates it, keeping fields the CSV lacks.
+ */
+export function buildImportPreview(
+  csv: ParsedCsv,
+  mapping: ColumnMapping[],
+  existing: BIAEntry[],
+  dateOrder: DateOrder = 'auto'
+): ImportPreview {
+  const dateColumn = mapping.findIndex(m => m.field === 'date');
+  const mappedFields = new Set<string>(mapping.map(m => m.field).filter((f): f is ImportField => !!f));
+  const existingByDay = new Map(existing.map(e => [dayKey(e.date), e]));
+  const seenDays = new Set<string>();
+
+  const rows: ImportPreviewRow[] = csv.rows.map((cells, i) => {
+    const rowNumber = i + 1;
+    const errors: string[] = [];
+
+    const date = dateColumn >= 0 ? parseImportDate(cells[dateColumn] ?? '', dateOrder) : null;
+    if (!date) {
+      errors.push(dateColumn >= 0 ? `Unreadable date "${cells[dateColumn] ?? ''}"` : 'No date column mapped');
+      return { rowNumber, entry: null, action: 'skip', issues: [], errors };
+    }
+
+    const day = dayKey(date);
+    if (seenDays.has(day)) {
+      errors.push(`Duplicate of an earlier row on ${day}`);
+      return { rowNumber, entry: null, action: 'skip', issues: [], errors };
+    }
+    seenDays.add(day);
+
+    const match = existingByDay.get(day);
+    const entry: BIAEntry = match ? JSON.parse(JSON.stringify(match)) : emptyEntry(date);
+    let imported = 0;
+
+    mapping.forEach((m, col) => {
+      if (!m.field || m.field === 'date') return;
+      const raw = cells[col] ?? '';
+      if (!raw.trim()) return;
+
+      const value = parseNumber(raw);
+      if (value === null) {
+        errors.push(`${m.column}: "${raw}" is not a number`);
+        return;
+      }
+      // Cells like "78.2 kg" override the column's unit
+      const unit = /kg/i.test(raw) ? 'kg' : /lb/i.test(raw) ? 'lb' : m.unit;
+      const field = m.field;
+      (entry as unknown as Record<string, number>)[field] = Math.round(convertValue(field, value, unit) * 10) / 10;
+      imported++;
+    });
+
+    if (imported === 0) {
+      errors.push('No values in mapped columns');
+      return { rowNumber, entry: null, action: 'skip', issues: [], errors };
+    }
+
+    return {
+      rowNumber,
+      entry,
+      action: match ? 'update' : 'create',
+      existing: match,
+      issues: [],
+      errors,
+    };
+  });
+
+  // Reconcile and validate oldest first so each row sees the rows before it
+  const history = existing.filter(e => !rows.some(r => r.existing?.id === e.id));
+  const chronological = rows
+    .filter(r => r.entry)
+    .sort((a, b) => new Date(a.entry!.date).getTime() - new Date(b.entry!.date).getTime());
+
+  for (const row of chronological) {
+    const previous = history
+      .filter(e => new Date(e.date).getTime() < new Date(row.entry!.date).getTime())
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0] ?? null;
+
+    row.entry = reconcileEntry(row.entry!, previous).entry;
+    // A partial CSV leaves unmapped fields at 0; that's not the scale missing a reading
+    row.issues = validateAgainstHistory(row.entry, history)
+      .filter(issue => issue.kind !== 'missing' || mappedFields.has(issue.metric));
+    history.push(row.entry);
+  }
+
+  return {
+    rows,
+    creates: rows.filter(r => r.action === 'create').length,
+    updates: rows.filter(r => r.action === 'update').length,
+    skipped: rows.filter(r => r.action === 'skip').length,
+  };
+}
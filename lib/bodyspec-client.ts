@@ -5,7 +5,7 @@
  * API Documentation: https://app.bodyspec.com/docs
  */
 
-import { BodyspecScanData, RegionalData } from './types';
+import { BodyspecScanData, BoneDensityRegion, RegionalData } from './types';
 
 const BODYSPEC_API_BASE = 'https://app.bodyspec.com';
 
@@ -92,13 +92,18 @@ export interface DexaComposition {
   android_gynoid_ratio?: number;
 }
 
+export interface DexaBoneDensityRegion {
+  bone_mineral_density: number;
+  bone_area_cm2: number;
+  bone_mineral_content_g: number;
+  t_score?: number;
+  z_score?: number;
+}
+
 export interface DexaBoneDensity {
   result_id: string;
-  total: {
-    bone_mineral_density: number;
-    bone_area_cm2: number;
-    bone_mineral_content_g: number;
-  };
+  total: DexaBoneDensityRegion;
+  regions?: Record<string, DexaBoneDensityRegion>;
 }
 
 export interface DexaVisceralFat {
@@ -260,6 +265,21 @@ export class BodyspecClient {
     return this.request<ApptListResponse>(endpoint);
   }
 
+  /**
+   * Fetch every appointment, following pagination
+   */
+  async fetchAllAppts(): Promise<BodyspecAppt[]> {
+    const appts: BodyspecAppt[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await this.listAppts({ page, page_size: 100, sort_order: 'newest_first' });
+      appts.push(...response.appts);
+      if (!response.pagination.has_more) break;
+    }
+
+    return appts;
+  }
+
   /**
    * List user results (DEXA scans)
    */
@@ -310,13 +330,28 @@ export class BodyspecClient {
     boneDensity?: DexaBoneDensity
   ): BodyspecScanData {
     const kgToLb = 2.20462;
+    const boneRegions = boneDensity?.regions ?? {};
+
+    const convertRegion = (name: string): RegionalData => {
+      const region = composition.regions[name] || { fat_mass_kg: 0, lean_mass_kg: 0, bone_mass_kg: 0, total_mass_kg: 0, tissue_fat_pct: 0, region_fat_pct: 0 };
+      return {
+        fat: region.fat_mass_kg * kgToLb,
+        lean: region.lean_mass_kg * kgToLb,
+        bmd: boneRegions[name]?.bone_mineral_density, // BMD comes from the bone density endpoint
+      };
+    };
 
-    const convertRegion = (region: DexaComposition['regions'][string]): RegionalData => ({
-      fat: region.fat_mass_kg * kgToLb,
-      lean: region.lean_mass_kg * kgToLb,
-      bmd: undefined, // BMD is per-region in bone density endpoint, not composition
+    const convertBone = (region: DexaBoneDensityRegion): BoneDensityRegion => ({
+      bmd: region.bone_mineral_density,
+      areaCm2: region.bone_area_cm2,
+      contentGrams: region.bone_mineral_content_g,
+      tScore: region.t_score,
+      zScore: region.z_score,
     });
 
+    const android = composition.regions.android;
+    const gynoid = composition.regions.gynoid;
+
     return {
       bodyFatPercentage: composition.total.tissue_fat_pct,
       totalBodyFat: composition.total.fat_mass_kg * kgToLb,
@@ -325,14 +360,30 @@ export class BodyspecClient {
       visceralAdiposeTissue: visceral?.vat_volume_cm3 ?? 0,
       weight: composition.total.total_mass_kg * kgToLb,
       regional: {
-        leftArm: convertRegion(composition.regions.left_arm || { fat_mass_kg: 0, lean_mass_kg: 0, bone_mass_kg: 0, total_mass_kg: 0, tissue_fat_pct: 0, region_fat_pct: 0 }),
-        rightArm: convertRegion(composition.regions.right_arm || { fat_mass_kg: 0, lean_mass_kg: 0, bone_mass_kg: 0, total_mass_kg: 0, tissue_fat_pct: 0, region_fat_pct: 0 }),
-        trunk: convertRegion(composition.regions.trunk || { fat_mass_kg: 0, lean_mass_kg: 0, bone_mass_kg: 0, total_mass_kg: 0, tissue_fat_pct: 0, region_fat_pct: 0 }),
-        leftLeg: convertRegion(composition.regions.left_leg || { fat_mass_kg: 0, lean_mass_kg: 0, bone_mass_kg: 0, total_mass_kg: 0, tissue_fat_pct: 0, region_fat_pct: 0 }),
-        rightLeg: convertRegion(composition.regions.right_leg || { fat_mass_kg: 0, lean_mass_kg: 0, bone_mass_kg: 0, total_mass_kg: 0, tissue_fat_pct: 0, region_fat_pct: 0 }),
+        leftArm: convertRegion('left_arm'),
+        rightArm: convertRegion('right_arm'),
+        trunk: convertRegion('trunk'),
+        leftLeg: convertRegion('left_leg'),
+        rightLeg: convertRegion('right_leg'),
       },
       androidGynoidRatio: composition.android_gynoid_ratio,
       boneMineralContent: boneDensity?.total.bone_mineral_content_g,
+      tScore: boneDensity?.total.t_score,
+      zScore: boneDensity?.total.z_score,
+      boneDensity: boneDensity && {
+        total: convertBone(boneDensity.total),
+        regions: Object.fromEntries(Object.entries(boneRegions).map(([name, region]) => [name, convertBone(region)])),
+      },
+      visceralFat: visceral && {
+        massLb: visceral.vat_mass_kg * kgToLb,
+        volumeCm3: visceral.vat_volume_cm3,
+      },
+      androidGynoid: android && gynoid ? {
+        androidFatPercentage: android.tissue_fat_pct,
+        gynoidFatPercentage: gynoid.tissue_fat_pct,
+        androidFatMass: android.fat_mass_kg * kgToLb,
+        gynoidFatMass: gynoid.fat_mass_kg * kgToLb,
+      } : undefined,
     };
   }
 
@@ -1,9 +1,15 @@
 /**
  * Smart Sync Strategy for Bodyspec Integration
- * Determines when to sync based on scan frequency and last sync time
+ * Determines when to sync based on scan frequency, last sync time and booked appointments
  */
 
-import { BodyspecConnection, BodyspecScan } from './types';
+import { BodyspecAppointment, BodyspecConnection, BodyspecScan } from './types';
+
+type SyncCheck = {
+  shouldSync: boolean;
+  reason: string;
+  nextSyncDate?: Date;
+};
 
 /**
  * Calculate days between two dates
@@ -27,10 +33,13 @@ export const SYNC_THRESHOLDS = {
   MEDIUM_SYNC_INTERVAL: 3,  // Sync every 3 days for medium age scans
   OLD_SYNC_INTERVAL: 7,     // Sync weekly for old scans
   VERY_OLD_SYNC_INTERVAL: 30, // Sync monthly for very old scans
+
+  POST_APPOINTMENT_DELAY_HOURS: 2,  // Results are usually posted within a couple of hours of the scan
+  POST_APPOINTMENT_WINDOW_DAYS: 3,  // Keep checking daily this long after an appointment until its scan shows up
 } as const;
 
 /**
- * Determine if a connection should be synced based on smart strategy
+ * Cadence based on scan age alone
  *
  * Strategy:
  * - Never synced: Always sync
@@ -39,16 +48,11 @@ export const SYNC_THRESHOLDS = {
  * - Old scan (30-90 days): Sync weekly
  * - Very old scan (90+ days): Sync monthly
  */
-export function shouldSync(
+function shouldSyncOnCadence(
+  now: Date,
   lastSync: Date | null,
   lastScanDate: Date | null
-): {
-  shouldSync: boolean;
-  reason: string;
-  nextSyncDate?: Date;
-} {
-  const now = new Date();
-
+): SyncCheck {
   // Never synced - always sync
   if (!lastSync) {
     return {
@@ -146,20 +150,89 @@ export function shouldSync(
 }
 
 /**
- * Check if connection needs syncing based on connection and last scan data
+ * Determine if a connection should be synced based on smart strategy
+ *
+ * Booked appointments override the scan-age cadence:
+ * - An appointment finished since the last sync: Sync now (its scan is likely ready)
+ * - Appointment in the last few days with no scan yet: Sync daily until it shows up
+ * - Upcoming appointment: Schedule the next sync just after it
+ */
+export function shouldSync(
+  lastSync: Date | null,
+  lastScanDate: Date | null,
+  appointmentTimes: Date[] = []
+): SyncCheck {
+  const now = new Date();
+  const delayMs = SYNC_THRESHOLDS.POST_APPOINTMENT_DELAY_HOURS * 60 * 60 * 1000;
+
+  const appointmentSyncs = appointmentTimes
+    .map(time => ({ time, syncAt: new Date(time.getTime() + delayMs) }))
+    .sort((a, b) => a.syncAt.getTime() - b.syncAt.getTime());
+
+  // Most recent appointment whose results should be in, if its scan hasn't arrived yet
+  const awaiting = appointmentSyncs
+    .filter(({ time, syncAt }) =>
+      syncAt <= now &&
+      daysBetween(now, time) <= SYNC_THRESHOLDS.POST_APPOINTMENT_WINDOW_DAYS &&
+      (!lastScanDate || daysBetween(time, lastScanDate) > 0)
+    )
+    .pop();
+
+  if (lastSync && awaiting) {
+    if (lastSync < awaiting.syncAt) {
+      return {
+        shouldSync: true,
+        reason: 'Bodyspec appointment finished, checking for new scan',
+      };
+    }
+    if (daysBetween(now, lastSync) >= SYNC_THRESHOLDS.RECENT_SYNC_INTERVAL) {
+      return {
+        shouldSync: true,
+        reason: 'Waiting for results from recent appointment',
+      };
+    }
+    const nextSync = new Date(lastSync);
+    nextSync.setDate(nextSync.getDate() + SYNC_THRESHOLDS.RECENT_SYNC_INTERVAL);
+    return {
+      shouldSync: false,
+      reason: 'Recently synced (awaiting appointment results)',
+      nextSyncDate: nextSync,
+    };
+  }
+
+  const cadence = shouldSyncOnCadence(now, lastSync, lastScanDate);
+  if (cadence.shouldSync) {
+    return cadence;
+  }
+
+  // Pull the next sync forward to just after the next appointment
+  const upcoming = appointmentSyncs.find(({ syncAt }) => syncAt > now);
+  if (upcoming && (!cadence.nextSyncDate || upcoming.syncAt < cadence.nextSyncDate)) {
+    return {
+      shouldSync: false,
+      reason: 'Next sync scheduled after upcoming appointment',
+      nextSyncDate: upcoming.syncAt,
+    };
+  }
+
+  return cadence;
+}
+
+/**
+ * Check if connection needs syncing based on connection, last scan and appointment data
  */
 export function shouldSyncConnection(
   connection: BodyspecConnection,
-  lastScan?: BodyspecScan | null
-): {
-  shouldSync: boolean;
-  reason: string;
-  nextSyncDate?: Date;
-} {
+  lastScan?: BodyspecScan | null,
+  appointments: BodyspecAppointment[] = []
+): SyncCheck {
   const lastSyncDate = connection.lastSync ? new Date(connection.lastSync) : null;
   const lastScanDate = lastScan ? new Date(lastScan.scanDate) : null;
+  const appointmentTimes = appointments
+    .filter(appt => appt.connectionId === connection.id)
+    .map(appt => new Date(appt.startTime));
 
-  return shouldSync(lastSyncDate, lastScanDate);
+  return shouldSync(lastSyncDate, lastScanDate, appointmentTimes);
 }
 
 /**
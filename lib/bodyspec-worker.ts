@@ -0,0 +1,127 @@
+/**
+ * Server-side Bodyspec sync
+ * Fetches scans and appointments for one connection and stores them, refreshing
+ * the OAuth token when it has expired. Shared by the manual sync route and the
+ * cron job so both handle tokens and sync status the same way.
+ */
+
+import { createBodyspecClient, BodyspecAPIError } from './bodyspec-client';
+import { refreshAccessToken } from './oauth-config';
+import { saveAppointments, saveScans, updateConnectionTokens, updateSyncStatus } from './supabase-bodyspec';
+import { countWrites, finishSyncRun, startSyncRun } from './supabase-sync-runs';
+import { BodyspecAppointment, BodyspecConnection, BodyspecScan, SyncTrigger } from './types';
+
+export interface BodyspecSyncResult {
+  scansFound: number;
+  scans: BodyspecScan[];
+  appointments: BodyspecAppointment[];
+  tokenRefreshed: boolean;
+}
+
+/**
+ * Exchange the refresh token for a new access token and store it
+ */
+async function refreshConnectionToken(connection: BodyspecConnection): Promise<string> {
+  if (!connection.refreshToken) {
+    throw new Error('Session expired. Please reconnect your Bodyspec account.');
+  }
+
+  try {
+    const tokenResponse = await refreshAccessToken(connection.refreshToken);
+
+    // Calculate new expiration time
+    const expiresAt = new Date();
+    expiresAt.setSeconds(expiresAt.getSeconds() + tokenResponse.expires_in);
+
+    await updateConnectionTokens(connection.id, {
+      accessToken: tokenResponse.access_token,
+      refreshToken: tokenResponse.refresh_token || connection.refreshToken,
+      tokenExpiresAt: expiresAt.toISOString(),
+    });
+
+    return tokenResponse.access_token;
+  } catch (refreshError) {
+    console.error('Token refresh failed:', refreshError);
+    throw new Error('Session expired. Please reconnect your Bodyspec account.');
+  }
+}
+
+async function fetchFromBodyspec(token: string, options: { startDate?: string; endDate?: string }) {
+  const client = createBodyspecClient(token);
+  const scans = await client.fetchAllScans(options);
+  // Appointments are a nice-to-have; a failure here shouldn't fail the scan sync
+  const appts = await client.fetchAllAppts().catch(error => {
+    console.error('Error fetching Bodyspec appointments:', error);
+    return null;
+  });
+  return { scans, appts };
+}
+
+/**
+ * Sync one connection end to end, updating its sync status and logging the run
+ * Throws (after marking the connection as errored) when the sync fails.
+ */
+export async function syncBodyspecConnection(
+  connection: BodyspecConnection,
+  options: { startDate?: string; endDate?: string; trigger?: SyncTrigger } = {}
+): Promise<BodyspecSyncResult> {
+  const { trigger = 'manual', ...range } = options;
+  await updateSyncStatus(connection.id, 'pending');
+  const run = await startSyncRun('bodyspec', trigger, connection.id);
+  let fetchedCount = 0;
+
+  try {
+    let tokenRefreshed = false;
+    let accessToken = connection.accessToken;
+
+    // Refresh up front when the stored expiry has passed
+    if (connection.tokenExpiresAt && new Date(connection.tokenExpiresAt) <= new Date() && connection.refreshToken) {
+      accessToken = await refreshConnectionToken(connection);
+      tokenRefreshed = true;
+    }
+
+    let fetched;
+    try {
+      fetched = await fetchFromBodyspec(accessToken, range);
+    } catch (error) {
+      const apiError = error as BodyspecAPIError;
+
+      // If unauthorized and we haven't refreshed yet, refresh and retry once
+      if ((apiError.status === 401 || apiError.status === 403) && connection.refreshToken && !tokenRefreshed) {
+        console.log('Access token expired, attempting refresh...');
+        accessToken = await refreshConnectionToken(connection);
+        tokenRefreshed = true;
+        fetched = await fetchFromBodyspec(accessToken, range);
+        console.log('Token refreshed successfully, sync continuing...');
+      } else {
+        // Re-throw if not a token issue or no refresh token
+        throw error;
+      }
+    }
+
+    fetchedCount = fetched.scans.length + (fetched.appts?.length ?? 0);
+    const scans = await saveScans(connection.id, fetched.scans);
+    const appointments = fetched.appts ? await saveAppointments(connection.id, fetched.appts) : [];
+
+    await updateSyncStatus(connection.id, 'connected');
+    await finishSyncRun(run, {
+      fetched: fetchedCount,
+      ...countWrites([...scans, ...appointments].map(row => row.createdAt), run),
+    });
+
+    return {
+      scansFound: fetched.scans.length,
+      scans,
+      appointments,
+      tokenRefreshed,
+    };
+  } catch (error) {
+    await finishSyncRun(run, { fetched: fetchedCount }, error);
+    try {
+      await updateSyncStatus(connection.id, 'error');
+    } catch {
+      // Ignore error updating status
+    }
+    throw error;
+  }
+}
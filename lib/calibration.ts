@@ -0,0 +1,258 @@
+/**
+ * BIA -> DEXA calibration
+ * A BIA entry and a Bodyspec scan taken within a few days of each other measure
+ * the same body, so each pair shows how far this scale reads from DEXA. Per
+ * metric we fit DEXA ≈ offset + slope × BIA over those pairs (offset only until
+ * there are enough pairs spread over a wide enough range to trust a slope) and
+ * use it to show BIA entries on the DEXA scale.
+ */
+
+import { BIAEntry, BodyspecScan, SegmentalData } from './types';
+import { getDexaMetricValue } from './forecast';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// A BIA entry this close to a scan counts as measuring the same body
+export const CALIBRATION_MAX_GAP_DAYS = 3;
+
+// Pairs needed before fitting a slope rather than a constant offset
+const MIN_PAIRS_FOR_SLOPE = 3;
+// Slopes outside this band mean the BIA range is too narrow to fit one; fall back to an offset
+const SLOPE_BOUNDS = [0.5, 1.5] as const;
+
+// BIA metrics with a DEXA equivalent (see getDexaMetricValue)
+export const CALIBRATION_METRICS: Array<{ key: keyof BIAEntry; label: string; unit: string }> = [
+  { key: 'weight', label: 'Weight', unit: 'lb' },
+  { key: 'bodyFatPercentage', label: 'Body Fat %', unit: '%' },
+  { key: 'bodyFatMass', label: 'Body Fat Mass', unit: 'lb' },
+  { key: 'lbm', label: 'Lean Body Mass', unit: 'lb' },
+  { key: 'fatFreeMass', label: 'Fat Free Mass', unit: 'lb' },
+  { key: 'softLeanMass', label: 'Soft Lean Mass', unit: 'lb' },
+  { key: 'boneMass', label: 'Bone Mass', unit: 'lb' },
+  { key: 'muscleLeftArm', label: 'Left Arm Lean', unit: 'lb' },
+  { key: 'muscleRightArm', label: 'Right Arm Lean', unit: 'lb' },
+  { key: 'muscleTrunk', label: 'Trunk Lean', unit: 'lb' },
+  { key: 'muscleLeftLeg', label: 'Left Leg Lean', unit: 'lb' },
+  { key: 'muscleRightLeg', label: 'Right Leg Lean', unit: 'lb' },
+  { key: 'fatLeftArm', label: 'Left Arm Fat', unit: 'lb' },
+  { key: 'fatRightArm', label: 'Right Arm Fat', unit: 'lb' },
+  { key: 'fatTrunk', label: 'Trunk Fat', unit: 'lb' },
+  { key: 'fatLeftLeg', label: 'Left Leg Fat', unit: 'lb' },
+  { key: 'fatRightLeg', label: 'Right Leg Fat', unit: 'lb' },
+];
+
+export interface CalibrationPair {
+  entryId: string;
+  scanId: string;
+  scanDate: string;
+  gapDays: number;
+}
+
+export interface CalibrationResidual {
+  scanDate: string;
+  bia: number;
+  dexa: number;
+  residual: number;          // DEXA minus calibrated BIA
+}
+
+export type CalibrationQuality = 'single' | 'fair' | 'good';
+
+export interface MetricCalibration {
+  key: keyof BIAEntry;
+  label: string;
+  unit: string;
+  method: 'offset' | 'linear';
+  offset: number;
+  slope: number;
+  pairs: number;
+  rawRmse: number;           // Uncalibrated BIA vs DEXA
+  rmse: number;              // Calibrated BIA vs DEXA (leave-one-out once there are enough pairs)
+  r2: number | null;
+  quality: CalibrationQuality;
+  residuals: CalibrationResidual[];
+}
+
+export interface CalibrationModel {
+  pairs: CalibrationPair[];
+  metrics: Partial<Record<keyof BIAEntry, MetricCalibration>>;
+}
+
+// ========================================
+// Pairing
+// ========================================
+
+/**
+ * Nearest BIA entry to each scan within the pairing window
+ */
+export function findCalibrationPairs(
+  entries: BIAEntry[],
+  scans: BodyspecScan[],
+  maxGapDays = CALIBRATION_MAX_GAP_DAYS
+): CalibrationPair[] {
+  const pairs: CalibrationPair[] = [];
+
+  for (const scan of scans) {
+    const scanTime = new Date(scan.scanDate).getTime();
+    let best: { entry: BIAEntry; gapDays: number } | null = null;
+
+    for (const entry of entries) {
+      const gapDays = Math.abs(new Date(entry.date).getTime() - scanTime) / MS_PER_DAY;
+      if (gapDays <= maxGapDays && (!best || gapDays < best.gapDays)) {
+        best = { entry, gapDays };
+      }
+    }
+
+    if (best) {
+      pairs.push({ entryId: best.entry.id, scanId: scan.id, scanDate: scan.scanDate, gapDays: best.gapDays });
+    }
+  }
+
+  return pairs.sort((a, b) => new Date(a.scanDate).getTime() - new Date(b.scanDate).getTime());
+}
+
+function getBiaValue(entry: BIAEntry, key: keyof BIAEntry): number | null {
+  const raw = entry[key];
+  if (typeof raw === 'number') return raw || null;
+  if (raw && typeof raw === 'object' && 'lb' in raw) return (raw as SegmentalData).lb || null;
+  return null;
+}
+
+// ========================================
+// Fitting
+// ========================================
+
+function fitLine(xs: number[], ys: number[]): { offset: number; slope: number; method: 'offset' | 'linear' } {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  if (n >= MIN_PAIRS_FOR_SLOPE) {
+    let sxx = 0;
+    let sxy = 0;
+    for (let i = 0; i < n; i++) {
+      sxx += (xs[i] - meanX) ** 2;
+      sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    }
+    const slope = sxx > 0 ? sxy / sxx : NaN;
+    if (slope >= SLOPE_BOUNDS[0] && slope <= SLOPE_BOUNDS[1]) {
+      return { offset: meanY - slope * meanX, slope, method: 'linear' };
+    }
+  }
+
+  return { offset: meanY - meanX, slope: 1, method: 'offset' };
+}
+
+function rmse(errors: number[]): number {
+  return Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length);
+}
+
+function calibrateMetric(
+  metric: (typeof CALIBRATION_METRICS)[number],
+  samples: Array<{ scanDate: string; bia: number; dexa: number }>
+): MetricCalibration {
+  const xs = samples.map(s => s.bia);
+  const ys = samples.map(s => s.dexa);
+  const { offset, slope, method } = fitLine(xs, ys);
+
+  const residuals = samples.map(s => ({ ...s, residual: s.dexa - (offset + slope * s.bia) }));
+
+  // In-sample error flatters small fits, so score on held-out pairs when there are enough
+  const heldOut = samples.length >= MIN_PAIRS_FOR_SLOPE
+    ? samples.map((s, i) => {
+      const rest = fitLine(xs.filter((_, j) => j !== i), ys.filter((_, j) => j !== i));
+      return s.dexa - (rest.offset + rest.slope * s.bia);
+    })
+    : residuals.map(r => r.residual);
+
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  const totalSS = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const r2 = samples.length >= MIN_PAIRS_FOR_SLOPE && totalSS > 0
+    ? 1 - residuals.reduce((sum, r) => sum + r.residual ** 2, 0) / totalSS
+    : null;
+
+  const rawRmse = rmse(samples.map(s => s.dexa - s.bia));
+  const calibratedRmse = rmse(heldOut);
+  const quality: CalibrationQuality = samples.length < 2
+    ? 'single'
+    : samples.length >= MIN_PAIRS_FOR_SLOPE && calibratedRmse < rawRmse ? 'good' : 'fair';
+
+  return {
+    key: metric.key,
+    label: metric.label,
+    unit: metric.unit,
+    method,
+    offset,
+    slope,
+    pairs: samples.length,
+    rawRmse,
+    rmse: calibratedRmse,
+    r2,
+    quality,
+    residuals,
+  };
+}
+
+/**
+ * Learn a calibration per metric from every BIA/DEXA pair
+ * Metrics without a usable pair are left out.
+ */
+export function buildCalibrationModel(entries: BIAEntry[], scans: BodyspecScan[]): CalibrationModel {
+  const pairs = findCalibrationPairs(entries, scans);
+  const entriesById = new Map(entries.map(e => [e.id, e]));
+  const scansById = new Map(scans.map(s => [s.id, s]));
+  const metrics: CalibrationModel['metrics'] = {};
+
+  for (const metric of CALIBRATION_METRICS) {
+    const samples = pairs.flatMap(pair => {
+      const bia = getBiaValue(entriesById.get(pair.entryId)!, metric.key);
+      const dexa = getDexaMetricValue(scansById.get(pair.scanId)!, metric.key as string);
+      return bia && dexa ? [{ scanDate: pair.scanDate, bia, dexa }] : [];
+    });
+    if (samples.length > 0) {
+      metrics[metric.key] = calibrateMetric(metric, samples);
+    }
+  }
+
+  return { pairs, metrics };
+}
+
+// ========================================
+// Applying
+// ========================================
+
+/**
+ * BIA entry with every calibrated metric moved onto the DEXA scale
+ * Other fields are untouched, so derived identities (fat + lean = weight) may no longer hold exactly.
+ */
+export function applyCalibration(entry: BIAEntry, model: CalibrationModel): BIAEntry {
+  const calibrated: BIAEntry = { ...entry };
+  const fields = calibrated as unknown as Record<string, unknown>;
+
+  for (const calibration of Object.values(model.metrics)) {
+    if (!calibration) continue;
+    const value = getBiaValue(entry, calibration.key);
+    if (value === null) continue;
+
+    const adjusted = calibration.offset + calibration.slope * value;
+    const raw = entry[calibration.key];
+    fields[calibration.key] = typeof raw === 'number' ? adjusted : { ...(raw as SegmentalData), lb: adjusted };
+  }
+
+  return calibrated;
+}
+
+/**
+ * One stored value of a metric moved onto the DEXA scale; uncalibrated metrics pass through
+ */
+export function calibrateValue(model: CalibrationModel, key: string, value: number): number {
+  const calibration = model.metrics[key as keyof BIAEntry];
+  return calibration ? calibration.offset + calibration.slope * value : value;
+}
+
+/**
+ * Inverse of calibrateValue, for values entered on the DEXA scale
+ */
+export function uncalibrateValue(model: CalibrationModel, key: string, value: number): number {
+  const calibration = model.metrics[key as keyof BIAEntry];
+  return calibration ? (value - calibration.offset) / calibration.slope : value;
+}
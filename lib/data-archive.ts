@@ -0,0 +1,290 @@
+/**
+ * Versioned export / restore of every Baseline data source
+ * Archives hold raw table rows so a restore is lossless. OAuth connections are
+ * not exported (they hold tokens): reconnect Bodyspec/Strava/Hevy before
+ * restoring scans, activities or workouts that reference them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ========================================
+// Schema
+// ========================================
+
+// Bump when a table is added/removed or rows change shape incompatibly
+export const ARCHIVE_SCHEMA_VERSION = 4;
+export const ARCHIVE_FORMAT = 'baseline-archive';
+
+interface ArchiveTableSpec {
+  label: string;
+  // Upsert target for merge; natural keys let archives from another database merge cleanly
+  conflictKey: string;
+  // Natural-key tables drop their id on merge so existing rows keep theirs
+  dropIdOnMerge?: boolean;
+  // References a natural-key parent by id; restore re-points it at the parent row in this database
+  parent?: { table: string; column: string };
+  // Rows per read page and write chunk, for tables with large rows
+  batchSize?: number;
+  // Column unique among active rows; merge moves an archived active row onto the database's active row's id
+  activeKey?: string;
+}
+
+// Parents before children: restore inserts in this order and deletes in reverse
+export const ARCHIVE_TABLES = {
+  bia_entries: { label: 'BIA entries', conflictKey: 'id' },
+  goals: { label: 'Goals', conflictKey: 'id', activeKey: 'metric_key' },
+  metric_range_overrides: { label: 'Range overrides', conflictKey: 'metric_key' },
+  bodyspec_scans: { label: 'Bodyspec scans', conflictKey: 'connection_id,appointment_id', dropIdOnMerge: true },
+  bodyspec_appointments: { label: 'Bodyspec appointments', conflictKey: 'connection_id,appt_id', dropIdOnMerge: true },
+  running_activities: { label: 'Running activities', conflictKey: 'connection_id,strava_id', dropIdOnMerge: true },
+  running_activity_streams: {
+    label: 'Activity streams',
+    conflictKey: 'activity_id',
+    parent: { table: 'running_activities', column: 'activity_id' },
+    batchSize: 50,
+  },
+  lifting_workouts: { label: 'Lifting workouts', conflictKey: 'connection_id,hevy_id', dropIdOnMerge: true },
+  sleep_entries: { label: 'Sleep entries', conflictKey: 'sleep_date', dropIdOnMerge: true },
+  sleep_user_preferences: { label: 'Sleep preferences', conflictKey: 'id' },
+  calendar_events: { label: 'Calendar events', conflictKey: 'id' },
+  inbox_events: { label: 'Inbox events', conflictKey: 'id' },
+  bets: { label: 'Bets', conflictKey: 'id' },
+  practice_entries: { label: 'Practice entries', conflictKey: 'date', dropIdOnMerge: true },
+  bold_takes: { label: 'Bold takes', conflictKey: 'id' },
+  practice_beliefs: { label: 'Beliefs', conflictKey: 'id' },
+  practice_goals: { label: 'Practice goals', conflictKey: 'id' },
+  practice_streak: { label: 'Streak', conflictKey: 'id' },
+  user_settings: { label: 'User settings', conflictKey: 'id' },
+} satisfies Record<string, ArchiveTableSpec>;
+
+export type ArchiveTable = keyof typeof ARCHIVE_TABLES;
+
+const TABLE_ORDER = Object.keys(ARCHIVE_TABLES) as ArchiveTable[];
+
+export type ArchiveRow = Record<string, unknown>;
+
+export interface DataArchive {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  tables: Partial<Record<ArchiveTable, ArchiveRow[]>>;
+}
+
+export type RestoreMode = 'merge' | 'replace' | 'skip';
+
+export interface TableRestoreResult {
+  table: ArchiveTable;
+  mode: RestoreMode;
+  rows: number;
+  restored: number;
+  error?: string;
+}
+
+const PAGE_SIZE = 1000;   // PostgREST default max rows per request
+const WRITE_CHUNK = 500;
+
+// ========================================
+// Export
+// ========================================
+
+async function readTable(supabase: SupabaseClient, table: ArchiveTable, columns = '*'): Promise<ArchiveRow[]> {
+  const spec: ArchiveTableSpec = ARCHIVE_TABLES[table];
+  const pageSize = spec.batchSize ?? PAGE_SIZE;
+  const rows: ArchiveRow[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`${table}: ${error.message}`);
+    rows.push(...((data || []) as unknown as ArchiveRow[]));
+    if (!data || data.length < pageSize) return rows;
+  }
+}
+
+/**
+ * Read every archived table into one versioned document
+ */
+export async function exportArchive(supabase: SupabaseClient): Promise<DataArchive> {
+  const tables: DataArchive['tables'] = {};
+  for (const table of TABLE_ORDER) {
+    tables[table] = await readTable(supabase, table);
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: ARCHIVE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    tables,
+  };
+}
+
+// ========================================
+// Restore
+// ========================================
+
+/**
+ * Check an uploaded document is an archive this version can restore
+ */
+export function validateArchive(input: unknown): { archive: DataArchive } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'Archive must be a JSON object' };
+  const archive = input as Partial<DataArchive>;
+
+  if (archive.format !== ARCHIVE_FORMAT) return { error: 'Not a Baseline archive' };
+  if (typeof archive.schemaVersion !== 'number') return { error: 'Archive has no schema version' };
+  if (archive.schemaVersion > ARCHIVE_SCHEMA_VERSION) {
+    return { error: `Archive schema v${archive.schemaVersion} is newer than supported v${ARCHIVE_SCHEMA_VERSION}` };
+  }
+  if (!archive.tables || typeof archive.tables !== 'object') return { error: 'Archive has no tables' };
+
+  for (const [table, rows] of Object.entries(archive.tables)) {
+    if (!(table in ARCHIVE_TABLES)) return { error: `Unknown table "${table}"` };
+    if (!Array.isArray(rows) || rows.some(r => !r || typeof r !== 'object' || Array.isArray(r))) {
+      return { error: `Table "${table}" must be an array of rows` };
+    }
+  }
+
+  return { archive: archive as DataArchive };
+}
+
+async function clearTable(supabase: SupabaseClient, table: ArchiveTable): Promise<void> {
+  // PostgREST refuses unfiltered deletes; every row has its conflict key set
+  const [keyColumn] = ARCHIVE_TABLES[table].conflictKey.split(',');
+  const { error } = await supabase.from(table).delete().not(keyColumn, 'is', null);
+  if (error) throw new Error(`Failed to clear ${table}: ${error.message}`);
+}
+
+/**
+ * Re-point child rows at their parents' ids in this database
+ * Merged parents keep the id they already had (or get a new one), so the
+ * archived id is matched to the database row through the parent's natural key.
+ * Rows whose parent isn't in both the archive and the database are dropped.
+ */
+async function remapParentIds(
+  supabase: SupabaseClient,
+  parent: { table: string; column: string },
+  archivedParents: ArchiveRow[],
+  rows: ArchiveRow[]
+): Promise<ArchiveRow[]> {
+  const parentTable = parent.table as ArchiveTable;
+  const keyColumns = ARCHIVE_TABLES[parentTable].conflictKey.split(',');
+  const naturalKey = (row: ArchiveRow) => keyColumns.map(c => String(row[c])).join('|');
+
+  const currentIds = new Map<string, unknown>();
+  for (const row of await readTable(supabase, parentTable, ['id', ...keyColumns].join(','))) {
+    currentIds.set(naturalKey(row), row.id);
+  }
+
+  const idMap = new Map<unknown, unknown>();
+  archivedParents.forEach(row => {
+    const id = currentIds.get(naturalKey(row));
+    if (id !== undefined) idMap.set(row.id, id);
+  });
+
+  return rows
+    .filter(row => idMap.has(row[parent.column]))
+    .map(row => ({ ...row, [parent.column]: idMap.get(row[parent.column]) }));
+}
+
+/**
+ * Merge archived active rows onto the database's active row for the same key
+ * An active row saved after the export has a different id, and upserting the
+ * archived one beside it would break the one-active-row-per-key index, so the
+ * archived row takes over the existing id instead.
+ */
+async function rekeyActiveRows(
+  supabase: SupabaseClient,
+  table: ArchiveTable,
+  activeKey: string,
+  rows: ArchiveRow[]
+): Promise<ArchiveRow[]> {
+  const { data, error } = await supabase.from(table).select(`id,${activeKey}`).eq('status', 'active');
+  if (error) throw new Error(error.message);
+
+  const activeIds = new Map<unknown, unknown>();
+  ((data || []) as unknown as ArchiveRow[]).forEach(row => activeIds.set(row[activeKey], row.id));
+
+  return rows.map(row => {
+    const id = activeIds.get(row[activeKey]);
+    return row.status === 'active' && id !== undefined && id !== row.id ? { ...row, id } : row;
+  });
+}
+
+async function writeRows(
+  supabase: SupabaseClient,
+  table: ArchiveTable,
+  rows: ArchiveRow[],
+  mode: 'merge' | 'replace'
+): Promise<void> {
+  const spec: ArchiveTableSpec = ARCHIVE_TABLES[table];
+  const chunkSize = spec.batchSize ?? WRITE_CHUNK;
+  const merging = mode === 'merge';
+  const payload = merging && spec.dropIdOnMerge
+    ? rows.map(row => {
+      const copy = { ...row };
+      delete copy.id;
+      return copy;
+    })
+    : rows;
+
+  for (let i = 0; i < payload.length; i += chunkSize) {
+    const chunk = payload.slice(i, i + chunkSize);
+    const { error } = merging
+      ? await supabase.from(table).upsert(chunk, { onConflict: spec.conflictKey })
+      : await supabase.from(table).insert(chunk);
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Restore an archive table by table
+ * merge upserts archived rows over existing ones; replace deletes the table's rows first.
+ * Tables missing from the archive or set to 'skip' are left untouched. A failing table
+ * is reported and doesn't stop the others.
+ */
+export async function restoreArchive(
+  supabase: SupabaseClient,
+  archive: DataArchive,
+  modes: Partial<Record<ArchiveTable, RestoreMode>> = {},
+  defaultMode: RestoreMode = 'merge'
+): Promise<TableRestoreResult[]> {
+  const plan = TABLE_ORDER
+    .filter(table => archive.tables[table] !== undefined)
+    .map(table => ({ table, mode: modes[table] ?? defaultMode, rows: archive.tables[table]! }));
+
+  const results = new Map<ArchiveTable, TableRestoreResult>(
+    plan.map(p => [p.table, { table: p.table, mode: p.mode, rows: p.rows.length, restored: 0 }])
+  );
+
+  // Children first, so parents can be cleared without breaking references
+  for (const { table, mode } of [...plan].reverse()) {
+    if (mode !== 'replace') continue;
+    try {
+      await clearTable(supabase, table);
+    } catch (err) {
+      results.get(table)!.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  for (const { table, mode, rows } of plan) {
+    const result = results.get(table)!;
+    if (mode === 'skip' || result.error || rows.length === 0) continue;
+    try {
+      const spec: ArchiveTableSpec = ARCHIVE_TABLES[table];
+      let written = spec.parent
+        ? await remapParentIds(supabase, spec.parent, archive.tables[spec.parent.table as ArchiveTable] ?? [], rows)
+        : rows;
+      if (spec.activeKey && mode === 'merge') {
+        written = await rekeyActiveRows(supabase, table, spec.activeKey, written);
+      }
+      await writeRows(supabase, table, written, mode);
+      result.restored = written.length;
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+      console.error(`[Restore] ${table} failed:`, err);
+    }
+  }
+
+  return TABLE_ORDER.filter(t => results.has(t)).map(t => results.get(t)!);
+}
@@ -0,0 +1,105 @@
+/**
+ * Next DEXA recommendation
+ * A rescan is only worth it once the body has changed by more than DEXA can
+ * resolve. For each tracked metric we take its current trend and work out how
+ * long until it moves by that least significant change; the soonest one sets
+ * the recommended date, clamped to a sensible scan interval.
+ */
+
+import { BIAEntry, BodyspecScan } from './types';
+import { fitTrend, getMetricSeries } from './forecast';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Shortest and longest gap worth recommending between scans
+export const MIN_SCAN_INTERVAL_DAYS = 42;
+export const MAX_SCAN_INTERVAL_DAYS = 180;
+
+// Least significant change per metric: roughly 2.8× DEXA's precision error (storage units)
+export const DEXA_DETECTABLE_CHANGE: Array<{ key: keyof BIAEntry; label: string; unit: string; change: number }> = [
+  { key: 'bodyFatMass', label: 'Body Fat Mass', unit: 'lb', change: 1.5 },
+  { key: 'lbm', label: 'Lean Body Mass', unit: 'lb', change: 2.2 },
+  { key: 'bodyFatPercentage', label: 'Body Fat %', unit: '%', change: 1.0 },
+];
+
+export interface DexaScheduleDriver {
+  key: keyof BIAEntry;
+  label: string;
+  unit: string;
+  perWeek: number;             // Current trend
+  detectableChange: number;
+}
+
+export interface DexaRecommendation {
+  date: Date;                  // Today when the recommended date has passed
+  intervalDays: number;        // From the last scan
+  lastScanDate: Date | null;
+  overdue: boolean;
+  driver: DexaScheduleDriver | null;   // Metric expected to show a detectable change first
+  reason: string;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Recommend when to book the next DEXA scan
+ */
+export function recommendNextDexa(
+  entries: BIAEntry[],
+  scans: BodyspecScan[],
+  now: Date = new Date()
+): DexaRecommendation {
+  const today = startOfDay(now);
+  const lastScan = [...scans].sort((a, b) => new Date(b.scanDate).getTime() - new Date(a.scanDate).getTime())[0];
+
+  if (!lastScan) {
+    return {
+      date: today,
+      intervalDays: 0,
+      lastScanDate: null,
+      overdue: false,
+      driver: null,
+      reason: 'No DEXA scan yet: a baseline scan anchors every later comparison',
+    };
+  }
+
+  const lastScanDate = startOfDay(new Date(lastScan.scanDate));
+
+  let driver: DexaScheduleDriver | null = null;
+  let driverDays = Infinity;
+  for (const metric of DEXA_DETECTABLE_CHANGE) {
+    const fit = fitTrend(getMetricSeries(entries, scans, metric.key as string));
+    if (!fit || fit.slopePerDay === 0) continue;
+    const days = metric.change / Math.abs(fit.slopePerDay);
+    if (days < driverDays) {
+      driverDays = days;
+      driver = { key: metric.key, label: metric.label, unit: metric.unit, perWeek: fit.slopePerDay * 7, detectableChange: metric.change };
+    }
+  }
+
+  const intervalDays = Math.round(Math.min(MAX_SCAN_INTERVAL_DAYS, Math.max(MIN_SCAN_INTERVAL_DAYS, driverDays)));
+  const recommended = new Date(lastScanDate.getTime() + intervalDays * MS_PER_DAY);
+  const overdue = recommended < today;
+
+  let reason: string;
+  if (!driver) {
+    reason = 'No clear trend since the last scan, so the longest interval applies';
+  } else if (driverDays < MIN_SCAN_INTERVAL_DAYS) {
+    reason = `${driver.label} is changing fast, but scans closer than ${MIN_SCAN_INTERVAL_DAYS / 7} weeks apart add little`;
+  } else if (driverDays > MAX_SCAN_INTERVAL_DAYS) {
+    reason = `${driver.label} is changing slowly; rescan at least every ${Math.round(MAX_SCAN_INTERVAL_DAYS / 30)} months`;
+  } else {
+    reason = `${driver.label} should have moved more than DEXA's detectable change by then`;
+  }
+
+  return {
+    date: overdue ? today : recommended,
+    intervalDays,
+    lastScanDate,
+    overdue,
+    driver,
+    reason,
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Exercise progression
+ * Per-exercise time series of each session's best estimated 1RM and total
+ * volume from Hevy sets, smoothed with an exponential moving average so one
+ * good or bad day doesn't read as a trend. An exercise that hasn't beaten its
+ * previous best e1RM in N sessions is a plateau; one whose smoothed e1RM has
+ * slid well below its peak is regressing. Both surface as dashboard insights.
+ */
+
+import { calculate1RM } from './milestones';
+import { Insight, LiftingWorkout } from './types';
+import { DEFAULT_UNIT_SYSTEM, formatMeasurement, UnitSystem } from './units';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type ProgressionStatus = 'progressing' | 'plateau' | 'regressing' | 'insufficient';
+
+export interface ProgressionOptions {
+  plateauSessions?: number;    // Sessions without a new best e1RM that count as a plateau
+  minGainPercent?: number;     // Smallest e1RM increase that counts as a new best
+  regressionPercent?: number;  // Drop of the smoothed e1RM from its peak that counts as regressing
+  smoothing?: number;          // EMA weight of the newest session, 0-1
+}
+
+export const DEFAULT_PLATEAU_SESSIONS = 4;
+const DEFAULT_MIN_GAIN_PERCENT = 1;
+const DEFAULT_REGRESSION_PERCENT = 5;
+const DEFAULT_SMOOTHING = 0.4;
+
+// Bests and peaks only count from the last (plateau sessions x this) sessions
+const LOOKBACK_MULTIPLE = 3;
+
+// Exercises not trained this recently are left out of insights
+const ACTIVE_WITHIN_DAYS = 28;
+const MAX_PROGRESSION_INSIGHTS = 3;
+
+export interface ExerciseSession {
+  date: string;                // YYYY-MM-DD (local)
+  workoutId: string;
+  e1rmLbs: number;             // Best set of the session
+  volumeLbs: number;           // Weight x reps over working sets
+  smoothedE1rmLbs: number;
+  smoothedVolumeLbs: number;
+}
+
+export interface ExerciseProgression {
+  name: string;
+  bodyPart: string;
+  sessions: ExerciseSession[]; // Oldest first
+  status: ProgressionStatus;
+  bestE1rmLbs: number;         // Best over recent sessions
+  bestE1rmDate: string;
+  sessionsSinceBest: number;   // Sessions logged after the last new best
+  changePercent: number | null; // Smoothed e1RM now vs its recent peak
+}
+
+function toDayKey(dateString: string): string {
+  const date = new Date(dateString);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatDay(dayKey: string): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// ========================================
+// Series
+// ========================================
+
+/**
+ * Session best e1RM and volume per exercise, oldest first
+ * Sessions with no weighted working sets (bodyweight, cardio) are skipped.
+ */
+function getExerciseSessions(workouts: LiftingWorkout[]): Map<string, { bodyPart: string; sessions: ExerciseSession[] }> {
+  const byExercise = new Map<string, { bodyPart: string; sessions: ExerciseSession[] }>();
+  const sorted = [...workouts].sort((a, b) => new Date(a.workoutDate).getTime() - new Date(b.workoutDate).getTime());
+
+  for (const workout of sorted) {
+    for (const exercise of workout.exercisesDetailed ?? []) {
+      let e1rmLbs = 0;
+      let volumeLbs = 0;
+      for (const set of exercise.sets) {
+        if (set.type === 'warmup' || !set.weightLbs || !set.reps) continue;
+        e1rmLbs = Math.max(e1rmLbs, calculate1RM(set.weightLbs, set.reps));
+        volumeLbs += set.weightLbs * set.reps;
+      }
+      if (e1rmLbs === 0) continue;
+
+      const entry = byExercise.get(exercise.name) || { bodyPart: exercise.bodyPart, sessions: [] };
+      entry.sessions.push({
+        date: toDayKey(workout.workoutDate),
+        workoutId: workout.id,
+        e1rmLbs,
+        volumeLbs,
+        smoothedE1rmLbs: e1rmLbs,
+        smoothedVolumeLbs: volumeLbs,
+      });
+      byExercise.set(exercise.name, entry);
+    }
+  }
+
+  return byExercise;
+}
+
+/**
+ * Exponential moving average, seeded with the first value
+ */
+export function smoothSeries(values: number[], alpha: number = DEFAULT_SMOOTHING): number[] {
+  const smoothed: number[] = [];
+  values.forEach((value, i) => {
+    smoothed.push(i === 0 ? value : alpha * value + (1 - alpha) * smoothed[i - 1]);
+  });
+  return smoothed;
+}
+
+/**
+ * Progression of one exercise's sessions
+ */
+function analyzeProgression(
+  name: string,
+  bodyPart: string,
+  sessions: ExerciseSession[],
+  options: ProgressionOptions
+): ExerciseProgression {
+  const plateauSessions = options.plateauSessions ?? DEFAULT_PLATEAU_SESSIONS;
+  const minGain = (options.minGainPercent ?? DEFAULT_MIN_GAIN_PERCENT) / 100;
+  const regression = (options.regressionPercent ?? DEFAULT_REGRESSION_PERCENT) / 100;
+
+  const smoothedE1rm = smoothSeries(sessions.map(s => s.e1rmLbs), options.smoothing);
+  const smoothedVolume = smoothSeries(sessions.map(s => s.volumeLbs), options.smoothing);
+  const series = sessions.map((s, i) => ({ ...s, smoothedE1rmLbs: smoothedE1rm[i], smoothedVolumeLbs: smoothedVolume[i] }));
+
+  // Bests and peaks are judged over recent sessions, so an old peak from
+  // before a layoff doesn't flag the rebuild as a plateau forever
+  const windowStart = Math.max(0, series.length - plateauSessions * LOOKBACK_MULTIPLE);
+
+  // A new best has to clear the previous one by the minimum gain
+  let bestIndex = windowStart;
+  for (let i = windowStart; i < series.length; i++) {
+    if (series[i].e1rmLbs > series[bestIndex].e1rmLbs * (1 + minGain)) bestIndex = i;
+  }
+  const best = series[bestIndex];
+  const sessionsSinceBest = series.length - 1 - bestIndex;
+
+  const peakSmoothed = Math.max(...smoothedE1rm.slice(windowStart));
+  const latestSmoothed = smoothedE1rm[smoothedE1rm.length - 1];
+  const changePercent = series.length > 1 ? ((latestSmoothed - peakSmoothed) / peakSmoothed) * 100 : null;
+
+  let status: ProgressionStatus;
+  if (series.length <= plateauSessions) {
+    status = 'insufficient';
+  } else if (latestSmoothed < peakSmoothed * (1 - regression)) {
+    status = 'regressing';
+  } else if (sessionsSinceBest >= plateauSessions) {
+    status = 'plateau';
+  } else {
+    status = 'progressing';
+  }
+
+  return {
+    name,
+    bodyPart,
+    sessions: series,
+    status,
+    bestE1rmLbs: best.e1rmLbs,
+    bestE1rmDate: best.date,
+    sessionsSinceBest,
+    changePercent,
+  };
+}
+
+/**
+ * Progression of every weighted exercise, most recently trained first
+ */
+export function getExerciseProgressions(
+  workouts: LiftingWorkout[],
+  options: ProgressionOptions = {}
+): ExerciseProgression[] {
+  const progressions: ExerciseProgression[] = [];
+  getExerciseSessions(workouts).forEach(({ bodyPart, sessions }, name) => {
+    progressions.push(analyzeProgression(name, bodyPart, sessions, options));
+  });
+
+  return progressions.sort((a, b) =>
+    b.sessions[b.sessions.length - 1].date.localeCompare(a.sessions[a.sessions.length - 1].date)
+  );
+}
+
+// ========================================
+// Insights
+// ========================================
+
+/**
+ * Plateau and regression insights for exercises trained in the last four weeks
+ * Regressions come first, then the longest plateaus; capped so a few stalled
+ * accessories don't crowd out everything else. Weights are written in `units`;
+ * metrics stay in lbs.
+ */
+export function generateProgressionInsights(
+  progressions: ExerciseProgression[],
+  units: UnitSystem = DEFAULT_UNIT_SYSTEM,
+  asOf: Date = new Date()
+): Insight[] {
+  const weight = (lbs: number) => formatMeasurement(lbs, 'lbs', units, 0);
+
+  const cutoff = toDayKey(new Date(asOf.getTime() - ACTIVE_WITHIN_DAYS * MS_PER_DAY).toISOString());
+
+  const flagged = progressions
+    .filter(p => p.status === 'plateau' || p.status === 'regressing')
+    .filter(p => p.sessions[p.sessions.length - 1].date >= cutoff)
+    .sort((a, b) => {
+      if (a.status !== b.status) return a.status === 'regressing' ? -1 : 1;
+      return b.sessionsSinceBest - a.sessionsSinceBest;
+    })
+    .slice(0, MAX_PROGRESSION_INSIGHTS);
+
+  return flagged.map((p): Insight => {
+    const latest = p.sessions[p.sessions.length - 1];
+    const metrics = {
+      bestE1rm: Math.round(p.bestE1rmLbs),
+      currentE1rm: Math.round(latest.smoothedE1rmLbs),
+      sessionsSinceBest: p.sessionsSinceBest,
+    };
+
+    if (p.status === 'regressing') {
+      return {
+        type: 'progression',
+        severity: 'warning',
+        title: `${p.name} Regressing`,
+        description: `Your estimated 1RM on ${p.name} is down ${Math.abs(p.changePercent ?? 0).toFixed(0)}% from its recent peak (${weight(latest.smoothedE1rmLbs)} vs recent best ${weight(p.bestE1rmLbs)} on ${formatDay(p.bestE1rmDate)}).`,
+        recommendation: 'Check sleep, nutrition and overall training load, or take a deload week before pushing the weight again.',
+        metrics,
+      };
+    }
+
+    return {
+      type: 'progression',
+      severity: 'tip',
+      title: `${p.name} Plateau`,
+      description: `No estimated 1RM gain on ${p.name} in ${p.sessionsSinceBest} sessions (best ${weight(p.bestE1rmLbs)} on ${formatDay(p.bestE1rmDate)}).`,
+      recommendation: 'Change the rep range or variation, or add a set each week for a block before testing heavier.',
+      metrics,
+    };
+  });
+}
@@ -0,0 +1,336 @@
+/**
+ * Trend forecasting for body-composition metrics
+ * Fits a weighted linear trend to BIA and DEXA measurements: recent points weigh
+ * more (exponential decay), DEXA scans weigh more than BIA readings, and BIA
+ * readings that sit far off the trend (robust z-score on the residuals) are
+ * dropped before the final fit. Fits carry enough to give prediction intervals
+ * and a date range for reaching a target.
+ */
+
+import { BIAEntry, BodyspecScan } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type TrendSource = 'bia' | 'dexa';
+
+export interface TrendPoint {
+  date: string;
+  value: number;
+  source: TrendSource;
+}
+
+export interface TrendOptions {
+  since?: Date;              // Ignore points before this date (default: windowDays before the latest point)
+  windowDays?: number;
+  halfLifeDays?: number;     // A point this old counts half as much as today's
+  dexaWeight?: number;       // Weight of a DEXA scan relative to a BIA reading
+  outlierZ?: number;         // Robust z-score beyond which a BIA reading is rejected
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TrendOptions, 'since'>> = {
+  windowDays: 90,
+  halfLifeDays: 30,
+  dexaWeight: 4,
+  outlierZ: 3,
+};
+
+// Two-sided normal quantiles for the supported interval levels
+const Z_SCORES: Record<number, number> = { 0.5: 0.674, 0.8: 1.282, 0.9: 1.645, 0.95: 1.96 };
+
+export interface TrendFit {
+  asOf: Date;                // Time origin: the latest point used
+  level: number;             // Fitted value at asOf
+  slopePerDay: number;
+  slopeStdError: number;
+  residualSd: number;        // Spread of a unit-weight (BIA) reading around the trend
+  spanDays: number;
+  points: TrendPoint[];      // Points the fit used
+  outliers: TrendPoint[];    // Points rejected as outliers
+  // Weighted regression internals, needed for intervals
+  meanDay: number;
+  sumWeights: number;
+  sxx: number;
+}
+
+export interface Prediction {
+  value: number;
+  low: number;
+  high: number;
+}
+
+export type TargetForecastStatus = 'met' | 'projected' | 'stalled';
+
+export interface TargetForecast {
+  status: TargetForecastStatus;
+  days: number | null;           // From today, at the fitted rate
+  date: Date | null;
+  earliest: Date | null;         // At the fast end of the slope interval
+  latest: Date | null;           // At the slow end; null when the interval allows no progress
+}
+
+// ========================================
+// Series
+// ========================================
+
+/**
+ * DEXA value comparable to a BIA metric, or null when DEXA has no equivalent
+ * Segmental keys map to the regional lean/fat masses.
+ */
+export function getDexaMetricValue(scan: BodyspecScan, metricKey: string): number | null {
+  const data = scan.data;
+
+  switch (metricKey) {
+    case 'bodyFatPercentage':
+      return data.bodyFatPercentage;
+    case 'weight':
+      return data.weight;
+    case 'lbm':
+    case 'fatFreeMass':
+    case 'softLeanMass':
+      return data.leanBodyMass;
+    case 'bodyFatMass':
+      return data.totalBodyFat;
+    case 'boneMass':
+      return data.boneMineralContent ? data.boneMineralContent / 453.592 : null; // grams to lb
+    // Note: visceralFat is intentionally not mapped - DEXA reports VAT in cm² while BIA uses a score (1-59)
+  }
+
+  const segment = metricKey.match(/^(muscle|fat)(LeftArm|RightArm|Trunk|LeftLeg|RightLeg)$/);
+  if (!segment) return null;
+  const region = (segment[2].charAt(0).toLowerCase() + segment[2].slice(1)) as keyof BodyspecScan['data']['regional'];
+  const regionData = data.regional?.[region];
+  if (!regionData) return null;
+  return segment[1] === 'muscle' ? regionData.lean : regionData.fat;
+}
+
+/**
+ * Measurements of one metric from BIA entries and DEXA scans, oldest first
+ * Segmental BIA values use their lb component; zero/missing readings are skipped.
+ */
+export function getMetricSeries(entries: BIAEntry[], scans: BodyspecScan[], metricKey: string): TrendPoint[] {
+  const points: TrendPoint[] = [];
+
+  for (const entry of entries) {
+    const raw = entry[metricKey as keyof BIAEntry];
+    const value = typeof raw === 'number'
+      ? raw
+      : raw && typeof raw === 'object' && 'lb' in raw ? (raw as { lb: number }).lb : null;
+    if (value) points.push({ date: entry.date, value, source: 'bia' });
+  }
+
+  for (const scan of scans) {
+    const value = getDexaMetricValue(scan, metricKey);
+    if (value) points.push({ date: scan.scanDate, value, source: 'dexa' });
+  }
+
+  return points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+// ========================================
+// Fitting
+// ========================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function weightedFit(days: number[], values: number[], weights: number[]) {
+  const sumWeights = weights.reduce((a, b) => a + b, 0);
+  const meanDay = days.reduce((sum, d, i) => sum + weights[i] * d, 0) / sumWeights;
+  const meanValue = values.reduce((sum, v, i) => sum + weights[i] * v, 0) / sumWeights;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < days.length; i++) {
+    sxx += weights[i] * (days[i] - meanDay) ** 2;
+    sxy += weights[i] * (days[i] - meanDay) * (values[i] - meanValue);
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanValue - slope * meanDay;
+  const residuals = values.map((v, i) => v - (intercept + slope * days[i]));
+  return { slope, intercept, residuals, meanDay, sumWeights, sxx };
+}
+
+/**
+ * Fit a robust weighted trend, or null when fewer than two points span at least a day
+ */
+export function fitTrend(series: TrendPoint[], options: TrendOptions = {}): TrendFit | null {
+  const { windowDays, halfLifeDays, dexaWeight, outlierZ } = { ...DEFAULT_OPTIONS, ...options };
+  if (series.length < 2) return null;
+
+  const latestTime = Math.max(...series.map(p => new Date(p.date).getTime()));
+  const since = options.since?.getTime() ?? latestTime - windowDays * MS_PER_DAY;
+  let points = series.filter(p => new Date(p.date).getTime() >= since);
+  const outliers: TrendPoint[] = [];
+
+  // Reject BIA outliers against a robust scale; DEXA is the reference and always kept
+  for (let pass = 0; pass < 2 && points.length > 3; pass++) {
+    const days = points.map(p => (new Date(p.date).getTime() - latestTime) / MS_PER_DAY);
+    const weights = points.map((p, i) => (p.source === 'dexa' ? dexaWeight : 1) * Math.pow(0.5, -days[i] / halfLifeDays));
+    const { residuals } = weightedFit(days, points.map(p => p.value), weights);
+
+    const center = median(residuals);
+    const scale = 1.4826 * median(residuals.map(r => Math.abs(r - center)));
+    if (scale <= 0) break;
+
+    const rejected = points.filter((p, i) => p.source === 'bia' && Math.abs(residuals[i] - center) / scale > outlierZ);
+    if (rejected.length === 0 || points.length - rejected.length < 3) break;
+    outliers.push(...rejected);
+    points = points.filter(p => !rejected.includes(p));
+  }
+
+  const times = points.map(p => new Date(p.date).getTime());
+  const spanDays = (Math.max(...times) - Math.min(...times)) / MS_PER_DAY;
+  if (points.length < 2 || spanDays < 1) return null;
+
+  const days = times.map(t => (t - latestTime) / MS_PER_DAY);
+  const rawWeights = points.map((p, i) => (p.source === 'dexa' ? dexaWeight : 1) * Math.pow(0.5, -days[i] / halfLifeDays));
+  // Normalize to mean 1 so the residual variance is per average point
+  const meanWeight = rawWeights.reduce((a, b) => a + b, 0) / rawWeights.length;
+  const weights = rawWeights.map(w => w / meanWeight);
+
+  const fit = weightedFit(days, points.map(p => p.value), weights);
+  const dof = points.length - 2;
+  const residualSd = dof > 0
+    ? Math.sqrt(fit.residuals.reduce((sum, r, i) => sum + weights[i] * r * r, 0) / dof)
+    : 0;
+
+  return {
+    asOf: new Date(latestTime),
+    level: fit.intercept,
+    slopePerDay: fit.slope,
+    slopeStdError: fit.sxx > 0 ? residualSd / Math.sqrt(fit.sxx) : 0,
+    residualSd,
+    spanDays,
+    points,
+    outliers,
+    meanDay: fit.meanDay,
+    sumWeights: fit.sumWeights,
+    sxx: fit.sxx,
+  };
+}
+
+// ========================================
+// Prediction
+// ========================================
+
+function zScore(confidence: number): number {
+  return Z_SCORES[confidence] ?? Z_SCORES[0.8];
+}
+
+/**
+ * Predicted reading at a date with a prediction interval (default 80%)
+ */
+export function predictAt(fit: TrendFit, date: Date, confidence = 0.8): Prediction {
+  const day = (date.getTime() - fit.asOf.getTime()) / MS_PER_DAY;
+  const value = fit.level + fit.slopePerDay * day;
+  const meanVariance = fit.sxx > 0
+    ? fit.residualSd ** 2 * (1 / fit.sumWeights + (day - fit.meanDay) ** 2 / fit.sxx)
+    : 0;
+  const margin = zScore(confidence) * Math.sqrt(fit.residualSd ** 2 + meanVariance);
+  return { value, low: value - margin, high: value + margin };
+}
+
+/**
+ * When the fitted trend reaches a target, with a date range from the slope's interval
+ * `currentValue` (the latest reading) decides whether the target is already met.
+ */
+export function forecastTarget(
+  fit: TrendFit,
+  target: number,
+  higherIsBetter: boolean,
+  currentValue: number,
+  { confidence = 0.8, maxDays = 730, now = new Date() }: { confidence?: number; maxDays?: number; now?: Date } = {}
+): TargetForecast {
+  const stalled: TargetForecast = { status: 'stalled', days: null, date: null, earliest: null, latest: null };
+
+  if (higherIsBetter ? currentValue >= target : currentValue <= target) {
+    return { status: 'met', days: 0, date: now, earliest: now, latest: now };
+  }
+
+  const elapsed = (now.getTime() - fit.asOf.getTime()) / MS_PER_DAY;
+  const remaining = target - (fit.level + fit.slopePerDay * elapsed);
+  const daysAt = (slope: number): number | null => {
+    if (Math.sign(slope) !== Math.sign(remaining) || Math.abs(slope) < 1e-6) return null;
+    return Math.max(0, remaining / slope);
+  };
+
+  const days = daysAt(fit.slopePerDay);
+  if (days === null || days > maxDays) return stalled;
+
+  const margin = zScore(confidence) * fit.slopeStdError * Math.sign(remaining);
+  const fastest = daysAt(fit.slopePerDay + margin);
+  const slowest = daysAt(fit.slopePerDay - margin);
+  const toDate = (d: number) => new Date(now.getTime() + d * MS_PER_DAY);
+
+  return {
+    status: 'projected',
+    days,
+    date: toDate(days),
+    earliest: fastest !== null ? toDate(fastest) : null,
+    latest: slowest !== null && slowest <= maxDays ? toDate(slowest) : null,
+  };
+}
+
+// ========================================
+// Body fat goal projection
+// ========================================
+
+export interface BodyFatGoalProjection {
+  idealWeight: number;               // Weight at the goal with today's lean mass
+  projectedWeight: number;           // Weight at the goal if lean mass keeps its fitted trend
+  leanMassChangeProjected: number;
+  currentLeanMass: number;
+  fatLossPct: number;                // Share of the projected weight change that is fat
+}
+
+/**
+ * Body weight when a body fat % goal is reached
+ * Solves for the day fat mass / weight hits the goal with fat and lean mass on their
+ * fitted trends; without a usable trend, lean mass is held constant.
+ */
+export function projectWeightAtBodyFat(
+  latestEntry: BIAEntry,
+  goalBFPercent: number,
+  fatFit: TrendFit | null,
+  leanFit: TrendFit | null
+): BodyFatGoalProjection | null {
+  const currentWeight = latestEntry.weight;
+  const currentBF = latestEntry.bodyFatPercentage;
+  if (!currentWeight || !currentBF || currentBF <= goalBFPercent) return null;
+
+  const currentFatMass = latestEntry.bodyFatMass || (currentWeight * currentBF / 100);
+  const currentLeanMass = currentWeight - currentFatMass;
+  const goal = goalBFPercent / 100;
+
+  const idealWeight = currentLeanMass / (1 - goal);
+  if (idealWeight < 80 || idealWeight > 400) return null;
+
+  let projectedWeight = idealWeight;
+  let leanMassChangeProjected = 0;
+  let fatLossPct = 100;
+
+  if (fatFit && leanFit) {
+    // (F + f·t) = goal · (F + L + (f + l)·t)
+    const f = fatFit.slopePerDay;
+    const l = leanFit.slopePerDay;
+    const days = (goal * (currentFatMass + currentLeanMass) - currentFatMass) / (f - goal * (f + l));
+
+    if (Number.isFinite(days) && days > 0) {
+      leanMassChangeProjected = l * days;
+      const leanMassAtGoal = currentLeanMass + leanMassChangeProjected;
+      projectedWeight = leanMassAtGoal / (1 - goal);
+
+      const totalWeightLoss = currentWeight - projectedWeight;
+      const totalFatLoss = currentFatMass - (projectedWeight - leanMassAtGoal);
+      if (totalWeightLoss > 0.1) {
+        fatLossPct = Math.min(100, Math.max(0, (totalFatLoss / totalWeightLoss) * 100));
+      }
+    }
+  }
+
+  return { idealWeight, projectedWeight, leanMassChangeProjected, currentLeanMass, fatLossPct };
+}
@@ -0,0 +1,74 @@
+/**
+ * Goal pace
+ * Compares the rate a goal needs (distance left over the days left to its target
+ * date) with the rate the metric is actually moving, and projects when the
+ * current trend reaches the target. Rates are in the goal's storage unit.
+ */
+
+import type { Goal } from './supabase';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type GoalPaceStatus = 'reached' | 'on-pace' | 'behind' | 'off-track' | 'overdue' | 'no-deadline';
+
+export interface GoalPace {
+  status: GoalPaceStatus;
+  actualPerWeek: number | null;      // Current trend
+  requiredPerWeek: number | null;    // Needed to land on the target date
+  projectedDate: Date | null;        // When the current trend reaches the target
+  daysRemaining: number | null;      // Until the target date
+  progress: number | null;           // 0–1 share of the start -> target distance covered
+}
+
+/**
+ * Deadline as the end of the target day, in local time
+ */
+export function parseTargetDate(targetDate: string): Date {
+  return new Date(`${targetDate}T23:59:59`);
+}
+
+/**
+ * Pace of a goal given the current value and the metric's recent daily rate of change
+ * `dailyRate` is null when there is no trend to compare against.
+ */
+export function getGoalPace(
+  goal: Goal,
+  currentValue: number,
+  dailyRate: number | null,
+  higherIsBetter: boolean,
+  now: Date = new Date()
+): GoalPace {
+  const remaining = goal.targetValue - currentValue;
+  const reached = higherIsBetter ? remaining <= 0 : remaining >= 0;
+
+  const progress = goal.startValue !== null && goal.startValue !== goal.targetValue
+    ? Math.min(1, Math.max(0, (currentValue - goal.startValue) / (goal.targetValue - goal.startValue)))
+    : null;
+
+  const deadline = goal.targetDate ? parseTargetDate(goal.targetDate) : null;
+  const daysRemaining = deadline ? Math.ceil((deadline.getTime() - now.getTime()) / MS_PER_DAY) : null;
+  const requiredPerWeek = daysRemaining !== null && daysRemaining > 0 && !reached
+    ? remaining / daysRemaining * 7
+    : null;
+
+  const actualPerWeek = dailyRate !== null ? dailyRate * 7 : null;
+  const movingToward = dailyRate !== null && dailyRate !== 0 && Math.sign(dailyRate) === Math.sign(remaining);
+  const projectedDate = !reached && movingToward
+    ? new Date(now.getTime() + remaining / dailyRate! * MS_PER_DAY)
+    : null;
+
+  let status: GoalPaceStatus;
+  if (reached) {
+    status = 'reached';
+  } else if (!deadline) {
+    status = 'no-deadline';
+  } else if (daysRemaining! <= 0) {
+    status = 'overdue';
+  } else if (!projectedDate) {
+    status = 'off-track';
+  } else {
+    status = projectedDate <= deadline ? 'on-pace' : 'behind';
+  }
+
+  return { status, actualPerWeek, requiredPerWeek, projectedDate, daysRemaining, progress };
+}
@@ -38,6 +38,38 @@ export interface HevySet {
     rpe: number | null;
 }
 
+/**
+ * Hevy routine from API (fields used here)
+ */
+export interface HevyRoutine {
+    id: string;
+    title: string;
+    folder_id: number | string | null;
+}
+
+/**
+ * Routine to create or update
+ */
+export interface HevyRoutineInput {
+    title: string;
+    notes?: string;
+    folder_id?: string;
+    exercises: Array<{
+        exercise_template_id: string;
+        superset_id?: number | null;
+        rest_seconds?: number;
+        notes?: string;
+        sets: Array<{
+            type?: 'normal' | 'warmup' | 'dropset' | 'failure';
+            weight_kg?: number | null;
+            reps?: number | null;
+            distance_meters?: number | null;
+            duration_seconds?: number | null;
+            rpe?: number | null;
+        }>;
+    }>;
+}
+
 export interface HevyExerciseTemplate {
     id: string;
     title: string;
@@ -272,25 +304,7 @@ export class HevyClient {
     /**
      * Create a new routine in Hevy
      */
-    async createRoutine(routine: {
-        title: string;
-        notes?: string;
-        folder_id?: string;
-        exercises: Array<{
-            exercise_template_id: string;
-            superset_id?: number | null;
-            rest_seconds?: number;
-            notes?: string;
-            sets: Array<{
-                type?: 'normal' | 'warmup' | 'dropset' | 'failure';
-                weight_kg?: number | null;
-                reps?: number | null;
-                distance_meters?: number | null;
-                duration_seconds?: number | null;
-                rpe?: number | null;
-            }>;
-        }>;
-    }): Promise<{ id: string; title: string }> {
+    async createRoutine(routine: HevyRoutineInput): Promise<{ id: string; title: string }> {
         const response = await this.request<{ routine: { id: string; title: string } }>('/routines', {
             method: 'POST',
             body: JSON.stringify({ routine }),
@@ -298,6 +312,35 @@ export class HevyClient {
         return response.routine;
     }
 
+    /**
+     * Replace an existing routine's title, notes and exercises (its folder can't change)
+     */
+    async updateRoutine(routineId: string, routine: Omit<HevyRoutineInput, 'folder_id'>): Promise<{ id: string; title: string }> {
+        const response = await this.request<{ routine: { id: string; title: string } }>(`/routines/${routineId}`, {
+            method: 'PUT',
+            body: JSON.stringify({ routine }),
+        });
+        return response.routine;
+    }
+
+    /**
+     * Get all routines
+     */
+    async getRoutines(): Promise<HevyRoutine[]> {
+        const routines: HevyRoutine[] = [];
+        const pageSize = 10;  // Hevy API limit is 10
+
+        for (let page = 1; page <= 100; page++) {
+            const data = await this.request<{ page: number; page_count: number; routines: HevyRoutine[] }>(
+                `/routines?page=${page}&pageSize=${pageSize}`
+            );
+            routines.push(...data.routines);
+            if (page >= data.page_count) break;
+        }
+
+        return routines;
+    }
+
     /**
      * Get all routine folders
      */
@@ -0,0 +1,38 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+    DEFAULT_UNIT_SYSTEM,
+    UNIT_SYSTEM_EVENT,
+    UNIT_SYSTEM_STORAGE_KEY,
+    UnitSystem,
+    isUnitSystem,
+} from '@/lib/units';
+
+function readUnitSystem(): UnitSystem {
+    const stored = localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY);
+    return isUnitSystem(stored) ? stored : DEFAULT_UNIT_SYSTEM;
+}
+
+function subscribe(onChange: () => void): () => void {
+    // storage covers other tabs, the custom event covers this one
+    window.addEventListener(UNIT_SYSTEM_EVENT, onChange);
+    window.addEventListener('storage', onChange);
+    return () => {
+        window.removeEventListener(UNIT_SYSTEM_EVENT, onChange);
+        window.removeEventListener('storage', onChange);
+    };
+}
+
+export function setUnitSystem(units: UnitSystem) {
+    localStorage.setItem(UNIT_SYSTEM_STORAGE_KEY, units);
+    window.dispatchEvent(new CustomEvent(UNIT_SYSTEM_EVENT));
+}
+
+/**
+ * Current display unit preference; server render and first paint use the default
+ */
+export function useUnitSystem(): [UnitSystem, (units: UnitSystem) => void] {
+    const units = useSyncExternalStore(subscribe, readUnitSystem, () => DEFAULT_UNIT_SYSTEM);
+    return [units, setUnitSystem];
+}
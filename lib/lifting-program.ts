@@ -0,0 +1,340 @@
+/**
+ * Lifting program generator
+ * Builds a mesocycle: loading weeks that ramp sets and RPE, then a deload.
+ * Loads come from each exercise's estimated 1RM (Epley via calculate1RM,
+ * RPE-adjusted when Hevy sets logged one), solved back for the target reps
+ * and RPE. As sessions are logged the next one is re-based on what was
+ * actually lifted. The active block is stored as a goal: the value is its
+ * length in weeks, the target date its last day and the start date when it
+ * was started, so lifts earlier that week don't count as block sessions.
+ */
+
+import type { Goal } from './supabase';
+import { calculate1RM } from './milestones';
+import { LiftingWorkout } from './types';
+import {
+  GeneratedExercise,
+  GeneratedLiftingWorkout,
+  GeneratedSet,
+  getExercisesForMuscleGroup,
+  getWeekStart,
+} from './workout-generator';
+
+export const PROGRAM_GOAL_KEY = 'lifting_program';
+
+export const DEFAULT_PROGRAM_WEEKS = 4;
+export const MIN_PROGRAM_WEEKS = 3;
+export const MAX_PROGRAM_WEEKS = 6;
+
+const TARGET_REPS = 8;
+const EXERCISES_PER_GROUP = 2;
+
+// Loading weeks ramp from the first values to the last; the final week deloads
+const START_SETS = 3;
+const PEAK_SETS = 5;
+const START_RPE = 7;
+const PEAK_RPE = 8.5;
+const DELOAD = { sets: 2, rpe: 6 };
+
+// One session can move an exercise's working e1RM by at most this much
+const MAX_SESSION_ADJUSTMENT = 0.075;
+
+const WEIGHT_INCREMENT_LBS = 2.5;
+
+// Three-day split over the tracked muscle groups
+const PROGRAM_DAYS: { name: string; groups: string[] }[] = [
+  { name: 'Push', groups: ['chest', 'shoulders', 'triceps'] },
+  { name: 'Legs', groups: ['quadriceps', 'hamstrings', 'glutes'] },
+  { name: 'Arms + Core', groups: ['biceps', 'core', 'shoulders'] },
+];
+
+export interface ProgramExercise extends GeneratedExercise {
+  e1rmLbs: number;           // Working estimated 1RM the loads come from
+}
+
+export interface ProgramSession extends GeneratedLiftingWorkout {
+  week: number;              // 1-based
+  day: number;               // 1-based
+  rpe: number;               // Target RPE for every working set
+  isDeload: boolean;
+  exercises: ProgramExercise[];
+}
+
+export interface LiftingProgram {
+  name: string;
+  folderName: string;        // Hevy routine folder the program is pushed to
+  startDate: string;         // Monday of week 1, YYYY-MM-DD
+  startedAt: string;         // ISO time the block was started; earlier workouts are history
+  weeks: number;
+  sessions: ProgramSession[];
+}
+
+export interface WeekScheme {
+  sets: number;
+  reps: number;
+  rpe: number;
+  isDeload: boolean;
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function roundWeight(lbs: number): number {
+  return Math.round(lbs / WEIGHT_INCREMENT_LBS) * WEIGHT_INCREMENT_LBS;
+}
+
+// ========================================
+// Loading
+// ========================================
+
+/**
+ * Sets, reps and RPE for a week of the block
+ */
+export function getWeekScheme(weekIndex: number, totalWeeks: number): WeekScheme {
+  if (weekIndex === totalWeeks - 1) {
+    return { sets: DELOAD.sets, reps: TARGET_REPS, rpe: DELOAD.rpe, isDeload: true };
+  }
+
+  const loadingWeeks = totalWeeks - 1;
+  const progress = loadingWeeks > 1 ? weekIndex / (loadingWeeks - 1) : 1;
+  return {
+    sets: Math.round(START_SETS + progress * (PEAK_SETS - START_SETS)),
+    reps: TARGET_REPS,
+    rpe: Math.round((START_RPE + progress * (PEAK_RPE - START_RPE)) * 2) / 2,
+    isDeload: false,
+  };
+}
+
+/**
+ * Weight for `reps` at an RPE, inverting the e1RM formula with reps in reserve
+ */
+export function getLoadForTarget(e1rmLbs: number, reps: number, rpe: number): number {
+  const repsToFailure = reps + (10 - rpe);
+  return roundWeight(e1rmLbs / (1 + repsToFailure / 30));
+}
+
+/**
+ * e1RM of one set; reps in reserve (10 - RPE) count as reps the lifter had left
+ * Sets without an RPE are treated as taken to failure, which errs light, unless
+ * the caller knows the RPE they were prescribed.
+ */
+function setE1rm(weightLbs: number, reps: number, rpe: number | null): number {
+  const repsInReserve = rpe !== null ? Math.max(0, 10 - rpe) : 0;
+  return calculate1RM(weightLbs, reps + repsInReserve);
+}
+
+/**
+ * e1RM of an exercise in one workout: its best working set
+ * Returns null if the workout has no weighted working sets of it.
+ */
+function getWorkoutE1rm(workout: LiftingWorkout, exerciseName: string, assumedRpe: number | null = null): number | null {
+  const exercise = workout.exercisesDetailed?.find(e => e.name === exerciseName);
+  if (!exercise) return null;
+
+  const e1rms = exercise.sets
+    .filter(set => set.type !== 'warmup' && set.weightLbs && set.reps)
+    .map(set => setE1rm(set.weightLbs as number, set.reps as number, set.rpe ?? assumedRpe));
+  return e1rms.length > 0 ? Math.max(...e1rms) : null;
+}
+
+/**
+ * Current e1RM of an exercise: the best working set of its latest session
+ */
+export function getLatestE1rm(
+  workouts: LiftingWorkout[],
+  exerciseName: string,
+  since?: Date
+): { e1rmLbs: number; date: string } | null {
+  const sorted = [...workouts].sort((a, b) => new Date(b.workoutDate).getTime() - new Date(a.workoutDate).getTime());
+
+  for (const workout of sorted) {
+    if (since && new Date(workout.workoutDate) < since) break;
+    const e1rmLbs = getWorkoutE1rm(workout, exerciseName);
+    if (e1rmLbs !== null) {
+      return { e1rmLbs, date: workout.workoutDate };
+    }
+  }
+
+  return null;
+}
+
+function buildSets(e1rmLbs: number, scheme: WeekScheme): GeneratedSet[] {
+  const weightLbs = getLoadForTarget(e1rmLbs, scheme.reps, scheme.rpe);
+  return Array.from({ length: scheme.sets }, () => ({
+    weightLbs,
+    targetReps: scheme.reps,
+    rpe: scheme.rpe,
+  }));
+}
+
+// ========================================
+// Program
+// ========================================
+
+/**
+ * The active block, if one is set
+ */
+export function getProgramGoal(goals: Goal[]): { weeks: number; startDate: Date; startedAt: Date } | null {
+  const goal = goals.find(g => g.metricKey === PROGRAM_GOAL_KEY && g.status === 'active' && g.targetDate);
+  if (!goal) return null;
+
+  const end = parseDateKey(goal.targetDate as string);
+  return {
+    weeks: goal.targetValue,
+    startDate: new Date(end.getFullYear(), end.getMonth(), end.getDate() - goal.targetValue * 7 + 1),
+    startedAt: new Date(goal.startDate),
+  };
+}
+
+/**
+ * Last day of a block, stored as its goal's target date
+ */
+export function getProgramEndDate(program: LiftingProgram): string {
+  const start = parseDateKey(program.startDate);
+  return toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + program.weeks * 7 - 1));
+}
+
+/**
+ * Build a block starting the week of `startDate`, started at `startedAt` (default now)
+ * Each day takes the most recently trained exercises for its muscle groups;
+ * groups with no weighted history are skipped. Only workouts before the block
+ * was started count, so it keeps its shape while it is being logged.
+ */
+export function generateLiftingProgram(
+  workouts: LiftingWorkout[],
+  options: { weeks?: number; startDate?: Date; startedAt?: Date } = {}
+): LiftingProgram | null {
+  const weeks = Math.min(MAX_PROGRAM_WEEKS, Math.max(MIN_PROGRAM_WEEKS, options.weeks ?? DEFAULT_PROGRAM_WEEKS));
+  const startedAt = options.startedAt ?? new Date();
+  const start = getWeekStart(options.startDate ?? startedAt);
+  const history = workouts.filter(w => new Date(w.workoutDate) < startedAt);
+
+  // Exercises and starting e1RMs per day
+  const days = PROGRAM_DAYS.map(day => {
+    const exercises: { name: string; bodyPart: string; e1rmLbs: number }[] = [];
+    day.groups.forEach(group => {
+      const candidates = Array.from(getExercisesForMuscleGroup(history, group).values())
+        .filter(e => e.heaviestWeight > 0 && !exercises.some(x => x.name === e.name))
+        .sort((a, b) => (b.recentSets[0]?.date || '').localeCompare(a.recentSets[0]?.date || ''))
+        .slice(0, EXERCISES_PER_GROUP);
+
+      candidates.forEach(e => {
+        const latest = getLatestE1rm(history, e.name);
+        exercises.push({
+          name: e.name,
+          bodyPart: group,
+          e1rmLbs: latest?.e1rmLbs ?? calculate1RM(e.heaviestWeight, e.heaviestWeightReps),
+        });
+      });
+    });
+    return { ...day, exercises };
+  }).filter(day => day.exercises.length > 0);
+
+  if (days.length === 0) return null;
+
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const folderName = `Program - ${startLabel}`;
+  const sessions: ProgramSession[] = [];
+
+  for (let w = 0; w < weeks; w++) {
+    const scheme = getWeekScheme(w, weeks);
+    days.forEach((day, d) => {
+      const exercises: ProgramExercise[] = day.exercises.map(e => ({
+        name: e.name,
+        bodyPart: e.bodyPart,
+        e1rmLbs: Math.round(e.e1rmLbs),
+        sets: buildSets(e.e1rmLbs, scheme),
+      }));
+
+      sessions.push({
+        name: `W${w + 1}D${d + 1} ${day.name}${scheme.isDeload ? ' (Deload)' : ''}`,
+        muscleGroups: day.groups,
+        exercises,
+        totalSets: exercises.reduce((sum, e) => sum + e.sets.length, 0),
+        folderName,
+        week: w + 1,
+        day: d + 1,
+        rpe: scheme.rpe,
+        isDeload: scheme.isDeload,
+      });
+    });
+  }
+
+  return {
+    name: `${weeks}-week block`,
+    folderName,
+    startDate: toDateKey(start),
+    startedAt: startedAt.toISOString(),
+    weeks,
+    sessions,
+  };
+}
+
+/**
+ * Lifting workouts logged since the block started, oldest first
+ */
+function getBlockWorkouts(program: LiftingProgram, workouts: LiftingWorkout[]): LiftingWorkout[] {
+  const startedAt = new Date(program.startedAt);
+  return workouts
+    .filter(w => new Date(w.workoutDate) >= startedAt)
+    .sort((a, b) => new Date(a.workoutDate).getTime() - new Date(b.workoutDate).getTime());
+}
+
+/**
+ * Index of the next session: one per lifting workout logged since the block started
+ * Returns null once every session is done.
+ */
+export function getNextSessionIndex(program: LiftingProgram, workouts: LiftingWorkout[]): number | null {
+  const done = getBlockWorkouts(program, workouts).length;
+  return done < program.sessions.length ? done : null;
+}
+
+/**
+ * Re-base a session's loads on what was actually lifted since the block started
+ * Each logged session moves an exercise's working e1RM towards what was
+ * lifted, capped per session so one great or bad day doesn't swing the block.
+ * Logged workouts map to sessions in order, as in getNextSessionIndex; sets
+ * without an RPE are assumed to have hit the RPE their session prescribed.
+ */
+export function adjustSessionFromPerformance(
+  program: LiftingProgram,
+  sessionIndex: number,
+  workouts: LiftingWorkout[]
+): ProgramSession {
+  const session = program.sessions[sessionIndex];
+  const logged = getBlockWorkouts(program, workouts).slice(0, sessionIndex);
+
+  const exercises = session.exercises.map(exercise => {
+    let e1rmLbs = exercise.e1rmLbs;
+    logged.forEach((workout, i) => {
+      const performed = getWorkoutE1rm(workout, exercise.name, program.sessions[i].rpe);
+      if (performed === null) return;
+      e1rmLbs *= Math.min(1 + MAX_SESSION_ADJUSTMENT, Math.max(1 - MAX_SESSION_ADJUSTMENT, performed / e1rmLbs));
+    });
+
+    const target = exercise.sets[0];
+    const weightLbs = getLoadForTarget(e1rmLbs, target.targetReps, target.rpe ?? session.rpe);
+    if (weightLbs === target.weightLbs) return exercise;
+
+    const change = weightLbs - target.weightLbs;
+    return {
+      ...exercise,
+      e1rmLbs: Math.round(e1rmLbs),
+      sets: exercise.sets.map(set => ({
+        ...set,
+        weightLbs,
+        notes: `${change > 0 ? '+' : ''}${change} lb after last session`,
+      })),
+    };
+  });
+
+  return { ...session, exercises };
+}
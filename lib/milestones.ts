@@ -183,63 +183,65 @@ export function calculateLiftingMilestones(workouts: LiftingWorkout[]): Map<stri
 // Running Calculations
 // ========================================
 
-export function calculateRunningMilestones(activities: RunningActivity[]): Map<string, RunningMilestone[]> {
-    const milestones = new Map<string, RunningMilestone[]>();
-
-    // Helper to find time at specific distance for an activity
-    // This logic must match the splits logic in WorkoutTable or reuse it
-    // Since we don't have direct access to "getTimeAtMile" from here without importing or duplicating
-    // We'll duplicate the logic for now as it's small.
-
-    const getBestTimeForDistance = (activity: RunningActivity, targetMiles: number): number | null => {
-        if (activity.distanceMiles < targetMiles) return null;
-        if (!activity.splits) return null;
-
-        // Use splits to interpolate/find time
-        // If target is exact mile (1, 2, ...), simple look up
-        // If target is fraction (5k = 3.1), we need to approximate or use average pace if we don't have granular data.
-        // The current data structure has "splits" as per-mile splits.
-
-        // Simple approach matching typical runners logic:
-        // If run is 5 miles, we have splits for mile 1, 2, 3, 4, 5.
-        // 1 mi time = valid
-        // 2 mi time = split 1 + split 2
-        // 5k (3.1m) = split 1 + split 2 + split 3 + fraction of split 4?
-
-        // For now let's stick to what WorkoutTable likely does or can do.
-        // Actually, strictly speaking, Strava API often gives "best efforts" separately.
-        // But here we only have the total activity and per-mile splits.
-        // So we can assume: Time = (Distance / Total Distance) * Total Time? No, that's average.
-        // We can assume: Sum of first N splits >= distance.
-
-        // Let's implement a "Splits Sum" approach for integer miles.
-        // For fractional (5k, 10k, Half), we will estimate based on the mile it falls in.
-
-        let time = 0;
-        let distanceCovered = 0;
-
-        // Sort splits by mile just in case
-        const sortedSplits = [...activity.splits].sort((a, b) => a.mile - b.mile);
-
-        for (const split of sortedSplits) {
-            if (distanceCovered + 1 <= targetMiles) {
-                time += split.timeSeconds;
-                distanceCovered += 1;
-            } else {
-                // Need partial mile
-                const remaining = targetMiles - distanceCovered;
-                if (remaining > 0) {
-                    // Assume constant pace for this split
-                    time += split.timeSeconds * remaining;
-                    distanceCovered += remaining;
-                }
-                break;
+/**
+ * Time at a specific distance for an activity
+ * Runs synced with streams carry true best efforts (fastest stretch anywhere in the run);
+ * older runs fall back to summing mile splits from the start.
+ */
+export function getBestTimeForDistance(activity: RunningActivity, dist: typeof RUNNING_DISTANCES[number]): number | null {
+    const targetMiles = dist.miles;
+    if (activity.bestEfforts) return activity.bestEfforts[dist.key] ?? null;
+    if (activity.distanceMiles < targetMiles) return null;
+    if (!activity.splits) return null;
+
+    // Use splits to interpolate/find time
+    // If target is exact mile (1, 2, ...), simple look up
+    // If target is fraction (5k = 3.1), we need to approximate or use average pace if we don't have granular data.
+    // The current data structure has "splits" as per-mile splits.
+
+    // Simple approach matching typical runners logic:
+    // If run is 5 miles, we have splits for mile 1, 2, 3, 4, 5.
+    // 1 mi time = valid
+    // 2 mi time = split 1 + split 2
+    // 5k (3.1m) = split 1 + split 2 + split 3 + fraction of split 4?
+
+    // For now let's stick to what WorkoutTable likely does or can do.
+    // Actually, strictly speaking, Strava API often gives "best efforts" separately.
+    // But here we only have the total activity and per-mile splits.
+    // So we can assume: Time = (Distance / Total Distance) * Total Time? No, that's average.
+    // We can assume: Sum of first N splits >= distance.
+
+    // Let's implement a "Splits Sum" approach for integer miles.
+    // For fractional (5k, 10k, Half), we will estimate based on the mile it falls in.
+
+    let time = 0;
+    let distanceCovered = 0;
+
+    // Sort splits by mile just in case
+    const sortedSplits = [...activity.splits].sort((a, b) => a.mile - b.mile);
+
+    for (const split of sortedSplits) {
+        if (distanceCovered + 1 <= targetMiles) {
+            time += split.timeSeconds;
+            distanceCovered += 1;
+        } else {
+            // Need partial mile
+            const remaining = targetMiles - distanceCovered;
+            if (remaining > 0) {
+                // Assume constant pace for this split
+                time += split.timeSeconds * remaining;
+                distanceCovered += remaining;
             }
+            break;
         }
+    }
+
+    if (distanceCovered < targetMiles) return null; // Logic check
+    return time;
+}
 
-        if (distanceCovered < targetMiles) return null; // Logic check
-        return time;
-    };
+export function calculateRunningMilestones(activities: RunningActivity[]): Map<string, RunningMilestone[]> {
+    const milestones = new Map<string, RunningMilestone[]>();
 
     const allPerformances: Record<string, Array<{ time: number, date: string, id: string }>> = {};
 
@@ -250,7 +252,7 @@ export function calculateRunningMilestones(activities: RunningActivity[]): Map<s
 
     for (const activity of activities) {
         RUNNING_DISTANCES.forEach(dist => {
-            const time = getBestTimeForDistance(activity, dist.miles);
+            const time = getBestTimeForDistance(activity, dist);
             if (time) {
                 allPerformances[dist.key].push({
                     time,
@@ -0,0 +1,213 @@
+/**
+ * Personalized normal ranges
+ * METRIC_DEFINITIONS carries fixed ranges that only fit one profile. Here ranges are
+ * computed from the scan's profile (sex, age, height) using published reference
+ * values, and a manual per-metric override (stored in Supabase) beats both.
+ */
+
+import { BIAEntry, METRIC_DEFINITIONS, NormalRange } from './types';
+import { parseHeightInches } from './anomaly-detection';
+import { resolveHeightInches } from './reconciliation';
+import type { RangeOverride } from './supabase';
+
+export type RangeSource = 'override' | 'reference' | 'default';
+
+export interface PersonalRange extends NormalRange {
+  source: RangeSource;
+  basis?: string;    // Reference the bounds come from, for tooltips
+}
+
+export type PersonalRanges = Partial<Record<keyof BIAEntry, PersonalRange>>;
+
+export type Sex = 'male' | 'female';
+
+export interface RangeProfile {
+  sex: Sex | null;
+  age: number | null;
+  heightInches: number | null;
+}
+
+const LB_PER_KG = 2.20462;
+const M_PER_INCH = 0.0254;
+
+// ========================================
+// Reference tables
+// ========================================
+
+// Gallagher et al. 2000 (Am J Clin Nutr 72:694): healthy body fat % by sex and age
+const BODY_FAT_BANDS: Record<Sex, Array<{ maxAge: number; min: number; max: number }>> = {
+  male: [
+    { maxAge: 39, min: 8, max: 20 },
+    { maxAge: 59, min: 11, max: 22 },
+    { maxAge: Infinity, min: 13, max: 25 },
+  ],
+  female: [
+    { maxAge: 39, min: 21, max: 33 },
+    { maxAge: 59, min: 23, max: 34 },
+    { maxAge: Infinity, min: 24, max: 36 },
+  ],
+};
+
+// WHO adult BMI classification
+const BMI_NORMAL: NormalRange = { min: 18.5, max: 25 };
+
+// InBody result-sheet standards: standard weight is BMI 22; weight is normal at 85–115%
+// of it, fat mass at 80–160% of the standard fat share, muscle and FFM at 90–110%
+const STANDARD_BMI = 22;
+const STANDARD_FAT_PCT: Record<Sex, number> = { male: 15, female: 23 };
+const STANDARD_SMM_SHARE: Record<Sex, number> = { male: 0.48, female: 0.42 };
+const BAND = {
+  weight: [0.85, 1.15],
+  fatMass: [0.8, 1.6],
+  lean: [0.9, 1.1],
+  mineral: [0.75, 1.25],
+} as const;
+
+// Reference-man fat-free mass composition (Wang et al. 1992): water, protein, mineral shares
+const FFM_WATER = 0.73;
+const FFM_PROTEIN = 0.197;
+const FFM_MINERAL = 0.068;
+
+// Mifflin–St Jeor (1990) BMR at standard weight, ±8%
+const BMR_BAND = [0.92, 1.08] as const;
+
+// AWGS 2019 low-muscle cutoffs for appendicular muscle / height² (kg/m²)
+const SMI_NORMAL: Record<Sex, NormalRange> = {
+  male: { min: 7.0, max: 8.6 },
+  female: { min: 5.7, max: 7.0 },
+};
+
+// WHO waist–hip ratio thresholds for abdominal obesity
+const WHR_MAX: Record<Sex, number> = { male: 0.9, female: 0.85 };
+
+// Typical total body water share of weight
+const BODY_WATER_PCT: Record<Sex, NormalRange> = {
+  male: { min: 50, max: 65 },
+  female: { min: 45, max: 60 },
+};
+
+// ========================================
+// Profile
+// ========================================
+
+function parseSex(gender: string | undefined): Sex | null {
+  const g = (gender || '').trim().toLowerCase();
+  if (g.startsWith('f') || g === 'w') return 'female';
+  if (g.startsWith('m')) return 'male';
+  return null;
+}
+
+/**
+ * Profile the ranges are computed for, read from a scan
+ * Height prefers the one the scanner's own BMI/SMI agree on (see resolveHeightInches).
+ */
+export function getRangeProfile(entry: BIAEntry | null | undefined): RangeProfile {
+  if (!entry) return { sex: null, age: null, heightInches: null };
+  return {
+    sex: parseSex(entry.gender),
+    age: entry.age > 0 ? entry.age : null,
+    heightInches: resolveHeightInches(entry) ?? parseHeightInches(entry.height),
+  };
+}
+
+// ========================================
+// Range computation
+// ========================================
+
+function scaled(value: number, [low, high]: readonly [number, number]): NormalRange {
+  return { min: round(value * low), max: round(value * high) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Reference range for one metric, or null when the profile lacks what it depends on
+ */
+export function getReferenceRange(key: keyof BIAEntry, profile: RangeProfile): PersonalRange | null {
+  const { sex, age, heightInches } = profile;
+
+  if (key === 'bmi') return { ...BMI_NORMAL, source: 'reference', basis: 'WHO' };
+  if (!sex) return null;
+
+  if (key === 'bodyFatPercentage') {
+    if (age === null) return null;
+    const band = BODY_FAT_BANDS[sex].find(b => age <= b.maxAge)!;
+    return { min: band.min, max: band.max, source: 'reference', basis: 'Gallagher 2000' };
+  }
+  if (key === 'smi') return { ...SMI_NORMAL[sex], source: 'reference', basis: 'AWGS 2019' };
+  if (key === 'waistHipRatio') return { min: 0, max: WHR_MAX[sex], source: 'reference', basis: 'WHO' };
+  if (key === 'bodyWaterPercentage') return { ...BODY_WATER_PCT[sex], source: 'reference' };
+
+  if (!heightInches) return null;
+  const heightM = heightInches * M_PER_INCH;
+  const standardKg = STANDARD_BMI * heightM * heightM;
+  const standardLb = standardKg * LB_PER_KG;
+  const standardFfmLb = standardLb * (1 - STANDARD_FAT_PCT[sex] / 100);
+
+  const reference = (range: NormalRange, basis: string): PersonalRange => ({ ...range, source: 'reference', basis });
+
+  switch (key) {
+    case 'weight':
+      return reference(scaled(standardLb, BAND.weight), 'Standard weight (BMI 22)');
+    case 'bodyFatMass':
+      return reference(scaled(standardLb * STANDARD_FAT_PCT[sex] / 100, BAND.fatMass), 'InBody standard');
+    case 'skeletalMuscle':
+      return reference(scaled(standardLb * STANDARD_SMM_SHARE[sex], BAND.lean), 'InBody standard');
+    case 'skeletalMusclePercentage':
+      return reference(scaled(STANDARD_SMM_SHARE[sex] * 100, BAND.lean), 'InBody standard');
+    case 'lbm':
+    case 'fatFreeMass':
+      return reference(scaled(standardFfmLb, BAND.lean), 'InBody standard');
+    case 'bodyWater':
+      // Liters: 1 kg of water per liter
+      return reference(scaled(standardFfmLb / LB_PER_KG * FFM_WATER, BAND.lean), 'Wang 1992');
+    case 'protein':
+      return reference(scaled(standardFfmLb * FFM_PROTEIN, BAND.lean), 'Wang 1992');
+    case 'boneMass':
+      return reference(scaled(standardFfmLb * FFM_MINERAL, BAND.mineral), 'Wang 1992');
+    case 'bmr': {
+      if (age === null) return null;
+      const bmr = 10 * standardKg + 6.25 * heightM * 100 - 5 * age + (sex === 'male' ? 5 : -161);
+      return reference({ min: Math.round(bmr * BMR_BAND[0]), max: Math.round(bmr * BMR_BAND[1]) }, 'Mifflin–St Jeor');
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Normal range for every metric: manual override, then reference table, then the
+ * fixed METRIC_DEFINITIONS range
+ */
+export function getPersonalRanges(profile: RangeProfile, overrides: RangeOverride[] = []): PersonalRanges {
+  const overrideMap = new Map(overrides.map(o => [o.metricKey, o]));
+  const ranges: PersonalRanges = {};
+
+  for (const metric of METRIC_DEFINITIONS) {
+    const override = overrideMap.get(metric.key);
+    if (override) {
+      ranges[metric.key] = { min: override.min, max: override.max, source: 'override' };
+      continue;
+    }
+    const reference = getReferenceRange(metric.key, profile);
+    if (reference) {
+      ranges[metric.key] = reference;
+    } else if (metric.normalRange) {
+      ranges[metric.key] = { ...metric.normalRange, source: 'default' };
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Nearest range bound when a value sits outside the range, for "time to normal" forecasts
+ */
+export function getRangeTarget(value: number, range: NormalRange | undefined): number | null {
+  if (!range || value === 0) return null;
+  if (value < range.min) return range.min;
+  if (value > range.max) return range.max;
+  return null;
+}
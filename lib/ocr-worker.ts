@@ -0,0 +1,133 @@
+/**
+ * Server-side OCR worker for the pending image queue
+ * Images uploaded via /api/upload are processed here instead of waiting
+ * for the dashboard to open: OCR -> parse -> validate -> auto-correct -> save.
+ */
+
+import os from 'os';
+import { recognize } from './ocr';
+import { parseAndCorrect } from './pdf-parser';
+import {
+  claimPendingImage,
+  downloadPendingImage,
+  getDuePendingImageIds,
+  getEntriesFromDb,
+  getPendingImage,
+  PendingImage,
+  saveEntryToDb,
+  saveOcrDebug,
+  updatePendingImage,
+} from './supabase';
+
+export const OCR_RETRY = {
+  MAX_ATTEMPTS: 5,
+  BASE_DELAY_MS: 60 * 1000,          // 1 min, then 2, 4, 8...
+  PROCESSING_LEASE_MS: 10 * 60 * 1000, // Reclaim rows stuck in 'processing' after 10 min
+} as const;
+
+/**
+ * Backoff before the next attempt, doubling after every failure
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return OCR_RETRY.BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+/**
+ * Process a single queued image
+ * Returns the row's state afterwards, or null if it does not exist
+ */
+export async function processPendingImage(id: string): Promise<PendingImage | null> {
+  const leaseUntil = new Date(Date.now() + OCR_RETRY.PROCESSING_LEASE_MS);
+  const claimed = await claimPendingImage(id, leaseUntil, OCR_RETRY.MAX_ATTEMPTS);
+
+  // Already done, failed, backing off, held by another worker or out of attempts
+  if (!claimed) return getPendingImage(id);
+
+  if (!claimed.data && !claimed.storagePath) {
+    await updatePendingImage(id, { status: 'failed', lastError: 'Image data missing' });
+    return getPendingImage(id);
+  }
+
+  try {
+    console.log(`[OCR] Processing pending image ${id} (attempt ${claimed.attempts})`);
+
+    const image = claimed.data
+      ? Buffer.from(claimed.data, 'base64')
+      : await downloadPendingImage(claimed.storagePath as string);
+    if (!image) {
+      throw new Error(`Could not download ${claimed.storagePath} from storage`);
+    }
+
+    const { text, words } = await recognize(image, {
+      cachePath: os.tmpdir(),
+    });
+
+    // Save raw OCR text for debugging
+    await saveOcrDebug(id, text);
+
+    const history = await getEntriesFromDb();
+    const { entry, validationIssues } = parseAndCorrect(text, words, history);
+
+    const hasData = entry.weight > 0 || entry.bodyFatPercentage > 0 || entry.fitnessScore > 0;
+    if (!hasData) {
+      // Same image will parse the same way - no point retrying
+      await updatePendingImage(id, {
+        status: 'failed',
+        lastError: 'No BIA data found in image',
+        processedAt: new Date().toISOString(),
+      });
+      return getPendingImage(id);
+    }
+
+    await saveEntryToDb(entry);
+
+    await updatePendingImage(id, {
+      status: 'done',
+      entryId: entry.id,
+      validationIssues,
+      lastError: null,
+      processedAt: new Date().toISOString(),
+      clearData: true,
+    });
+    console.log(`[OCR] Saved entry ${entry.id} from pending image ${id} (${validationIssues.length} issues)`);
+  } catch (err) {
+    // Counted when the row was claimed
+    const { attempts } = claimed;
+    const message = err instanceof Error ? err.message : String(err);
+    const giveUp = attempts >= OCR_RETRY.MAX_ATTEMPTS;
+
+    console.error(`[OCR] Attempt ${attempts} failed for pending image ${id}:`, err);
+
+    await updatePendingImage(id, {
+      status: giveUp ? 'failed' : 'pending',
+      attempts,
+      lastError: message,
+      nextAttemptAt: giveUp ? null : new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+    });
+  }
+
+  return getPendingImage(id);
+}
+
+/**
+ * Drain queued images that are due, oldest first
+ */
+export async function processDuePendingImages(limit: number = 5): Promise<{
+  processed: number;
+  done: number;
+  failed: number;
+  retrying: number;
+}> {
+  const results = { processed: 0, done: 0, failed: 0, retrying: 0 };
+  const ids = await getDuePendingImageIds(limit);
+
+  for (const id of ids) {
+    const row = await processPendingImage(id);
+    results.processed++;
+    if (row?.status === 'done') results.done++;
+    else if (row?.status === 'failed') results.failed++;
+    else results.retrying++;
+  }
+
+  return results;
+}
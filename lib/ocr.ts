@@ -0,0 +1,45 @@
+import Tesseract from 'tesseract.js';
+import { OcrWord } from './types';
+
+/**
+ * Run Tesseract on an image, keeping word-level confidence and bounding boxes
+ * Works in the browser (File/Blob) and on the server (Buffer)
+ */
+export async function recognize(
+  image: Tesseract.ImageLike,
+  options: {
+    onProgress?: (progress: number) => void;
+    cachePath?: string;
+  } = {}
+): Promise<{ text: string; words: OcrWord[] }> {
+  const worker = await Tesseract.createWorker('eng', 1, {
+    ...(options.cachePath ? { cachePath: options.cachePath } : {}),
+    logger: (m) => {
+      if (m.status === 'recognizing text') {
+        options.onProgress?.(m.progress);
+      }
+    },
+  });
+
+  try {
+    const result = await worker.recognize(image, {}, { text: true, blocks: true });
+
+    // Flatten blocks > paragraphs > lines > words, normalising confidence to 0-1
+    const words: OcrWord[] = (result.data.blocks || []).flatMap(block =>
+      block.paragraphs.flatMap(paragraph =>
+        paragraph.lines.flatMap(line =>
+          line.words.map(word => ({
+            text: word.text,
+            confidence: word.confidence / 100,
+            bbox: word.bbox,
+          }))
+        )
+      )
+    );
+
+    console.log('Image OCR extracted text length:', result.data.text.length, 'words:', words.length);
+    return { text: result.data.text, words };
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * BIA Parser Regression Harness
+ * Runs parseBIAReport + autoCorrectEntry over saved OCR samples and
+ * scores every expected field, so regex changes can be checked against
+ * real scans before they ship.
+ */
+
+import { autoCorrectEntry, parseBIAReport } from './pdf-parser';
+import { BIAEntry, SegmentalData } from './types';
+
+// ========================================
+// Types
+// ========================================
+
+export interface ParserFixture {
+  id: string;
+  description?: string;
+  source?: {
+    ocrDebugId?: string;   // ocr_debug row the raw text came from
+    entryId?: string;      // bia_entries row used as expected values
+    promotedAt?: string;
+  };
+  rawText: string;
+  previous?: BIAEntry | null;  // Enables the auto-correct stage
+  expected: Partial<BIAEntry>;
+}
+
+export type ParserStage = 'parsed' | 'corrected';
+
+export interface FieldResult {
+  field: keyof BIAEntry;
+  expected: unknown;
+  actual: unknown;
+  pass: boolean;
+}
+
+export interface FixtureResult {
+  fixtureId: string;
+  scannerProfile?: string;
+  stages: Record<ParserStage, FieldResult[]>;
+}
+
+export interface FieldAccuracy {
+  field: keyof BIAEntry;
+  total: number;
+  parsed: number;     // Fixtures where the raw parse matched
+  corrected: number;  // Fixtures where the auto-corrected entry matched
+}
+
+export interface RegressionReport {
+  fixtures: FixtureResult[];
+  fields: FieldAccuracy[];
+  overall: Record<ParserStage, number>;  // 0-1 share of all field checks passing
+}
+
+// Fields that change on every parse and are never compared
+const IGNORED_FIELDS: Array<keyof BIAEntry> = ['id', 'provenance', 'scannerConfidence'];
+
+// Absolute tolerance for numeric comparisons (OCR rounding, lb/kg conversion)
+export const DEFAULT_TOLERANCE = 0.05;
+
+// ========================================
+// Comparison
+// ========================================
+
+function numbersMatch(expected: number, actual: unknown, tolerance: number): boolean {
+  return typeof actual === 'number' && Math.abs(expected - actual) <= tolerance;
+}
+
+function valuesMatch(expected: unknown, actual: unknown, tolerance: number): boolean {
+  if (typeof expected === 'number') {
+    return numbersMatch(expected, actual, tolerance);
+  }
+  if (expected && typeof expected === 'object' && 'lb' in expected) {
+    const exp = expected as SegmentalData;
+    const act = actual as SegmentalData | undefined;
+    return !!act && numbersMatch(exp.lb, act.lb, tolerance) && numbersMatch(exp.percent, act.percent, tolerance);
+  }
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    // Dates compare by calendar day, other strings case-insensitively
+    if (/^\d{4}-\d{2}-\d{2}T/.test(expected)) return expected.slice(0, 10) === actual.slice(0, 10);
+    return expected.toLowerCase() === actual.toLowerCase();
+  }
+  return expected === actual;
+}
+
+function compareEntry(expected: Partial<BIAEntry>, actual: BIAEntry, tolerance: number): FieldResult[] {
+  return (Object.keys(expected) as Array<keyof BIAEntry>)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .map(field => ({
+      field,
+      expected: expected[field],
+      actual: actual[field],
+      pass: valuesMatch(expected[field], actual[field], tolerance),
+    }));
+}
+
+// ========================================
+// Harness
+// ========================================
+
+export function runFixture(fixture: ParserFixture, tolerance: number = DEFAULT_TOLERANCE): FixtureResult {
+  const parsed = parseBIAReport(fixture.rawText);
+  const corrected = autoCorrectEntry(parsed, fixture.previous ?? null) ?? parsed;
+
+  return {
+    fixtureId: fixture.id,
+    scannerProfile: parsed.scannerProfile,
+    stages: {
+      parsed: compareEntry(fixture.expected, parsed, tolerance),
+      corrected: compareEntry(fixture.expected, corrected, tolerance),
+    },
+  };
+}
+
+/**
+ * Run every fixture and aggregate accuracy per field
+ */
+export function runParserRegression(
+  fixtures: ParserFixture[],
+  tolerance: number = DEFAULT_TOLERANCE
+): RegressionReport {
+  const results = fixtures.map(f => runFixture(f, tolerance));
+  const byField = new Map<keyof BIAEntry, FieldAccuracy>();
+  const totals = { checks: 0, parsed: 0, corrected: 0 };
+
+  for (const result of results) {
+    result.stages.parsed.forEach((parsedField, i) => {
+      const correctedField = result.stages.corrected[i];
+      const acc = byField.get(parsedField.field) ?? { field: parsedField.field, total: 0, parsed: 0, corrected: 0 };
+      acc.total++;
+      totals.checks++;
+      if (parsedField.pass) {
+        acc.parsed++;
+        totals.parsed++;
+      }
+      if (correctedField.pass) {
+        acc.corrected++;
+        totals.corrected++;
+      }
+      byField.set(parsedField.field, acc);
+    });
+  }
+
+  return {
+    fixtures: results,
+    fields: [...byField.values()].sort((a, b) => a.corrected / a.total - b.corrected / b.total),
+    overall: {
+      parsed: totals.checks > 0 ? totals.parsed / totals.checks : 1,
+      corrected: totals.checks > 0 ? totals.corrected / totals.checks : 1,
+    },
+  };
+}
+
+/**
+ * Expected values for a new fixture: everything except per-parse metadata
+ */
+export function toExpected(entry: BIAEntry): Partial<BIAEntry> {
+  const expected: Partial<BIAEntry> = { ...entry };
+  for (const field of IGNORED_FIELDS) {
+    delete expected[field];
+  }
+  return expected;
+}
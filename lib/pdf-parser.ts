@@ -1,9 +1,18 @@
-import { BIAEntry, SegmentalData } from './types';
+import { BIAEntry, FieldProvenance, OcrWord, ProvenanceMap, SegmentalData } from './types';
 import { v4 as uuidv4 } from 'uuid';
-
-function extractSegmentalData(lb: number, percent: number): SegmentalData {
-  return { lb, percent };
-}
+import {
+  DatePattern,
+  FieldSpec,
+  MassUnit,
+  ScannerFieldKey,
+  ScannerProfile,
+  SegmentalLayout,
+  SegmentalSectionSpec,
+  detectScannerProfile,
+  getScannerProfile,
+} from './scanner-profiles';
+import { ANOMALY_THRESHOLDS, getMetricExpectation, validateAgainstHistory } from './anomaly-detection';
+import { reconcileEntry } from './reconciliation';
 
 export interface ValidationIssue {
   metric: string;
@@ -11,6 +20,10 @@ export interface ValidationIssue {
   previous: number;
   percentChange: number;
   status: 'warning' | 'error';
+  kind?: 'trend' | 'identity' | 'missing';
+  expected?: number;     // Value the history model predicted
+  zScore?: number;       // Standard deviations from expected (trend issues)
+  explanation?: string;
 }
 
 export interface ParseResult {
@@ -19,30 +32,37 @@ export interface ParseResult {
   hasIssues: boolean;
 }
 
-/**
- * Validates parsed entry against previous entry
- * Flags metrics that deviate ±10% from previous values
- */
 /**
  * Attempts to auto-correct obvious OCR errors
+ * History (newest or oldest first) sets how close a corrected value must land;
+ * without it the previous entry alone is used.
  * Returns corrected entry if changes were made, null otherwise
  */
-export function autoCorrectEntry(entry: BIAEntry, previous: BIAEntry | null): BIAEntry | null {
+export function autoCorrectEntry(
+  entry: BIAEntry,
+  previous: BIAEntry | null,
+  history: BIAEntry[] = previous ? [previous] : []
+): BIAEntry | null {
   if (!previous) return null;
 
   let corrected = false;
   const correctedEntry = JSON.parse(JSON.stringify(entry)) as BIAEntry;
 
   // Check for 10x digit errors (e.g., 231 vs 23.2)
-  const checkAndFixDecimal = (value: number, prevValue: number): number | null => {
+  const checkAndFixDecimal = (metric: keyof BIAEntry, value: number, prevValue: number): number | null => {
     if (value === 0 || prevValue === 0) return null;
     const ratio = value / prevValue;
 
-    // If value is ~10x larger and dividing by 10 gets us within 10%, fix it
+    // If value is ~10x larger and dividing by 10 lands where the history expects it, fix it
     if (ratio > 9 && ratio < 11) {
       const correctedVal = value / 10;
-      const newRatio = Math.abs((correctedVal - prevValue) / prevValue);
-      if (newRatio < 0.1) return correctedVal;
+      const expectation = getMetricExpectation(metric, entry.date, history);
+      if (expectation && expectation.sd > 0) {
+        const z = Math.abs(correctedVal - expectation.expected) / expectation.sd;
+        if (z <= ANOMALY_THRESHOLDS.WARNING_Z) return correctedVal;
+      } else if (Math.abs((correctedVal - prevValue) / prevValue) < 0.1) {
+        return correctedVal;
+      }
     }
     return null;
   };
@@ -61,7 +81,7 @@ export function autoCorrectEntry(entry: BIAEntry, previous: BIAEntry | null): BI
     const prevValue = Number(previous[metric]) || 0;
 
     if (value > 0 && prevValue > 0) {
-      const fixed = checkAndFixDecimal(value, prevValue);
+      const fixed = checkAndFixDecimal(metric, value, prevValue);
       if (fixed !== null) {
         (correctedEntry[metric] as any) = fixed;
         corrected = true;
@@ -81,7 +101,7 @@ export function autoCorrectEntry(entry: BIAEntry, previous: BIAEntry | null): BI
     const prevSeg = previous[metric] as SegmentalData;
 
     if (seg && prevSeg && seg.lb > 0 && prevSeg.lb > 0) {
-      const fixed = checkAndFixDecimal(seg.lb, prevSeg.lb);
+      const fixed = checkAndFixDecimal(metric, seg.lb, prevSeg.lb);
       if (fixed !== null) {
         seg.lb = fixed;
         corrected = true;
@@ -90,24 +110,14 @@ export function autoCorrectEntry(entry: BIAEntry, previous: BIAEntry | null): BI
     }
   }
 
-  // 3. Recalculate BMI if it seems off
-  // BMI = weight (lb) / (height (inches))^2 * 703
-  if (correctedEntry.weight > 0 && correctedEntry.bmi > 0) {
-    const expectedBMI = correctedEntry.bmi;
-    const prevExpectedBMI = previous.bmi;
-
-    // If BMI changed drastically but weight didn't (same day), recalculate
-    const bmiRatio = Math.abs((expectedBMI - prevExpectedBMI) / prevExpectedBMI);
-    const weightRatio = Math.abs((correctedEntry.weight - previous.weight) / previous.weight);
-
-    // If BMI changed way more than weight, something's wrong
-    if (bmiRatio > 0.5 && weightRatio < 0.05) {
-      // Weight is stable but BMI jumped - likely OCR error
-      // Estimate BMI should be similar to previous
-      const estimatedBMI = prevExpectedBMI + (weightRatio * prevExpectedBMI * 0.5);
-      correctedEntry.bmi = parseFloat(estimatedBMI.toFixed(1));
-      corrected = true;
-      console.log(`Auto-corrected BMI: ${expectedBMI} -> ${correctedEntry.bmi}`);
+  // 3. Re-check body-composition identities with the previous scan's constants
+  // (BMI vs height, fat + lean vs weight, segmental totals)
+  const reconciled = reconcileEntry(correctedEntry, previous);
+  if (reconciled.changes.length > 0) {
+    Object.assign(correctedEntry, reconciled.entry);
+    corrected = true;
+    for (const change of reconciled.changes) {
+      console.log(`Reconciled ${change.field}: ${change.replaced ?? 0} -> ${change.value} (${change.relation})`);
     }
   }
 
@@ -134,468 +144,468 @@ export function autoCorrectEntry(entry: BIAEntry, previous: BIAEntry | null): BI
   return corrected ? correctedEntry : null;
 }
 
-export function validateAgainstPrevious(parsed: BIAEntry, previous: BIAEntry | null): ValidationIssue[] {
-  if (!previous) return [];
+/**
+ * Full OCR-text pipeline: parse, validate against the entry history,
+ * auto-correct when issues are found and re-validate the corrected entry
+ */
+export function parseAndCorrect(
+  text: string,
+  words: OcrWord[],
+  history: BIAEntry[]
+): { entry: BIAEntry; validationIssues: ValidationIssue[] } {
+  let entry = parseBIAReport(text, { words });
+
+  const earlier = history
+    .filter(e => new Date(e.date).getTime() < new Date(entry.date).getTime())
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  if (earlier.length === 0) return { entry, validationIssues: [] };
+
+  const initialIssues = validateAgainstHistory(entry, earlier);
+  if (initialIssues.length === 0) return { entry, validationIssues: [] };
+
+  console.log(`Found ${initialIssues.length} validation issues, attempting auto-correction...`);
+
+  const corrected = autoCorrectEntry(entry, earlier[0], earlier);
+  if (!corrected) return { entry, validationIssues: initialIssues };
+
+  entry = corrected;
+  const remainingIssues = validateAgainstHistory(entry, earlier);
+  console.log(`After auto-correction: ${remainingIssues.length} issues remaining`);
+  return { entry, validationIssues: remainingIssues };
+}
 
-  const issues: ValidationIssue[] = [];
-  const threshold = 0.1; // ±10%
+const LB_PER_KG = 2.20462;
 
-  const numericMetrics: Array<keyof BIAEntry> = [
-    'weight', 'bmi', 'bodyFatPercentage', 'visceralFat', 'skeletalMuscle',
-    'bodyWater', 'protein', 'boneMass', 'bodyFatMass', 'softLeanMass', 'fatFreeMass', 'lbm', 'bmr',
-    'metabolicAge', 'subcutaneousFatPercentage', 'muscleMassPercentage', 'skeletalMusclePercentage',
-    'boneMassPercentage', 'proteinPercentage', 'bodyWaterPercentage', 'smi', 'waistHipRatio',
-    'fitnessScore'
-  ];
+// Fields below this OCR confidence are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
 
-  for (const metric of numericMetrics) {
-    const parsedVal = Number(parsed[metric]) || 0;
-    const prevVal = Number(previous[metric]) || 0;
-
-    // Skip if either value is 0 or missing
-    if (parsedVal === 0 || prevVal === 0) {
-      // Special case: flag if previous had value but parsed doesn't
-      if (prevVal > 0 && parsedVal === 0) {
-        issues.push({
-          metric,
-          parsed: parsedVal,
-          previous: prevVal,
-          percentChange: -100,
-          status: 'error'
-        });
-      }
-      continue;
-    }
+// Fields reported as a mass, converted to lb when a profile reads in kg
+const MASS_FIELDS: ScannerFieldKey[] = [
+  'weight', 'skeletalMuscle', 'protein', 'boneMass', 'bodyFatMass', 'softLeanMass', 'fatFreeMass', 'lbm',
+];
 
-    const percentChange = ((parsedVal - prevVal) / prevVal);
-    const absPctChange = Math.abs(percentChange);
+const SEGMENTAL_REGION_LABELS = {
+  leftUpper: /(?:Left\s*Arm|\bLA\b)/i,
+  rightUpper: /(?:Right\s*Arm|\bRA\b)/i,
+  trunk: /Trunk/i,
+  leftLower: /(?:Left\s*Leg|\bLL\b)/i,
+  rightLower: /(?:Right\s*Leg|\bRL\b)/i,
+} as const;
 
-    if (absPctChange > threshold) {
-      issues.push({
-        metric,
-        parsed: parsedVal,
-        previous: prevVal,
-        percentChange: percentChange * 100,
-        status: absPctChange > 0.5 ? 'error' : 'warning' // >50% change is error
-      });
-    }
-  }
+type SegmentalRegion = keyof typeof SEGMENTAL_REGION_LABELS;
 
-  // Check segmental metrics (these are objects)
-  const segmentalMetrics: Array<{
-    key: keyof BIAEntry;
-    label: string;
-  }> = [
-    { key: 'muscleLeftArm', label: 'Muscle Left Arm' },
-    { key: 'muscleRightArm', label: 'Muscle Right Arm' },
-    { key: 'muscleTrunk', label: 'Muscle Trunk' },
-    { key: 'muscleLeftLeg', label: 'Muscle Left Leg' },
-    { key: 'muscleRightLeg', label: 'Muscle Right Leg' },
-    { key: 'fatLeftArm', label: 'Fat Left Arm' },
-    { key: 'fatRightArm', label: 'Fat Right Arm' },
-    { key: 'fatTrunk', label: 'Fat Trunk' },
-    { key: 'fatLeftLeg', label: 'Fat Left Leg' },
-    { key: 'fatRightLeg', label: 'Fat Right Leg' },
-  ];
+interface TextSpan {
+  start: number;
+  end: number;
+}
 
-  for (const seg of segmentalMetrics) {
-    const parsedSeg = parsed[seg.key] as SegmentalData;
-    const prevSeg = previous[seg.key] as SegmentalData;
+interface RegionReading {
+  data: SegmentalData;
+  span?: TextSpan;
+}
 
-    if (!parsedSeg || !prevSeg) continue;
+type SegmentalRegions = Record<SegmentalRegion, RegionReading>;
 
-    const parsedLb = parsedSeg.lb || 0;
-    const prevLb = prevSeg.lb || 0;
+interface LocatedWord extends OcrWord {
+  start: number;
+  end: number;
+}
 
-    // Skip if both are 0
-    if (parsedLb === 0 && prevLb === 0) continue;
+export interface ParseOptions {
+  profileId?: string;  // Skip detection and force a scanner profile
+  words?: OcrWord[];   // Word-level OCR output used to build provenance
+}
 
-    // Flag if previous had value but parsed doesn't
-    if (prevLb > 0 && parsedLb === 0) {
-      issues.push({
-        metric: seg.label,
-        parsed: parsedLb,
-        previous: prevLb,
-        percentChange: -100,
-        status: 'error'
-      });
-      continue;
-    }
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
 
-    // Flag if new value exists but previous didn't (less critical, could be new data)
-    if (prevLb === 0 && parsedLb > 0) {
-      continue; // Don't flag new data appearing
-    }
+function emptyRegions(): SegmentalRegions {
+  return {
+    leftUpper: { data: { lb: 0, percent: 0 } },
+    rightUpper: { data: { lb: 0, percent: 0 } },
+    trunk: { data: { lb: 0, percent: 0 } },
+    leftLower: { data: { lb: 0, percent: 0 } },
+    rightLower: { data: { lb: 0, percent: 0 } },
+  };
+}
 
-    // Check percentage change
-    if (prevLb > 0) {
-      const percentChange = ((parsedLb - prevLb) / prevLb);
-      const absPctChange = Math.abs(percentChange);
-
-      if (absPctChange > threshold) {
-        issues.push({
-          metric: seg.label,
-          parsed: parsedLb,
-          previous: prevLb,
-          percentChange: percentChange * 100,
-          status: absPctChange > 0.5 ? 'error' : 'warning'
-        });
-      }
-    }
+function matchFirst(text: string, patterns: RegExp[]): RegExpMatchArray | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match;
   }
+  return null;
+}
 
-  return issues;
+// Offsets of a capture group inside the full text (first occurrence within the match)
+function groupSpan(match: RegExpMatchArray, group: number, offset: number = 0): TextSpan {
+  const start = offset + (match.index ?? 0) + Math.max(0, match[0].indexOf(match[group]));
+  return { start, end: start + match[group].length };
 }
 
-export function parseBIAReport(text: string): BIAEntry {
-  console.log('=== PARSING BIA REPORT ===');
-  console.log('Text length:', text.length);
+function extractField(text: string, spec: FieldSpec): { value: number; span?: TextSpan } {
+  const match = matchFirst(text, spec.patterns);
+  if (!match) return { value: 0 };
+  const span = groupSpan(match, 1);
+  if (spec.splitDecimal && match[2] !== undefined) {
+    const decimal = groupSpan(match, 2);
+    return {
+      value: parseFloat(`${match[1]}.${match[2] || '0'}`),
+      span: { start: span.start, end: Math.max(span.end, decimal.end) },
+    };
+  }
+  return { value: parseFloat(match[1]), span };
+}
 
-  // Extract date - "01/07/2026"
-  const dateMatch = text.match(/(\d{2}\/\d{2}\/\d{4})/);
-  let date = new Date().toISOString();
-  if (dateMatch) {
-    const [month, day, year] = dateMatch[1].split('/');
-    date = new Date(`${year}-${month}-${day}T08:00:00`).toISOString();
+/**
+ * Place OCR words on the raw text so spans can be mapped back to the image
+ * Tesseract joins words with whitespace, so a forward scan is enough
+ */
+function locateWords(text: string, words: OcrWord[]): LocatedWord[] {
+  const located: LocatedWord[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    if (!word.text) continue;
+    const start = text.indexOf(word.text, cursor);
+    if (start === -1) continue;
+    located.push({ ...word, start, end: start + word.text.length });
+    cursor = start + word.text.length;
   }
+  return located;
+}
 
-  // Extract name (if present)
-  const nameMatch = text.match(/([A-Z][a-z]+\s+[A-Z][a-z]+)\s+\d+\s+(?:Male|Female)/i);
-  const name = nameMatch ? nameMatch[1].trim() : 'Unknown';
+function provenanceForSpan(text: string, span: TextSpan, words: LocatedWord[]): FieldProvenance {
+  const covering = words.filter(w => w.start < span.end && w.end > span.start);
+  const bbox = covering.length > 0
+    ? {
+      x0: Math.min(...covering.map(w => w.bbox.x0)),
+      y0: Math.min(...covering.map(w => w.bbox.y0)),
+      x1: Math.max(...covering.map(w => w.bbox.x1)),
+      y1: Math.max(...covering.map(w => w.bbox.y1)),
+    }
+    : null;
+  return {
+    source: 'ocr',
+    text: text.slice(span.start, span.end),
+    span,
+    bbox,
+    confidence: covering.length > 0 ? Math.min(...covering.map(w => w.confidence)) : null,
+  };
+}
 
-  // Extract age - number before Male/Female
-  const ageMatch = text.match(/(\d+)\s+(?:Male|Female)/i);
-  const age = ageMatch ? parseInt(ageMatch[1]) : 0;
+/**
+ * Metrics whose OCR confidence is below the threshold, lowest first
+ */
+export function getLowConfidenceFields(
+  entry: BIAEntry,
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): Array<{ key: keyof BIAEntry; provenance: FieldProvenance }> {
+  if (!entry.provenance) return [];
+  return (Object.entries(entry.provenance) as Array<[keyof BIAEntry, FieldProvenance]>)
+    .filter(([, p]) => p.confidence !== null && p.confidence < threshold)
+    .sort((a, b) => (a[1].confidence ?? 0) - (b[1].confidence ?? 0))
+    .map(([key, provenance]) => ({ key, provenance }));
+}
 
-  // Extract gender
-  const genderMatch = text.match(/(Male|Female)/i);
-  const gender = genderMatch ? genderMatch[1] : '';
+function extractDate(text: string, patterns: DatePattern[]): string {
+  for (const { pattern, order } of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const [a, b, c] = [match[1], match[2], match[3]];
+    const [year, month, day] = order === 'ymd' ? [a, b, c] : order === 'mdy' ? [c, a, b] : [c, b, a];
+    const parsed = new Date(`${year}-${month}-${day}T08:00:00`);
+    if (!isNaN(parsed.getTime())) return parsed.toISOString();
+  }
+  return new Date().toISOString();
+}
 
-  // Extract height
-  const heightMatch = text.match(/(\d+)['"]\s*(\d*)['""]?/);
-  const height = heightMatch ? `${heightMatch[1]}'${heightMatch[2] || '0'}"` : '';
-
-  // Fitness score / Health assessment - "93.3points" or "93.3/100"
-  const fitnessMatch = text.match(/(?:Health\s*assessment|assessment)\s*(\d+\.?\d*)\s*points/i) ||
-    text.match(/(\d+\.?\d*)\s*points/i) ||
-    text.match(/(\d+\.?\d*)\s*\/\s*100/);
-  const fitnessScore = fitnessMatch ? parseFloat(fitnessMatch[1]) : 0;
-  console.log('Fitness score:', fitnessScore);
-
-  // Weight - "172Ib", "171.2lb", or "Weight\n172lb"
-  // Avoid matching "Normal weight" from the recommendations section
-  // Look for standalone weight or weight in composition section
-  // Improved: more flexible digit matching for OCR errors
-  const weightMatch = text.match(/(?<!Normal\s)Weight\s*\n?\s*(\d{2,3}\.?\d*)(?:[Il\|])?[bp]/i) ||
-    text.match(/(\d{3}\.?\d*)(?:[Il\|])?[bp]\s*Fat\s*Mass/i) ||
-    text.match(/Body\s*Composition[\s\S]{0,50}?(\d{3}\.?\d*)(?:[Il\|])?[bp]/i);
-  const weight = weightMatch ? parseFloat(weightMatch[1]) : 0;
-  console.log('Weight:', weight);
-
-  // BMI - look after "BMI" or "(kg/m?)" - "23.2"
-  // Improved: more flexible pattern to avoid picking up wrong numbers
-  const bmiMatch = text.match(/BMI\s*[\s\S]{0,30}?(\d{2}\.\d)(?!\d)/i) ||
-    text.match(/\(kg\/m[²2\?]?\)\s*[\s\S]{0,30}?(\d{2}\.\d)(?!\d)/i) ||
-    text.match(/BMI\s*[:\s]+(\d{1,2}\.\d)/i);
-  const bmi = bmiMatch ? parseFloat(bmiMatch[1]) : 0;
-  console.log('BMI:', bmi);
-
-  // Body Fat Percentage - "Fat Mass 15.7%" in composition section
-  const pbfMatch = text.match(/Fat\s*Mass\s*(\d{1,2}\.\d)%/i);
-  const bodyFatPercentage = pbfMatch ? parseFloat(pbfMatch[1]) : 0;
-  console.log('Body Fat %:', bodyFatPercentage);
-
-  // Visceral Fat - number after "Visceral Fat ~"
-  const visceralMatch = text.match(/Visceral\s*Fat\s*[~\-—]*\s*(?:\[?[^\d]*)?\s*(\d+)/i);
-  const visceralFat = visceralMatch ? parseFloat(visceralMatch[1]) : 0;
-  console.log('Visceral Fat:', visceralFat);
-
-  // Body Water Percentage - "Body Water 60.8%" or "Body Water Percentage 60.8"
-  const bodyWaterPercentMatch = text.match(/Body\s*Water\s*Percentage\s*(\d+\.?\d*)/i) ||
-    text.match(/Body\s*Water\s*(\d{2}\.\d)%/i);
-  const bodyWaterPercentage = bodyWaterPercentMatch ? parseFloat(bodyWaterPercentMatch[1]) : 0;
-
-  // Body Water absolute in Liters - look for "Body Water 45.2L" or "Body Water 45.2 L" or in composition section
-  // Pattern: number followed by L (not lb), typically 30-60 range
-  const bodyWaterLMatch = text.match(/Body\s*Water\s*(\d{2}\.?\d*)\s*L(?!b)/i) ||
-    text.match(/(\d{2}\.\d)\s*L\s*(?=.*Body\s*Water)/i);
-  const bodyWater = bodyWaterLMatch ? parseFloat(bodyWaterLMatch[1]) : 0;
-  console.log('Body Water:', bodyWater, 'L');
-
-  // Protein Percentage - "Protein 19.3%" or "Protein Percentage 19.3"
-  const proteinPercentMatch = text.match(/Protein\s*Percentage\s*(\d+\.?\d*)/i) ||
-    text.match(/Protein\s*(\d{1,2}\.\d)%/i);
-  const proteinPercentage = proteinPercentMatch ? parseFloat(proteinPercentMatch[1]) : 0;
-
-  // Protein absolute (lb) - calculate from weight and percentage
-  const protein = weight > 0 && proteinPercentage > 0
-    ? Math.round(weight * proteinPercentage / 100 * 10) / 10
-    : 0;
-  console.log('Protein:', protein, 'lb (calculated from', proteinPercentage, '%)');
-
-  // Bone Mass Percentage - "Bone Mass 4.2%"
-  const boneMassPercentMatch = text.match(/Bone\s*Mass\s*Percentage\s*(\d+\.?\d*)/i) ||
-    text.match(/Bone\s*Mass\s*(\d\.\d)%/i);
-  const boneMassPercentage = boneMassPercentMatch ? parseFloat(boneMassPercentMatch[1]) : 0;
-
-  // Bone Mass absolute (lb) - calculate from weight and percentage
-  const boneMass = weight > 0 && boneMassPercentage > 0
-    ? Math.round(weight * boneMassPercentage / 100 * 10) / 10
-    : 0;
-  console.log('Bone Mass:', boneMass, 'lb (calculated from', boneMassPercentage, '%)');
-
-  // Body Fat Mass (lb) - calculate from weight and body fat percentage
-  const bodyFatMass = weight > 0 && bodyFatPercentage > 0
-    ? Math.round(weight * bodyFatPercentage / 100 * 10) / 10
-    : 0;
-  console.log('Body Fat Mass:', bodyFatMass, 'lb (calculated from', bodyFatPercentage, '%)');
-
-  // Skeletal Muscle Percentage - "Skeletal Muscle Percentage 54.4"
-  const skeletalPercentMatch = text.match(/Skeletal\s*Muscle\s*Percentage\s*(\d+\.?\d*)/i);
-  const skeletalMusclePercentage = skeletalPercentMatch ? parseFloat(skeletalPercentMatch[1]) : 0;
-
-  // Skeletal Muscle absolute (lb) - calculate from weight and percentage
-  const skeletalMuscle = weight > 0 && skeletalMusclePercentage > 0
-    ? Math.round(weight * skeletalMusclePercentage / 100 * 10) / 10
-    : 0;
-  console.log('Skeletal Muscle:', skeletalMuscle, 'lb (calculated from', skeletalMusclePercentage, '%)');
-
-  // Fat-free Body Weight - "Fat-free Body Weight 144 .8|p" or "144.8lb"
-  // OCR sometimes puts space before decimal and uses "|p" instead of "lb"
-  const fatFreeMassMatch = text.match(/Fat[- ]?free\s*Body\s*Weight\s*(\d+)\s*\.?\s*(\d+)\s*(?:l|I|\|)?[bp]/i) ||
-    text.match(/Fat[- ]?free\s*Body\s*Weight\s*(\d+\.?\d*)\s*(?:l|I|\|)?b/i);
-  let fatFreeMass = 0;
-  if (fatFreeMassMatch) {
-    if (fatFreeMassMatch[2]) {
-      // Handle "144 .8" format
-      fatFreeMass = parseFloat(`${fatFreeMassMatch[1]}.${fatFreeMassMatch[2]}`);
-    } else {
-      fatFreeMass = parseFloat(fatFreeMassMatch[1]);
-    }
+function extractHeight(text: string, profile: ScannerProfile): string {
+  const match = profile.header.height ? text.match(profile.header.height) : null;
+  if (!match) return '';
+  if (profile.units.height === 'ft-in') {
+    return `${match[1]}'${match[2] || '0'}"`;
   }
-  console.log('Fat Free Mass:', fatFreeMass);
-
-  // Soft Lean Mass / Muscle Mass - "Muscle Mass  137.8Ib"
-  const softLeanMassMatch = text.match(/Muscle\s*Mass\s{1,4}(\d{2,3})\.?(\d*)(?:l|I)?b/i);
-  let softLeanMass = 0;
-  if (softLeanMassMatch) {
-    const intPart = softLeanMassMatch[1];
-    const decPart = softLeanMassMatch[2] || '0';
-    softLeanMass = parseFloat(`${intPart}.${decPart}`);
+  const totalInches = Math.round(parseFloat(match[1]) / 2.54);
+  return `${Math.floor(totalInches / 12)}'${totalInches % 12}"`;
+}
+
+// Profiles that print in either unit: whichever mass suffix OCR saw more often wins
+function resolveMassUnit(text: string, profile: ScannerProfile): MassUnit {
+  if (profile.units.mass !== 'detect') return profile.units.mass;
+  const kgCount = (text.match(/\d\s*kg\b/gi) || []).length;
+  const lbCount = (text.match(/\d\s*(?:lbs?|Ib)\b/gi) || []).length;
+  return kgCount > lbCount ? 'kg' : 'lb';
+}
+
+// Split a section into lines, keeping each line's offset in the full text
+function linesWithOffsets(sectionText: string, offset: number): Array<{ line: string; offset: number }> {
+  const result: Array<{ line: string; offset: number }> = [];
+  let cursor = offset;
+  for (const line of sectionText.split('\n')) {
+    result.push({ line, offset: cursor });
+    cursor += line.length + 1;
   }
-  console.log('Soft Lean Mass:', softLeanMass);
-
-  // LBM
-  const lbm = fatFreeMass || 0;
-
-  // BMR - "BMR  1790kcal"
-  const bmrMatch = text.match(/BMR\s{1,4}(\d{4})/i);
-  const bmr = bmrMatch ? parseFloat(bmrMatch[1]) : 0;
-  console.log('BMR:', bmr);
-
-  // Metabolic Age - "Metabolic Age 26"
-  const metabolicAgeMatch = text.match(/Metabolic\s*Age\s*(\d+)/i);
-  const metabolicAge = metabolicAgeMatch ? parseInt(metabolicAgeMatch[1]) : 0;
-  console.log('Metabolic Age:', metabolicAge);
-
-  // Muscle Mass Percentage - "Muscle Mass Percentage 80.1%"
-  const muscleMassPercentMatch = text.match(/Muscle\s*Mass\s*Percentage\s*(\d+\.?\d*)%?/i);
-  const muscleMassPercentage = muscleMassPercentMatch ? parseFloat(muscleMassPercentMatch[1]) : 0;
-  console.log('Muscle Mass %:', muscleMassPercentage);
-
-  // Subcutaneous Fat Percentage - "Subcutaneous Fat Percentage 13.8%"
-  const subcutPercentMatch = text.match(/Subcutaneous\s*Fat\s*Percentage\s*(\d+\.?\d*)/i);
-  const subcutaneousFatPercentage = subcutPercentMatch ? parseFloat(subcutPercentMatch[1]) : 0;
-  console.log('Subcutaneous Fat %:', subcutaneousFatPercentage);
-
-  // SMI - "SMI 8.9"
-  const smiMatch = text.match(/SMI\s*(\d+\.?\d*)/i);
-  const smi = smiMatch ? parseFloat(smiMatch[1]) : 0;
-  console.log('SMI:', smi);
-
-  // Waist-Hip Ratio - "(0.95" or "Waist-Hip Ratio (0.95"
-  const waistHipMatch = text.match(/Waist[- ]?Hip\s*Ratio\s*\(?(\d+\.?\d*)/i);
-  const waistHipRatio = waistHipMatch ? parseFloat(waistHipMatch[1]) : 0;
-  console.log('Waist-Hip Ratio:', waistHipRatio);
-
-  // Parse segmental data
-  const defaultSegmental = { lb: 0, percent: 0 };
-
-  let muscleLeftArm = defaultSegmental;
-  let muscleRightArm = defaultSegmental;
-  let muscleTrunk = defaultSegmental;
-  let muscleLeftLeg = defaultSegmental;
-  let muscleRightLeg = defaultSegmental;
-  let fatLeftArm = defaultSegmental;
-  let fatRightArm = defaultSegmental;
-  let fatTrunk = defaultSegmental;
-  let fatLeftLeg = defaultSegmental;
-  let fatRightLeg = defaultSegmental;
-
-  // New format parsing - line by line approach
-  // Left pattern: "® 9.6lb MW 125.7%" or "@® 23.2Ib MW 107.4%"
-  // Right pattern: "HM 127.4% @9.8lb" or "HM 108.2% @ 23.4lb"
-  // Trunk pattern: "@® 66.4lb MW 108.2%" (single value)
-
-  function parseSegmentalSection(sectionText: string): {
-    leftUpper: { lb: number; percent: number };
-    rightUpper: { lb: number; percent: number };
-    trunk: { lb: number; percent: number };
-    leftLower: { lb: number; percent: number };
-    rightLower: { lb: number; percent: number };
-  } {
-    const result = {
-      leftUpper: { lb: 0, percent: 0 },
-      rightUpper: { lb: 0, percent: 0 },
-      trunk: { lb: 0, percent: 0 },
-      leftLower: { lb: 0, percent: 0 },
-      rightLower: { lb: 0, percent: 0 },
-    };
+  return result;
+}
 
-    // Split into lines for easier parsing
-    const lines = sectionText.split('\n');
+// New format parsing - line by line approach
+// Left pattern: "® 9.6lb MW 125.7%" or "@® 23.2Ib MW 107.4%"
+// Right pattern: "HM 127.4% @9.8lb" or "HM 108.2% @ 23.4lb"
+// Trunk pattern: "@® 66.4lb MW 108.2%" (single value)
+function parseMarkerColumns(sectionText: string, offset: number): SegmentalRegions {
+  const result = emptyRegions();
+
+  // Find lines with the actual data (contain lb/weight indicator and %)
+  // More robust to OCR errors: match various representations of 'lb' and '%'
+  const dataLines = linesWithOffsets(sectionText, offset).filter(({ line }) => {
+    const lbPattern = /[1Il\|][bp]|lb|Ib|\|b|\|p/i;
+    const percentPattern = /%|0\/0|o\/o/i; // % or OCR errors like 0/0 or o/o
+    return lbPattern.test(line) && percentPattern.test(line);
+  });
+
+  console.log('Data lines found:', dataLines.length);
+  dataLines.forEach((l, i) => console.log(`  Line ${i}: ${l.line}`));
+
+  // Extract left-side values: "[@®©] X.Xlb [MW|W] X.X%"
+  // Improved to handle OCR substitutions: 1/l/I confusion, 0/O confusion, etc.
+  const leftPattern = /[@®©⊕]\s*([0-9.]+)\s*(?:[1Il\|])?[bp]\s*(?:MW|W|M)?\s*([0-9.]+)\s*(?:%|0\/0|o\/o)/gi;
+
+  // Extract right-side values: "[HM|H] X.X% [@®©] X.Xlb"
+  // Improved pattern for better OCR handling
+  const rightPattern = /(?:HM|H)\s*([0-9.]+)\s*(?:%|0\/0|o\/o)\s*[@®©⊕]\s*([0-9.]+)\s*(?:[1Il\|])?[bp]/gi;
+
+  const leftMatches: RegionReading[] = [];
+  const rightMatches: RegionReading[] = [];
+
+  for (const { line, offset: lineOffset } of dataLines) {
+    // Find left-side match
+    for (const m of line.matchAll(leftPattern)) {
+      const start = lineOffset + (m.index ?? 0);
+      leftMatches.push({
+        data: { lb: parseFloat(m[1]), percent: parseFloat(m[2]) },
+        span: { start, end: start + m[0].length },
+      });
+    }
 
-    // Find lines with the actual data (contain lb/weight indicator and %)
-    // More robust to OCR errors: match various representations of 'lb' and '%'
-    const dataLines = lines.filter(line => {
-      const lbPattern = /[1Il\|][bp]|lb|Ib|\|b|\|p/i;
-      const percentPattern = /%|0\/0|o\/o/i; // % or OCR errors like 0/0 or o/o
-      return lbPattern.test(line) && percentPattern.test(line);
-    });
+    // Find right-side match
+    for (const m of line.matchAll(rightPattern)) {
+      const start = lineOffset + (m.index ?? 0);
+      rightMatches.push({
+        data: { lb: parseFloat(m[2]), percent: parseFloat(m[1]) },
+        span: { start, end: start + m[0].length },
+      });
+    }
+  }
 
-    console.log('Data lines found:', dataLines.length);
-    dataLines.forEach((l, i) => console.log(`  Line ${i}: ${l}`));
+  console.log('Left matches:', leftMatches.map(m => m.data));
+  console.log('Right matches:', rightMatches.map(m => m.data));
 
-    // Extract left-side values: "[@®©] X.Xlb [MW|W] X.X%"
-    // Improved to handle OCR substitutions: 1/l/I confusion, 0/O confusion, etc.
-    const leftPattern = /[@®©⊕]\s*([0-9.]+)\s*(?:[1Il\|])?[bp]\s*(?:MW|W|M)?\s*([0-9.]+)\s*(?:%|0\/0|o\/o)/gi;
+  // Assign values based on position:
+  // Upper extremities come first, then trunk, then lower extremities
+  // Left values: [upper, trunk, lower] - 3 values
+  // Right values: [upper, lower] - 2 values (trunk is single/left-aligned)
 
-    // Extract right-side values: "[HM|H] X.X% [@®©] X.Xlb"
-    // Improved pattern for better OCR handling
-    const rightPattern = /(?:HM|H)\s*([0-9.]+)\s*(?:%|0\/0|o\/o)\s*[@®©⊕]\s*([0-9.]+)\s*(?:[1Il\|])?[bp]/gi;
+  if (leftMatches.length >= 1) result.leftUpper = leftMatches[0];
+  if (rightMatches.length >= 1) result.rightUpper = rightMatches[0];
+  if (leftMatches.length >= 2) result.trunk = leftMatches[1];
+  if (leftMatches.length >= 3) result.leftLower = leftMatches[2];
+  if (rightMatches.length >= 2) result.rightLower = rightMatches[1];
 
-    const leftMatches: Array<{ lb: number; percent: number }> = [];
-    const rightMatches: Array<{ lb: number; percent: number }> = [];
+  return result;
+}
 
-    for (const line of dataLines) {
-      // Find left-side match
-      const leftMatch = [...line.matchAll(leftPattern)];
-      for (const m of leftMatch) {
-        leftMatches.push({ lb: parseFloat(m[1]), percent: parseFloat(m[2]) });
-      }
+// One row per region: "Right Arm 3.85kg 112.4%" / "Trunk 24.1 %"
+function parseLabelledRows(sectionText: string, offset: number, spec: SegmentalSectionSpec): SegmentalRegions {
+  const result = emptyRegions();
+  const number = /(\d+\.?\d*)\s*(kg|lbs?|Ib|%)?/gi;
 
-      // Find right-side match
-      const rightMatch = [...line.matchAll(rightPattern)];
-      for (const m of rightMatch) {
-        rightMatches.push({ lb: parseFloat(m[2]), percent: parseFloat(m[1]) });
-      }
-    }
+  for (const { line, offset: lineOffset } of linesWithOffsets(sectionText, offset)) {
+    const region = (Object.keys(SEGMENTAL_REGION_LABELS) as SegmentalRegion[])
+      .find(r => SEGMENTAL_REGION_LABELS[r].test(line));
+    if (!region) continue;
 
-    console.log('Left matches:', leftMatches);
-    console.log('Right matches:', rightMatches);
+    const matches = [...line.matchAll(number)];
+    if (matches.length === 0) continue;
 
-    // Assign values based on position:
-    // Upper extremities come first, then trunk, then lower extremities
-    // Left values: [upper, trunk, lower] - 3 values
-    // Right values: [upper, lower] - 2 values (trunk is single/left-aligned)
+    const values = matches.map(m => parseFloat(m[1]));
+    const last = matches[Math.min(matches.length, 2) - 1];
+    const span = {
+      start: lineOffset + (matches[0].index ?? 0),
+      end: lineOffset + (last.index ?? 0) + last[0].length,
+    };
 
-    if (leftMatches.length >= 1) result.leftUpper = leftMatches[0];
-    if (rightMatches.length >= 1) result.rightUpper = rightMatches[0];
-    if (leftMatches.length >= 2) result.trunk = leftMatches[1];
-    if (leftMatches.length >= 3) result.leftLower = leftMatches[2];
-    if (rightMatches.length >= 2) result.rightLower = rightMatches[1];
+    switch (spec.values) {
+      case 'mass-percent':
+        result[region] = { data: { lb: values[0], percent: values[1] || 0 }, span };
+        break;
+      case 'percent-mass':
+        result[region] = { data: { lb: values[1] || 0, percent: values[0] }, span };
+        break;
+      case 'mass':
+        result[region] = { data: { lb: values[0], percent: 0 }, span };
+        break;
+      case 'percent':
+        result[region] = { data: { lb: 0, percent: values[0] }, span };
+        break;
+    }
+  }
+
+  return result;
+}
+
+function parseSegmental(text: string, layout: SegmentalLayout): { muscle: SegmentalRegions; fat: SegmentalRegions } {
+  const muscle = emptyRegions();
+  const fat = emptyRegions();
+
+  if (layout.kind === 'marker-columns') {
+    const muscleSection = matchFirst(text, layout.muscleSection);
+    const fatSection = matchFirst(text, layout.fatSection);
+    console.log('Muscle section found:', !!muscleSection);
+    console.log('Fat section found:', !!fatSection);
+    return {
+      muscle: muscleSection ? parseMarkerColumns(muscleSection[0], muscleSection.index ?? 0) : muscle,
+      fat: fatSection ? parseMarkerColumns(fatSection[0], fatSection.index ?? 0) : fat,
+    };
+  }
 
-    return result;
+  if (layout.kind === 'labelled-rows') {
+    const muscleSection = matchFirst(text, layout.muscle.section);
+    const fatSection = matchFirst(text, layout.fat.section);
+    console.log('Muscle section found:', !!muscleSection);
+    console.log('Fat section found:', !!fatSection);
+    return {
+      muscle: muscleSection ? parseLabelledRows(muscleSection[0], muscleSection.index ?? 0, layout.muscle) : muscle,
+      fat: fatSection ? parseLabelledRows(fatSection[0], fatSection.index ?? 0, layout.fat) : fat,
+    };
   }
 
-  // Extract muscle balance section
-  const muscleBalanceSection = text.match(/Muscle\s*balance[\s\S]*?(?:Segmental\s*fat|Fat\s*analysis)/i) ||
-    text.match(/Muscle\s*balance[\s\S]*?(?:©\s*Muscle\s*Mass)/i);
+  return { muscle, fat };
+}
+
+/**
+ * Parse OCR text into a BIAEntry
+ * The scanner profile is detected from the text unless a profile id is given.
+ * When OCR words are supplied, each metric's provenance carries its bounding box and confidence.
+ */
+export function parseBIAReport(text: string, options: ParseOptions = {}): BIAEntry {
+  console.log('=== PARSING BIA REPORT ===');
+  console.log('Text length:', text.length);
+
+  const forced = options.profileId ? getScannerProfile(options.profileId) : undefined;
+  const { profile, confidence } = forced ? { profile: forced, confidence: 1 } : detectScannerProfile(text);
+  console.log(`Scanner profile: ${profile.id} (confidence ${confidence})`);
+
+  const words = locateWords(text, options.words || []);
+  const provenance: ProvenanceMap = {};
 
-  // Extract segmental fat section
-  const fatAnalysisSection = text.match(/Segmental\s*fat\s*analysis[\s\S]*?(?:Other\s*Measurements|©\s*Fat)/i) ||
-    text.match(/Segmental\s*fat[\s\S]*?(?:Other\s*Measurements|©\s*Fat)/i);
+  const date = extractDate(text, profile.header.date);
 
-  console.log('Muscle section found:', !!muscleBalanceSection);
-  console.log('Fat section found:', !!fatAnalysisSection);
+  const nameMatch = profile.header.name ? text.match(profile.header.name) : null;
+  const name = nameMatch ? nameMatch[1].trim() : 'Unknown';
 
-  if (muscleBalanceSection) {
-    const muscleData = parseSegmentalSection(muscleBalanceSection[0]);
-    muscleLeftArm = extractSegmentalData(muscleData.leftUpper.lb, muscleData.leftUpper.percent);
-    muscleRightArm = extractSegmentalData(muscleData.rightUpper.lb, muscleData.rightUpper.percent);
-    muscleTrunk = extractSegmentalData(muscleData.trunk.lb, muscleData.trunk.percent);
-    muscleLeftLeg = extractSegmentalData(muscleData.leftLower.lb, muscleData.leftLower.percent);
-    muscleRightLeg = extractSegmentalData(muscleData.rightLower.lb, muscleData.rightLower.percent);
+  const genderMatch = profile.header.gender ? text.match(profile.header.gender) : null;
+  const gender = genderMatch ? genderMatch[1] : '';
+
+  const height = extractHeight(text, profile);
+
+  // Read every numeric field the profile declares
+  const values: Partial<Record<ScannerFieldKey, number>> = {};
+  for (const [key, spec] of Object.entries(profile.fields) as Array<[ScannerFieldKey, FieldSpec]>) {
+    const { value, span } = extractField(text, spec);
+    values[key] = value;
+    if (span) provenance[key] = provenanceForSpan(text, span, words);
   }
 
-  if (fatAnalysisSection) {
-    const fatData = parseSegmentalSection(fatAnalysisSection[0]);
-    fatLeftArm = extractSegmentalData(fatData.leftUpper.lb, fatData.leftUpper.percent);
-    fatRightArm = extractSegmentalData(fatData.rightUpper.lb, fatData.rightUpper.percent);
-    fatTrunk = extractSegmentalData(fatData.trunk.lb, fatData.trunk.percent);
-    fatLeftLeg = extractSegmentalData(fatData.leftLower.lb, fatData.leftLower.percent);
-    fatRightLeg = extractSegmentalData(fatData.rightLower.lb, fatData.rightLower.percent);
+  const massUnit = resolveMassUnit(text, profile);
+  if (massUnit === 'kg') {
+    for (const key of MASS_FIELDS) {
+      if (values[key]) values[key] = round1(values[key]! * LB_PER_KG);
+    }
+  }
+  // Body water is tracked in liters (1 kg of water ≈ 1 L)
+  if (values.bodyWater && profile.units.water === 'lb') {
+    values.bodyWater = round1(values.bodyWater / LB_PER_KG);
   }
 
-  console.log('Segmental Muscle Left Arm:', muscleLeftArm);
-  console.log('Segmental Muscle Right Arm:', muscleRightArm);
-  console.log('Segmental Fat Left Arm:', fatLeftArm);
+  const get = (key: ScannerFieldKey): number => values[key] || 0;
 
-  // Body Shape / Body Type - "Body Type Normal"
-  const bodyShapeMatch = text.match(/Body\s*Type\s*(Very\s*Muscular|Muscular|Heavy|Fit|Normal|Overweight|Skinny|Under\s*Exercised|Skinny\s*Fat)/i);
-  const bodyShape = bodyShapeMatch?.[1] || 'Normal';
-  console.log('Body Shape:', bodyShape);
+  const weight = get('weight');
 
-  // Categories
-  const bmiCategory = bmi < 18.5 ? 'Under' : bmi < 25 ? 'Normal' : bmi < 30 ? 'Over' : 'Over excessively';
-  const pbfCategory = bodyFatPercentage < 10 ? 'Normal' : bodyFatPercentage < 20 ? 'Normal' : bodyFatPercentage < 25 ? 'Mild obesity' : 'Obesity';
+  const bodyFatPercentage = get('bodyFatPercentage');
+  const bmi = get('bmi');
+
+  console.log('Weight:', weight, '| BMI:', bmi, '| Body Fat %:', bodyFatPercentage);
+
+  // Segmental data
+  const { muscle, fat } = parseSegmental(text, profile.segmental);
+  const segment = (key: keyof BIAEntry, reading: RegionReading): SegmentalData => {
+    if (reading.span) provenance[key] = provenanceForSpan(text, reading.span, words);
+    const seg = reading.data;
+    return massUnit === 'kg' && seg.lb > 0 ? { lb: round1(seg.lb * LB_PER_KG), percent: seg.percent } : seg;
+  };
+
+  const bodyShapeMatch = profile.bodyShape ? text.match(profile.bodyShape) : null;
+  const bodyShape = bodyShapeMatch?.[1] || 'Normal';
 
   const result: BIAEntry = {
     id: uuidv4(),
     date,
     name,
-    age,
+    age: get('age'),
     gender,
     height,
-    fitnessScore,
+    fitnessScore: get('fitnessScore'),
     weight,
     bmi,
     bodyFatPercentage,
-    visceralFat,
-    skeletalMuscle,
-    bodyWater,
-    protein,
-    boneMass,
-    bodyFatMass,
-    softLeanMass,
-    fatFreeMass,
-    lbm,
-    bmr,
-    metabolicAge,
-    subcutaneousFatPercentage,
-    muscleMassPercentage,
-    skeletalMusclePercentage,
-    boneMassPercentage,
-    proteinPercentage,
-    bodyWaterPercentage,
-    smi,
-    waistHipRatio,
-    muscleLeftArm,
-    muscleRightArm,
-    muscleTrunk,
-    muscleLeftLeg,
-    muscleRightLeg,
-    fatLeftArm,
-    fatRightArm,
-    fatTrunk,
-    fatLeftLeg,
-    fatRightLeg,
+    visceralFat: get('visceralFat'),
+    skeletalMuscle: get('skeletalMuscle'),
+    bodyWater: get('bodyWater'),
+    protein: get('protein'),
+    boneMass: get('boneMass'),
+    bodyFatMass: get('bodyFatMass'),
+    softLeanMass: get('softLeanMass'),
+    fatFreeMass: get('fatFreeMass'),
+    lbm: get('lbm'),
+    bmr: get('bmr'),
+    metabolicAge: get('metabolicAge'),
+    subcutaneousFatPercentage: get('subcutaneousFatPercentage'),
+    muscleMassPercentage: get('muscleMassPercentage'),
+    skeletalMusclePercentage: get('skeletalMusclePercentage'),
+    boneMassPercentage: get('boneMassPercentage'),
+    proteinPercentage: get('proteinPercentage'),
+    bodyWaterPercentage: get('bodyWaterPercentage'),
+    smi: get('smi'),
+    waistHipRatio: get('waistHipRatio'),
+    muscleLeftArm: segment('muscleLeftArm', muscle.leftUpper),
+    muscleRightArm: segment('muscleRightArm', muscle.rightUpper),
+    muscleTrunk: segment('muscleTrunk', muscle.trunk),
+    muscleLeftLeg: segment('muscleLeftLeg', muscle.leftLower),
+    muscleRightLeg: segment('muscleRightLeg', muscle.rightLower),
+    fatLeftArm: segment('fatLeftArm', fat.leftUpper),
+    fatRightArm: segment('fatRightArm', fat.rightUpper),
+    fatTrunk: segment('fatTrunk', fat.trunk),
+    fatLeftLeg: segment('fatLeftLeg', fat.leftLower),
+    fatRightLeg: segment('fatRightLeg', fat.rightLower),
     bodyShape,
-    bmiCategory,
-    pbfCategory,
+    bmiCategory: '',
+    pbfCategory: '',
+    scannerProfile: profile.id,
+    scannerConfidence: confidence,
+    provenance,
   };
 
-  console.log('=== PARSED RESULT ===');
-  console.log(JSON.stringify(result, null, 2));
-  return result;
+  // Derive what the scanner didn't print and replace values that contradict the rest
+  const { entry: reconciled, changes } = reconcileEntry(result);
+  if (changes.length > 0) {
+    console.log('Reconciled:', changes.map(c => `${c.field} (${c.reason})`).join(', '));
+  }
+
+  // Categories
+  const { bmi: finalBmi, bodyFatPercentage: finalPbf } = reconciled;
+  reconciled.bmiCategory = finalBmi < 18.5 ? 'Under' : finalBmi < 25 ? 'Normal' : finalBmi < 30 ? 'Over' : 'Over excessively';
+  reconciled.pbfCategory = finalPbf < 10 ? 'Normal' : finalPbf < 20 ? 'Normal' : finalPbf < 25 ? 'Mild obesity' : 'Obesity';
+
+  return reconciled;
 }
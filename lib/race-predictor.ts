@@ -0,0 +1,236 @@
+/**
+ * Race time predictor
+ * Estimates current fitness as a Daniels VDOT from the best recent efforts
+ * (stream best efforts, or mile splits for older runs), then predicts 5K to
+ * marathon times from it. Riegel's formula off the effort the VDOT came from
+ * is kept alongside as a second opinion. Training paces for the workout
+ * generator come from the same VDOT.
+ */
+
+import { getBestTimeForDistance, RUNNING_DISTANCES } from './milestones';
+import { RunningActivity } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const METERS_PER_MILE = 1609.344;
+
+// Daniels' formulas are fitted to race efforts of roughly 3.5 minutes to 4 hours
+const MIN_EFFORT_MINUTES = 3.5;
+const MAX_EFFORT_MINUTES = 240;
+
+const RIEGEL_EXPONENT = 1.06;
+
+export const DEFAULT_VDOT_WINDOW_DAYS = 90;
+
+export const PREDICTED_RACES = RUNNING_DISTANCES.filter(d =>
+  d.key === '5k' || d.key === '10k' || d.key === 'half' || d.key === 'marathon'
+);
+
+export interface RaceEffort {
+  activityId: string;
+  activityDate: string;
+  distanceKey: string;
+  label: string;
+  miles: number;
+  timeSeconds: number;
+  vdot: number;
+}
+
+export interface RacePrediction {
+  key: string;
+  label: string;
+  miles: number;
+  seconds: number;           // Daniels, from the VDOT
+  riegelSeconds: number;     // Riegel, from the source effort
+  paceSeconds: number;       // Per mile, from the Daniels time
+}
+
+export interface RaceEstimate {
+  vdot: number;
+  source: RaceEffort;        // The effort the VDOT came from
+  predictions: RacePrediction[];
+}
+
+export interface TrainingPaces {
+  easy: number;              // Seconds per mile
+  marathon: number;
+  threshold: number;
+  interval: number;
+  repetition: number;
+}
+
+// Share of VDOT each training pace runs at (Daniels' Running Formula)
+const TRAINING_INTENSITY = {
+  easy: 0.7,
+  threshold: 0.88,
+  interval: 0.975,
+  repetition: 1.05,
+};
+
+// ========================================
+// Daniels formulas
+// ========================================
+
+/**
+ * Oxygen cost (ml/kg/min) of running at a velocity in meters per minute
+ */
+function oxygenCost(metersPerMinute: number): number {
+  return -4.6 + 0.182258 * metersPerMinute + 0.000104 * metersPerMinute * metersPerMinute;
+}
+
+/**
+ * Share of VO2max that can be sustained for a race of this many minutes
+ */
+function sustainableFraction(minutes: number): number {
+  return 0.8 + 0.1894393 * Math.exp(-0.012778 * minutes) + 0.2989558 * Math.exp(-0.1932605 * minutes);
+}
+
+/**
+ * VDOT of a performance; null outside the range the formula is fitted to
+ */
+export function calculateVdot(miles: number, seconds: number): number | null {
+  const minutes = seconds / 60;
+  if (miles <= 0 || minutes < MIN_EFFORT_MINUTES || minutes > MAX_EFFORT_MINUTES) return null;
+  const vdot = oxygenCost((miles * METERS_PER_MILE) / minutes) / sustainableFraction(minutes);
+  return Math.round(vdot * 10) / 10;
+}
+
+/**
+ * Race time for a distance at a VDOT (bisection; VDOT falls as time grows)
+ */
+export function predictRaceTime(vdot: number, miles: number): number {
+  const meters = miles * METERS_PER_MILE;
+  let low = 1;
+  let high = 600;
+  for (let i = 0; i < 60; i++) {
+    const minutes = (low + high) / 2;
+    const value = oxygenCost(meters / minutes) / sustainableFraction(minutes);
+    if (value > vdot) low = minutes;
+    else high = minutes;
+  }
+  return Math.round(((low + high) / 2) * 60);
+}
+
+/**
+ * Riegel's endurance formula: T2 = T1 x (D2 / D1)^1.06
+ */
+export function riegelTime(fromMiles: number, fromSeconds: number, toMiles: number): number {
+  return Math.round(fromSeconds * Math.pow(toMiles / fromMiles, RIEGEL_EXPONENT));
+}
+
+/**
+ * Pace (seconds per mile) that runs at a share of VDOT
+ */
+function paceAtIntensity(vdot: number, intensity: number): number {
+  // Solve 0.000104v^2 + 0.182258v - (4.6 + VO2) = 0 for v in meters per minute
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -(4.6 + vdot * intensity);
+  const metersPerMinute = (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+  return Math.round((METERS_PER_MILE / metersPerMinute) * 60);
+}
+
+/**
+ * Daniels training paces for a VDOT
+ */
+export function getTrainingPaces(vdot: number): TrainingPaces {
+  const marathon = RUNNING_DISTANCES.find(d => d.key === 'marathon')!.miles;
+  return {
+    easy: paceAtIntensity(vdot, TRAINING_INTENSITY.easy),
+    marathon: Math.round(predictRaceTime(vdot, marathon) / marathon),
+    threshold: paceAtIntensity(vdot, TRAINING_INTENSITY.threshold),
+    interval: paceAtIntensity(vdot, TRAINING_INTENSITY.interval),
+    repetition: paceAtIntensity(vdot, TRAINING_INTENSITY.repetition),
+  };
+}
+
+// ========================================
+// Estimates
+// ========================================
+
+/**
+ * Every milestone effort with a usable VDOT, newest first
+ */
+export function getRaceEfforts(activities: RunningActivity[]): RaceEffort[] {
+  const efforts: RaceEffort[] = [];
+
+  for (const activity of activities) {
+    for (const dist of RUNNING_DISTANCES) {
+      const time = getBestTimeForDistance(activity, dist);
+      if (!time) continue;
+      const vdot = calculateVdot(dist.miles, time);
+      if (vdot === null) continue;
+      efforts.push({
+        activityId: activity.id,
+        activityDate: activity.activityDate,
+        distanceKey: dist.key,
+        label: dist.label,
+        miles: dist.miles,
+        timeSeconds: time,
+        vdot,
+      });
+    }
+  }
+
+  return efforts.sort((a, b) => new Date(b.activityDate).getTime() - new Date(a.activityDate).getTime());
+}
+
+/**
+ * Fitness as of a date: the best effort in the trailing window
+ */
+export function estimateRaceFitness(
+  efforts: RaceEffort[],
+  asOf: Date = new Date(),
+  windowDays: number = DEFAULT_VDOT_WINDOW_DAYS
+): RaceEstimate | null {
+  const end = asOf.getTime();
+  const start = end - windowDays * MS_PER_DAY;
+
+  let best: RaceEffort | null = null;
+  for (const effort of efforts) {
+    const time = new Date(effort.activityDate).getTime();
+    if (time > end || time < start) continue;
+    if (!best || effort.vdot > best.vdot) best = effort;
+  }
+  if (!best) return null;
+
+  const source = best;
+  return {
+    vdot: source.vdot,
+    source,
+    predictions: PREDICTED_RACES.map(race => {
+      const seconds = predictRaceTime(source.vdot, race.miles);
+      return {
+        key: race.key,
+        label: race.label,
+        miles: race.miles,
+        seconds,
+        riegelSeconds: riegelTime(source.miles, source.timeSeconds, race.miles),
+        paceSeconds: Math.round(seconds / race.miles),
+      };
+    }),
+  };
+}
+
+/**
+ * Current fitness from run history
+ */
+export function predictRaceTimes(activities: RunningActivity[], asOf: Date = new Date()): RaceEstimate | null {
+  return estimateRaceFitness(getRaceEfforts(activities), asOf);
+}
+
+/**
+ * Fitness as of each YYYY-MM-DD date (end of day), for showing how predictions moved
+ */
+export function getRaceFitnessHistory(
+  activities: RunningActivity[],
+  dateKeys: string[],
+  windowDays: number = DEFAULT_VDOT_WINDOW_DAYS
+): Map<string, RaceEstimate | null> {
+  const efforts = getRaceEfforts(activities);
+  const history = new Map<string, RaceEstimate | null>();
+  for (const key of dateKeys) {
+    const [year, month, day] = key.split('-').map(Number);
+    history.set(key, estimateRaceFitness(efforts, new Date(year, month - 1, day, 23, 59, 59, 999), windowDays));
+  }
+  return history;
+}
@@ -0,0 +1,422 @@
+/**
+ * Body-composition identity reconciliation
+ *
+ * A BIA report prints the same quantities several ways (fat mass and fat %,
+ * fat-free mass and lbm, segmental masses and SMI...). Each identity is a
+ * Relation that can be solved for any of its fields, so after parsing we can:
+ * 1. Replace a garbled value when the other fields pin it down (over-determined)
+ * 2. Fill values the scanner didn't print
+ * Both are marked in provenance as source 'derived'.
+ */
+
+import { parseHeightInches } from './anomaly-detection';
+import { BIAEntry, FieldProvenance, ProvenanceMap, SegmentalData } from './types';
+
+// ========================================
+// Types
+// ========================================
+
+type SegmentalKey =
+  | 'muscleLeftArm' | 'muscleRightArm' | 'muscleTrunk' | 'muscleLeftLeg' | 'muscleRightLeg'
+  | 'fatLeftArm' | 'fatRightArm' | 'fatTrunk' | 'fatLeftLeg' | 'fatRightLeg';
+
+// Numeric entry fields, or the percent-of-standard half of a segmental reading
+export type ReconcileField = keyof BIAEntry | `${SegmentalKey}.percent`;
+
+type Values = Map<ReconcileField, number>;
+
+interface Relation {
+  id: string;
+  formula: string;
+  fields: ReconcileField[];   // First field is the one checked against the others
+  solve: Partial<Record<ReconcileField, (v: Values) => number>>;
+  tolerance: (v: Values) => number;
+}
+
+export interface ReconciliationChange {
+  field: ReconcileField;
+  value: number;
+  reason: 'missing' | 'inconsistent';
+  relation: string;
+  replaced?: number;  // Original value when reason is 'inconsistent'
+}
+
+export interface ReconciliationResult {
+  entry: BIAEntry;
+  changes: ReconciliationChange[];
+}
+
+// ========================================
+// Constants
+// ========================================
+
+const LB_PER_KG = 2.20462;
+const M_PER_INCH = 0.0254;
+const MAX_FIX_PASSES = 5;
+const HEIGHT_AGREEMENT = 0.015;  // Height estimates within 1.5% count as agreeing
+
+const APPENDICULAR_MUSCLE: SegmentalKey[] = ['muscleLeftArm', 'muscleRightArm', 'muscleLeftLeg', 'muscleRightLeg'];
+const MUSCLE_SEGMENTS: SegmentalKey[] = ['muscleLeftArm', 'muscleRightArm', 'muscleTrunk', 'muscleLeftLeg', 'muscleRightLeg'];
+const FAT_SEGMENTS: SegmentalKey[] = ['fatLeftArm', 'fatRightArm', 'fatTrunk', 'fatLeftLeg', 'fatRightLeg'];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// ========================================
+// Field access
+// ========================================
+
+function baseKey(field: ReconcileField): keyof BIAEntry {
+  return field.replace(/\.percent$/, '') as keyof BIAEntry;
+}
+
+function readField(entry: BIAEntry, field: ReconcileField): number {
+  const isPercent = field.endsWith('.percent');
+  const value = entry[baseKey(field)];
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && 'lb' in value) {
+    const seg = value as SegmentalData;
+    return (isPercent ? seg.percent : seg.lb) || 0;
+  }
+  return 0;
+}
+
+function writeField(entry: BIAEntry, field: ReconcileField, value: number): void {
+  const key = baseKey(field);
+  const current = entry[key];
+  if (typeof current === 'number') {
+    (entry as unknown as Record<string, number>)[key] = value;
+    return;
+  }
+  const seg: SegmentalData = current && typeof current === 'object' && 'lb' in current
+    ? { ...(current as SegmentalData) }
+    : { lb: 0, percent: 0 };
+  if (field.endsWith('.percent')) seg.percent = value;
+  else seg.lb = value;
+  (entry as unknown as Record<string, SegmentalData>)[key] = seg;
+}
+
+const sum = (v: Values, fields: ReconcileField[]) => fields.reduce((total, f) => total + (v.get(f) || 0), 0);
+
+// ========================================
+// Height
+// ========================================
+
+function bmiHeight(entry: BIAEntry | null): number | null {
+  return entry && entry.weight > 0 && entry.bmi > 0 ? Math.sqrt((703 * entry.weight) / entry.bmi) : null;
+}
+
+function smiHeight(entry: BIAEntry): number | null {
+  const asm = APPENDICULAR_MUSCLE.reduce((total, key) => total + readField(entry, key), 0);
+  if (entry.smi <= 0 || APPENDICULAR_MUSCLE.some(key => readField(entry, key) <= 0)) return null;
+  return Math.sqrt(asm / LB_PER_KG / entry.smi) / M_PER_INCH;
+}
+
+/**
+ * Height (inches) the scanner actually used
+ * Scales compute BMI/SMI from their configured height, which can differ from the printed one,
+ * so only a height at least two sources agree on is trusted, else the one implied by the
+ * previous scan's BMI. Null when neither is available.
+ */
+export function resolveHeightInches(entry: BIAEntry, previous: BIAEntry | null = null): number | null {
+  const candidates = [parseHeightInches(entry.height), bmiHeight(entry), smiHeight(entry), bmiHeight(previous)]
+    .filter((h): h is number => h !== null && h > 0);
+
+  let best: number[] = [];
+  for (const candidate of candidates) {
+    const agreeing = candidates.filter(h => Math.abs(h - candidate) / candidate <= HEIGHT_AGREEMENT);
+    if (agreeing.length > best.length) best = agreeing;
+  }
+  if (best.length >= 2) return best.reduce((a, b) => a + b, 0) / best.length;
+
+  return bmiHeight(previous);
+}
+
+// ========================================
+// Relations
+// ========================================
+
+// mass = weight × percent / 100
+function percentOfWeight(mass: keyof BIAEntry, percent: keyof BIAEntry): Relation {
+  return {
+    id: `${mass}-percent`,
+    formula: `${mass} = weight × ${percent} / 100`,
+    fields: [mass, 'weight', percent],
+    solve: {
+      [mass]: (v: Values) => v.get('weight')! * v.get(percent)! / 100,
+      weight: (v: Values) => v.get(mass)! / v.get(percent)! * 100,
+      [percent]: (v: Values) => v.get(mass)! / v.get('weight')! * 100,
+    },
+    tolerance: v => Math.max(0.5, v.get(mass)! * 0.03),
+  };
+}
+
+// total × share = Σ parts, with share taken from the previous scan
+function segmentalTotal(id: string, total: keyof BIAEntry, parts: SegmentalKey[], share: number): Relation {
+  const solve: Relation['solve'] = {
+    [total]: (v: Values) => sum(v, parts) / share,
+  };
+  for (const part of parts) {
+    solve[part] = (v: Values) => v.get(total)! * share - sum(v, parts.filter(p => p !== part));
+  }
+  return {
+    id,
+    formula: `${parts.join(' + ')} = ${total} × ${round1(share * 100)}%`,
+    fields: [total, ...parts],
+    solve,
+    tolerance: v => Math.max(1, v.get(total)! * 0.05),
+  };
+}
+
+// lb = percent × reference / 100, with the reference (standard) mass from the previous scan
+function segmentalPercent(key: SegmentalKey, reference: number): Relation {
+  const percent: ReconcileField = `${key}.percent`;
+  return {
+    id: `${key}-standard`,
+    formula: `${key} = ${percent} × ${round1(reference)} / 100`,
+    fields: [key, percent],
+    solve: {
+      [key]: (v: Values) => v.get(percent)! * reference / 100,
+      [percent]: (v: Values) => v.get(key)! / reference * 100,
+    },
+    tolerance: v => Math.max(0.2, v.get(key)! * 0.03),
+  };
+}
+
+function buildRelations(heightInches: number | null, previous: BIAEntry | null): Relation[] {
+  const relations: Relation[] = [
+    percentOfWeight('bodyFatMass', 'bodyFatPercentage'),
+    percentOfWeight('skeletalMuscle', 'skeletalMusclePercentage'),
+    percentOfWeight('protein', 'proteinPercentage'),
+    percentOfWeight('boneMass', 'boneMassPercentage'),
+    {
+      id: 'fat-free-mass',
+      formula: 'fatFreeMass = weight − bodyFatMass',
+      fields: ['fatFreeMass', 'weight', 'bodyFatMass'],
+      solve: {
+        fatFreeMass: v => v.get('weight')! - v.get('bodyFatMass')!,
+        weight: v => v.get('fatFreeMass')! + v.get('bodyFatMass')!,
+        bodyFatMass: v => v.get('weight')! - v.get('fatFreeMass')!,
+      },
+      tolerance: v => Math.max(1, v.get('weight')! * 0.01),
+    },
+    {
+      id: 'lean-body-mass',
+      formula: 'lbm = fatFreeMass',
+      fields: ['lbm', 'fatFreeMass'],
+      solve: {
+        lbm: v => v.get('fatFreeMass')!,
+        fatFreeMass: v => v.get('lbm')!,
+      },
+      tolerance: () => 0.5,
+    },
+  ];
+
+  if (heightInches) {
+    const heightM2 = Math.pow(heightInches * M_PER_INCH, 2);
+    relations.push({
+      id: 'bmi',
+      formula: `bmi = 703 × weight / ${round1(heightInches)}in²`,
+      fields: ['bmi', 'weight'],
+      solve: {
+        bmi: v => 703 * v.get('weight')! / (heightInches * heightInches),
+        weight: v => v.get('bmi')! * heightInches * heightInches / 703,
+      },
+      tolerance: v => Math.max(0.2, v.get('bmi')! * 0.01),
+    });
+
+    const smiSolve: Relation['solve'] = {
+      smi: v => sum(v, APPENDICULAR_MUSCLE) / LB_PER_KG / heightM2,
+    };
+    for (const part of APPENDICULAR_MUSCLE) {
+      smiSolve[part] = v => v.get('smi')! * heightM2 * LB_PER_KG - sum(v, APPENDICULAR_MUSCLE.filter(p => p !== part));
+    }
+    relations.push({
+      id: 'smi',
+      formula: `smi = (arms + legs muscle, kg) / ${round1(heightInches * M_PER_INCH * 100) / 100}m²`,
+      fields: ['smi', ...APPENDICULAR_MUSCLE],
+      solve: smiSolve,
+      tolerance: v => Math.max(0.2, v.get('smi')! * 0.025),
+    });
+  }
+
+  // Segmental identities need constants only the previous scan can provide
+  if (previous) {
+    const segmentShare = (total: number, parts: SegmentalKey[]) => {
+      const partsTotal = parts.reduce((t, key) => t + readField(previous, key), 0);
+      return total > 0 && parts.every(key => readField(previous, key) > 0) ? partsTotal / total : 0;
+    };
+
+    const fatShare = segmentShare(previous.bodyFatMass, FAT_SEGMENTS);
+    if (fatShare > 0) relations.push(segmentalTotal('segmental-fat', 'bodyFatMass', FAT_SEGMENTS, fatShare));
+
+    const muscleShare = segmentShare(previous.softLeanMass, MUSCLE_SEGMENTS);
+    if (muscleShare > 0) relations.push(segmentalTotal('segmental-muscle', 'softLeanMass', MUSCLE_SEGMENTS, muscleShare));
+
+    for (const key of [...MUSCLE_SEGMENTS, ...FAT_SEGMENTS]) {
+      const lb = readField(previous, key);
+      const percent = readField(previous, `${key}.percent`);
+      if (lb > 0 && percent > 0) relations.push(segmentalPercent(key, lb / percent * 100));
+    }
+  }
+
+  return relations;
+}
+
+// ========================================
+// Engine
+// ========================================
+
+const isComplete = (relation: Relation, v: Values) => relation.fields.every(f => (v.get(f) || 0) > 0);
+
+function isSatisfied(relation: Relation, v: Values): boolean {
+  const [checked] = relation.fields;
+  const expected = relation.solve[checked]!(v);
+  return Math.abs(v.get(checked)! - expected) <= relation.tolerance(v);
+}
+
+interface Fix {
+  field: ReconcileField;
+  value: number;
+  relation: Relation;
+  satisfied: number;
+}
+
+/**
+ * Best replacement for a single garbled field, if the data pins one down
+ * A candidate must leave every relation it belongs to satisfied, and be confirmed
+ * by a second relation or derived only from fields other relations corroborate.
+ */
+function findFix(v: Values, relations: Relation[], provenance: ProvenanceMap): Fix | null {
+  const complete = relations.filter(r => isComplete(r, v));
+  const violated = complete.filter(r => !isSatisfied(r, v));
+  if (violated.length === 0) return null;
+
+  const corroborated = new Set<ReconcileField>(
+    complete.filter(r => isSatisfied(r, v)).flatMap(r => r.fields)
+  );
+
+  const fixes: Fix[] = [];
+  for (const relation of violated) {
+    for (const field of relation.fields) {
+      const solve = relation.solve[field];
+      if (!solve) continue;
+
+      const value = solve(v);
+      if (!isFinite(value) || value <= 0) continue;
+
+      const trial = new Map(v);
+      trial.set(field, value);
+      const involved = complete.filter(r => r.fields.includes(field));
+      if (!involved.every(r => isSatisfied(r, trial))) continue;
+
+      const inputsTrusted = relation.fields.filter(f => f !== field).every(f => corroborated.has(f));
+      if (involved.length < 2 && !inputsTrusted) continue;
+
+      fixes.push({
+        field,
+        value,
+        relation,
+        satisfied: complete.filter(r => isSatisfied(r, trial)).length,
+      });
+    }
+  }
+
+  if (fixes.length === 0) return null;
+
+  // Most relations satisfied wins; ties go to the field OCR was least sure of
+  const confidence = (f: Fix) => provenance[baseKey(f.field)]?.confidence ?? 1;
+  fixes.sort((a, b) => b.satisfied - a.satisfied || confidence(a) - confidence(b));
+
+  // Several relations can derive the same field; take their median to average out rounding
+  const [best] = fixes;
+  const values = fixes
+    .filter(f => f.field === best.field && f.satisfied === best.satisfied)
+    .map(f => f.value)
+    .sort((a, b) => a - b);
+  const mid = Math.floor(values.length / 2);
+  const value = values.length % 2 === 0 ? (values[mid - 1] + values[mid]) / 2 : values[mid];
+  return { ...best, value };
+}
+
+function derivedProvenance(
+  relation: Relation,
+  field: ReconcileField,
+  provenance: ProvenanceMap,
+  replacedValue?: number
+): FieldProvenance {
+  const inputs = [...new Set(relation.fields.filter(f => f !== field).map(baseKey))];
+  const confidences = inputs
+    .map(key => provenance[key]?.confidence)
+    .filter((c): c is number => c !== null && c !== undefined);
+  return {
+    source: 'derived',
+    text: relation.formula,
+    bbox: null,
+    confidence: confidences.length > 0 ? Math.min(...confidences) : null,
+    derivedFrom: inputs,
+    ...(replacedValue !== undefined ? { replacedValue } : {}),
+  };
+}
+
+/**
+ * Check an entry's identities, replacing garbled values and filling missing ones
+ * Pass the previous entry to enable the segmental identities and a better height estimate.
+ */
+export function reconcileEntry(entry: BIAEntry, previous: BIAEntry | null = null): ReconciliationResult {
+  const heightInches = resolveHeightInches(entry, previous);
+  const relations = buildRelations(heightInches, previous);
+  const provenance: ProvenanceMap = { ...(entry.provenance ?? {}) };
+  const changes: ReconciliationChange[] = [];
+
+  const values: Values = new Map();
+  for (const field of new Set(relations.flatMap(r => r.fields))) {
+    values.set(field, readField(entry, field));
+  }
+
+  const apply = (field: ReconcileField, value: number, relation: Relation, replaced?: number) => {
+    const rounded = round1(value);
+    provenance[baseKey(field)] = derivedProvenance(relation, field, provenance, replaced);
+    values.set(field, rounded);
+    changes.push({
+      field,
+      value: rounded,
+      relation: relation.id,
+      reason: replaced !== undefined ? 'inconsistent' : 'missing',
+      ...(replaced !== undefined ? { replaced } : {}),
+    });
+  };
+
+  // 1. Replace garbled values
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const fix = findFix(values, relations, provenance);
+    if (!fix) break;
+    apply(fix.field, fix.value, fix.relation, values.get(fix.field));
+  }
+
+  // 2. Fill missing values until nothing more can be derived
+  let filled = true;
+  while (filled) {
+    filled = false;
+    for (const relation of relations) {
+      const missing = relation.fields.filter(f => !((values.get(f) || 0) > 0));
+      if (missing.length !== 1) continue;
+
+      const [field] = missing;
+      const value = relation.solve[field]?.(values);
+      if (value === undefined || !isFinite(value) || value <= 0) continue;
+
+      apply(field, value, relation);
+      filled = true;
+    }
+  }
+
+  if (changes.length === 0) return { entry, changes };
+
+  const reconciled: BIAEntry = JSON.parse(JSON.stringify(entry));
+  for (const change of changes) {
+    writeField(reconciled, change.field, change.value);
+  }
+  reconciled.provenance = provenance;
+
+  return { entry: reconciled, changes };
+}
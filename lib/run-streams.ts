@@ -0,0 +1,48 @@
+/**
+ * Run stream analysis
+ * Works on the per-sample streams stored for each Strava run. Best efforts
+ * are the fastest stretch of each milestone distance anywhere inside a run
+ * (e.g. the quickest 5K within a 10 miler), measured on elapsed time like
+ * Strava's own best efforts.
+ */
+
+import { ActivityStreams, RUNNING_MILESTONES, RunningMilestoneKey } from './types';
+
+/**
+ * Fastest elapsed time to cover `targetMiles` anywhere in the streams
+ * Window ends are interpolated between samples, so sparse recordings still
+ * give an exact distance rather than the next sample past it.
+ */
+export function findBestEffort(streams: ActivityStreams, targetMiles: number): number | null {
+  const { time, distance } = streams;
+  const n = Math.min(time.length, distance.length);
+  if (n < 2 || distance[n - 1] - distance[0] < targetMiles) return null;
+
+  let best = Infinity;
+  let end = 1;
+  for (let start = 0; start < n - 1; start++) {
+    const goal = distance[start] + targetMiles;
+    if (end <= start) end = start + 1;
+    while (end < n && distance[end] < goal) end++;
+    if (end >= n) break;
+
+    const segment = distance[end] - distance[end - 1];
+    const fraction = segment > 0 ? (goal - distance[end - 1]) / segment : 1;
+    const finish = time[end - 1] + fraction * (time[end] - time[end - 1]);
+    best = Math.min(best, finish - time[start]);
+  }
+
+  return Number.isFinite(best) && best > 0 ? Math.round(best * 10) / 10 : null;
+}
+
+/**
+ * Best effort for every milestone distance the run covers
+ */
+export function calculateBestEfforts(streams: ActivityStreams): Partial<Record<RunningMilestoneKey, number>> {
+  const efforts: Partial<Record<RunningMilestoneKey, number>> = {};
+  for (const milestone of RUNNING_MILESTONES) {
+    const seconds = findBestEffort(streams, milestone.miles);
+    if (seconds !== null) efforts[milestone.key] = seconds;
+  }
+  return efforts;
+}
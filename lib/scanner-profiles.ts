@@ -0,0 +1,320 @@
+/**
+ * BIA Scanner Profiles
+ * Each profile describes how one device's printout/app screen reads after OCR:
+ * the text signatures used to recognise it, the regexes for every metric,
+ * the units it reports in and how its segmental table is laid out.
+ */
+
+import { BIAEntry } from './types';
+
+// Numeric keys of BIAEntry (excludes segmental objects and string fields)
+export type ScannerFieldKey = {
+  [K in keyof BIAEntry]-?: BIAEntry[K] extends number ? K : never;
+}[keyof BIAEntry];
+
+export type MassUnit = 'lb' | 'kg';
+
+export interface FieldSpec {
+  patterns: RegExp[];
+  // Join capture groups 1 and 2 as integer/decimal parts (OCR splits "144 .8")
+  splitDecimal?: boolean;
+}
+
+export interface DatePattern {
+  pattern: RegExp;
+  order: 'mdy' | 'dmy' | 'ymd';
+}
+
+export interface SegmentalSectionSpec {
+  section: RegExp[];
+  values: 'mass-percent' | 'percent-mass' | 'mass' | 'percent';
+}
+
+export type SegmentalLayout =
+  | { kind: 'none' }
+  // Body diagram with left values ("® 9.6lb MW 125.7%") and right values ("HM 127.4% @9.8lb")
+  | { kind: 'marker-columns'; muscleSection: RegExp[]; fatSection: RegExp[] }
+  // Table with one labelled row per region ("Right Arm 3.85kg 112.4%")
+  | { kind: 'labelled-rows'; muscle: SegmentalSectionSpec; fat: SegmentalSectionSpec };
+
+export interface ScannerProfile {
+  id: string;
+  label: string;
+  signatures: Array<{ pattern: RegExp; weight: number }>;
+  units: {
+    mass: MassUnit | 'detect';
+    water: 'L' | MassUnit;
+    height: 'ft-in' | 'cm';
+  };
+  header: {
+    date: DatePattern[];
+    name?: RegExp;
+    gender?: RegExp;
+    height?: RegExp;
+  };
+  fields: Partial<Record<ScannerFieldKey, FieldSpec>>;
+  segmental: SegmentalLayout;
+  bodyShape?: RegExp;
+}
+
+export interface ScannerMatch {
+  profile: ScannerProfile;
+  confidence: number; // 0-1, share of signature weight found in the text
+}
+
+// ========================================
+// Profiles
+// ========================================
+
+const SMART_SCALE_PROFILE: ScannerProfile = {
+  id: 'smart-scale',
+  label: 'Smart Scale (health assessment report)',
+  signatures: [
+    { pattern: /Health\s*assessment/i, weight: 3 },
+    { pattern: /Muscle\s*balance/i, weight: 3 },
+    { pattern: /Segmental\s*fat\s*analysis/i, weight: 2 },
+    { pattern: /Fat[- ]?free\s*Body\s*Weight/i, weight: 2 },
+    { pattern: /Body\s*Type/i, weight: 1 },
+    { pattern: /\d+\.?\d*\s*points/i, weight: 1 },
+  ],
+  units: { mass: 'lb', water: 'L', height: 'ft-in' },
+  header: {
+    date: [{ pattern: /(\d{2})\/(\d{2})\/(\d{4})/, order: 'mdy' }],
+    name: /([A-Z][a-z]+\s+[A-Z][a-z]+)\s+\d+\s+(?:Male|Female)/i,
+    gender: /(Male|Female)/i,
+    height: /(\d+)['"]\s*(\d*)['""]?/,
+  },
+  fields: {
+    age: { patterns: [/(\d+)\s+(?:Male|Female)/i] },
+    // "93.3points" or "93.3/100"
+    fitnessScore: {
+      patterns: [
+        /(?:Health\s*assessment|assessment)\s*(\d+\.?\d*)\s*points/i,
+        /(\d+\.?\d*)\s*points/i,
+        /(\d+\.?\d*)\s*\/\s*100/,
+      ],
+    },
+    // "172Ib", "171.2lb", or "Weight\n172lb" - avoid "Normal weight" from recommendations
+    weight: {
+      patterns: [
+        /(?<!Normal\s)Weight\s*\n?\s*(\d{2,3}\.?\d*)(?:[Il\|])?[bp]/i,
+        /(\d{3}\.?\d*)(?:[Il\|])?[bp]\s*Fat\s*Mass/i,
+        /Body\s*Composition[\s\S]{0,50}?(\d{3}\.?\d*)(?:[Il\|])?[bp]/i,
+      ],
+    },
+    bmi: {
+      patterns: [
+        /BMI\s*[\s\S]{0,30}?(\d{2}\.\d)(?!\d)/i,
+        /\(kg\/m[²2\?]?\)\s*[\s\S]{0,30}?(\d{2}\.\d)(?!\d)/i,
+        /BMI\s*[:\s]+(\d{1,2}\.\d)/i,
+      ],
+    },
+    bodyFatPercentage: { patterns: [/Fat\s*Mass\s*(\d{1,2}\.\d)%/i] },
+    visceralFat: { patterns: [/Visceral\s*Fat\s*[~\-—]*\s*(?:\[?[^\d]*)?\s*(\d+)/i] },
+    bodyWaterPercentage: {
+      patterns: [/Body\s*Water\s*Percentage\s*(\d+\.?\d*)/i, /Body\s*Water\s*(\d{2}\.\d)%/i],
+    },
+    // Number followed by L (not lb), typically 30-60 range
+    bodyWater: {
+      patterns: [/Body\s*Water\s*(\d{2}\.?\d*)\s*L(?!b)/i, /(\d{2}\.\d)\s*L\s*(?=.*Body\s*Water)/i],
+    },
+    proteinPercentage: {
+      patterns: [/Protein\s*Percentage\s*(\d+\.?\d*)/i, /Protein\s*(\d{1,2}\.\d)%/i],
+    },
+    boneMassPercentage: {
+      patterns: [/Bone\s*Mass\s*Percentage\s*(\d+\.?\d*)/i, /Bone\s*Mass\s*(\d\.\d)%/i],
+    },
+    skeletalMusclePercentage: { patterns: [/Skeletal\s*Muscle\s*Percentage\s*(\d+\.?\d*)/i] },
+    // "Fat-free Body Weight 144 .8|p" or "144.8lb"
+    fatFreeMass: {
+      patterns: [
+        /Fat[- ]?free\s*Body\s*Weight\s*(\d+)\s*\.?\s*(\d+)\s*(?:l|I|\|)?[bp]/i,
+        /Fat[- ]?free\s*Body\s*Weight\s*(\d+\.?\d*)\s*(?:l|I|\|)?b/i,
+      ],
+      splitDecimal: true,
+    },
+    // "Muscle Mass  137.8Ib"
+    softLeanMass: { patterns: [/Muscle\s*Mass\s{1,4}(\d{2,3})\.?(\d*)(?:l|I)?b/i], splitDecimal: true },
+    bmr: { patterns: [/BMR\s{1,4}(\d{4})/i] },
+    metabolicAge: { patterns: [/Metabolic\s*Age\s*(\d+)/i] },
+    muscleMassPercentage: { patterns: [/Muscle\s*Mass\s*Percentage\s*(\d+\.?\d*)%?/i] },
+    subcutaneousFatPercentage: { patterns: [/Subcutaneous\s*Fat\s*Percentage\s*(\d+\.?\d*)/i] },
+    smi: { patterns: [/SMI\s*(\d+\.?\d*)/i] },
+    waistHipRatio: { patterns: [/Waist[- ]?Hip\s*Ratio\s*\(?(\d+\.?\d*)/i] },
+  },
+  segmental: {
+    kind: 'marker-columns',
+    muscleSection: [
+      /Muscle\s*balance[\s\S]*?(?:Segmental\s*fat|Fat\s*analysis)/i,
+      /Muscle\s*balance[\s\S]*?(?:©\s*Muscle\s*Mass)/i,
+    ],
+    fatSection: [
+      /Segmental\s*fat\s*analysis[\s\S]*?(?:Other\s*Measurements|©\s*Fat)/i,
+      /Segmental\s*fat[\s\S]*?(?:Other\s*Measurements|©\s*Fat)/i,
+    ],
+  },
+  bodyShape: /Body\s*Type\s*(Very\s*Muscular|Muscular|Heavy|Fit|Normal|Overweight|Skinny|Under\s*Exercised|Skinny\s*Fat)/i,
+};
+
+const INBODY_PROFILE: ScannerProfile = {
+  id: 'inbody',
+  label: 'InBody result sheet',
+  signatures: [
+    { pattern: /InBody/i, weight: 4 },
+    { pattern: /Body\s*Composition\s*Analysis/i, weight: 2 },
+    { pattern: /Muscle[- ]?Fat\s*Analysis/i, weight: 2 },
+    { pattern: /Segmental\s*Lean\s*Analysis/i, weight: 2 },
+    { pattern: /Obesity\s*Analysis/i, weight: 1 },
+    { pattern: /\bPBF\b/, weight: 1 },
+  ],
+  units: { mass: 'detect', water: 'L', height: 'cm' },
+  header: {
+    date: [
+      { pattern: /(\d{4})[.\-\/](\d{2})[.\-\/](\d{2})/, order: 'ymd' },
+      { pattern: /(\d{2})\/(\d{2})\/(\d{4})/, order: 'mdy' },
+    ],
+    gender: /(Male|Female)/i,
+    height: /Height\s*(\d{3}(?:\.\d)?)\s*cm/i,
+  },
+  fields: {
+    age: { patterns: [/Age\s*(\d{2})/i] },
+    fitnessScore: { patterns: [/InBody\s*Score\s*(\d{2,3})/i] },
+    weight: { patterns: [/(?<!Target\s)Weight\s*(\d{2,3}\.\d)/i] },
+    skeletalMuscle: { patterns: [/Skeletal\s*Muscle\s*Mass\s*(\d{2,3}\.\d)/i, /\bSMM\b[^\d]*(\d{2,3}\.\d)/] },
+    bodyFatMass: { patterns: [/Body\s*Fat\s*Mass\s*(\d{1,3}\.\d)/i] },
+    bodyFatPercentage: { patterns: [/Percent\s*Body\s*Fat\s*(\d{1,2}\.\d)/i, /\bPBF\b[^\d]*(\d{1,2}\.\d)/] },
+    bmi: { patterns: [/BMI[^\d]*(\d{2}\.\d)/i] },
+    bodyWater: { patterns: [/Total\s*Body\s*Water\s*(\d{2,3}\.\d)/i, /\bTBW\b[^\d]*(\d{2,3}\.\d)/] },
+    protein: { patterns: [/Protein\s*(\d{1,2}\.\d)/i] },
+    boneMass: { patterns: [/Bone\s*Mineral\s*Content\s*(\d{1,2}\.\d+)/i, /Minerals?\s*(\d{1,2}\.\d+)/i] },
+    fatFreeMass: { patterns: [/Fat\s*Free\s*Mass\s*(\d{2,3}\.\d)/i, /\bFFM\b[^\d]*(\d{2,3}\.\d)/] },
+    bmr: { patterns: [/Basal\s*Metabolic\s*Rate\s*(\d{3,4})/i, /\bBMR\b[^\d]*(\d{3,4})/] },
+    visceralFat: { patterns: [/Visceral\s*Fat\s*Level\s*(\d{1,2})/i] },
+    waistHipRatio: { patterns: [/Waist[- ]?Hip\s*Ratio\s*(\d\.\d{2})/i] },
+    smi: { patterns: [/\bSMI\b[^\d]*(\d{1,2}\.\d)/] },
+  },
+  segmental: {
+    kind: 'labelled-rows',
+    muscle: {
+      section: [/Segmental\s*Lean\s*Analysis[\s\S]*?(?:Segmental\s*Fat|Body\s*Composition\s*History|$)/i],
+      values: 'mass-percent',
+    },
+    fat: {
+      section: [/Segmental\s*Fat\s*Analysis[\s\S]*?(?:Body\s*Composition\s*History|Research\s*Parameters|$)/i],
+      values: 'mass-percent',
+    },
+  },
+};
+
+const TANITA_PROFILE: ScannerProfile = {
+  id: 'tanita',
+  label: 'Tanita body composition analyzer',
+  signatures: [
+    { pattern: /TANITA/i, weight: 4 },
+    { pattern: /Physique\s*Rating/i, weight: 2 },
+    { pattern: /Visceral\s*Fat\s*Rating/i, weight: 2 },
+    { pattern: /\bTBW\s*%/i, weight: 1 },
+    // Model numbers (BC-418, MC-780, DC-360...) and the home-scale brand;
+    // Metabolic Age and Bone Mass are left out as the smart-scale report prints them too
+    { pattern: /\b(?:BC|MC|DC|RD)-?\d{3,4}\b/, weight: 3 },
+    { pattern: /InnerScan/i, weight: 2 },
+  ],
+  units: { mass: 'detect', water: 'kg', height: 'cm' },
+  header: {
+    date: [
+      { pattern: /(\d{2})\/(\d{2})\/(\d{4})/, order: 'dmy' },
+      { pattern: /(\d{4})[.\-\/](\d{2})[.\-\/](\d{2})/, order: 'ymd' },
+    ],
+    gender: /(Male|Female)/i,
+    height: /Height\s*(\d{3}(?:\.\d)?)\s*cm/i,
+  },
+  fields: {
+    age: { patterns: [/Age\s*(\d{2})/i] },
+    weight: { patterns: [/Weight\s*(\d{2,3}\.\d)/i] },
+    bmi: { patterns: [/BMI\s*(\d{2}\.\d)/i] },
+    bodyFatPercentage: { patterns: [/(?:Body\s*)?Fat\s*%\s*(\d{1,2}\.\d)/i] },
+    bodyFatMass: { patterns: [/Fat\s*Mass\s*(\d{1,3}\.\d)/i] },
+    fatFreeMass: { patterns: [/\bFFM\b\s*(\d{2,3}\.\d)/, /Fat\s*Free\s*Mass\s*(\d{2,3}\.\d)/i] },
+    softLeanMass: { patterns: [/(?:Predicted\s*)?Muscle\s*Mass\s*(\d{2,3}\.\d)/i] },
+    bodyWater: { patterns: [/\bTBW\b\s*(\d{2,3}\.\d)/] },
+    bodyWaterPercentage: { patterns: [/\bTBW\s*%\s*(\d{2}\.\d)/, /Body\s*Water\s*%\s*(\d{2}\.\d)/i] },
+    boneMass: { patterns: [/(?:Estimated\s*)?Bone\s*Mass\s*(\d{1,2}\.\d)/i] },
+    bmr: { patterns: [/BMR\s*(?:\(kcal\))?\s*(\d{4})/i, /(\d{4})\s*kcal/i] },
+    metabolicAge: { patterns: [/Metabolic\s*Age\s*(\d{2})/i] },
+    visceralFat: { patterns: [/Visceral\s*Fat\s*(?:Rating|Level)?\s*(\d{1,2})/i] },
+  },
+  segmental: {
+    kind: 'labelled-rows',
+    muscle: { section: [/Segmental\s*Muscle[\s\S]*?(?:Segmental\s*Fat|$)/i], values: 'mass' },
+    // Tanita reports segmental fat as a percentage of that segment only
+    fat: { section: [/Segmental\s*Fat[\s\S]*?(?:Segmental\s*Muscle|$)/i], values: 'percent' },
+  },
+};
+
+const WITHINGS_PROFILE: ScannerProfile = {
+  id: 'withings',
+  label: 'Withings Health Mate',
+  signatures: [
+    { pattern: /Withings/i, weight: 4 },
+    { pattern: /Health\s*Mate/i, weight: 3 },
+    { pattern: /Vascular\s*Age/i, weight: 2 },
+    { pattern: /Nerve\s*Health/i, weight: 2 },
+    { pattern: /Hydration/i, weight: 1 },
+  ],
+  units: { mass: 'detect', water: 'kg', height: 'cm' },
+  header: {
+    date: [
+      { pattern: /(\d{4})-(\d{2})-(\d{2})/, order: 'ymd' },
+      { pattern: /(\d{2})\/(\d{2})\/(\d{4})/, order: 'mdy' },
+    ],
+  },
+  fields: {
+    weight: { patterns: [/Weight\s*(\d{2,3}\.\d)/i] },
+    bodyFatPercentage: { patterns: [/(?:Body\s*)?Fat\s*(?:%|Percentage)\s*(\d{1,2}\.\d)/i, /Fat\s*(\d{1,2}\.\d)\s*%/i] },
+    bodyFatMass: { patterns: [/Fat\s*Mass\s*(\d{1,3}\.\d)/i] },
+    softLeanMass: { patterns: [/Muscle\s*Mass\s*(\d{2,3}\.\d)/i] },
+    boneMass: { patterns: [/Bone\s*Mass\s*(\d{1,2}\.\d)/i] },
+    bodyWater: { patterns: [/(?:Hydration|Water\s*Mass)\s*(\d{2,3}\.\d)/i] },
+    bodyWaterPercentage: { patterns: [/(?:Body\s*)?Water\s*(?:%|Percentage)\s*(\d{2}\.\d)/i, /Water\s*(\d{2}\.\d)\s*%/i] },
+    visceralFat: { patterns: [/Visceral\s*Fat\s*(?:Index|Level)?\s*(\d{1,2})/i] },
+    bmi: { patterns: [/BMI\s*(\d{2}\.\d)/i] },
+    metabolicAge: { patterns: [/Metabolic\s*Age\s*(\d{2})/i] },
+  },
+  segmental: { kind: 'none' },
+};
+
+export const SCANNER_PROFILES: ScannerProfile[] = [
+  SMART_SCALE_PROFILE,
+  INBODY_PROFILE,
+  TANITA_PROFILE,
+  WITHINGS_PROFILE,
+];
+
+// Used when no profile's signatures appear in the text
+export const DEFAULT_SCANNER_PROFILE = SMART_SCALE_PROFILE;
+
+export function getScannerProfile(id: string): ScannerProfile | undefined {
+  return SCANNER_PROFILES.find(p => p.id === id);
+}
+
+/**
+ * Pick the profile whose signatures best cover the OCR text
+ * Confidence is the matched share of that profile's signature weight
+ */
+export function detectScannerProfile(text: string): ScannerMatch {
+  let best: ScannerMatch = { profile: DEFAULT_SCANNER_PROFILE, confidence: 0 };
+
+  for (const profile of SCANNER_PROFILES) {
+    const total = profile.signatures.reduce((sum, s) => sum + s.weight, 0);
+    const matched = profile.signatures
+      .filter(s => s.pattern.test(text))
+      .reduce((sum, s) => sum + s.weight, 0);
+    const confidence = total > 0 ? Math.round((matched / total) * 100) / 100 : 0;
+
+    if (confidence > best.confidence) {
+      best = { profile, confidence };
+    }
+  }
+
+  return best;
+}
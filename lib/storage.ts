@@ -48,6 +48,10 @@ export function deleteEntry(id: string): void {
   }
 }
 
+/**
+ * Legacy localStorage dump - entries now live in Supabase.
+ * Use GET /api/archive (lib/data-archive.ts) for a full export.
+ */
 export function exportData(): string {
   const entries = getEntries();
   return JSON.stringify(entries, null, 2);
@@ -1,15 +1,21 @@
 /**
  * Strava API Client
- * Fetches running activities and calculates splits
+ * Fetches activities of every sport and calculates run splits
  */
 
 import { refreshStravaToken, StravaTokenResponse } from './strava-config';
+import { calculateBestEfforts } from './run-streams';
+import { ActivitySport, ActivityStreams, RunningMilestoneKey } from './types';
 
 const STRAVA_API_BASE = 'https://www.strava.com/api/v3';
 
 // Meters to miles conversion
 const METERS_TO_MILES = 0.000621371;
 const METERS_TO_FEET = 3.28084;
+const MPS_TO_MPH = 2.23694;
+
+// Stream types requested for each run
+const STREAM_KEYS = ['time', 'distance', 'heartrate', 'cadence', 'altitude', 'velocity_smooth'] as const;
 
 /**
  * Strava activity from API
@@ -32,6 +38,8 @@ export interface StravaActivity {
     average_heartrate?: number;  // bpm
     max_heartrate?: number;      // bpm
     average_cadence?: number;    // rpm (for running: steps/min ÷ 2)
+    average_watts?: number;      // Rides: measured, or estimated when device_watts is false
+    device_watts?: boolean;
     splits_metric?: StravaSplit[];  // 1km splits
     splits_standard?: StravaSplit[]; // 1 mile splits
     laps?: StravaLap[];
@@ -56,6 +64,40 @@ export interface StravaLap {
     end_index: number;
 }
 
+/**
+ * Activity streams from API (requested with key_by_type=true)
+ */
+export type StravaStreamSet = Partial<Record<typeof STREAM_KEYS[number], {
+    data: number[];
+    series_type: 'time' | 'distance';
+    original_size: number;
+    resolution: 'low' | 'medium' | 'high';
+}>>;
+
+/**
+ * Whether an activity is a run (the only kind stored as a running activity)
+ */
+export function isRunningActivity(activity: StravaActivity): boolean {
+    return activity.type === 'Run' ||
+        activity.sport_type === 'Run' ||
+        activity.sport_type === 'TrailRun' ||
+        activity.sport_type === 'VirtualRun';
+}
+
+// Strava sport_types grouped into the rides and swims views; anything else that isn't a run is 'other'
+const RIDE_SPORT_TYPES = ['Ride', 'GravelRide', 'MountainBikeRide', 'EBikeRide', 'EMountainBikeRide', 'VirtualRide', 'Velomobile', 'Handcycle'];
+const SWIM_SPORT_TYPES = ['Swim'];
+
+/**
+ * Sport group for an activity
+ */
+export function getActivitySport(activity: StravaActivity): ActivitySport {
+    if (isRunningActivity(activity)) return 'run';
+    if (RIDE_SPORT_TYPES.includes(activity.sport_type) || activity.type === 'Ride') return 'ride';
+    if (SWIM_SPORT_TYPES.includes(activity.sport_type) || activity.type === 'Swim') return 'swim';
+    return 'other';
+}
+
 /**
  * Create a Strava API client with automatic token refresh
  */
@@ -135,7 +177,7 @@ export class StravaClient {
     }
 
     /**
-     * Get running activities
+     * Get activities of every sport
      * @param after - Only return activities after this date
      * @param page - Page number (1-indexed)
      * @param perPage - Number of activities per page (max 200)
@@ -150,15 +192,7 @@ export class StravaClient {
             params.set('after', Math.floor(after.getTime() / 1000).toString());
         }
 
-        const activities = await this.request<StravaActivity[]>(`/athlete/activities?${params}`);
-
-        // Filter to only running activities
-        return activities.filter(a =>
-            a.type === 'Run' ||
-            a.sport_type === 'Run' ||
-            a.sport_type === 'TrailRun' ||
-            a.sport_type === 'VirtualRun'
-        );
+        return this.request<StravaActivity[]>(`/athlete/activities?${params}`);
     }
 
     /**
@@ -169,9 +203,44 @@ export class StravaClient {
     }
 
     /**
-     * Get all running activities since a date, handling pagination
+     * Get the per-sample streams for an activity
+     * Manually entered activities come back without time/distance streams.
+     */
+    async getActivityStreams(activityId: number): Promise<StravaStreamSet> {
+        const params = new URLSearchParams({
+            keys: STREAM_KEYS.join(','),
+            key_by_type: 'true',
+        });
+        return this.request<StravaStreamSet>(`/activities/${activityId}/streams?${params}`);
+    }
+
+    /**
+     * Get full detail and streams for an activity from the activity list
+     * The list endpoint lacks HR, cadence and elev_high/low; on failure the
+     * summary is kept, and missing streams only cost the best efforts.
      */
-    async getAllRunningActivities(since?: Date): Promise<StravaActivity[]> {
+    async getDetailedActivity(summary: StravaActivity): Promise<{ activity: StravaActivity; streams: StravaStreamSet | null }> {
+        let activity = summary;
+        try {
+            activity = await this.getActivity(summary.id);
+        } catch (error) {
+            console.warn(`Failed to fetch details for Strava activity ${summary.id}:`, error);
+        }
+
+        let streams: StravaStreamSet | null = null;
+        try {
+            streams = await this.getActivityStreams(summary.id);
+        } catch (error) {
+            console.warn(`Failed to fetch streams for Strava activity ${summary.id}:`, error);
+        }
+
+        return { activity, streams };
+    }
+
+    /**
+     * Get all activities since a date, handling pagination
+     */
+    async getAllActivities(since?: Date): Promise<StravaActivity[]> {
         const allActivities: StravaActivity[] = [];
         let page = 1;
         const perPage = 100;
@@ -240,11 +309,42 @@ export function calculateMileSplits(activity: StravaActivity): { mile: number; t
     return splits;
 }
 
+/**
+ * Convert Strava streams to our compact, imperial format
+ * Returns null when the activity has no time/distance streams
+ */
+export function convertStravaStreams(streams: StravaStreamSet, sport: ActivitySport): ActivityStreams | null {
+    const time = streams.time?.data;
+    const distance = streams.distance?.data;
+    if (!time || !distance || time.length < 2) {
+        return null;
+    }
+
+    const convert = (data: number[] | undefined, factor: number, decimals: number): number[] | null => {
+        if (!data || data.length !== time.length) return null;
+        const scale = Math.pow(10, decimals);
+        return data.map(value => Math.round(value * factor * scale) / scale);
+    };
+
+    return {
+        time,
+        distance: convert(distance, METERS_TO_MILES, 4) ?? [],
+        heartrate: convert(streams.heartrate?.data, 1, 0),
+        // Runs report half-steps (one foot) like the summary cadence, so doubled; rides are rpm
+        cadence: convert(streams.cadence?.data, sport === 'run' ? 2 : 1, 0),
+        altitude: convert(streams.altitude?.data, METERS_TO_FEET, 1),
+        velocity: convert(streams.velocity_smooth?.data, MPS_TO_MPH, 2),
+    };
+}
+
 /**
  * Convert Strava activity to our format
+ * With streams, runs get best efforts from the fastest stretch of each distance
  */
-export function convertStravaActivity(activity: StravaActivity): {
+export function convertStravaActivity(activity: StravaActivity, stravaStreams: StravaStreamSet | null = null): {
     stravaId: string;
+    sport: ActivitySport;
+    sportType: string | null;
     activityDate: string;
     name: string;
     distanceMiles: number;
@@ -256,13 +356,21 @@ export function convertStravaActivity(activity: StravaActivity): {
     averageHeartrate: number | null;
     maxHeartrate: number | null;
     averageCadence: number | null;
+    averageWatts: number | null;
     splits: { mile: number; timeSeconds: number; cumulativeSeconds: number }[];
+    bestEfforts: Partial<Record<RunningMilestoneKey, number>> | null;
+    streams: ActivityStreams | null;
 } {
     const distanceMiles = activity.distance * METERS_TO_MILES;
     const durationSeconds = activity.moving_time;
+    const sport = getActivitySport(activity);
+    const isRun = sport === 'run';
+    const streams = stravaStreams ? convertStravaStreams(stravaStreams, sport) : null;
 
     return {
         stravaId: activity.id.toString(),
+        sport,
+        sportType: activity.sport_type || activity.type || null,
         activityDate: activity.start_date,
         name: activity.name,
         distanceMiles: Math.round(distanceMiles * 100) / 100,
@@ -285,10 +393,16 @@ export function convertStravaActivity(activity: StravaActivity): {
         maxHeartrate: activity.max_heartrate != null
             ? Math.round(activity.max_heartrate)
             : null,
-        // For running, Strava reports cadence as half-steps (one foot), so multiply by 2
+        // For running, Strava reports cadence as half-steps (one foot), so multiply by 2; rides are already rpm
         averageCadence: activity.average_cadence != null
-            ? Math.round(activity.average_cadence * 2)
+            ? Math.round(activity.average_cadence * (isRun ? 2 : 1))
+            : null,
+        averageWatts: activity.average_watts != null
+            ? Math.round(activity.average_watts * 10) / 10
             : null,
-        splits: calculateMileSplits(activity),
+        // Mile splits and best efforts only mean something for runs
+        splits: isRun ? calculateMileSplits(activity) : [],
+        bestEfforts: isRun && streams ? calculateBestEfforts(streams) : null,
+        streams,
     };
 }
@@ -24,6 +24,34 @@ export const STRAVA_OAUTH = {
     },
 };
 
+/**
+ * Push subscription (webhook) settings
+ * Register once per app:
+ *   curl -X POST https://www.strava.com/api/v3/push_subscriptions \
+ *     -F client_id=... -F client_secret=... \
+ *     -F callback_url=$NEXT_PUBLIC_APP_URL/api/strava/webhook -F verify_token=$STRAVA_WEBHOOK_VERIFY_TOKEN
+ */
+export const STRAVA_WEBHOOK = {
+    // Echoed back by Strava during the subscription handshake
+    verifyToken: process.env.STRAVA_WEBHOOK_VERIFY_TOKEN || '',
+
+    // Optional: when set, events from any other subscription are ignored
+    subscriptionId: process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID || '',
+};
+
+/**
+ * Event pushed by Strava to the webhook callback
+ */
+export interface StravaWebhookEvent {
+    object_type: 'activity' | 'athlete';
+    object_id: number;          // Activity ID, or athlete ID for athlete events
+    aspect_type: 'create' | 'update' | 'delete';
+    updates?: Record<string, string>;   // e.g. { title }, { type }, { private }, or { authorized: 'false' }
+    owner_id: number;           // Athlete ID
+    subscription_id: number;
+    event_time: number;         // Unix timestamp (seconds)
+}
+
 /**
  * Build the Strava authorization URL
  */
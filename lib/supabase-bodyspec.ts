@@ -4,8 +4,8 @@
  */
 
 import { supabase } from './supabase';
-import { BodyspecConnection, BodyspecScan, BodyspecScanData } from './types';
-import { Appointment } from './bodyspec-client';
+import { BodyspecAppointment, BodyspecConnection, BodyspecScan, BodyspecScanData } from './types';
+import { Appointment, BodyspecAppt } from './bodyspec-client';
 
 // Simple encryption/decryption for access tokens
 // NOTE: In production, consider using a more robust encryption solution
@@ -477,3 +477,92 @@ export async function getScansInDateRange(
     updatedAt: row.updated_at,
   }));
 }
+
+// ========================================
+// Appointment Management
+// ========================================
+
+function mapAppointment(row: Record<string, unknown>): BodyspecAppointment {
+  return {
+    id: row.id as string,
+    connectionId: row.connection_id as string,
+    apptId: row.appt_id as string,
+    startTime: row.start_time as string,
+    durationMinutes: row.duration_minutes as number | null,
+    location: row.location as string | null,
+    service: row.service as string | null,
+    status: row.status as string,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * Save appointments fetched from Bodyspec, updating ones already stored
+ */
+export async function saveAppointments(
+  connectionId: string,
+  appts: BodyspecAppt[]
+): Promise<BodyspecAppointment[]> {
+  if (appts.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('bodyspec_appointments')
+    .upsert(appts.map(appt => ({
+      connection_id: connectionId,
+      appt_id: appt.appt_id,
+      start_time: appt.start_time,
+      duration_minutes: appt.duration_minutes ?? null,
+      location: appt.location?.name ?? null,
+      service: appt.service?.name ?? null,
+      status: appt.status,
+    })), {
+      onConflict: 'connection_id,appt_id',
+    })
+    .select();
+
+  if (error) {
+    console.error('Error saving Bodyspec appointments:', error);
+    throw new Error(`Failed to save appointments: ${error.message}`);
+  }
+
+  return (data || []).map(mapAppointment);
+}
+
+/**
+ * Get appointments starting at or after a time, soonest first
+ * Cancelled appointments are left out.
+ */
+export async function getAppointments(
+  options: { connectionId?: string; since?: string } = {}
+): Promise<BodyspecAppointment[]> {
+  let query = supabase
+    .from('bodyspec_appointments')
+    .select('*')
+    .not('status', 'in', '(cancelled,canceled)');
+
+  if (options.connectionId) {
+    query = query.eq('connection_id', options.connectionId);
+  }
+  if (options.since) {
+    query = query.gte('start_time', options.since);
+  }
+
+  const { data, error } = await query.order('start_time', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching Bodyspec appointments:', error);
+    return [];
+  }
+
+  return (data || []).map(mapAppointment);
+}
+
+/**
+ * Get appointments that have not started yet
+ */
+export async function getUpcomingAppointments(connectionId?: string): Promise<BodyspecAppointment[]> {
+  return getAppointments({ connectionId, since: new Date().toISOString() });
+}
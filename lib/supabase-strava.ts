@@ -4,7 +4,7 @@
  */
 
 import { supabase } from './supabase';
-import { StravaConnection, RunningActivity, RunningSplit } from './types';
+import { StravaConnection, RunningActivity, RunningSplit, ActivityStreams, ActivitySport, RunningMilestoneKey } from './types';
 
 // Simple encryption/decryption for tokens
 function encryptToken(token: string): string {
@@ -154,6 +154,24 @@ export async function getStravaConnection(connectionId: string): Promise<StravaC
     return data ? mapRowToConnection(data) : null;
 }
 
+/**
+ * Get the connection for a Strava athlete (webhook events only carry the athlete ID)
+ */
+export async function getStravaConnectionByAthleteId(athleteId: string): Promise<StravaConnection | null> {
+    const { data, error } = await supabase
+        .from('strava_connections')
+        .select('*')
+        .eq('athlete_id', athleteId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching Strava connection by athlete:', error);
+        return null;
+    }
+
+    return data ? mapRowToConnection(data) : null;
+}
+
 /**
  * Update sync status for a connection
  */
@@ -203,12 +221,14 @@ export async function deleteStravaConnection(connectionId: string): Promise<void
 // ========================================
 
 /**
- * Save or update running activities
+ * Save or update Strava activities (any sport)
  */
 export async function saveRunningActivities(
     connectionId: string,
     activities: Array<{
         stravaId: string;
+        sport?: ActivitySport;
+        sportType?: string | null;
         activityDate: string;
         name: string;
         distanceMiles: number;
@@ -220,7 +240,10 @@ export async function saveRunningActivities(
         averageHeartrate: number | null;
         maxHeartrate: number | null;
         averageCadence: number | null;
+        averageWatts?: number | null;
         splits: Array<{ mile: number; timeSeconds: number; cumulativeSeconds: number }>;
+        bestEfforts?: Partial<Record<RunningMilestoneKey, number>> | null;
+        streams?: ActivityStreams | null;
     }>
 ): Promise<RunningActivity[]> {
     if (activities.length === 0) {
@@ -230,6 +253,8 @@ export async function saveRunningActivities(
     const rows = activities.map(a => ({
         connection_id: connectionId,
         strava_id: a.stravaId,
+        sport: a.sport ?? 'run',
+        sport_type: a.sportType ?? null,
         activity_date: a.activityDate,
         name: a.name,
         distance_miles: a.distanceMiles,
@@ -241,7 +266,9 @@ export async function saveRunningActivities(
         average_heartrate: a.averageHeartrate,
         max_heartrate: a.maxHeartrate,
         average_cadence: a.averageCadence,
+        average_watts: a.averageWatts ?? null,
         splits: a.splits,
+        best_efforts: a.bestEfforts ?? null,
     }));
 
     const { data, error } = await supabase
@@ -256,18 +283,84 @@ export async function saveRunningActivities(
         throw new Error(`Failed to save activities: ${error.message}`);
     }
 
-    return (data || []).map(mapRowToActivity);
+    const saved = (data || []).map(mapRowToActivity);
+
+    // Streams live in their own table, keyed by the saved activity row
+    const streamsByStravaId = new Map(activities.map(a => [a.stravaId, a.streams]));
+    const streamRows = saved.flatMap(activity => {
+        const streams = streamsByStravaId.get(activity.stravaId);
+        return streams
+            ? [{ activity_id: activity.id, point_count: streams.time.length, data: streams }]
+            : [];
+    });
+
+    if (streamRows.length > 0) {
+        const { error: streamsError } = await supabase
+            .from('running_activity_streams')
+            .upsert(streamRows, { onConflict: 'activity_id' });
+
+        if (streamsError) {
+            console.error('Error saving activity streams:', streamsError);
+            throw new Error(`Failed to save activity streams: ${streamsError.message}`);
+        }
+    }
+
+    return saved;
 }
 
 /**
- * Get all running activities, optionally filtered by connection
+ * Get the stored streams for one running activity
  */
-export async function getRunningActivities(connectionId?: string): Promise<RunningActivity[]> {
+export async function getActivityStreams(activityId: string): Promise<ActivityStreams | null> {
+    const { data, error } = await supabase
+        .from('running_activity_streams')
+        .select('data')
+        .eq('activity_id', activityId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching activity streams:', error);
+        return null;
+    }
+
+    return data ? (data.data as ActivityStreams) : null;
+}
+
+/**
+ * Delete a running activity by its Strava ID
+ * Returns the number of rows removed (0 when it was never stored)
+ */
+export async function deleteRunningActivity(connectionId: string, stravaId: string): Promise<number> {
+    const { data, error } = await supabase
+        .from('running_activities')
+        .delete()
+        .eq('connection_id', connectionId)
+        .eq('strava_id', stravaId)
+        .select('id');
+
+    if (error) {
+        console.error('Error deleting running activity:', error);
+        throw new Error(`Failed to delete activity: ${error.message}`);
+    }
+
+    return (data || []).length;
+}
+
+/**
+ * Get Strava activities of one sport (runs by default) or all, optionally filtered by connection
+ */
+export async function getRunningActivities(
+    connectionId?: string,
+    sport: ActivitySport | 'all' = 'run'
+): Promise<RunningActivity[]> {
     let query = supabase.from('running_activities').select('*');
 
     if (connectionId) {
         query = query.eq('connection_id', connectionId);
     }
+    if (sport !== 'all') {
+        query = query.eq('sport', sport);
+    }
 
     const { data, error } = await query.order('activity_date', { ascending: false });
 
@@ -352,6 +445,8 @@ function mapRowToActivity(row: Record<string, unknown>): RunningActivity {
         id: row.id as string,
         connectionId: row.connection_id as string,
         stravaId: row.strava_id as string,
+        sport: (row.sport as ActivitySport | null) ?? 'run',
+        sportType: row.sport_type as string | null,
         activityDate: row.activity_date as string,
         name: row.name as string | null,
         distanceMiles: row.distance_miles as number,
@@ -363,7 +458,9 @@ function mapRowToActivity(row: Record<string, unknown>): RunningActivity {
         averageHeartrate: row.average_heartrate as number | null,
         maxHeartrate: row.max_heartrate as number | null,
         averageCadence: row.average_cadence as number | null,
+        averageWatts: row.average_watts as number | null,
         splits: row.splits as RunningSplit[] | null,
+        bestEfforts: row.best_efforts as RunningActivity['bestEfforts'],
         createdAt: row.created_at as string,
         updatedAt: row.updated_at as string,
     };
@@ -0,0 +1,194 @@
+/**
+ * Sync run log
+ * Every integration sync (cron, manual button or webhook) records a run with
+ * what it fetched and wrote, so failures are visible beyond a single
+ * syncStatus per connection. Logging never fails the sync itself.
+ */
+
+import { supabase } from './supabase';
+import { SyncProvider, SyncRun, SyncRunStatus, SyncTrigger } from './types';
+
+// A run still 'running' after this long was cut off (cron maxDuration is 5 minutes)
+export const STALE_RUN_MS = 10 * 60 * 1000;
+
+// Upserts keep created_at, so rows created this close to the run start count as inserted
+const INSERT_CLOCK_SLACK_MS = 60 * 1000;
+
+export interface SyncRunHandle {
+  id: string | null;          // null when the run could not be logged
+  startedAt: Date;
+}
+
+export interface SyncRunCounts {
+  fetched: number;
+  inserted: number;
+  updated: number;
+}
+
+function mapSyncRun(row: Record<string, unknown>): SyncRun {
+  return {
+    id: row.id as string,
+    provider: row.provider as SyncProvider,
+    connectionId: row.connection_id as string | null,
+    trigger: row.trigger as SyncTrigger,
+    status: row.status as SyncRunStatus,
+    startedAt: row.started_at as string,
+    finishedAt: row.finished_at as string | null,
+    itemsFetched: row.items_fetched as number,
+    itemsInserted: row.items_inserted as number,
+    itemsUpdated: row.items_updated as number,
+    error: row.error as string | null,
+  };
+}
+
+/**
+ * Readable message from anything a sync can throw (API clients throw plain objects)
+ */
+export function getSyncErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  return String(error);
+}
+
+/**
+ * Split saved rows into inserted and updated by when they were created
+ */
+export function countWrites(
+  createdAts: Array<string | null | undefined>,
+  run: SyncRunHandle
+): { inserted: number; updated: number } {
+  const threshold = run.startedAt.getTime() - INSERT_CLOCK_SLACK_MS;
+  const inserted = createdAts.filter(createdAt => createdAt && new Date(createdAt).getTime() >= threshold).length;
+  return { inserted, updated: createdAts.length - inserted };
+}
+
+// ========================================
+// Writing
+// ========================================
+
+/**
+ * Log the start of a sync run
+ */
+export async function startSyncRun(
+  provider: SyncProvider,
+  trigger: SyncTrigger,
+  connectionId: string | null = null
+): Promise<SyncRunHandle> {
+  const startedAt = new Date();
+
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .insert({
+      provider,
+      connection_id: connectionId,
+      trigger,
+      status: 'running',
+      started_at: startedAt.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error starting sync run:', error);
+    return { id: null, startedAt };
+  }
+
+  return { id: data.id as string, startedAt };
+}
+
+/**
+ * Log the end of a sync run, as failed when an error is passed
+ */
+export async function finishSyncRun(
+  run: SyncRunHandle,
+  counts: Partial<SyncRunCounts>,
+  error?: unknown
+): Promise<void> {
+  if (!run.id) return;
+
+  const { error: updateError } = await supabase
+    .from('sync_runs')
+    .update({
+      status: error === undefined ? 'success' : 'error',
+      finished_at: new Date().toISOString(),
+      items_fetched: counts.fetched ?? 0,
+      items_inserted: counts.inserted ?? 0,
+      items_updated: counts.updated ?? 0,
+      error: error === undefined ? null : getSyncErrorMessage(error),
+    })
+    .eq('id', run.id);
+
+  if (updateError) {
+    console.error('Error finishing sync run:', updateError);
+  }
+}
+
+// ========================================
+// Reading
+// ========================================
+
+/**
+ * Most recent sync runs, newest first
+ */
+export async function getSyncRuns(limit = 100): Promise<SyncRun[]> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching sync runs:', error);
+    return [];
+  }
+
+  return (data || []).map(mapSyncRun);
+}
+
+// ========================================
+// Health
+// ========================================
+
+export interface SyncHealth {
+  provider: SyncProvider;
+  connectionId: string | null;
+  lastRun: SyncRun;
+  lastSuccessAt: string | null;
+  failureStreak: number;       // Consecutive failed runs up to the latest
+  runs: SyncRun[];             // Newest first
+}
+
+/**
+ * Effective status of a run; one left 'running' past the cron limit was cut off
+ */
+export function getRunStatus(run: SyncRun, now: Date = new Date()): SyncRunStatus {
+  if (run.status === 'running' && now.getTime() - new Date(run.startedAt).getTime() > STALE_RUN_MS) {
+    return 'error';
+  }
+  return run.status;
+}
+
+/**
+ * Health per provider connection from a list of runs (newest first)
+ */
+export function getSyncHealth(runs: SyncRun[], now: Date = new Date()): SyncHealth[] {
+  const groups = new Map<string, SyncRun[]>();
+  for (const run of runs) {
+    const key = `${run.provider}:${run.connectionId ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), run]);
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const finished = group.filter(run => getRunStatus(run, now) !== 'running');
+    const firstSuccess = finished.findIndex(run => run.status === 'success');
+
+    return {
+      provider: group[0].provider,
+      connectionId: group[0].connectionId,
+      lastRun: group[0],
+      lastSuccessAt: firstSuccess >= 0 ? finished[firstSuccess].startedAt : null,
+      failureStreak: firstSuccess >= 0 ? firstSuccess : finished.length,
+      runs: group,
+    };
+  });
+}
@@ -1,6 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { BIAEntry } from './types';
-import { autoCorrectEntry } from './pdf-parser';
+import { autoCorrectEntry, ValidationIssue } from './pdf-parser';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -59,30 +59,173 @@ export async function deleteEntryFromDb(id: string): Promise<void> {
   }
 }
 
-// Get pending images uploaded via iOS Shortcut
-export async function getPendingImages(): Promise<Array<{ id: string; data: string; content_type: string }>> {
+// ========================================
+// Pending image queue (iOS Shortcut uploads)
+// ========================================
+
+export type PendingImageStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface PendingImage {
+  id: string;
+  data: string | null;           // base64, cleared once processed
+  storagePath: string | null;    // bia-images object, when not stored inline
+  contentType: string;
+  status: PendingImageStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  entryId: string | null;
+  validationIssues: ValidationIssue[] | null;
+  createdAt: string;
+  processedAt: string | null;
+}
+
+function mapPendingImage(row: Record<string, unknown>): PendingImage {
+  return {
+    id: row.id as string,
+    data: (row.data as string | null) ?? null,
+    storagePath: (row.storage_path as string | null) ?? null,
+    contentType: row.content_type as string,
+    status: (row.status as PendingImageStatus) ?? 'pending',
+    attempts: (row.attempts as number) ?? 0,
+    nextAttemptAt: (row.next_attempt_at as string | null) ?? null,
+    lastError: (row.last_error as string | null) ?? null,
+    entryId: (row.entry_id as string | null) ?? null,
+    validationIssues: (row.validation_issues as ValidationIssue[] | null) ?? null,
+    createdAt: row.created_at as string,
+    processedAt: (row.processed_at as string | null) ?? null,
+  };
+}
+
+export async function getPendingImage(id: string): Promise<PendingImage | null> {
   const { data, error } = await supabase
     .from('pending_images')
     .select('*')
-    .order('created_at', { ascending: true });
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+  return mapPendingImage(data);
+}
+
+// Image bytes for a queued upload stored in the bia-images bucket
+export async function downloadPendingImage(storagePath: string): Promise<Buffer | null> {
+  const { data, error } = await supabase.storage
+    .from('bia-images')
+    .download(storagePath);
+
+  if (error || !data) {
+    console.error('Error downloading pending image:', error);
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// Images waiting for OCR, including retries whose backoff has elapsed
+// and 'processing' rows whose lease expired (worker crashed or timed out)
+export async function getDuePendingImageIds(limit: number): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('pending_images')
+    .select('id')
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('created_at', { ascending: true })
+    .limit(limit);
 
   if (error) {
-    console.error('Error fetching pending images:', error);
+    console.error('Error fetching due pending images:', error);
     return [];
   }
 
-  return data || [];
+  return (data || []).map(row => row.id);
 }
 
-// Delete a pending image after processing
-export async function deletePendingImage(id: string): Promise<void> {
+/**
+ * Mark an image as processing until leaseUntil, counting the attempt
+ * The attempt is counted at claim time so a worker that dies mid-OCR still uses one up;
+ * once maxAttempts have been used the row is failed instead of claimed.
+ * Returns null if another worker already holds it, it is not due or it was failed.
+ */
+export async function claimPendingImage(
+  id: string,
+  leaseUntil: Date,
+  maxAttempts: number
+): Promise<PendingImage | null> {
+  const now = new Date().toISOString();
+  const { data: current, error: readError } = await supabase
+    .from('pending_images')
+    .select('attempts, last_error')
+    .eq('id', id)
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', now)
+    .maybeSingle();
+
+  if (readError) {
+    console.error('Error claiming pending image:', readError);
+    return null;
+  }
+  if (!current) return null;
+
+  const attempts = (current.attempts as number) ?? 0;
+  const giveUp = attempts >= maxAttempts;
+
+  const row = giveUp
+    ? {
+      status: 'failed',
+      next_attempt_at: null,
+      last_error: (current.last_error as string | null) ?? `Gave up after ${attempts} attempts`,
+      updated_at: now,
+    }
+    : {
+      status: 'processing',
+      attempts: attempts + 1,
+      next_attempt_at: leaseUntil.toISOString(),
+      updated_at: now,
+    };
+
+  // Matching on attempts makes this a compare-and-set: a concurrent claim bumps it first
+  const { data, error } = await supabase
+    .from('pending_images')
+    .update(row)
+    .eq('id', id)
+    .eq('attempts', attempts)
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', now)
+    .select('*');
+
+  if (error) {
+    console.error('Error claiming pending image:', error);
+    return null;
+  }
+
+  return !giveUp && data && data.length > 0 ? mapPendingImage(data[0]) : null;
+}
+
+export async function updatePendingImage(
+  id: string,
+  updates: Partial<Pick<PendingImage,
+    'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'entryId' | 'validationIssues' | 'processedAt'
+  >> & { clearData?: boolean }
+): Promise<void> {
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (updates.status !== undefined) row.status = updates.status;
+  if (updates.attempts !== undefined) row.attempts = updates.attempts;
+  if (updates.nextAttemptAt !== undefined) row.next_attempt_at = updates.nextAttemptAt;
+  if (updates.lastError !== undefined) row.last_error = updates.lastError;
+  if (updates.entryId !== undefined) row.entry_id = updates.entryId;
+  if (updates.validationIssues !== undefined) row.validation_issues = updates.validationIssues;
+  if (updates.processedAt !== undefined) row.processed_at = updates.processedAt;
+  if (updates.clearData) row.data = null;
+
   const { error } = await supabase
     .from('pending_images')
-    .delete()
+    .update(row)
     .eq('id', id);
 
   if (error) {
-    console.error('Error deleting pending image:', error);
+    console.error('Error updating pending image:', error);
   }
 }
 
@@ -117,52 +260,202 @@ export async function getLatestOcrDebug(): Promise<string | null> {
 }
 
 // Goal operations
+export type GoalStatus = 'active' | 'achieved' | 'abandoned';
+
 export interface Goal {
+  id: string;
   metricKey: string;
   targetValue: number;
+  startValue: number | null;    // Metric value when the goal was set
+  startDate: string;
+  targetDate: string | null;    // YYYY-MM-DD deadline, optional
+  status: GoalStatus;
+  completedAt: string | null;
 }
 
+export interface GoalDetails {
+  startValue?: number | null;
+  targetDate?: string | null;
+}
+
+const GOAL_COLUMNS = 'id, metric_key, target_value, start_value, start_date, target_date, status, completed_at';
+
+function mapGoal(row: Record<string, unknown>): Goal {
+  return {
+    id: row.id as string,
+    metricKey: row.metric_key as string,
+    targetValue: Number(row.target_value),
+    startValue: row.start_value !== null && row.start_value !== undefined ? Number(row.start_value) : null,
+    startDate: row.start_date as string,
+    targetDate: (row.target_date as string | null) ?? null,
+    status: (row.status as GoalStatus) ?? 'active',
+    completedAt: (row.completed_at as string | null) ?? null,
+  };
+}
+
+/**
+ * Active goals, at most one per metric
+ */
 export async function getGoals(): Promise<Goal[]> {
   const { data, error } = await supabase
     .from('goals')
-    .select('metric_key, target_value');
+    .select(GOAL_COLUMNS)
+    .eq('status', 'active');
 
   if (error) {
     console.error('Error fetching goals:', error);
     return [];
   }
 
+  return (data || []).map(mapGoal);
+}
+
+/**
+ * Achieved and abandoned goals, most recently closed first
+ */
+export async function getGoalHistory(): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from('goals')
+    .select(GOAL_COLUMNS)
+    .neq('status', 'active')
+    .order('completed_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching goal history:', error);
+    return [];
+  }
+
+  return (data || []).map(mapGoal);
+}
+
+/**
+ * Create the active goal for a metric, or retarget the existing one
+ * Retargeting keeps the original start value and date so progress stays measured from the start.
+ */
+export async function saveGoal(metricKey: string, targetValue: number, details: GoalDetails = {}): Promise<void> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('goals')
+    .select('id')
+    .eq('metric_key', metricKey)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('Error saving goal:', fetchError);
+    throw fetchError;
+  }
+
+  const now = new Date().toISOString();
+  const { error } = existing
+    ? await supabase
+      .from('goals')
+      .update({
+        target_value: targetValue,
+        ...(details.targetDate !== undefined && { target_date: details.targetDate }),
+        updated_at: now,
+      })
+      .eq('id', existing.id)
+    : await supabase
+      .from('goals')
+      .insert({
+        metric_key: metricKey,
+        target_value: targetValue,
+        start_value: details.startValue ?? null,
+        start_date: now,
+        target_date: details.targetDate ?? null,
+        status: 'active',
+        updated_at: now,
+      });
+
+  if (error) {
+    console.error('Error saving goal:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close the active goal for a metric, keeping it as history
+ */
+export async function archiveGoal(metricKey: string, status: Exclude<GoalStatus, 'active'>): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('goals')
+    .update({ status, completed_at: now, updated_at: now })
+    .eq('metric_key', metricKey)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Error archiving goal:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove the active goal for a metric outright (archived goals are untouched)
+ */
+export async function deleteGoal(metricKey: string): Promise<void> {
+  const { error } = await supabase
+    .from('goals')
+    .delete()
+    .eq('metric_key', metricKey)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Error deleting goal:', error);
+    throw error;
+  }
+}
+
+// Normal range override operations
+export interface RangeOverride {
+  metricKey: string;
+  min: number;
+  max: number;
+}
+
+export async function getRangeOverrides(): Promise<RangeOverride[]> {
+  const { data, error } = await supabase
+    .from('metric_range_overrides')
+    .select('metric_key, min_value, max_value');
+
+  if (error) {
+    console.error('Error fetching range overrides:', error);
+    return [];
+  }
+
   return (data || []).map(row => ({
     metricKey: row.metric_key,
-    targetValue: Number(row.target_value),
+    min: Number(row.min_value),
+    max: Number(row.max_value),
   }));
 }
 
-export async function saveGoal(metricKey: string, targetValue: number): Promise<void> {
+export async function saveRangeOverride(metricKey: string, min: number, max: number): Promise<void> {
   const { error } = await supabase
-    .from('goals')
+    .from('metric_range_overrides')
     .upsert({
       metric_key: metricKey,
-      target_value: targetValue,
+      min_value: min,
+      max_value: max,
       updated_at: new Date().toISOString(),
     }, {
       onConflict: 'metric_key',
     });
 
   if (error) {
-    console.error('Error saving goal:', error);
+    console.error('Error saving range override:', error);
     throw error;
   }
 }
 
-export async function deleteGoal(metricKey: string): Promise<void> {
+export async function deleteRangeOverride(metricKey: string): Promise<void> {
   const { error } = await supabase
-    .from('goals')
+    .from('metric_range_overrides')
     .delete()
     .eq('metric_key', metricKey);
 
   if (error) {
-    console.error('Error deleting goal:', error);
+    console.error('Error deleting range override:', error);
     throw error;
   }
 }
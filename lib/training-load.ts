@@ -0,0 +1,206 @@
+/**
+ * Training load
+ * Scores every session on one scale: Banister TRIMP from heart rate when the
+ * activity has it, otherwise session RPE (RPE x minutes) from Hevy set RPEs,
+ * scaled down to TRIMP units. Daily loads roll up into acute (7-day) and
+ * chronic (28-day) averages; an acute:chronic ratio well above 1 is the
+ * classic injury-risk spike.
+ */
+
+import { LiftingWorkout, RunningActivity } from './types';
+
+export type LoadSource = 'hr' | 'rpe' | 'estimate';
+export type LoadRisk = 'low' | 'optimal' | 'elevated' | 'high';
+
+export interface TrainingLoadOptions {
+  restingHr?: number;
+  maxHr?: number;            // Default: highest max HR seen across activities
+  defaultRpe?: number;       // Assumed RPE when a session has neither HR nor RPE data
+}
+
+const DEFAULT_RESTING_HR = 60;
+const DEFAULT_MAX_HR = 190;
+const DEFAULT_RPE = 5;
+
+// A moderate hour scores ~100 TRIMP or ~300 AU of session RPE
+const SRPE_PER_TRIMP = 3;
+
+export const ACUTE_DAYS = 7;
+export const CHRONIC_DAYS = 28;
+
+// Acute:chronic bands (Gabbett): below 0.8 is detraining, above 1.5 a spike
+const RISK_BANDS: { max: number; risk: LoadRisk }[] = [
+  { max: 0.8, risk: 'low' },
+  { max: 1.3, risk: 'optimal' },
+  { max: 1.5, risk: 'elevated' },
+  { max: Infinity, risk: 'high' },
+];
+
+export interface SessionLoad {
+  date: string;              // YYYY-MM-DD (local)
+  kind: string;              // 'lifting' or the activity sport
+  name: string | null;
+  durationSeconds: number;
+  load: number;
+  source: LoadSource;
+}
+
+export interface DailyLoad {
+  date: string;
+  load: number;
+  acute: number;             // Mean daily load over the last 7 days
+  chronic: number;           // Mean daily load over the last 28 days
+  ratio: number | null;      // null until a full chronic window has passed
+  risk: LoadRisk | null;
+}
+
+function toDayKey(dateString: string): string {
+  const date = new Date(dateString);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, day + days).toISOString());
+}
+
+// ========================================
+// Session load
+// ========================================
+
+/**
+ * Banister TRIMP: minutes x heart-rate reserve, weighted exponentially so hard minutes count more
+ */
+export function calculateTrimp(durationSeconds: number, averageHr: number, restingHr: number, maxHr: number): number {
+  if (maxHr <= restingHr) return 0;
+  const reserve = Math.min(1, Math.max(0, (averageHr - restingHr) / (maxHr - restingHr)));
+  return (durationSeconds / 60) * reserve * 0.64 * Math.exp(1.92 * reserve);
+}
+
+/**
+ * Session RPE of a lifting workout: mean RPE of working sets that logged one
+ */
+export function getSessionRpe(workout: LiftingWorkout): number | null {
+  const rpes = (workout.exercisesDetailed ?? [])
+    .flatMap(exercise => exercise.sets)
+    .filter(set => set.type !== 'warmup' && set.rpe !== null)
+    .map(set => set.rpe as number);
+
+  if (rpes.length === 0) return null;
+  return rpes.reduce((sum, rpe) => sum + rpe, 0) / rpes.length;
+}
+
+function srpeLoad(durationSeconds: number, rpe: number): number {
+  return (durationSeconds / 60) * rpe / SRPE_PER_TRIMP;
+}
+
+/**
+ * Highest max HR recorded, the best available stand-in for a tested max
+ */
+export function getObservedMaxHr(activities: RunningActivity[]): number | null {
+  const maxes = activities.map(a => a.maxHeartrate ?? 0).filter(hr => hr > 0);
+  return maxes.length > 0 ? Math.max(...maxes) : null;
+}
+
+/**
+ * Load of every session, oldest first
+ */
+export function calculateSessionLoads(
+  activities: RunningActivity[],
+  liftingWorkouts: LiftingWorkout[],
+  options: TrainingLoadOptions = {}
+): SessionLoad[] {
+  const restingHr = options.restingHr ?? DEFAULT_RESTING_HR;
+  const maxHr = options.maxHr ?? getObservedMaxHr(activities) ?? DEFAULT_MAX_HR;
+  const defaultRpe = options.defaultRpe ?? DEFAULT_RPE;
+
+  const sessions: SessionLoad[] = activities
+    .filter(a => a.durationSeconds > 0)
+    .map(a => {
+      const hasHr = !!a.averageHeartrate && a.averageHeartrate > restingHr;
+      return {
+        date: toDayKey(a.activityDate),
+        kind: a.sport,
+        name: a.name,
+        durationSeconds: a.durationSeconds,
+        load: hasHr
+          ? calculateTrimp(a.durationSeconds, a.averageHeartrate as number, restingHr, maxHr)
+          : srpeLoad(a.durationSeconds, defaultRpe),
+        source: hasHr ? 'hr' : 'estimate',
+      };
+    });
+
+  liftingWorkouts
+    .filter(w => w.durationSeconds > 0)
+    .forEach(w => {
+      const rpe = getSessionRpe(w);
+      sessions.push({
+        date: toDayKey(w.workoutDate),
+        kind: 'lifting',
+        name: w.name,
+        durationSeconds: w.durationSeconds,
+        load: srpeLoad(w.durationSeconds, rpe ?? defaultRpe),
+        source: rpe !== null ? 'rpe' : 'estimate',
+      });
+    });
+
+  return sessions.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ========================================
+// Acute:chronic load
+// ========================================
+
+export function getLoadRisk(ratio: number): LoadRisk {
+  return RISK_BANDS.find(band => ratio < band.max)?.risk ?? 'high';
+}
+
+/**
+ * Daily load with rolling acute and chronic averages, one entry per day from
+ * the first session through `through` (default today), rest days included
+ */
+export function calculateDailyLoads(sessions: SessionLoad[], through: Date = new Date()): DailyLoad[] {
+  if (sessions.length === 0) return [];
+
+  const loadByDate = new Map<string, number>();
+  sessions.forEach(s => loadByDate.set(s.date, (loadByDate.get(s.date) || 0) + s.load));
+
+  const first = sessions[0].date;
+  const last = toDayKey(through.toISOString());
+  const days: string[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const loads = days.map(day => loadByDate.get(day) || 0);
+  let acuteSum = 0;
+  let chronicSum = 0;
+
+  return days.map((date, i) => {
+    acuteSum += loads[i] - (i >= ACUTE_DAYS ? loads[i - ACUTE_DAYS] : 0);
+    chronicSum += loads[i] - (i >= CHRONIC_DAYS ? loads[i - CHRONIC_DAYS] : 0);
+
+    const acute = acuteSum / ACUTE_DAYS;
+    const chronic = chronicSum / CHRONIC_DAYS;
+    // A partial chronic window understates the base and inflates the ratio
+    const ratio = i >= CHRONIC_DAYS - 1 && chronic > 0 ? acute / chronic : null;
+
+    return {
+      date,
+      load: loads[i],
+      acute,
+      chronic,
+      ratio,
+      risk: ratio !== null ? getLoadRisk(ratio) : null,
+    };
+  });
+}
+
+/**
+ * Days the acute load ran ahead of the chronic base
+ */
+export function getLoadSpikes(dailyLoads: DailyLoad[]): DailyLoad[] {
+  return dailyLoads.filter(day => day.risk === 'high' || day.risk === 'elevated');
+}
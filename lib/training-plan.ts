@@ -0,0 +1,403 @@
+/**
+ * Running training plan
+ * Builds a periodized plan from when the goal was set to the race: base,
+ * build, peak and taper phases, weekly mileage that grows at most 10% a week
+ * from what was run the week before the plan started, and typed sessions on
+ * fixed weekdays. Completed runs are matched back to planned sessions for
+ * compliance.
+ *
+ * The goal race is stored as an ordinary goal: metric `race_<distance key>`,
+ * the target time in seconds as its value (0 for no target), the race day as
+ * its target date and the plan start as its start date.
+ */
+
+import type { Goal } from './supabase';
+import { RunningActivity } from './types';
+import { RUNNING_DISTANCES } from './milestones';
+import { calculateVdot, getTrainingPaces, predictRaceTimes } from './race-predictor';
+import {
+  getPreviousWeekMileage,
+  getRecentAveragePace,
+  getTargetPace,
+  getWeekStart,
+  RunningWorkoutType,
+} from './workout-generator';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const RACE_GOAL_PREFIX = 'race_';
+
+// Weekly growth cap, and the cutback applied every fourth week of base and build
+const MAX_WEEKLY_INCREASE = 1.1;
+const CUTBACK_FACTOR = 0.8;
+const CUTBACK_EVERY = 4;
+
+// Mileage floor for a runner coming back from nothing
+const MIN_WEEKLY_MILES = 8;
+const MIN_SESSION_MILES = 2;
+
+// A run this share of the planned distance or more counts as done
+const COMPLETED_SHARE = 0.8;
+
+export type PlanPhase = 'base' | 'build' | 'peak' | 'taper';
+export type PlannedSessionType = RunningWorkoutType | 'Race';
+export type SessionStatus = 'completed' | 'partial' | 'missed' | 'upcoming';
+
+export interface RaceGoal {
+  distanceKey: string;
+  label: string;
+  miles: number;
+  raceDate: string;             // YYYY-MM-DD
+  startDate: string;            // YYYY-MM-DD, when the goal was set
+  targetSeconds: number | null;
+}
+
+export interface PlannedSession {
+  date: string;                 // YYYY-MM-DD
+  type: PlannedSessionType;
+  distanceMiles: number;
+  targetPaceSeconds: number;    // Per mile
+}
+
+export interface PlanWeek {
+  index: number;                // 0-based
+  weekStart: string;            // Monday, YYYY-MM-DD
+  phase: PlanPhase;
+  isCutback: boolean;
+  plannedMiles: number;
+  sessions: PlannedSession[];
+}
+
+export interface TrainingPlan {
+  goal: RaceGoal;
+  vdot: number | null;          // From the target time, else fitness at the plan start
+  weeks: PlanWeek[];
+}
+
+export interface SessionCompliance {
+  session: PlannedSession;
+  status: SessionStatus;
+  activity: RunningActivity | null;
+}
+
+export interface WeekCompliance {
+  week: PlanWeek;
+  sessions: SessionCompliance[];
+  completedMiles: number;
+  dueMiles: number;             // Planned miles of sessions on or before today
+}
+
+export interface PlanCompliance {
+  weeks: WeekCompliance[];
+  completedSessions: number;
+  dueSessions: number;
+  rate: number | null;          // Share of due sessions completed; null before any are due
+}
+
+// Race-specific shape: peak weekly mileage and how many weeks to taper
+const RACE_PROFILES: Record<string, { peakMiles: number; taperWeeks: number }> = {
+  '5k': { peakMiles: 25, taperWeeks: 1 },
+  '10k': { peakMiles: 30, taperWeeks: 1 },
+  'half': { peakMiles: 35, taperWeeks: 2 },
+  'marathon': { peakMiles: 45, taperWeeks: 3 },
+};
+const DEFAULT_PROFILE = { peakMiles: 30, taperWeeks: 1 };
+
+// Share of the weeks before the taper spent in base and build; the rest is peak
+const BASE_SHARE = 0.4;
+const BUILD_SHARE = 0.35;
+
+// Taper mileage as a share of peak, by weeks out from the race (race week last)
+const TAPER_FACTORS = [0.75, 0.6, 0.4];
+
+// Sessions by phase: weekday (0 = Sunday) and share of the week's mileage
+const PHASE_SESSIONS: Record<PlanPhase, { day: number; type: RunningWorkoutType; share: number }[]> = {
+  base: [
+    { day: 2, type: 'Easy Run', share: 0.25 },
+    { day: 4, type: 'Fartlek', share: 0.2 },
+    { day: 6, type: 'Long Run', share: 0.35 },
+    { day: 0, type: 'Easy Run', share: 0.2 },
+  ],
+  build: [
+    { day: 2, type: 'Hill Repeats', share: 0.2 },
+    { day: 3, type: 'Easy Run', share: 0.15 },
+    { day: 4, type: 'Tempo Run', share: 0.2 },
+    { day: 6, type: 'Long Run', share: 0.3 },
+    { day: 0, type: 'Recovery', share: 0.15 },
+  ],
+  peak: [
+    { day: 2, type: 'Intervals', share: 0.2 },
+    { day: 3, type: 'Easy Run', share: 0.15 },
+    { day: 4, type: 'Tempo Run', share: 0.2 },
+    { day: 6, type: 'Long Run', share: 0.3 },
+    { day: 0, type: 'Recovery', share: 0.15 },
+  ],
+  taper: [
+    { day: 2, type: 'Tempo Run', share: 0.3 },
+    { day: 4, type: 'Easy Run', share: 0.3 },
+    { day: 6, type: 'Long Run', share: 0.4 },
+  ],
+};
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+// Monday-based offset of a weekday within its week
+function dayOffset(day: number): number {
+  return day === 0 ? 6 : day - 1;
+}
+
+function roundMiles(miles: number): number {
+  return Math.round(miles * 2) / 2;
+}
+
+// ========================================
+// Goal race
+// ========================================
+
+/**
+ * The active race goal, if one is set
+ */
+export function getRaceGoal(goals: Goal[]): RaceGoal | null {
+  const goal = goals.find(g => g.metricKey.startsWith(RACE_GOAL_PREFIX) && g.status === 'active' && g.targetDate);
+  if (!goal) return null;
+
+  const distance = RUNNING_DISTANCES.find(d => d.key === goal.metricKey.slice(RACE_GOAL_PREFIX.length));
+  if (!distance) return null;
+
+  return {
+    distanceKey: distance.key,
+    label: distance.label,
+    miles: distance.miles,
+    raceDate: goal.targetDate as string,
+    startDate: toDateKey(new Date(goal.startDate)),
+    targetSeconds: goal.targetValue > 0 ? goal.targetValue : null,
+  };
+}
+
+// ========================================
+// Plan
+// ========================================
+
+/**
+ * Phase of each week, oldest first; the race falls in the last week
+ */
+function assignPhases(weekCount: number, taperWeeks: number): PlanPhase[] {
+  const taper = Math.min(taperWeeks, weekCount);
+  const training = weekCount - taper;
+  const base = Math.round(training * BASE_SHARE);
+  const build = Math.round(training * BUILD_SHARE);
+  const peak = training - base - build;
+
+  return [
+    ...Array<PlanPhase>(base).fill('base'),
+    ...Array<PlanPhase>(build).fill('build'),
+    ...Array<PlanPhase>(peak).fill('peak'),
+    ...Array<PlanPhase>(taper).fill('taper'),
+  ];
+}
+
+/**
+ * Planned mileage per week: ramp from the starting week's mileage towards the
+ * race's peak, capped at 10% growth a week, cut back every fourth week, then taper
+ */
+function planMileage(phases: PlanPhase[], startMiles: number, peakMiles: number): { miles: number; isCutback: boolean }[] {
+  const weeks: { miles: number; isCutback: boolean }[] = [];
+
+  let current = Math.max(startMiles, MIN_WEEKLY_MILES);
+  let peakReached = current;
+
+  phases.forEach((phase, i) => {
+    if (phase === 'taper') {
+      const weeksOut = phases.length - 1 - i;
+      const factor = TAPER_FACTORS[Math.max(0, TAPER_FACTORS.length - 1 - weeksOut)];
+      weeks.push({ miles: roundMiles(peakReached * factor), isCutback: false });
+      return;
+    }
+
+    const isCutback = phase !== 'peak' && (i + 1) % CUTBACK_EVERY === 0;
+    if (isCutback) {
+      weeks.push({ miles: roundMiles(current * CUTBACK_FACTOR), isCutback });
+      return;
+    }
+
+    // The first week builds on the mileage run before the plan, later weeks on the plan;
+    // a runner already above the race's peak holds their mileage
+    current = Math.max(current, Math.min(current * MAX_WEEKLY_INCREASE, peakMiles));
+    peakReached = Math.max(peakReached, current);
+    weeks.push({ miles: roundMiles(current), isCutback });
+  });
+
+  return weeks;
+}
+
+/**
+ * Generate a plan from the week the goal was set through race week
+ * Only runs before the plan count towards its mileage and paces, so it keeps
+ * its shape while it is being run.
+ */
+export function generateTrainingPlan(
+  goal: RaceGoal,
+  activities: RunningActivity[]
+): TrainingPlan | null {
+  const raceDate = parseDateKey(goal.raceDate);
+  const firstWeek = getWeekStart(parseDateKey(goal.startDate));
+  const raceWeek = getWeekStart(raceDate);
+  if (raceWeek < firstWeek) return null;
+
+  const history = activities.filter(a => new Date(a.activityDate) < firstWeek);
+  const weekCount = Math.round((raceWeek.getTime() - firstWeek.getTime()) / (7 * MS_PER_DAY)) + 1;
+  const profile = RACE_PROFILES[goal.distanceKey] ?? DEFAULT_PROFILE;
+  const phases = assignPhases(weekCount, profile.taperWeeks);
+  const mileage = planMileage(phases, getPreviousWeekMileage(history, firstWeek), profile.peakMiles);
+
+  // Paces for the goal time when set, otherwise for fitness when the plan started
+  const goalVdot = goal.targetSeconds ? calculateVdot(goal.miles, goal.targetSeconds) : null;
+  const vdot = goalVdot ?? predictRaceTimes(history, firstWeek)?.vdot ?? null;
+  const paces = vdot !== null ? getTrainingPaces(vdot) : null;
+  const recentPace = getRecentAveragePace(history);
+  const racePace = goal.targetSeconds
+    ? Math.round(goal.targetSeconds / goal.miles)
+    : paces?.marathon ?? Math.round(recentPace);
+
+  const weeks: PlanWeek[] = phases.map((phase, index) => {
+    const weekStart = addDays(firstWeek, index * 7);
+    const plannedMiles = mileage[index].miles;
+    const isRaceWeek = index === phases.length - 1;
+
+    let sessions: PlannedSession[] = PHASE_SESSIONS[phase].map(template => ({
+      date: toDateKey(addDays(weekStart, dayOffset(template.day))),
+      type: template.type,
+      distanceMiles: Math.max(MIN_SESSION_MILES, roundMiles(plannedMiles * template.share)),
+      targetPaceSeconds: getTargetPace(template.type, recentPace, paces),
+    }));
+
+    if (isRaceWeek) {
+      // Keep the shakeout runs before race day and swap the rest for the race
+      sessions = sessions
+        .filter(s => s.date < goal.raceDate)
+        .map(s => {
+          const type = s.type === 'Long Run' ? 'Easy Run' : s.type as RunningWorkoutType;
+          return { ...s, type, distanceMiles: Math.min(s.distanceMiles, 4), targetPaceSeconds: getTargetPace(type, recentPace, paces) };
+        });
+      sessions.push({
+        date: goal.raceDate,
+        type: 'Race',
+        distanceMiles: Math.round(goal.miles * 10) / 10,
+        targetPaceSeconds: racePace,
+      });
+    }
+
+    sessions.sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      index,
+      weekStart: toDateKey(weekStart),
+      phase,
+      isCutback: mileage[index].isCutback,
+      plannedMiles: Math.round(sessions.reduce((sum, s) => sum + s.distanceMiles, 0) * 10) / 10,
+      sessions,
+    };
+  });
+
+  return { goal, vdot, weeks };
+}
+
+// ========================================
+// Compliance
+// ========================================
+
+/**
+ * Match completed runs to planned sessions
+ * A run on the session's day counts first; otherwise one a day either side
+ * that no other session claimed.
+ */
+export function getPlanCompliance(
+  plan: TrainingPlan,
+  activities: RunningActivity[],
+  today: Date = new Date()
+): PlanCompliance {
+  const todayKey = toDateKey(today);
+  const runsByDate = new Map<string, RunningActivity[]>();
+  activities.forEach(a => {
+    const key = toDateKey(new Date(a.activityDate));
+    runsByDate.set(key, [...(runsByDate.get(key) ?? []), a]);
+  });
+
+  const used = new Set<string>();
+  const sessions = plan.weeks.flatMap(w => w.sessions);
+  const matches = new Map<PlannedSession, RunningActivity>();
+
+  const claim = (session: PlannedSession, dateKey: string): boolean => {
+    const run = (runsByDate.get(dateKey) ?? [])
+      .filter(a => !used.has(a.id))
+      .sort((a, b) => b.distanceMiles - a.distanceMiles)[0];
+    if (!run) return false;
+    used.add(run.id);
+    matches.set(session, run);
+    return true;
+  };
+
+  sessions.forEach(s => claim(s, s.date));
+  sessions
+    .filter(s => !matches.has(s))
+    .forEach(s => {
+      const date = parseDateKey(s.date);
+      if (!claim(s, toDateKey(addDays(date, -1)))) {
+        claim(s, toDateKey(addDays(date, 1)));
+      }
+    });
+
+  let completedSessions = 0;
+  let dueSessions = 0;
+
+  const weeks = plan.weeks.map(week => {
+    let completedMiles = 0;
+    let dueMiles = 0;
+
+    const weekSessions = week.sessions.map(session => {
+      const activity = matches.get(session) ?? null;
+      const isDue = session.date <= todayKey;
+      let status: SessionStatus;
+
+      if (activity) {
+        status = activity.distanceMiles >= session.distanceMiles * COMPLETED_SHARE ? 'completed' : 'partial';
+        completedMiles += activity.distanceMiles;
+      } else {
+        // Today's session is still upcoming until a run shows up
+        status = session.date < todayKey ? 'missed' : 'upcoming';
+      }
+
+      if (isDue) {
+        dueMiles += session.distanceMiles;
+        if (status !== 'upcoming') dueSessions++;
+        if (status === 'completed') completedSessions++;
+      }
+
+      return { session, status, activity };
+    });
+
+    return { week, sessions: weekSessions, completedMiles, dueMiles };
+  });
+
+  return {
+    weeks,
+    completedSessions,
+    dueSessions,
+    rate: dueSessions > 0 ? completedSessions / dueSessions : null,
+  };
+}
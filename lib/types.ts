@@ -60,8 +60,42 @@ export interface BIAEntry {
   bodyShape: string;
   bmiCategory: string;
   pbfCategory: string;
+
+  // Parser provenance (absent on manual entries)
+  scannerProfile?: string;    // Scanner profile id used to parse the OCR text
+  scannerConfidence?: number; // 0-1 profile detection confidence
+  provenance?: ProvenanceMap;  // Where each parsed value came from in the OCR output
+}
+
+// ========================================
+// OCR Provenance Types
+// ========================================
+
+export interface OcrBoundingBox {
+  x0: number;  // Pixels in the source image
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;  // 0-1
+  bbox: OcrBoundingBox;
+}
+
+export interface FieldProvenance {
+  source: 'ocr' | 'derived';
+  text: string;                              // Matched OCR text, or formula for derived values
+  span?: { start: number; end: number };     // Offsets into the raw OCR text
+  bbox: OcrBoundingBox | null;               // Union of the words covering the span
+  confidence: number | null;                 // 0-1, lowest word confidence in the span
+  derivedFrom?: (keyof BIAEntry)[];
+  replacedValue?: number;                    // OCR value discarded as inconsistent
 }
 
+export type ProvenanceMap = Partial<Record<keyof BIAEntry, FieldProvenance>>;
+
 export interface NormalRange {
   min: number;
   max: number;
@@ -71,7 +105,7 @@ export interface MetricDefinition {
   key: keyof BIAEntry;
   label: string;
   unit: string;
-  normalRange?: NormalRange;
+  normalRange?: NormalRange;    // Fallback only; the dashboard uses lib/normal-ranges.ts
   higherIsBetter?: boolean;
   category: 'header' | 'core' | 'composition' | 'additional' | 'segmental-muscle' | 'segmental-fat';
   description?: string;
@@ -144,12 +178,50 @@ export interface BodyspecScan {
   updatedAt: string;
 }
 
+export interface BodyspecAppointment {
+  id: string;
+  connectionId: string;
+  apptId: string;
+  startTime: string;
+  durationMinutes: number | null;
+  location: string | null;
+  service: string | null;
+  status: string;               // As reported by Bodyspec (scheduled, completed, cancelled, ...)
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface RegionalData {
   fat: number;      // lb
   lean: number;     // lb
   bmd?: number;     // Bone mineral density
 }
 
+export interface BoneDensityRegion {
+  bmd: number;              // g/cm²
+  areaCm2?: number;
+  contentGrams?: number;
+  tScore?: number;
+  zScore?: number;
+}
+
+export interface BoneDensityData {
+  total: BoneDensityRegion;
+  regions: Record<string, BoneDensityRegion>;   // Keyed as returned by Bodyspec (left_arm, spine, pelvis, ...)
+}
+
+export interface VisceralFatData {
+  massLb: number;
+  volumeCm3: number;
+}
+
+export interface AndroidGynoidData {
+  androidFatPercentage: number;
+  gynoidFatPercentage: number;
+  androidFatMass: number;   // lb
+  gynoidFatMass: number;    // lb
+}
+
 export interface BodyspecScanData {
   // Core metrics that map to BIA
   bodyFatPercentage: number;
@@ -173,6 +245,11 @@ export interface BodyspecScanData {
   boneMineralContent?: number;  // grams
   tScore?: number;              // Bone density T-score
   zScore?: number;              // Bone density Z-score
+
+  // Full detail (scans synced before these were stored only have the fields above)
+  boneDensity?: BoneDensityData;
+  visceralFat?: VisceralFatData;
+  androidGynoid?: AndroidGynoidData;
 }
 
 // Data source types for comparison views
@@ -191,7 +268,7 @@ export interface MetricMapping {
   bodyspecKey: keyof BodyspecScanData | string; // string for nested paths like 'regional.trunk.fat'
   label: string;
   unit: string;
-  expectedVariance?: number; // Expected % difference between BIA and DEXA
+  expectedVariance?: number; // Expected % difference between BIA and DEXA before any calibration (lib/calibration.ts)
 }
 
 export const BODYSPEC_BIA_MAPPINGS: MetricMapping[] = [
@@ -262,10 +339,16 @@ export interface RunningSplit {
   cumulativeSeconds: number; // Total time at this mile
 }
 
+// Sport group of a Strava activity; runs get the full running analysis
+export type ActivitySport = 'run' | 'ride' | 'swim' | 'other';
+
+// Any Strava activity (the name predates non-running sports)
 export interface RunningActivity {
   id: string;
   connectionId: string;
   stravaId: string;
+  sport: ActivitySport;
+  sportType: string | null;           // Strava sport_type, e.g. 'GravelRide', 'Hike'
   activityDate: string;
   name: string | null;
   distanceMiles: number;
@@ -276,12 +359,24 @@ export interface RunningActivity {
   averagePaceSeconds: number | null;  // Seconds per mile
   averageHeartrate: number | null;    // bpm
   maxHeartrate: number | null;        // bpm
-  averageCadence: number | null;      // steps per minute
+  averageCadence: number | null;      // steps per minute (runs), rpm (rides)
+  averageWatts: number | null;        // Rides with power data
   splits: RunningSplit[] | null;
+  bestEfforts: Partial<Record<RunningMilestoneKey, number>> | null;  // Fastest elapsed seconds per milestone, from streams
   createdAt: string;
   updatedAt: string;
 }
 
+// Per-sample activity streams, columnar and index-aligned with `time`
+export interface ActivityStreams {
+  time: number[];                 // Seconds since start (elapsed)
+  distance: number[];             // Cumulative miles
+  heartrate: number[] | null;     // bpm
+  cadence: number[] | null;       // steps per minute
+  altitude: number[] | null;      // feet
+  velocity: number[] | null;      // mph (smoothed)
+}
+
 // Standard distance milestones for displaying split times
 export const RUNNING_MILESTONES = [
   { key: '1mi', label: '1 Mile', miles: 1 },
@@ -294,6 +389,8 @@ export const RUNNING_MILESTONES = [
   { key: 'marathon', label: 'Marathon', miles: 26.2188 },
 ] as const;
 
+export type RunningMilestoneKey = typeof RUNNING_MILESTONES[number]['key'];
+
 // ========================================
 // Hevy Types (Lifting)
 // ========================================
@@ -377,7 +474,7 @@ export type BodyPart = typeof BODY_PARTS[number];
 // Workout Table Types
 // ========================================
 
-export type WorkoutType = 'run' | 'lifting' | 'all';
+export type WorkoutType = 'run' | 'lifting' | 'ride' | 'swim' | 'other' | 'all';
 export type VolumePeriod = 'WTD' | 'MTD' | 'QTD' | 'YTD' | 'PY';
 
 export interface WorkoutEntry {
@@ -435,6 +532,28 @@ export interface SleepUserPreferences {
   bedtimeWindowMinutes: number;
 }
 
+// ========================================
+// Sync Run Types
+// ========================================
+
+export type SyncProvider = 'strava' | 'hevy' | 'bodyspec' | 'sleep';
+export type SyncTrigger = 'cron' | 'manual' | 'webhook';
+export type SyncRunStatus = 'running' | 'success' | 'error';
+
+export interface SyncRun {
+  id: string;
+  provider: SyncProvider;
+  connectionId: string | null;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  itemsFetched: number;
+  itemsInserted: number;
+  itemsUpdated: number;
+  error: string | null;
+}
+
 // ========================================
 // Correlation Types
 // ========================================
@@ -488,7 +607,7 @@ export interface BalanceAnalysis {
   status: 'underperforming' | 'balanced' | 'overperforming';
 }
 
-export type InsightType = 'volume-efficiency' | 'body-part-balance' | 'periodization';
+export type InsightType = 'volume-efficiency' | 'body-part-balance' | 'periodization' | 'progression';
 export type InsightSeverity = 'info' | 'tip' | 'warning';
 
 export interface Insight {
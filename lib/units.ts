@@ -0,0 +1,117 @@
+/**
+ * Display unit preference (imperial / metric)
+ * Everything is stored in imperial units (lb, miles, seconds per mile, feet) and
+ * goals are stored in the same units as the metric they track. Conversion only
+ * happens at the display/input boundary, so switching units never rewrites data.
+ */
+
+import { METRIC_DEFINITIONS } from './types';
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+export const UNIT_SYSTEM_STORAGE_KEY = 'baselineUnitSystem';
+// Fired on window when the preference changes so every table re-renders
+export const UNIT_SYSTEM_EVENT = 'baseline-unit-system-change';
+
+export const KG_PER_LB = 0.45359237;
+export const KM_PER_MILE = 1.609344;
+export const M_PER_FOOT = 0.3048;
+export const M_PER_YARD = 0.9144;
+
+// ========================================
+// Stored unit -> metric equivalent
+// ========================================
+
+// metricValue = storedValue * factor
+const METRIC_EQUIVALENTS: Record<string, { unit: string; factor: number }> = {
+  lb: { unit: 'kg', factor: KG_PER_LB },
+  lbs: { unit: 'kg', factor: KG_PER_LB },
+  'lb/wk': { unit: 'kg/wk', factor: KG_PER_LB },
+  mi: { unit: 'km', factor: KM_PER_MILE },
+  ft: { unit: 'm', factor: M_PER_FOOT },
+  yd: { unit: 'm', factor: M_PER_YARD },
+  mph: { unit: 'km/h', factor: KM_PER_MILE },
+  // Paces are seconds per distance, so they shrink when the distance does
+  '/mi': { unit: '/km', factor: 1 / KM_PER_MILE },
+  '/100yd': { unit: '/100m', factor: 1 / M_PER_YARD },
+};
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return value === 'imperial' || value === 'metric';
+}
+
+/**
+ * Unit label to show for a value stored in `storedUnit`
+ */
+export function displayUnit(storedUnit: string, units: UnitSystem): string {
+  if (units === 'imperial') return storedUnit;
+  return METRIC_EQUIVALENTS[storedUnit]?.unit ?? storedUnit;
+}
+
+/**
+ * Convert a stored value into the user's unit system
+ */
+export function toDisplayValue(value: number, storedUnit: string, units: UnitSystem): number {
+  if (units === 'imperial') return value;
+  const equivalent = METRIC_EQUIVALENTS[storedUnit];
+  return equivalent ? value * equivalent.factor : value;
+}
+
+/**
+ * Convert a value entered in the user's unit system back to storage units
+ */
+export function fromDisplayValue(value: number, storedUnit: string, units: UnitSystem): number {
+  if (units === 'imperial') return value;
+  const equivalent = METRIC_EQUIVALENTS[storedUnit];
+  return equivalent ? value / equivalent.factor : value;
+}
+
+// Workout goals that carry a convertible unit (others are counts, durations or bpm)
+const WORKOUT_GOAL_UNITS: Record<string, string> = {
+  run_miles: 'mi',
+  run_pace: '/mi',
+  run_elevation: 'ft',
+  ride_distance: 'mi',
+  swim_distance: 'yd',
+  other_distance: 'mi',
+};
+
+/**
+ * Storage unit of a goal, from its metric key
+ * Segmental BIA goals (muscleLeftArm, ...) are lb values.
+ */
+export function getGoalUnit(metricKey: string): string | undefined {
+  const metric = METRIC_DEFINITIONS.find(m => m.key === metricKey);
+  if (metric) return metric.unit || undefined;
+  if (/^(muscle|fat)(Left|Right)?(Arm|Leg|Trunk)$/.test(metricKey)) return 'lb';
+  return WORKOUT_GOAL_UNITS[metricKey];
+}
+
+// ========================================
+// Formatting
+// ========================================
+
+/**
+ * Format a stored value with its display unit, e.g. formatMeasurement(176, 'lb', 'metric') -> "79.8 kg"
+ */
+export function formatMeasurement(value: number, storedUnit: string, units: UnitSystem, decimals = 1): string {
+  return `${toDisplayValue(value, storedUnit, units).toFixed(decimals)} ${displayUnit(storedUnit, units)}`;
+}
+
+/**
+ * Format seconds per mile as m:ss per mile or per km
+ */
+export function formatPaceForUnits(secondsPerMile: number, units: UnitSystem): string {
+  const seconds = Math.round(toDisplayValue(secondsPerMile, '/mi', units));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format a clock time: 12-hour for imperial, 24-hour for metric
+ */
+export function formatClockTime(date: Date, units: UnitSystem): string {
+  return units === 'metric'
+    ? date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false })
+    : date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
@@ -1,17 +1,21 @@
 'use client';
 
 import useSWR, { mutate } from 'swr';
-import { BIAEntry, BodyspecScan, RunningActivity, LiftingWorkout, SleepEntry } from './types';
-import { getEntriesFromDb, getGoals, Goal } from './supabase';
+import { BIAEntry, BodyspecAppointment, BodyspecScan, RunningActivity, LiftingWorkout, SleepEntry } from './types';
+import { getEntriesFromDb, getGoals, getGoalHistory, getRangeOverrides, Goal, RangeOverride } from './supabase';
 
 interface BaselineData {
     entries: BIAEntry[];
     bodyspecScans: BodyspecScan[];
     bodyspecConnections: any[];
+    bodyspecAppointments: BodyspecAppointment[];
     goals: Goal[];
+    goalHistory: Goal[];
+    rangeOverrides: RangeOverride[];
     stravaConnections: any[];
     hevyConnections: any[];
     runningActivities: RunningActivity[];
+    otherActivities: RunningActivity[];     // Rides, swims and other Strava sports
     liftingWorkouts: LiftingWorkout[];
     sleepEntries: SleepEntry[];
 }
@@ -21,8 +25,11 @@ async function fetchBaselineData(): Promise<BaselineData> {
     const [
         entries,
         goals,
+        goalHistory,
+        rangeOverrides,
         bodyspecConnRes,
         bodyspecScansRes,
+        bodyspecApptsRes,
         stravaConnRes,
         stravaActivitiesRes,
         hevyConnRes,
@@ -31,8 +38,11 @@ async function fetchBaselineData(): Promise<BaselineData> {
     ] = await Promise.all([
         getEntriesFromDb(),
         getGoals(),
+        getGoalHistory(),
+        getRangeOverrides(),
         fetch('/api/bodyspec/connections').then(r => r.ok ? r.json() : { connections: [] }),
         fetch('/api/bodyspec/scans').then(r => r.ok ? r.json() : { scans: [] }),
+        fetch('/api/bodyspec/appointments').then(r => r.ok ? r.json() : { appointments: [] }),
         fetch('/api/strava/connections').then(r => r.ok ? r.json() : { connections: [] }),
         fetch('/api/strava/activities').then(r => r.ok ? r.json() : { activities: [] }),
         fetch('/api/hevy/connections').then(r => r.ok ? r.json() : { connections: [] }),
@@ -43,10 +53,14 @@ async function fetchBaselineData(): Promise<BaselineData> {
     return {
         entries,
         goals,
+        goalHistory,
+        rangeOverrides,
         bodyspecConnections: bodyspecConnRes.connections || [],
         bodyspecScans: bodyspecScansRes.scans || [],
+        bodyspecAppointments: bodyspecApptsRes.appointments || [],
         stravaConnections: stravaConnRes.connections || [],
         runningActivities: stravaActivitiesRes.activities || [],
+        otherActivities: stravaActivitiesRes.otherActivities || [],
         hevyConnections: hevyConnRes.connections || [],
         liftingWorkouts: hevyWorkoutsRes.workouts || [],
         sleepEntries: sleepRes.entries || [],
@@ -76,10 +90,14 @@ export function useBaselineData() {
             entries: [],
             bodyspecScans: [],
             bodyspecConnections: [],
+            bodyspecAppointments: [],
             goals: [],
+            goalHistory: [],
+            rangeOverrides: [],
             stravaConnections: [],
             hevyConnections: [],
             runningActivities: [],
+            otherActivities: [],
             liftingWorkouts: [],
             sleepEntries: [],
         },
@@ -5,6 +5,7 @@
  */
 
 import { LiftingWorkout, LiftingExerciseDetailed, RunningActivity } from './types';
+import { getTrainingPaces, predictRaceTimes, TrainingPaces } from './race-predictor';
 
 // =============================================================================
 // Types
@@ -48,6 +49,7 @@ export type RunningWorkoutType = typeof RUNNING_WORKOUT_TYPES[number];
 export interface GeneratedSet {
   weightLbs: number;
   targetReps: number;
+  rpe?: number;              // Target RPE, set by the program generator
   notes?: string;
 }
 
@@ -84,6 +86,7 @@ export interface GeneratedRunningWorkout {
   projectedAvgHeartrate: number | null;
   projectedMaxHeartrate: number | null;
   projectedCadence: number | null;
+  vdot: number | null;       // Fitness the target pace came from; null for the default paces
   notes?: string;
 }
 
@@ -454,10 +457,10 @@ export function getWeeklyMileage(activities: RunningActivity[], weekStart?: Date
 }
 
 /**
- * Get previous week's mileage (for 20% rule)
+ * Get previous week's mileage (for 20% rule), relative to the week of `asOf`
  */
-export function getPreviousWeekMileage(activities: RunningActivity[]): number {
-  const lastWeekStart = getWeekStart();
+export function getPreviousWeekMileage(activities: RunningActivity[], asOf: Date = new Date()): number {
+  const lastWeekStart = getWeekStart(asOf);
   lastWeekStart.setDate(lastWeekStart.getDate() - 7);
   return getWeeklyMileage(activities, lastWeekStart);
 }
@@ -570,9 +573,23 @@ function getSuggestedDistance(
 
 /**
  * Get target pace for a workout type
- * Sub-3:30 marathon = 7:59/mile race pace
+ * Uses the Daniels training paces for current fitness when recent efforts give a VDOT,
+ * otherwise paces off a sub-3:30 marathon = 7:59/mile race pace
  */
-function getTargetPace(type: RunningWorkoutType, recentAvgPace: number): number {
+export function getTargetPace(type: RunningWorkoutType, recentAvgPace: number, trainingPaces: TrainingPaces | null): number {
+  if (trainingPaces) {
+    const vdotPaces: Record<RunningWorkoutType, number> = {
+      'Easy Run': trainingPaces.easy,
+      'Long Run': Math.round((trainingPaces.easy + trainingPaces.marathon) / 2),
+      'Tempo Run': trainingPaces.threshold,
+      'Intervals': trainingPaces.interval,
+      'Hill Repeats': trainingPaces.repetition,
+      'Fartlek': trainingPaces.marathon,
+      'Recovery': Math.round(trainingPaces.easy * 1.08),
+    };
+    return vdotPaces[type];
+  }
+
   const marathonGoalPace = 7 * 60 + 59; // 7:59/mile
 
   const paceMultipliers: Record<RunningWorkoutType, number> = {
@@ -658,6 +675,7 @@ export function generateRunningWorkout(activities: RunningActivity[]): Generated
       projectedAvgHeartrate: null,
       projectedMaxHeartrate: null,
       projectedCadence: null,
+      vdot: null,
     };
   }
 
@@ -672,6 +690,7 @@ export function generateRunningWorkout(activities: RunningActivity[]): Generated
   const projectedAvgHeartrate = getRecentAverageHeartrate(activities);
   const projectedMaxHeartrate = getRecentMaxHeartrate(activities);
   const projectedCadence = getRecentCadence(activities);
+  const raceEstimate = predictRaceTimes(activities);
 
   // Choose workout type
   const workoutType = chooseNextWorkoutType(completedTypes, dayOfWeek);
@@ -684,7 +703,7 @@ export function generateRunningWorkout(activities: RunningActivity[]): Generated
   );
 
   // Get target pace
-  const pace = getTargetPace(workoutType, recentPace);
+  const pace = getTargetPace(workoutType, recentPace, raceEstimate ? getTrainingPaces(raceEstimate.vdot) : null);
 
   // Estimate duration
   const estimatedDuration = Math.round(distance * pace);
@@ -701,6 +720,7 @@ export function generateRunningWorkout(activities: RunningActivity[]): Generated
     projectedAvgHeartrate,
     projectedMaxHeartrate,
     projectedCadence,
+    vdot: raceEstimate?.vdot ?? null,
     notes: getWorkoutNotes(workoutType, distance, pace, currentWeekMileage),
   };
 }
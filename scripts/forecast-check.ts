@@ -0,0 +1,248 @@
+/**
+ * Behaviour checks for lib/forecast on synthetic series with known answers
+ * Covers the fitted slope and level, outlier rejection, interval width, the
+ * met / projected / stalled target branches and the body fat goal projection.
+ *
+ * Usage:
+ *   npx tsx scripts/forecast-check.ts [--verbose]
+ */
+import {
+    fitTrend,
+    forecastTarget,
+    predictAt,
+    projectWeightAtBodyFat,
+    TrendFit,
+    TrendPoint,
+    TrendSource,
+} from '../lib/forecast';
+import { BIAEntry } from '../lib/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const LATEST = new Date('2026-06-30T08:00:00Z');
+
+// Deterministic noise so failures reproduce: a fixed zero-mean pattern
+const NOISE = [0.3, -0.2, 0.1, -0.3, 0.2, -0.1, 0.25, -0.25];
+
+interface Check {
+    name: string;
+    run: () => void;
+}
+
+function check(condition: boolean, message: string) {
+    if (!condition) throw new Error(message);
+}
+
+function near(actual: number, expected: number, tolerance: number, label: string) {
+    check(Math.abs(actual - expected) <= tolerance, `${label}: expected ${expected} ± ${tolerance}, got ${actual}`);
+}
+
+/**
+ * A reading every `stepDays` for `days` days ending at LATEST, on a straight line
+ */
+function series(
+    { days = 60, stepDays = 1, end = 180, slopePerDay = -0.05, noise = false, source = 'bia' as TrendSource } = {}
+): TrendPoint[] {
+    const points: TrendPoint[] = [];
+    for (let d = -days, i = 0; d <= 0; d += stepDays, i++) {
+        points.push({
+            date: new Date(LATEST.getTime() + d * MS_PER_DAY).toISOString(),
+            value: end + slopePerDay * d + (noise ? NOISE[i % NOISE.length] : 0),
+            source,
+        });
+    }
+    return points;
+}
+
+function fitOf(points: TrendPoint[]): TrendFit {
+    const fit = fitTrend(points);
+    check(fit !== null, 'expected a fit');
+    return fit as TrendFit;
+}
+
+function entry(weight: number, bodyFatPercentage: number): BIAEntry {
+    return { weight, bodyFatPercentage, bodyFatMass: 0 } as unknown as BIAEntry;
+}
+
+const daysFromLatest = (days: number) => new Date(LATEST.getTime() + days * MS_PER_DAY);
+
+// ========================================
+// Checks
+// ========================================
+
+const CHECKS: Check[] = [
+    {
+        name: 'fitTrend: recovers slope and level of a clean line',
+        run: () => {
+            const fit = fitOf(series());
+            near(fit.slopePerDay, -0.05, 1e-9, 'slope');
+            near(fit.level, 180, 1e-9, 'level');
+            near(fit.residualSd, 0, 1e-9, 'residual sd');
+            check(fit.outliers.length === 0, 'no outliers on a clean line');
+        },
+    },
+    {
+        name: 'fitTrend: needs two points a day apart',
+        run: () => {
+            check(fitTrend([]) === null, 'empty series fits');
+            check(fitTrend(series({ days: 0 })) === null, 'single point fits');
+            const sameDay = [
+                { date: LATEST.toISOString(), value: 180, source: 'bia' as TrendSource },
+                { date: new Date(LATEST.getTime() - 60 * 60 * 1000).toISOString(), value: 181, source: 'bia' as TrendSource },
+            ];
+            check(fitTrend(sameDay) === null, 'same-day points fit');
+        },
+    },
+    {
+        name: 'fitTrend: ignores points outside the window',
+        run: () => {
+            // An older segment on a different slope is outside the default 90-day window
+            const old = series({ days: 60, end: 150, slopePerDay: 0.5 })
+                .map(p => ({ ...p, date: new Date(new Date(p.date).getTime() - 200 * MS_PER_DAY).toISOString() }));
+            const fit = fitOf([...old, ...series()]);
+            near(fit.slopePerDay, -0.05, 1e-9, 'slope');
+            check(fit.points.length === 61, `expected 61 points in window, got ${fit.points.length}`);
+        },
+    },
+    {
+        name: 'fitTrend: rejects a BIA reading far off the trend',
+        run: () => {
+            const points = series({ noise: true });
+            points[30] = { ...points[30], value: points[30].value + 8 };
+            const fit = fitOf(points);
+            check(fit.outliers.length === 1 && fit.outliers[0] === points[30], 'spike rejected');
+            near(fit.slopePerDay, -0.05, 0.005, 'slope after rejection');
+        },
+    },
+    {
+        name: 'fitTrend: keeps DEXA scans off the trend',
+        run: () => {
+            const points = series({ noise: true });
+            points[30] = { ...points[30], value: points[30].value + 8, source: 'dexa' };
+            const fit = fitOf(points);
+            check(fit.outliers.length === 0, 'DEXA scan rejected');
+            check(fit.points.includes(points[30]), 'DEXA scan dropped from the fit');
+        },
+    },
+    {
+        name: 'predictAt: interval is zero on a clean line',
+        run: () => {
+            const prediction = predictAt(fitOf(series()), daysFromLatest(30));
+            near(prediction.value, 178.5, 1e-9, 'value');
+            near(prediction.high - prediction.low, 0, 1e-9, 'width');
+        },
+    },
+    {
+        name: 'predictAt: interval widens with distance and confidence',
+        run: () => {
+            const fit = fitOf(series({ noise: true }));
+            const width = (days: number, confidence?: number) => {
+                const p = predictAt(fit, daysFromLatest(days), confidence);
+                check(p.low < p.value && p.value < p.high, 'value inside its interval');
+                return p.high - p.low;
+            };
+            check(width(90) > width(0), 'interval 90 days out is not wider than today');
+            check(width(30, 0.95) > width(30, 0.8), '95% interval is not wider than 80%');
+            check(width(30, 0.8) > width(30, 0.5), '80% interval is not wider than 50%');
+        },
+    },
+    {
+        name: 'forecastTarget: met when the latest reading is past the target',
+        run: () => {
+            const fit = fitOf(series());
+            check(forecastTarget(fit, 181, false, 180, { now: LATEST }).status === 'met', 'lower-is-better target');
+            check(forecastTarget(fit, 179, true, 180, { now: LATEST }).status === 'met', 'higher-is-better target');
+        },
+    },
+    {
+        name: 'forecastTarget: projects days at the fitted rate',
+        run: () => {
+            const forecast = forecastTarget(fitOf(series()), 175, false, 180, { now: LATEST });
+            check(forecast.status === 'projected', `expected projected, got ${forecast.status}`);
+            near(forecast.days as number, 100, 1e-6, 'days');
+            // No residual spread, so the range collapses to the date
+            check(forecast.earliest?.getTime() === forecast.date?.getTime(), 'earliest differs on a clean line');
+            check(forecast.latest?.getTime() === forecast.date?.getTime(), 'latest differs on a clean line');
+        },
+    },
+    {
+        name: 'forecastTarget: counts from now, not the last reading',
+        run: () => {
+            const forecast = forecastTarget(fitOf(series()), 175, false, 180, { now: daysFromLatest(20) });
+            near(forecast.days as number, 80, 1e-6, 'days');
+        },
+    },
+    {
+        name: 'forecastTarget: range brackets the date on noisy data',
+        run: () => {
+            const forecast = forecastTarget(fitOf(series({ noise: true })), 175, false, 180, { now: LATEST });
+            check(forecast.status === 'projected', `expected projected, got ${forecast.status}`);
+            const [earliest, date, latest] = [forecast.earliest, forecast.date, forecast.latest].map(d => d?.getTime() ?? NaN);
+            check(earliest < date && date < latest, 'earliest < date < latest');
+        },
+    },
+    {
+        name: 'forecastTarget: stalled when moving away or too slowly',
+        run: () => {
+            const away = forecastTarget(fitOf(series()), 185, true, 180, { now: LATEST });
+            check(away.status === 'stalled' && away.date === null, 'moving away from target');
+            const flat = forecastTarget(fitOf(series({ slopePerDay: 0 })), 175, false, 180, { now: LATEST });
+            check(flat.status === 'stalled', 'flat trend');
+            const slow = forecastTarget(fitOf(series({ slopePerDay: -0.001 })), 170, false, 180, { now: LATEST });
+            check(slow.status === 'stalled', 'beyond maxDays');
+        },
+    },
+    {
+        name: 'projectWeightAtBodyFat: holds lean mass without trends',
+        run: () => {
+            const projection = projectWeightAtBodyFat(entry(200, 25), 15, null, null);
+            check(projection !== null, 'expected a projection');
+            near(projection!.currentLeanMass, 150, 1e-9, 'lean mass');
+            near(projection!.idealWeight, 150 / 0.85, 1e-9, 'ideal weight');
+            near(projection!.projectedWeight, projection!.idealWeight, 1e-9, 'projected weight');
+            near(projection!.fatLossPct, 100, 1e-9, 'fat loss share');
+        },
+    },
+    {
+        name: 'projectWeightAtBodyFat: follows fat and lean trends',
+        run: () => {
+            // Fat falling 0.1 lb/day while lean gains 0.02 lb/day
+            const fatFit = fitOf(series({ end: 50, slopePerDay: -0.1 }));
+            const leanFit = fitOf(series({ end: 150, slopePerDay: 0.02 }));
+            const projection = projectWeightAtBodyFat(entry(200, 25), 15, fatFit, leanFit)!;
+            // Solve (50 - 0.1t) = 0.15 (200 - 0.08t)
+            const days = (50 - 30) / (0.1 - 0.15 * 0.08);
+            near(projection.leanMassChangeProjected, 0.02 * days, 1e-6, 'lean change');
+            near(projection.projectedWeight, (150 + 0.02 * days) / 0.85, 1e-6, 'projected weight');
+            check(projection.fatLossPct > 100 - 1e-9, 'lean gain means all weight lost is fat');
+        },
+    },
+    {
+        name: 'projectWeightAtBodyFat: nothing to project at or below the goal',
+        run: () => {
+            check(projectWeightAtBodyFat(entry(200, 15), 15, null, null) === null, 'goal already met');
+            check(projectWeightAtBodyFat(entry(0, 25), 15, null, null) === null, 'no weight');
+        },
+    },
+];
+
+function main() {
+    const verbose = process.argv.includes('--verbose');
+    let failed = 0;
+
+    console.log(`\nForecast checks: ${CHECKS.length}\n`);
+
+    for (const { name, run } of CHECKS) {
+        try {
+            run();
+            if (verbose) console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.log(`  ✗ ${name}\n      ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    console.log(`\nOverall: ${CHECKS.length - failed}/${CHECKS.length} passed`);
+    if (failed > 0) process.exit(1);
+}
+
+main();
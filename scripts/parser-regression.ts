@@ -0,0 +1,75 @@
+/**
+ * Run the BIA parser against every saved OCR fixture and report per-field accuracy
+ *
+ * Usage:
+ *   npx tsx scripts/parser-regression.ts [--fixture <id>] [--verbose] [--min-accuracy 0.95]
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParserFixture, runParserRegression } from '../lib/parser-regression';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures/bia-parser');
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function loadFixtures(): ParserFixture[] {
+    return fs.readdirSync(FIXTURES_DIR)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8')) as ParserFixture);
+}
+
+function pct(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+function main() {
+    const only = getArg('--fixture');
+    const minAccuracy = getArg('--min-accuracy');
+    const verbose = process.argv.includes('--verbose');
+
+    const fixtures = loadFixtures().filter(f => !only || f.id === only);
+    if (fixtures.length === 0) {
+        console.error(only ? `Fixture not found: ${only}` : `No fixtures in ${FIXTURES_DIR}`);
+        process.exit(1);
+    }
+
+    // The parser logs every step - silence it while the harness runs
+    const log = console.log;
+    console.log = () => {};
+    const report = runParserRegression(fixtures);
+    console.log = log;
+
+    console.log(`\nBIA parser regression: ${fixtures.length} fixture(s)\n`);
+
+    for (const result of report.fixtures) {
+        const parsedPass = result.stages.parsed.filter(f => f.pass).length;
+        const correctedPass = result.stages.corrected.filter(f => f.pass).length;
+        const total = result.stages.parsed.length;
+        console.log(`  ${result.fixtureId} [${result.scannerProfile}]  parsed ${parsedPass}/${total}  corrected ${correctedPass}/${total}`);
+
+        if (verbose) {
+            for (const field of result.stages.corrected.filter(f => !f.pass)) {
+                console.log(`      ✗ ${field.field}: expected ${JSON.stringify(field.expected)}, got ${JSON.stringify(field.actual)}`);
+            }
+        }
+    }
+
+    console.log('\nPer-field accuracy (parsed → corrected):\n');
+    for (const field of report.fields) {
+        const marker = field.corrected < field.total ? '✗' : ' ';
+        console.log(`  ${marker} ${String(field.field).padEnd(28)} ${pct(field.parsed / field.total).padStart(7)} → ${pct(field.corrected / field.total).padStart(7)}  (${field.total})`);
+    }
+
+    console.log(`\nOverall: parsed ${pct(report.overall.parsed)}, corrected ${pct(report.overall.corrected)}\n`);
+
+    if (minAccuracy && report.overall.corrected < parseFloat(minAccuracy)) {
+        console.error(`Accuracy ${pct(report.overall.corrected)} is below the minimum ${pct(parseFloat(minAccuracy))}`);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,151 @@
+/**
+ * Promote a real ocr_debug row into a parser regression fixture
+ *
+ * Expected values come from the saved BIA entry (after any manual fixes):
+ * the entry linked from pending_images, or --entry <bia_entries id>.
+ * Without either, the current parse is written as a starting point to review by hand.
+ *
+ * Usage:
+ *   npx tsx scripts/promote-ocr-fixture.ts <ocr_debug id> [--entry <id>] [--name <slug>] [--description "..."]
+ */
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseBIAReport } from '../lib/pdf-parser';
+import { ParserFixture, toExpected } from '../lib/parser-regression';
+import { BIAEntry } from '../lib/types';
+
+// Manual .env parsing
+function loadEnv() {
+    const envPath = path.resolve(process.cwd(), '.env.local');
+    if (fs.existsSync(envPath)) {
+        const content = fs.readFileSync(envPath, 'utf-8');
+        content.split('\n').forEach(line => {
+            const match = line.match(/^([^=]+)=(.*)$/);
+            if (match) {
+                const key = match[1].trim();
+                const value = match[2].trim().replace(/^['"](.*)['"]$/, '$1'); // Remove quotes
+                if (!process.env[key]) {
+                    process.env[key] = value;
+                }
+            }
+        });
+    }
+}
+
+loadEnv();
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+if (!supabaseUrl || !supabaseKey) {
+    console.error('Missing SUPABASE_URL or valid SUPABASE KEY');
+    process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures/bia-parser');
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function findEntryId(ocrDebugId: string): Promise<string | null> {
+    const explicit = getArg('--entry');
+    if (explicit) return explicit;
+
+    const { data } = await supabase
+        .from('pending_images')
+        .select('entry_id')
+        .eq('id', ocrDebugId)
+        .single();
+
+    return data?.entry_id ?? null;
+}
+
+async function getEntry(id: string): Promise<BIAEntry | null> {
+    const { data } = await supabase
+        .from('bia_entries')
+        .select('data')
+        .eq('id', id)
+        .single();
+
+    return (data?.data as BIAEntry) ?? null;
+}
+
+// Entry measured just before this one, so the auto-correct stage has something to compare against
+async function getPreviousEntry(date: string): Promise<BIAEntry | null> {
+    const { data } = await supabase
+        .from('bia_entries')
+        .select('data')
+        .lt('date', date)
+        .order('date', { ascending: false })
+        .limit(1);
+
+    return (data?.[0]?.data as BIAEntry) ?? null;
+}
+
+async function promote() {
+    const ocrDebugId = process.argv[2];
+    if (!ocrDebugId || ocrDebugId.startsWith('--')) {
+        console.error('Usage: npx tsx scripts/promote-ocr-fixture.ts <ocr_debug id> [--entry <id>] [--name <slug>]');
+        process.exit(1);
+    }
+
+    const { data: debugRow, error } = await supabase
+        .from('ocr_debug')
+        .select('id, raw_text, created_at')
+        .eq('id', ocrDebugId)
+        .single();
+
+    if (error || !debugRow) {
+        console.error(`ocr_debug row not found: ${ocrDebugId}`);
+        process.exit(1);
+    }
+
+    const entryId = await findEntryId(ocrDebugId);
+    const savedEntry = entryId ? await getEntry(entryId) : null;
+
+    // Silence parser logging
+    const log = console.log;
+    console.log = () => {};
+    const expectedEntry = savedEntry ?? parseBIAReport(debugRow.raw_text);
+    console.log = log;
+
+    const previous = await getPreviousEntry(expectedEntry.date);
+    const name = getArg('--name') || `ocr-${ocrDebugId}`;
+
+    const fixture: ParserFixture = {
+        id: name,
+        description: getArg('--description'),
+        source: {
+            ocrDebugId,
+            entryId: savedEntry?.id,
+            promotedAt: new Date().toISOString(),
+        },
+        rawText: debugRow.raw_text,
+        previous: previous ? (toExpected(previous) as BIAEntry) : null,
+        expected: toExpected(expectedEntry),
+    };
+
+    const filePath = path.join(FIXTURES_DIR, `${name}.json`);
+    if (fs.existsSync(filePath)) {
+        console.error(`Fixture already exists: ${filePath}`);
+        process.exit(1);
+    }
+
+    fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2) + '\n');
+
+    console.log(`Wrote ${filePath}`);
+    if (!savedEntry) {
+        console.log('No saved entry found - expected values are the current parse. Review them before committing.');
+    }
+}
+
+promote().catch(err => {
+    console.error('Promotion failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,40 @@
+-- Migration: Server-side OCR processing for pending images
+-- Description: Track processing status, retries and results for images queued via /api/upload
+
+-- Table: pending_images
+-- Images uploaded from iOS Shortcuts awaiting OCR
+CREATE TABLE IF NOT EXISTS pending_images (
+  id TEXT PRIMARY KEY,
+  data TEXT,
+  content_type TEXT NOT NULL DEFAULT 'image/png',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Image data is cleared once processed
+ALTER TABLE pending_images ALTER COLUMN data DROP NOT NULL;
+
+ALTER TABLE pending_images
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS entry_id UUID,
+  ADD COLUMN IF NOT EXISTS validation_issues JSONB,
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Index for picking up due work
+CREATE INDEX IF NOT EXISTS idx_pending_images_due ON pending_images(status, next_attempt_at);
+
+-- Table: ocr_debug
+-- Raw OCR text per processed image
+CREATE TABLE IF NOT EXISTS ocr_debug (
+  id TEXT PRIMARY KEY,
+  raw_text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Comment documentation
+COMMENT ON COLUMN pending_images.status IS 'pending -> processing -> done | failed (retried with backoff until max attempts)';
+COMMENT ON COLUMN pending_images.next_attempt_at IS 'When the image is next eligible for processing (retry backoff or processing lease expiry)';
@@ -0,0 +1,14 @@
+-- Migration: Manual normal-range overrides
+-- Description: Per-metric bounds that replace the computed reference range (see lib/normal-ranges.ts)
+
+CREATE TABLE IF NOT EXISTS metric_range_overrides (
+  metric_key TEXT PRIMARY KEY,
+  min_value NUMERIC NOT NULL,
+  max_value NUMERIC NOT NULL CHECK (max_value >= min_value),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE metric_range_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all metric_range_overrides" ON metric_range_overrides FOR ALL USING (true);
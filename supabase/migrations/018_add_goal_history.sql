@@ -0,0 +1,33 @@
+-- Migration: Time-series goals
+-- Description: Goals keep their baseline, deadline and outcome; achieved/abandoned goals stay as history
+
+-- Table: goals
+-- One active goal per metric; archived goals keep their row
+CREATE TABLE IF NOT EXISTS goals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  metric_key TEXT NOT NULL,
+  target_value NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE goals
+  ADD COLUMN IF NOT EXISTS start_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS start_date TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS target_date DATE,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'achieved', 'abandoned')),
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing goals started when they were created
+UPDATE goals SET start_date = created_at WHERE start_date IS NULL;
+ALTER TABLE goals ALTER COLUMN start_date SET DEFAULT NOW();
+
+-- metric_key is only unique among active goals now
+ALTER TABLE goals DROP CONSTRAINT IF EXISTS goals_metric_key_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_goals_active_metric ON goals(metric_key) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_goals_history ON goals(metric_key, completed_at DESC);
+
+-- Comment documentation
+COMMENT ON COLUMN goals.start_value IS 'Metric value when the goal was set, in the metric''s storage unit';
+COMMENT ON COLUMN goals.status IS 'active -> achieved | abandoned; archived goals are kept as history';
@@ -0,0 +1,27 @@
+-- Migration: Bodyspec appointments
+-- Description: Booked DEXA appointments fetched on each Bodyspec sync, used to show upcoming scans and to sync right after one
+
+CREATE TABLE IF NOT EXISTS bodyspec_appointments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES bodyspec_connections(id) ON DELETE CASCADE,
+  appt_id TEXT NOT NULL,  -- Bodyspec appointment ID
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER,
+  location TEXT,
+  service TEXT,
+  status TEXT NOT NULL,  -- As reported by Bodyspec (e.g. scheduled, completed, cancelled)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(connection_id, appt_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bodyspec_appointments_start_time ON bodyspec_appointments(start_time);
+
+CREATE TRIGGER update_bodyspec_appointments_updated_at
+  BEFORE UPDATE ON bodyspec_appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE bodyspec_appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all bodyspec_appointments" ON bodyspec_appointments FOR ALL USING (true);
@@ -0,0 +1,23 @@
+-- Migration: Sync run log
+-- Description: One row per integration sync attempt (cron, manual button or webhook) for the integrations health panel
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('strava', 'hevy', 'bodyspec', 'sleep')),
+  connection_id TEXT,  -- Connection row of the provider's table; NULL for webhooks without one
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual', 'webhook')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  items_fetched INTEGER NOT NULL DEFAULT 0,
+  items_inserted INTEGER NOT NULL DEFAULT 0,
+  items_updated INTEGER NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_provider ON sync_runs(provider, connection_id, started_at DESC);
+
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all sync_runs" ON sync_runs FOR ALL USING (true);
@@ -0,0 +1,25 @@
+-- Migration: Strava activity streams
+-- Description: Stores per-second streams for each running activity in their own table (kept out of
+-- the activity list queries) and the best efforts computed from them on running_activities
+
+ALTER TABLE running_activities
+ADD COLUMN IF NOT EXISTS best_efforts JSONB;
+
+COMMENT ON COLUMN running_activities.best_efforts IS 'Fastest elapsed seconds per milestone distance from the streams: {"1mi": 412.3, "5k": 1330.8, ...}';
+
+CREATE TABLE IF NOT EXISTS running_activity_streams (
+  activity_id UUID PRIMARY KEY REFERENCES running_activities(id) ON DELETE CASCADE,
+  point_count INTEGER NOT NULL,
+  data JSONB NOT NULL,  -- Columnar arrays: {time, distance, heartrate, cadence, altitude, velocity}
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_running_activity_streams_updated_at
+  BEFORE UPDATE ON running_activity_streams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE running_activity_streams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all running_activity_streams" ON running_activity_streams FOR ALL USING (true);
@@ -0,0 +1,15 @@
+-- Migration: Non-running Strava sports
+-- Description: Stores every Strava sport in running_activities with a sport discriminator. Existing rows
+-- are runs. Rides, swims and other sports from before this migration arrive on a full re-sync
+-- (POST /api/strava/sync with {"full": true}).
+
+ALTER TABLE running_activities
+ADD COLUMN IF NOT EXISTS sport TEXT NOT NULL DEFAULT 'run' CHECK (sport IN ('run', 'ride', 'swim', 'other')),
+ADD COLUMN IF NOT EXISTS sport_type TEXT,
+ADD COLUMN IF NOT EXISTS average_watts DECIMAL(6,1);
+
+COMMENT ON COLUMN running_activities.sport IS 'Sport group used for views and metrics: run, ride, swim or other';
+COMMENT ON COLUMN running_activities.sport_type IS 'Strava sport_type, e.g. TrailRun, GravelRide, Swim, Hike, Rowing';
+COMMENT ON COLUMN running_activities.average_watts IS 'Average power in watts (rides with a power meter, or Strava estimate)';
+
+CREATE INDEX IF NOT EXISTS idx_running_activities_sport ON running_activities(sport);
@@ -0,0 +1,8 @@
+-- Migration: Storage-backed pending images
+-- Description: Images uploaded to the bia-images bucket are queued by reference instead of inlining
+-- base64 in the row. Exactly one of data / storage_path is set on new rows.
+
+ALTER TABLE pending_images
+ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+COMMENT ON COLUMN pending_images.storage_path IS 'Object path in the bia-images bucket; null when the image is stored inline in data';